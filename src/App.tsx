@@ -13,9 +13,12 @@ import Home from './pages/Home';
 const Dashboard = React.lazy(() => import('./pages/Dashboard'));
 const MaterialManagement = React.lazy(() => import('./pages/MaterialManagement'));
 const SupplierManagement = React.lazy(() => import('./pages/SupplierManagement'));
+const LocationManagement = React.lazy(() => import('./pages/LocationManagement'));
 const InventoryManagement = React.lazy(() => import('./pages/InventoryManagement'));
 const BarcodeManagement = React.lazy(() => import('./pages/BarcodeManagement'));
+const BarcodeRegistry = React.lazy(() => import('./pages/BarcodeRegistry'));
 const LabelPrint = React.lazy(() => import('./pages/LabelPrint'));
+const LabelTemplates = React.lazy(() => import('./pages/LabelTemplates'));
 const Analytics = React.lazy(() => import('./pages/Analytics'));
 const UserManagement = React.lazy(() => import('./pages/UserManagement'));
 const Settings = React.lazy(() => import('./pages/Settings'));
@@ -67,8 +70,11 @@ function App() {
                   <Route path="/materials/:id" element={<MaterialDetail />} />
                   <Route path="/suppliers" element={<SupplierManagement />} />
                   <Route path="/batches" element={<InventoryManagement />} />
+                  <Route path="/locations" element={<LocationManagement />} />
                   <Route path="/barcodes" element={<BarcodeManagement />} />
+                  <Route path="/barcode-registry" element={<BarcodeRegistry />} />
                   <Route path="/label-print" element={<LabelPrint />} />
+                  <Route path="/label-templates" element={<LabelTemplates />} />
                   <Route path="/analytics" element={<Analytics />} />
                   <Route path="/users" element={<UserManagement />} />
                   <Route path="/settings" element={<Settings />} />
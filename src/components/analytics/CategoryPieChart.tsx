@@ -1,4 +1,4 @@
-﻿import React, { useMemo } from 'react';
+﻿import React, { useMemo, useState } from 'react';
 import { 
   PieChart, 
   Pie, 
@@ -9,6 +9,7 @@ import {
 } from 'recharts';
 import { Material, MaterialCategory } from '../../types/database';
 import { useTheme } from '../../hooks/useTheme';
+import { getCategoryDescendantIds, getChildCategories } from '../../utils/categoryTree';
 
 interface CategoryPieChartProps {
   materials: Material[];
@@ -17,8 +18,32 @@ interface CategoryPieChartProps {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
+interface SliceData {
+  id: string;
+  name: string;
+  value: number;
+  // 有下级分类时可点击下钻
+  drillable: boolean;
+}
+
 const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ materials, categories }) => {
   const { isDark } = useTheme();
+  // 当前下钻到的分类（null 为顶级）；分类被删除后自动回到顶级
+  const [drillId, setDrillId] = useState<string | null>(null);
+  const current = drillId ? categories.find(c => c.id === drillId) : undefined;
+
+  // 面包屑：顶级 -> ... -> 当前分类
+  const trail = useMemo(() => {
+    const path: MaterialCategory[] = [];
+    let node = current;
+    while (node && !path.includes(node)) {
+      path.unshift(node);
+      const parentId = node.parent_id;
+      node = parentId ? categories.find(c => c.id === parentId) : undefined;
+    }
+    return path;
+  }, [current, categories]);
+
   const data = useMemo(() => {
     const categoryCount = new Map<string, number>();
     
@@ -32,18 +57,47 @@ const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ materials, categori
       }
     });
 
-    // 转换为图表数据
-    return categories
-      .map(c => ({
-        name: c.name,
-        value: categoryCount.get(c.id) || 0
-      }))
-      .filter(item => item.value > 0); // 只显示有数据的分类
-  }, [materials, categories]);
+    // 当前层级的每个子分类汇总其全部下级的物料数
+    const slices: SliceData[] = getChildCategories(categories, current?.id ?? null).map(c => ({
+      id: c.id,
+      name: c.name,
+      value: getCategoryDescendantIds(categories, c.id).reduce((sum, id) => sum + (categoryCount.get(id) || 0), 0),
+      drillable: getChildCategories(categories, c.id).length > 0
+    }));
+
+    // 直接挂在当前分类上（未细分到子分类）的物料
+    if (current && categoryCount.get(current.id)) {
+      slices.push({ id: current.id, name: `${current.name}（未细分）`, value: categoryCount.get(current.id)!, drillable: false });
+    }
+
+    return slices.filter(item => item.value > 0); // 只显示有数据的分类
+  }, [materials, categories, current]);
 
   return (
     <div className="h-80 w-full bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 p-4 rounded-lg shadow-sm">
-      <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100 mb-4">物料分类分布</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">物料分类分布</h3>
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          <button
+            onClick={() => setDrillId(null)}
+            className={trail.length ? 'text-blue-600 hover:text-blue-800 dark:text-blue-400' : ''}
+          >
+            全部
+          </button>
+          {trail.map((c, index) => (
+            <span key={c.id}>
+              {' / '}
+              <button
+                onClick={() => setDrillId(c.id)}
+                disabled={index === trail.length - 1}
+                className={index === trail.length - 1 ? '' : 'text-blue-600 hover:text-blue-800 dark:text-blue-400'}
+              >
+                {c.name}
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
       <ResponsiveContainer width="100%" height="100%">
         <PieChart>
           <Pie
@@ -55,9 +109,18 @@ const CategoryPieChart: React.FC<CategoryPieChartProps> = ({ materials, categori
             outerRadius={80}
             fill="#8884d8"
             dataKey="value"
+            onClick={(_, index) => {
+              // 点击有下级的分类扇区进入下一层
+              const slice = data[index];
+              if (slice?.drillable) setDrillId(slice.id);
+            }}
           >
             {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+              <Cell
+                key={`cell-${index}`}
+                fill={COLORS[index % COLORS.length]}
+                cursor={entry.drillable ? 'pointer' : 'default'}
+              />
             ))}
           </Pie>
           <Tooltip
@@ -1,6 +1,17 @@
 ﻿import React, { useState, useEffect, useRef } from 'react';
 import { useMaterialStore } from '../../stores/materialStore';
 import { useBatchStore } from '../../stores/batchStore';
+import { useAuthStore } from '../../stores/authStore';
+import { useBarcodeStore } from '../../stores/barcodeStore';
+import { MaterialBatch } from '../../types/database';
+import { getStatusText } from '../../utils/statusHelpers';
+import { printBarcodeCanvas } from '../../utils/printBarcode';
+import {
+    BARCODE_SYMBOLOGIES,
+    BarcodeSymbology,
+    DEFAULT_BARCODE_SYMBOLOGY,
+    validateBarcodeValue
+} from '../../utils/barcodeSymbology';
 import BarcodeViewer from './BarcodeViewer';
 import {
     MagnifyingGlassIcon,
@@ -29,15 +40,19 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
         pageSize: batchPageSize,
         fetchBatches
     } = useBatchStore();
+    const { hasPermission } = useAuthStore();
+    const { registerBarcode } = useBarcodeStore();
 
     // Local state
     const [activeTab, setActiveTab] = useState<'material' | 'batch' | 'custom'>('material');
     const [searchQuery, setSearchQuery] = useState('');
-    const [selectedItem, setSelectedItem] = useState<{ type: 'material' | 'batch', id: string, code: string, name: string } | null>(null);
+    const [selectedItem, setSelectedItem] = useState<{ type: 'material' | 'batch', id: string, materialId: string, code: string, name: string, status?: MaterialBatch['status'] } | null>(null);
+    const [holdOverride, setHoldOverride] = useState(false);
     const [customCode, setCustomCode] = useState('');
 
     // Barcode config
     const [codeType, setCodeType] = useState<'barcode' | 'qrcode'>('barcode');
+    const [symbology, setSymbology] = useState<BarcodeSymbology>(DEFAULT_BARCODE_SYMBOLOGY);
     const [showValue, setShowValue] = useState(true);
 
     // Debounce search
@@ -85,6 +100,15 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
         return selectedItem?.code || '';
     };
 
+    // 说明：一维码按所选码制校验并补齐校验位；打印/下载/登记都使用规范化后的内容。
+    const validation = codeType === 'barcode' && getDisplayValue() ? validateBarcodeValue(symbology, getDisplayValue()) : null;
+    const invalidValue = !!validation && !validation.valid;
+    const getCodeValue = () => (validation?.valid ? validation.value : getDisplayValue());
+
+    // 说明：未经质检放行的批次不允许打印/下载标签，经理可越权。
+    const batchOnHold = activeTab !== 'custom' && selectedItem?.type === 'batch' && selectedItem.status !== 'available';
+    const printBlocked = batchOnHold && !holdOverride;
+
     // 说明：下载文件名需要规避 Windows 非法字符，避免保存失败或行为不一致。
     const sanitizeFilename = (name: string) => {
         const safe = name
@@ -95,77 +119,41 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
         return safe || 'barcode';
     };
 
-    const handlePrint = () => {
-        const value = getDisplayValue();
-        if (!value) return;
+    // 说明：生成/打印过的条码都登记到条码台账；自定义内容不关联物料。
+    const registerCurrent = (copies: number) => {
+        const value = getCodeValue();
+        return registerBarcode({
+            barcode: value,
+            barcode_type: codeType === 'barcode' ? symbology : 'qr_code',
+            material_id: activeTab === 'custom' ? null : selectedItem?.materialId,
+            batch_id: activeTab !== 'custom' && selectedItem?.type === 'batch' ? selectedItem.id : null,
+            copies,
+            source: 'generator',
+            override: batchOnHold && holdOverride
+        });
+    };
+
+    const handlePrint = async () => {
+        const value = getCodeValue();
+        if (!value || printBlocked || invalidValue) return;
 
         const canvas = previewRef.current?.querySelector('canvas') as HTMLCanvasElement | null;
         if (!canvas) return;
 
-        // 说明：使用 noopener/noreferrer，避免打印窗口意外获取 opener 引用导致的安全风险。
-        const printWindow = window.open('', '_blank', 'noopener,noreferrer');
-        if (!printWindow) return;
-
-        const dataUrl = canvas.toDataURL('image/png', 1.0);
-        // 说明：标签尺寸做近似（业务可根据实际打印机/标签纸再微调）。
-        const printWidth = codeType === 'barcode' ? 300 : 200;
-
-        const doc = printWindow.document;
-        // 说明：写入固定骨架，再通过 title/textContent 等设置动态内容，避免 XSS 注入。
-        doc.open();
-        doc.write('<!doctype html><html><head><meta charset="utf-8"></head><body></body></html>');
-        doc.close();
-
-        doc.title = `打印条码 - ${value}`;
-
-        const style = doc.createElement('style');
-        style.textContent = `
-            @page { size: auto; margin: 0; }
-            body {
-                display: flex;
-                flex-direction: column;
-                justify-content: center;
-                align-items: center;
-                height: 100vh;
-                margin: 0;
-            }
-            img { width: ${printWidth}px; max-width: 100%; }
-            .label { margin-top: 10px; font-family: sans-serif; font-size: 14px; }
-        `;
-        doc.head.appendChild(style);
-
-        const img = doc.createElement('img');
-        img.src = dataUrl;
-        img.alt = value;
-        doc.body.appendChild(img);
-
-        if (showValue && codeType === 'qrcode') {
-            const label = doc.createElement('div');
-            label.className = 'label';
-            label.textContent = value;
-            doc.body.appendChild(label);
-        }
-
-        // 说明：等待图片加载完成再触发打印，避免出现空白页。
-        img.onload = () => {
-            setTimeout(() => {
-                try {
-                    printWindow.focus();
-                    printWindow.print();
-                } finally {
-                    printWindow.close();
-                }
-            }, 200);
-        };
+        // 说明：先登记再打印/下载，已停用的条码会在登记时被拒绝。
+        if (!(await registerCurrent(1))) return;
+        printBarcodeCanvas(canvas, { value, codeType, showValue });
     };
 
-    const handleDownload = () => {
-        const value = getDisplayValue();
-        if (!value) return;
+    const handleDownload = async () => {
+        const value = getCodeValue();
+        if (!value || printBlocked || invalidValue) return;
 
         const canvas = previewRef.current?.querySelector('canvas') as HTMLCanvasElement | null;
         if (!canvas) return;
 
+        if (!(await registerCurrent(0))) return;
+
         const link = document.createElement('a');
         link.download = `barcode-${sanitizeFilename(value)}.png`;
         link.href = canvas.toDataURL('image/png', 1.0);
@@ -243,7 +231,7 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                                         materials.map((material) => (
                                             <tr
                                                 key={material.id}
-                                                onClick={() => setSelectedItem({ type: 'material', id: material.id, code: material.code, name: material.name })}
+                                                onClick={() => setSelectedItem({ type: 'material', id: material.id, materialId: material.id, code: material.code, name: material.name })}
                                                 className={`cursor-pointer hover:bg-blue-50 transition-colors ${selectedItem?.id === material.id ? 'bg-blue-100 ring-1 ring-inset ring-blue-500' : ''}`}
                                             >
                                                 <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{material.code}</td>
@@ -278,10 +266,18 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                                         batches.map((batch) => (
                                             <tr
                                                 key={batch.id}
-                                                onClick={() => setSelectedItem({ type: 'batch', id: batch.id, code: batch.batch_number, name: batch.material?.name || '未知物料' })}
+                                                onClick={() => {
+                                                    setSelectedItem({ type: 'batch', id: batch.id, materialId: batch.material_id, code: batch.batch_number, name: batch.material?.name || '未知物料', status: batch.status });
+                                                    setHoldOverride(false);
+                                                }}
                                                 className={`cursor-pointer hover:bg-blue-50 transition-colors ${selectedItem?.id === batch.id ? 'bg-blue-100 ring-1 ring-inset ring-blue-500' : ''}`}
                                             >
-                                                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{batch.batch_number}</td>
+                                                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                                                    {batch.batch_number}
+                                                    {batch.status !== 'available' && (
+                                                        <span className="ml-2 text-xs font-normal text-orange-600">{getStatusText(batch.status)}</span>
+                                                    )}
+                                                </td>
                                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-700">
                                                     <div className="flex flex-col">
                                                         <span>{batch.material?.name}</span>
@@ -385,18 +381,41 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                     </div>
                 )}
 
+                {batchOnHold && selectedItem?.status && (
+                    <div className="mb-4 bg-orange-50 border border-orange-200 p-3 rounded-md text-sm text-orange-800">
+                        <p>批次状态为“{getStatusText(selectedItem.status)}”，未经质检放行，不能打印标签</p>
+                        {hasPermission('override_batch_hold') ? (
+                            <label className="mt-2 flex items-center space-x-2 text-orange-900">
+                                <input
+                                    type="checkbox"
+                                    className="rounded text-orange-600 focus:ring-orange-500"
+                                    checked={holdOverride}
+                                    onChange={(e) => setHoldOverride(e.target.checked)}
+                                />
+                                <span>越权打印</span>
+                            </label>
+                        ) : (
+                            <p className="mt-1 text-xs text-orange-700">需管理员或经理越权打印</p>
+                        )}
+                    </div>
+                )}
+
                 {/* Preview Area */}
                 <div className="flex-1 flex flex-col items-center justify-center border-2 border-dashed border-gray-200 rounded-lg p-4 mb-6 bg-gray-50 min-h-[200px]">
                     {getDisplayValue() ? (
                         <>
                             <div ref={previewRef} className="bg-white p-4 rounded shadow-sm mb-4">
                                 <BarcodeViewer
-                                    value={getDisplayValue()}
+                                    value={getCodeValue()}
                                     type={codeType}
+                                    symbology={symbology}
                                     showValue={showValue}
                                 />
                             </div>
-                            <p className="text-sm text-gray-500 font-mono break-all text-center">{getDisplayValue()}</p>
+                            <p className="text-sm text-gray-500 font-mono break-all text-center">{getCodeValue()}</p>
+                            {validation?.checkDigitAdded && (
+                                <p className="mt-1 text-xs text-gray-500">已自动补齐校验位 {validation.value.slice(-1)}</p>
+                            )}
                         </>
                     ) : (
                         <div className="text-center text-gray-400">
@@ -427,6 +446,23 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                     </div>
 
                     {/* Options */}
+                    {codeType === 'barcode' && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">码制</label>
+                            <select
+                                value={symbology}
+                                onChange={(e) => setSymbology(e.target.value as BarcodeSymbology)}
+                                className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                            >
+                                {BARCODE_SYMBOLOGIES.map((s) => (
+                                    <option key={s.value} value={s.value}>{s.label}</option>
+                                ))}
+                            </select>
+                            <p className="mt-1 text-xs text-gray-500">
+                                {BARCODE_SYMBOLOGIES.find((s) => s.value === symbology)?.hint}
+                            </p>
+                        </div>
+                    )}
                     {codeType === 'barcode' && (
                         <label className="flex items-center space-x-2 text-sm text-gray-700">
                             <input
@@ -445,7 +481,7 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                     <div className="grid grid-cols-2 gap-4">
                         <button
                             onClick={handlePrint}
-                            disabled={!getDisplayValue()}
+                            disabled={!getDisplayValue() || printBlocked || invalidValue}
                             className="w-full inline-flex justify-center items-center px-4 py-2 border border-gray-300 shadow-sm text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <PrinterIcon className="-ml-1 mr-2 h-5 w-5 text-gray-500" />
@@ -453,7 +489,7 @@ const BarcodeGeneratorRedesigned: React.FC = () => {
                         </button>
                         <button
                             onClick={handleDownload}
-                            disabled={!getDisplayValue()}
+                            disabled={!getDisplayValue() || printBlocked || invalidValue}
                             className="w-full inline-flex justify-center items-center px-4 py-2 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <ArrowDownTrayIcon className="-ml-1 mr-2 h-5 w-5" />
@@ -0,0 +1,277 @@
+﻿import React, { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  CheckCircleIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  NoSymbolIcon,
+  PrinterIcon
+} from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useBarcodeStore, BarcodeFilters } from '@/stores/barcodeStore'
+import { useBatchStore } from '@/stores/batchStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { Barcode, BarcodePrintLog, Material, MaterialBatch } from '@/types/database'
+import { BARCODE_PRINT_SOURCE_TEXT, BARCODE_TYPE_TEXT } from '@/utils/statusHelpers'
+import Pagination from '@/components/common/Pagination'
+import BarcodeReprintModal from './BarcodeReprintModal'
+import LabelScanLookup from './LabelScanLookup'
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+const formatTime = (value?: string) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm') : '-')
+
+// 条码台账：已生成/打印的条码，按物料/批次筛选，可停用/启用、补打并查看打印记录
+const BarcodeRegistry: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { barcodes, totalCount, currentPage, pageSize, loading, fetchBarcodes, setBarcodeActive, getPrintLogs } =
+    useBarcodeStore()
+  const { getAllMaterials } = useMaterialStore()
+  const { getBatchesByMaterial } = useBatchStore()
+  const canWrite = hasPermission('write_barcodes')
+
+  const [filters, setFilters] = useState<BarcodeFilters>({})
+  const [materials, setMaterials] = useState<Material[]>([])
+  const [batches, setBatches] = useState<MaterialBatch[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [printLogs, setPrintLogs] = useState<BarcodePrintLog[]>([])
+  const [reprinting, setReprinting] = useState<Barcode | null>(null)
+
+  useEffect(() => {
+    getAllMaterials().then(setMaterials)
+  }, [getAllMaterials])
+
+  // 批次选项随物料变化
+  useEffect(() => {
+    if (!filters.material_id) {
+      setBatches([])
+      return
+    }
+    getBatchesByMaterial(filters.material_id).then(setBatches)
+  }, [filters.material_id, getBatchesByMaterial])
+
+  // 说明：搜索框输入防抖，其他筛选立即生效
+  useEffect(() => {
+    const timer = setTimeout(() => fetchBarcodes({ page: 1, filters }), filters.search ? 400 : 0)
+    return () => clearTimeout(timer)
+  }, [filters, fetchBarcodes])
+
+  const updateFilter = (patch: BarcodeFilters) => {
+    setFilters((prev) => ({ ...prev, ...patch }))
+    setExpandedId(null)
+  }
+
+  const toggleHistory = async (barcode: Barcode) => {
+    if (expandedId === barcode.id) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(barcode.id)
+    setPrintLogs([])
+    setPrintLogs(await getPrintLogs(barcode.id))
+  }
+
+  const refresh = async () => {
+    await fetchBarcodes()
+    if (expandedId) setPrintLogs(await getPrintLogs(expandedId))
+  }
+
+  const columnCount = canWrite ? 8 : 7
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">条码台账</h1>
+        <p className="mt-1 text-sm text-gray-500">条码生成、标签打印产生的条码均在此登记；停用的条码不能再打印</p>
+      </div>
+
+      <LabelScanLookup />
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b border-gray-200 flex flex-col lg:flex-row gap-3">
+          <input
+            type="text"
+            value={filters.search || ''}
+            onChange={(e) => updateFilter({ search: e.target.value })}
+            placeholder="搜索码值..."
+            className={`${inputClass} w-full lg:w-64`}
+          />
+          <select
+            value={filters.material_id || ''}
+            onChange={(e) => updateFilter({ material_id: e.target.value || undefined, batch_id: undefined })}
+            className={`${inputClass} w-full lg:w-64`}
+          >
+            <option value="">全部物料</option>
+            {materials.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.code} - {m.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.batch_id || ''}
+            onChange={(e) => updateFilter({ batch_id: e.target.value || undefined })}
+            disabled={!filters.material_id}
+            className={`${inputClass} w-full lg:w-56 disabled:bg-gray-100`}
+          >
+            <option value="">{filters.material_id ? '全部批次' : '请先选择物料'}</option>
+            {batches.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.batch_number}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.status || ''}
+            onChange={(e) => updateFilter({ status: e.target.value as BarcodeFilters['status'] })}
+            className={`${inputClass} w-full lg:w-32`}
+          >
+            <option value="">全部状态</option>
+            <option value="active">启用</option>
+            <option value="inactive">已停用</option>
+          </select>
+        </div>
+
+        {loading && barcodes.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+        ) : barcodes.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">暂无条码记录</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">码值</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">码制</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">物料</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">批次</th>
+                  <th className="px-6 py-3 text-right font-medium text-gray-500">打印次数</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">最后打印</th>
+                  <th className="px-6 py-3 text-left font-medium text-gray-500">状态</th>
+                  {canWrite && <th className="px-6 py-3 text-right font-medium text-gray-500">操作</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {barcodes.map((b) => (
+                  <React.Fragment key={b.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-3">
+                        <button
+                          onClick={() => toggleHistory(b)}
+                          className="flex items-center font-mono text-gray-900 hover:text-blue-600"
+                          title="查看打印记录"
+                        >
+                          {expandedId === b.id ? (
+                            <ChevronDownIcon className="w-4 h-4 mr-1 text-gray-400" />
+                          ) : (
+                            <ChevronRightIcon className="w-4 h-4 mr-1 text-gray-400" />
+                          )}
+                          {b.barcode}
+                        </button>
+                      </td>
+                      <td className="px-6 py-3 text-gray-700">{BARCODE_TYPE_TEXT[b.barcode_type] ?? b.barcode_type}</td>
+                      <td className="px-6 py-3 text-gray-700">
+                        {b.material ? `${b.material.code} - ${b.material.name}` : '自定义'}
+                      </td>
+                      <td className="px-6 py-3 text-gray-700">{b.batch?.batch_number || '-'}</td>
+                      <td className="px-6 py-3 text-right text-gray-700">{b.print_count || 0}</td>
+                      <td className="px-6 py-3 text-gray-700">{formatTime(b.last_printed_at)}</td>
+                      <td className="px-6 py-3">
+                        {b.is_active ? (
+                          <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            启用
+                          </span>
+                        ) : (
+                          <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                            已停用
+                          </span>
+                        )}
+                      </td>
+                      {canWrite && (
+                        <td className="px-6 py-3">
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => setReprinting(b)}
+                              disabled={!b.is_active}
+                              className="text-blue-600 hover:text-blue-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+                              title="补打"
+                            >
+                              <PrinterIcon className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setBarcodeActive(b.id, !b.is_active)}
+                              className={b.is_active ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}
+                              title={b.is_active ? '停用' : '启用'}
+                            >
+                              {b.is_active ? <NoSymbolIcon className="w-4 h-4" /> : <CheckCircleIcon className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                    {expandedId === b.id && (
+                      <tr>
+                        <td colSpan={columnCount} className="px-6 py-3 bg-gray-50">
+                          {printLogs.length === 0 ? (
+                            <p className="text-xs text-gray-500">
+                              暂无打印记录（生成于 {formatTime(b.created_at)}）
+                            </p>
+                          ) : (
+                            <table className="min-w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-500">
+                                  <th className="py-1 text-left font-medium">打印时间</th>
+                                  <th className="py-1 text-left font-medium">来源</th>
+                                  <th className="py-1 text-right font-medium">份数</th>
+                                  <th className="py-1 pl-6 text-left font-medium">操作人</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {printLogs.map((log) => (
+                                  <tr key={log.id} className="text-gray-700">
+                                    <td className="py-1">{formatTime(log.printed_at)}</td>
+                                    <td className="py-1">{BARCODE_PRINT_SOURCE_TEXT[log.source] ?? log.source}</td>
+                                    <td className="py-1 text-right">{log.copies}</td>
+                                    <td className="py-1 pl-6">{log.printed_by_name || '-'}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalCount > pageSize && (
+          <div className="p-4 border-t border-gray-200">
+            <Pagination
+              currentPage={currentPage}
+              totalPages={Math.ceil(totalCount / pageSize)}
+              onPageChange={(page) => fetchBarcodes({ page })}
+            />
+          </div>
+        )}
+      </div>
+
+      {reprinting && (
+        <BarcodeReprintModal
+          barcode={reprinting}
+          onClose={() => setReprinting(null)}
+          onPrinted={() => {
+            setReprinting(null)
+            refresh()
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+export default BarcodeRegistry
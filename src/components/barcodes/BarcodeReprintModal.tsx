@@ -0,0 +1,142 @@
+﻿import React, { useMemo, useRef, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { ExclamationTriangleIcon, PrinterIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useBarcodeStore } from '@/stores/barcodeStore'
+import { Barcode } from '@/types/database'
+import { BARCODE_TYPE_TEXT, getStatusText } from '@/utils/statusHelpers'
+import { printBarcodeCanvas } from '@/utils/printBarcode'
+import { parseGs1HumanReadable } from '@/utils/gs1'
+import BarcodeViewer from './BarcodeViewer'
+import Gs1Viewer from './Gs1Viewer'
+
+interface BarcodeReprintModalProps {
+  barcode: Barcode
+  onClose: () => void
+  onPrinted: () => void
+}
+
+// 条码台账补打：按登记的码值/码制重新渲染并打印，记一次 reprint
+const BarcodeReprintModal: React.FC<BarcodeReprintModalProps> = ({ barcode, onClose, onPrinted }) => {
+  const { hasPermission } = useAuthStore()
+  const { registerBarcode } = useBarcodeStore()
+  const previewRef = useRef<HTMLDivElement>(null)
+  const [holdOverride, setHoldOverride] = useState(false)
+  const [printing, setPrinting] = useState(false)
+
+  const isGs1 = barcode.barcode_type === 'gs1_128' || barcode.barcode_type === 'gs1_datamatrix'
+  // GS1 码登记的是人工识读文本，补打时还原为元素重新编码
+  const gs1Elements = useMemo(() => (isGs1 ? parseGs1HumanReadable(barcode.barcode) : []), [isGs1, barcode.barcode])
+  const codeType = barcode.barcode_type === 'qr_code' || barcode.barcode_type === 'gs1_datamatrix' ? 'qrcode' : 'barcode'
+  // 说明：与条码生成/标签打印一致，未放行批次的条码默认不允许补打，经理可越权
+  const batchOnHold = !!barcode.batch && barcode.batch.status !== 'available'
+  const canOverrideHold = hasPermission('override_batch_hold')
+  const printBlocked = !barcode.is_active || (batchOnHold && !holdOverride)
+
+  const handlePrint = async () => {
+    const canvas = previewRef.current?.querySelector('canvas') as HTMLCanvasElement | null
+    if (!canvas || printBlocked) return
+
+    setPrinting(true)
+    const registered = await registerBarcode({
+      barcode: barcode.barcode,
+      barcode_type: barcode.barcode_type,
+      material_id: barcode.material_id,
+      batch_id: barcode.batch_id,
+      data: barcode.data,
+      copies: 1,
+      source: 'reprint',
+      override: batchOnHold && holdOverride
+    })
+    setPrinting(false)
+    if (!registered) return
+
+    printBarcodeCanvas(canvas, { value: barcode.data || barcode.barcode, codeType })
+    onPrinted()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-md w-full">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">补打条码</Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-4">
+            <div className="text-sm text-gray-700 space-y-1">
+              <p>码值：<span className="font-mono">{barcode.barcode}</span></p>
+              <p>码制：{BARCODE_TYPE_TEXT[barcode.barcode_type] ?? barcode.barcode_type}</p>
+              {barcode.material && <p>物料：{barcode.material.name} ({barcode.material.code})</p>}
+              {barcode.batch && <p>批次：{barcode.batch.batch_number}</p>}
+              <p>已打印：{barcode.print_count || 0} 次</p>
+            </div>
+
+            <div ref={previewRef} className="border border-gray-200 rounded-lg p-4">
+              {barcode.barcode_type === 'gs1_128' || barcode.barcode_type === 'gs1_datamatrix' ? (
+                <Gs1Viewer elements={gs1Elements} symbol={barcode.barcode_type} />
+              ) : (
+                <BarcodeViewer
+                  value={barcode.data || barcode.barcode}
+                  type={codeType}
+                  symbology={barcode.barcode_type === 'qr_code' ? undefined : barcode.barcode_type}
+                />
+              )}
+            </div>
+
+            {!barcode.is_active && (
+              <p className="text-sm text-red-600">该条码已停用，启用后才能补打</p>
+            )}
+            {barcode.is_active && batchOnHold && (
+              <div className="flex items-start p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                <ExclamationTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+                <div>
+                  <p>批次状态为“{getStatusText(barcode.batch!.status)}”，未经质检放行。</p>
+                  {canOverrideHold ? (
+                    <label className="mt-2 flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={holdOverride}
+                        onChange={(e) => setHoldOverride(e.target.checked)}
+                        className="h-4 w-4 text-yellow-600 border-gray-300 rounded"
+                      />
+                      <span className="ml-2">越权打印</span>
+                    </label>
+                  ) : (
+                    <p className="mt-1">请联系经理放行后再打印。</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="button"
+                onClick={handlePrint}
+                disabled={printBlocked || printing}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <PrinterIcon className="w-5 h-5 mr-2" />
+                {printing ? '登记中...' : '打印'}
+              </button>
+            </div>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default BarcodeReprintModal
@@ -1,10 +1,18 @@
-﻿import React, { useEffect, useRef } from 'react';
+﻿import React, { useEffect, useMemo, useRef, useState } from 'react';
 import JsBarcode from 'jsbarcode';
 import QRCode from 'qrcode';
+import {
+  BarcodeSymbology,
+  DEFAULT_BARCODE_SYMBOLOGY,
+  getBarcodeFormat,
+  validateBarcodeValue
+} from '../../utils/barcodeSymbology';
 
 interface BarcodeViewerProps {
   value: string;
   type: 'barcode' | 'qrcode';
+  // 一维码码制，默认 Code 128；二维码忽略
+  symbology?: BarcodeSymbology;
   width?: number;
   height?: number;
   showValue?: boolean;
@@ -13,20 +21,30 @@ interface BarcodeViewerProps {
 const BarcodeViewer: React.FC<BarcodeViewerProps> = ({
   value,
   type,
+  symbology = DEFAULT_BARCODE_SYMBOLOGY,
   width = 2,
   height = 100,
   showValue = true
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [renderError, setRenderError] = useState('');
+
+  // 说明：一维码先按码制校验，不合法时直接显示错误，不再留一块空白画布
+  const validation = useMemo(
+    () => (type === 'barcode' && value ? validateBarcodeValue(symbology, value) : null),
+    [type, symbology, value]
+  );
+  const error = validation && !validation.valid ? validation.error : renderError;
 
   useEffect(() => {
-    if (!canvasRef.current || !value) return;
+    setRenderError('');
+    if (!canvasRef.current || !value || (validation && !validation.valid)) return;
 
     try {
       if (type === 'barcode') {
         const scale = 2; // Internal render scale for sharpness
-        JsBarcode(canvasRef.current, value, {
-          format: 'CODE128',
+        JsBarcode(canvasRef.current, validation?.value ?? value, {
+          format: getBarcodeFormat(symbology),
           width: width * scale,
           height: height * scale,
           displayValue: showValue,
@@ -52,15 +70,19 @@ const BarcodeViewer: React.FC<BarcodeViewerProps> = ({
       }
     } catch (error) {
       console.error('Barcode generation error:', error);
+      setRenderError('条码生成失败，请检查内容是否符合所选码制');
     }
-  }, [value, type, width, height, showValue]);
+  }, [value, type, symbology, validation, width, height, showValue]);
 
   return (
     <div className="flex justify-center items-center overflow-hidden w-full">
+      {error && <p className="p-4 text-sm text-red-600 text-center">{error}</p>}
       {/* Use CSS to scale down the high-res canvas to fit container if needed, maintaining aspect ratio */}
+      {/* 说明：出错时只隐藏画布而不卸载，修正内容后 effect 仍能拿到 canvas 重新绘制 */}
       <canvas
         ref={canvasRef}
         style={{
+          display: error ? 'none' : undefined,
           maxWidth: '100%',
           height: 'auto',
           maxHeight: '300px' // Prevent it from becoming too tall
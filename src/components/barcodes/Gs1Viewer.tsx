@@ -0,0 +1,41 @@
+﻿import React, { useEffect, useRef, useState } from 'react'
+import { Gs1Element } from '@/types/database'
+import { renderGs1128, renderGs1DataMatrix } from '@/utils/gs1'
+
+interface Gs1ViewerProps {
+  elements: Gs1Element[]
+  symbol: 'gs1_128' | 'gs1_datamatrix'
+}
+
+// GS1-128 / GS1 Data Matrix 预览（条码台账补打等场景）
+const Gs1Viewer: React.FC<Gs1ViewerProps> = ({ elements, symbol }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    setError('')
+    if (!canvasRef.current || elements.length === 0) return
+    try {
+      if (symbol === 'gs1_128') {
+        renderGs1128(canvasRef.current, elements, { width: 4, height: 160, fontSize: 28, margin: 20 })
+      } else {
+        renderGs1DataMatrix(canvasRef.current, elements, { moduleSize: 12, margin: 2 })
+      }
+    } catch (err) {
+      console.error('GS1 barcode generation error:', err)
+      setError((err as { message?: string })?.message || 'GS1 条码生成失败')
+    }
+  }, [elements, symbol])
+
+  return (
+    <div className="flex justify-center items-center overflow-hidden w-full">
+      {error && <p className="p-4 text-sm text-red-600 text-center">{error}</p>}
+      <canvas
+        ref={canvasRef}
+        style={{ display: error ? 'none' : undefined, maxWidth: '100%', height: 'auto', maxHeight: '300px' }}
+      />
+    </div>
+  )
+}
+
+export default Gs1Viewer
@@ -0,0 +1,206 @@
+﻿import React, { useEffect, useRef, useState } from 'react'
+import { ArrowUpTrayIcon, PhotoIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useScanStore, ScanResolution } from '@/stores/scanStore'
+import { BatchFormData } from '@/types/database'
+import { decodeImageFile, getImageBarcodeFormatLabel, ImageBarcodeResult } from '@/utils/imageBarcode'
+import { fromGs1Date, parseGs1ElementString, parseGs1HumanReadable } from '@/utils/gs1'
+import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+import BatchForm from '@/components/batches/BatchForm'
+
+// GS1 变长字段之间的分隔符（GS），显示时换成可见字符
+const GS = '\x1d'
+
+interface DecodedItem {
+  result: ImageBarcodeResult
+  resolution?: ScanResolution
+  error?: string
+}
+
+// 由识别结果拼出入库预填：物料取匹配到的物料（或已有批次/台账条码所属物料），
+// 标签码与 GS1 中携带的批号、有效期、数量一并带入；批号已存在时留空由系统生成新批号
+const buildInboundDraft = ({ text }: ImageBarcodeResult, resolution?: ScanResolution): Partial<BatchFormData> => {
+  const batch = resolution?.batches[0]
+  const draft: Partial<BatchFormData> = {
+    material_id: resolution?.materials[0]?.id ?? batch?.material_id ?? resolution?.barcodes[0]?.material_id ?? '',
+    supplier_id: batch?.supplier_id ?? null,
+    remarks: `送货标签图片识别：${text.split(GS).join(' ')}`
+  }
+
+  const payload = resolution?.label
+  const gs1 = text.startsWith('(') ? parseGs1HumanReadable(text) : parseGs1ElementString(text)
+  const ai = (id: string) => gs1.find((e) => e.ai === id)?.value
+
+  const lot = payload?.batch_number ?? ai('10')
+  if (lot && !resolution?.batches.some((b) => b.batch_number === lot)) draft.batch_number = lot
+  const expiry = payload?.expiry_date ?? fromGs1Date(ai('17') ?? '')
+  if (expiry) draft.expiry_date = expiry
+  const production = fromGs1Date(ai('11') ?? '')
+  if (production) draft.production_date = production
+  const quantity = payload?.quantity ?? Number(ai('37') || 0)
+  if (quantity > 0) draft.quantity = quantity
+  return draft
+}
+
+// 送货标签照片识别：上传/拖入图片，离线识别其中的一维码或二维码，
+// 按物料编码、物料多编码、批次号匹配后一键预填入库单
+const ImageBarcodeImport: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const canInbound = hasPermission('write_batches')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [previewUrl, setPreviewUrl] = useState('')
+  const [decoding, setDecoding] = useState(false)
+  const [message, setMessage] = useState('')
+  const [items, setItems] = useState<DecodedItem[]>([])
+  const [draft, setDraft] = useState<Partial<BatchFormData> | null>(null)
+  const [dragging, setDragging] = useState(false)
+
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl)
+  }, [previewUrl])
+
+  const handleFile = async (file?: File | null) => {
+    if (!file) return
+    setPreviewUrl(URL.createObjectURL(file))
+    setItems([])
+    setMessage('')
+    setDecoding(true)
+    try {
+      const results = await decodeImageFile(file)
+      if (!results.length) {
+        setMessage('未在图片中识别到条码：请确认条码完整、清晰且占画面比例不要太小')
+        return
+      }
+      const { resolveCode } = useScanStore.getState()
+      setItems(
+        await Promise.all(
+          results.map(async (result) => {
+            try {
+              return { result, resolution: await resolveCode(result.text) }
+            } catch (error) {
+              return { result, error: (error as { message?: string })?.message || '匹配失败' }
+            }
+          })
+        )
+      )
+    } catch (error) {
+      setMessage((error as { message?: string })?.message || '图片识别失败')
+    } finally {
+      setDecoding(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">送货标签识别</h2>
+          <p className="text-xs text-gray-500">上传供应商发来的标签照片，识别其中的条码/二维码并匹配物料与批次（在本机完成，不上传图片）</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e) => {
+            e.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault()
+            setDragging(false)
+            handleFile(e.dataTransfer.files[0])
+          }}
+          className={`md:w-64 h-40 flex-shrink-0 flex flex-col items-center justify-center border-2 border-dashed rounded-lg cursor-pointer overflow-hidden transition-colors ${
+            dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-400'
+          }`}
+        >
+          {previewUrl ? (
+            <img src={previewUrl} alt="标签照片" className="max-h-full max-w-full object-contain" />
+          ) : (
+            <>
+              <ArrowUpTrayIcon className="w-8 h-8 text-gray-400 mb-2" />
+              <p className="text-sm text-gray-600">点击选择或拖入图片</p>
+              <p className="text-xs text-gray-400">支持 Code 128/39、EAN/UPC、ITF、QR 码</p>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        <div className="flex-1 space-y-3 text-sm">
+          {decoding && <p className="text-gray-500">识别中...</p>}
+          {message && <p className="text-red-600">{message}</p>}
+          {!decoding && !message && items.length === 0 && (
+            <p className="flex items-center text-gray-400">
+              <PhotoIcon className="w-5 h-5 mr-1" />
+              尚未选择图片
+            </p>
+          )}
+
+          {items.map((item, index) => {
+            const { result, resolution, error } = item
+            const matched = !!resolution && (resolution.materials.length > 0 || resolution.batches.length > 0 || resolution.barcodes.length > 0)
+            return (
+              <div key={index} className="p-3 rounded-lg border border-gray-200 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <span className="inline-flex px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700 mr-2">
+                      {getImageBarcodeFormatLabel(result.format)}
+                    </span>
+                    <span className="font-mono text-gray-900 break-all">{result.text.split(GS).join('␝')}</span>
+                  </div>
+                  {canInbound && (
+                    <button
+                      onClick={() => setDraft(buildInboundDraft(result, resolution))}
+                      className="flex-shrink-0 px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      入库
+                    </button>
+                  )}
+                </div>
+
+                {error && <p className="text-red-600">{error}</p>}
+                {resolution && !matched && <p className="text-orange-600">未匹配到物料或批次，入库时需手动选择物料</p>}
+                {resolution?.materials.map((m) => (
+                  <p key={m.id} className="text-gray-700">物料：{m.code} · {m.name}</p>
+                ))}
+                {resolution?.batches.map((b) => (
+                  <p key={b.id} className="text-gray-700">
+                    已有批次：{b.batch_number} · {b.material?.name ?? '-'} · 剩余 {b.remaining_quantity}
+                    <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(b.status)}`}>
+                      {getStatusText(b.status)}
+                    </span>
+                  </p>
+                ))}
+                {resolution?.barcodes.map((b) => (
+                  <p key={b.id} className="text-gray-700">
+                    台账条码：{b.material?.name ?? '自定义内容'}{b.batch ? ` / ${b.batch.batch_number}` : ''}
+                  </p>
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+
+      {draft && (
+        <BatchForm
+          initialData={draft}
+          onClose={() => setDraft(null)}
+          onSuccess={() => setDraft(null)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ImageBarcodeImport
@@ -0,0 +1,129 @@
+﻿import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { QrCodeIcon } from '@heroicons/react/24/outline'
+import { useBarcodeStore, LabelScanResolution } from '@/stores/barcodeStore'
+import { BarcodePrintLog } from '@/types/database'
+import { formatLabelSequence } from '@/utils/labelSerial'
+import { BARCODE_PRINT_SOURCE_TEXT, getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+
+// 标签码解析：扫描（或粘贴）结构化标签二维码，定位到批次以及台账中的这张标签
+const LabelScanLookup: React.FC = () => {
+  const { resolveLabelScan, getPrintLogs } = useBarcodeStore()
+
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<LabelScanResolution | null>(null)
+  const [printLogs, setPrintLogs] = useState<BarcodePrintLog[]>([])
+  const [message, setMessage] = useState('')
+  const [resolving, setResolving] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const raw = code.trim()
+    if (!raw) return
+
+    setResolving(true)
+    setResult(null)
+    setPrintLogs([])
+    setMessage('')
+    try {
+      const resolved = await resolveLabelScan(raw)
+      if (!resolved) {
+        setMessage('不是结构化标签码，可在下方台账中按码值搜索')
+        return
+      }
+      setResult(resolved)
+      if (resolved.barcode) setPrintLogs(await getPrintLogs(resolved.barcode.id))
+      setCode('')
+    } catch (error) {
+      setMessage((error as { message?: string })?.message || '标签码解析失败')
+    } finally {
+      setResolving(false)
+    }
+  }
+
+  const { payload, batch, barcode, serial } = result ?? {}
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-4 space-y-3">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <QrCodeIcon className="w-5 h-5 text-gray-400" />
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="扫描标签二维码后回车，解析批次与标签"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={resolving || !code.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {resolving ? '解析中...' : '解析'}
+        </button>
+      </form>
+
+      {message && <p className="text-sm text-red-600">{message}</p>}
+
+      {payload && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div className="p-3 rounded-lg border border-gray-200 space-y-1">
+            <p className="font-medium text-gray-900">标签内容（v{payload.version}）</p>
+            <p className="text-gray-700">物料编码：{payload.material_code}</p>
+            <p className="text-gray-700">批次号：{payload.batch_number}</p>
+            <p className="text-gray-700">有效期：{payload.expiry_date || '-'}</p>
+            <p className="text-gray-700">数量：{payload.quantity ?? '-'}</p>
+            <p className="text-gray-700">
+              标签序号：{payload.serial || '-'}
+              {serial && <span className="text-gray-500">（第 {formatLabelSequence(serial.job_index, serial.job_total)} 张）</span>}
+            </p>
+          </div>
+
+          <div className="p-3 rounded-lg border border-gray-200 space-y-1">
+            <p className="font-medium text-gray-900">匹配结果</p>
+            {batch ? (
+              <>
+                <p className="text-gray-700">
+                  批次：{batch.material?.name ?? payload.material_code} / {batch.batch_number}
+                  <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(batch.status)}`}>
+                    {getStatusText(batch.status)}
+                  </span>
+                </p>
+                <p className="text-gray-700">剩余数量：{batch.remaining_quantity}</p>
+                {payload.expiry_date && batch.expiry_date && payload.expiry_date !== batch.expiry_date.slice(0, 10) && (
+                  <p className="text-orange-600">标签有效期与批次当前有效期（{batch.expiry_date.slice(0, 10)}）不一致</p>
+                )}
+              </>
+            ) : (
+              <p className="text-orange-600">系统中没有该物料的此批次</p>
+            )}
+            {serial?.status === 'void' && (
+              <p className="text-red-600">
+                该标签序号已于 {format(new Date(serial.voided_at!), 'yyyy-MM-dd HH:mm')} 作废：{serial.void_reason}
+                {serial.voided_by_name ? `（${serial.voided_by_name}）` : ''}
+              </p>
+            )}
+            {barcode ? (
+              <>
+                <p className="text-gray-700">
+                  标签登记于 {format(new Date(barcode.created_at), 'yyyy-MM-dd HH:mm')}，共打印 {barcode.print_count ?? 0} 张
+                  {!barcode.is_active && <span className="ml-2 text-red-600">（已停用）</span>}
+                </p>
+                {printLogs.slice(0, 5).map((log) => (
+                  <p key={log.id} className="text-xs text-gray-500">
+                    {format(new Date(log.printed_at), 'yyyy-MM-dd HH:mm')} · {BARCODE_PRINT_SOURCE_TEXT[log.source] ?? log.source} ·{' '}
+                    {log.copies} 张 · {log.printed_by_name || '-'}
+                  </p>
+                ))}
+              </>
+            ) : (
+              <p className="text-orange-600">条码台账中没有这张标签的打印记录</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LabelScanLookup
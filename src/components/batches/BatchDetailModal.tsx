@@ -1,10 +1,20 @@
-﻿import React from 'react'
+﻿import React, { useEffect, useState } from 'react'
 import { Dialog } from '@headlessui/react'
-import { XMarkIcon, CalendarIcon, MapPinIcon, UserIcon, DocumentTextIcon } from '@heroicons/react/24/outline'
-import { MaterialBatch } from '@/types/database'
+import { XMarkIcon, CalendarIcon, MapPinIcon, UserIcon, DocumentTextIcon, ClockIcon, ShieldCheckIcon, TagIcon } from '@heroicons/react/24/outline'
+import { BatchInspection, MaterialBatch, StockMovement } from '@/types/database'
 import { format } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
-import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+import {
+  getStatusBadgeColor,
+  getStatusText,
+  getMovementTypeBadgeColor,
+  getMovementTypeText,
+  getMovementReasonText,
+  INSPECTION_REASON_TEXT,
+  INSPECTION_RESULT_TEXT
+} from '@/utils/statusHelpers'
+import { useBatchStore } from '@/stores/batchStore'
+import LabelSerialList from '@/components/labels/LabelSerialList'
 
 interface BatchDetailModalProps {
   batch: MaterialBatch
@@ -14,6 +24,56 @@ interface BatchDetailModalProps {
 const BatchDetailModal: React.FC<BatchDetailModalProps> = ({ batch, onClose }) => {
   // 说明：remaining_quantity 表示批次当前库存；quantity 表示入库数量/初始数量。
   const remainingQty = batch.remaining_quantity ?? batch.quantity
+  const getBatchMovements = useBatchStore((s) => s.getBatchMovements)
+  const getBatchLineage = useBatchStore((s) => s.getBatchLineage)
+  const getBatchInspections = useBatchStore((s) => s.getBatchInspections)
+  const [inspections, setInspections] = useState<BatchInspection[]>([])
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [movementsLoading, setMovementsLoading] = useState(true)
+  const [parentBatch, setParentBatch] = useState<MaterialBatch | null>(null)
+  const [childBatches, setChildBatches] = useState<MaterialBatch[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    setMovementsLoading(true)
+    getBatchMovements(batch.id).then((rows) => {
+      if (cancelled) return
+      setMovements(rows)
+      setMovementsLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [batch.id, getBatchMovements])
+
+  useEffect(() => {
+    let cancelled = false
+    getBatchLineage(batch).then(({ parent, children }) => {
+      if (cancelled) return
+      setParentBatch(parent)
+      setChildBatches(children)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [batch, getBatchLineage])
+
+  useEffect(() => {
+    let cancelled = false
+    getBatchInspections(batch.id).then((rows) => {
+      if (!cancelled) setInspections(rows)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [batch.id, getBatchInspections])
+
+  // 调拨流水的关联批次只可能是来源批次或子批次
+  const relatedBatchNumber = (id?: string | null) => {
+    if (!id) return null
+    if (parentBatch?.id === id) return parentBatch.batch_number
+    return childBatches.find((b) => b.id === id)?.batch_number ?? null
+  }
 
   const isExpired = (expiryDate: string) => {
     return new Date(expiryDate) < new Date()
@@ -182,6 +242,24 @@ const BatchDetailModal: React.FC<BatchDetailModalProps> = ({ batch, onClose }) =
                   <label className="block text-sm font-medium text-gray-700 mb-1">存储位置</label>
                   <p className="text-sm text-gray-900">{batch.location || '-'}</p>
                 </div>
+                {parentBatch && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">来源批次</label>
+                    <p className="text-sm text-gray-900">{parentBatch.batch_number}（{parentBatch.location || '未指定库位'}）</p>
+                  </div>
+                )}
+                {childBatches.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">拆分出的批次</label>
+                    <ul className="text-sm text-gray-900 space-y-1">
+                      {childBatches.map((c) => (
+                        <li key={c.id}>
+                          {c.batch_number} · {c.location || '未指定库位'} · 剩余 {c.remaining_quantity ?? c.quantity}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
                 {batch.remarks && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">备注</label>
@@ -191,6 +269,101 @@ const BatchDetailModal: React.FC<BatchDetailModalProps> = ({ batch, onClose }) =
               </div>
             </div>
 
+            {/* Stock Movements */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <ClockIcon className="w-5 h-5 mr-2 text-gray-500" />
+                库存流水
+              </h3>
+              {movementsLoading ? (
+                <p className="text-sm text-gray-500">加载中...</p>
+              ) : movements.length === 0 ? (
+                <p className="text-sm text-gray-500">暂无库存流水</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">时间</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">类型</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">变动</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">结存</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">原因</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">单号</th>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">操作人</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {movements.map((m) => (
+                        <tr key={m.id}>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                            {format(new Date(m.created_at), 'yyyy-MM-dd HH:mm', { locale: zhCN })}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getMovementTypeBadgeColor(m.movement_type)}`}>
+                              {getMovementTypeText(m.movement_type)}
+                            </span>
+                          </td>
+                          <td className={`px-3 py-2 whitespace-nowrap text-right font-medium ${m.quantity >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {m.quantity > 0 ? `+${m.quantity}` : m.quantity}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-right text-gray-900">{m.balance_after}</td>
+                          <td className="px-3 py-2 text-gray-700">
+                            {getMovementReasonText(m.reason_code)}
+                            {m.reason && <span className="text-gray-500">（{m.reason}）</span>}
+                            {relatedBatchNumber(m.related_batch_id) && (
+                              <span className="text-purple-600"> {m.quantity < 0 ? '→' : '←'} {relatedBatchNumber(m.related_batch_id)}</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-700">{m.reference_no || '-'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-700">{m.operator_name || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Quality Inspections */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <ShieldCheckIcon className="w-5 h-5 mr-2 text-gray-500" />
+                质检记录
+              </h3>
+              {inspections.length === 0 ? (
+                <p className="text-sm text-gray-500">暂无质检记录</p>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {inspections.map((i) => (
+                    <li key={i.id} className="py-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className={i.result === 'pass' ? 'font-medium text-green-700' : 'font-medium text-red-700'}>
+                          {INSPECTION_RESULT_TEXT[i.result]}
+                          <span className="ml-2 font-normal text-gray-500">
+                            {INSPECTION_REASON_TEXT[i.reason_code] || i.reason_code} · {getStatusText(i.from_status)} → {getStatusText(i.to_status)}
+                          </span>
+                        </span>
+                        <span className="text-gray-500">
+                          {i.inspector_name || '-'} · {format(new Date(i.created_at), 'yyyy-MM-dd HH:mm', { locale: zhCN })}
+                        </span>
+                      </div>
+                      {i.notes && <p className="mt-1 text-gray-700 whitespace-pre-wrap">{i.notes}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Label Serials */}
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+                <TagIcon className="w-5 h-5 mr-2 text-gray-500" />
+                标签序号
+              </h3>
+              <LabelSerialList batchId={batch.id} />
+            </div>
+
             {/* Audit Information */}
             <div className="bg-gray-50 rounded-lg p-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
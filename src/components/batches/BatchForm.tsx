@@ -1,22 +1,32 @@
-﻿import React, { useState, useEffect } from 'react'
+﻿import React, { useState, useEffect, useMemo } from 'react'
 import { Dialog } from '@headlessui/react'
 import { XMarkIcon } from '@heroicons/react/24/outline'
 import { useBatchStore } from '@/stores/batchStore'
 import { useMaterialStore } from '@/stores/materialStore'
 import { useSupplierStore } from '@/stores/supplierStore'
+import { useLocationStore } from '@/stores/locationStore'
+import { useAuthStore } from '@/stores/authStore'
 import { BatchFormData, MaterialBatch } from '@/types/database'
 import SearchableSelect from '@/components/common/SearchableSelect'
+import UnitQuantityInput, { UnitEntry } from '@/components/materials/UnitQuantityInput'
+import { describeUnitEntry } from '@/utils/unitConversion'
 
 interface BatchFormProps {
   batch?: MaterialBatch | null
+  // 新建时预填的字段（如从送货标签照片识别出的物料、批号），编辑时忽略
+  initialData?: Partial<BatchFormData>
   onClose: () => void
   onSuccess: () => void
 }
 
-const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
-  const { createBatch, updateBatch } = useBatchStore()
+const BatchForm: React.FC<BatchFormProps> = ({ batch, initialData, onClose, onSuccess }) => {
+  const { createBatch, updateBatch, generateBatchNumber } = useBatchStore()
   const { materials, fetchMaterials } = useMaterialStore()
   const { suppliers, fetchSuppliers } = useSupplierStore()
+  const { locations, fetchLocations, getBinUsage, getLocationPath } = useLocationStore()
+  const { hasPermission } = useAuthStore()
+  // 说明：待检/锁定 -> 可用 只能由有放行权限的用户设置（数据库触发器同样会拦截）
+  const canSetAvailable = hasPermission('release_batches') || batch?.status === 'available'
 
   const [formData, setFormData] = useState<BatchFormData>({
     material_id: batch?.material_id || '',
@@ -25,18 +35,71 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
     production_date: batch?.production_date || '',
     expiry_date: batch?.expiry_date || '',
     supplier_id: batch?.supplier_id || null,
+    location_id: batch?.location_id || null,
     location: batch?.location || '',
     remarks: batch?.remarks || '',
-    status: batch?.status || 'pending'
+    status: batch?.status || 'pending',
+    ...(batch ? {} : initialData)
   })
 
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [submitting, setSubmitting] = useState(false)
+  const [binUsage, setBinUsage] = useState<Record<string, number>>({})
+  const [batchNumberPreview, setBatchNumberPreview] = useState('')
+  // 按包装单位/换算单位录入时的原始数量，保存时写入备注
+  const [unitEntry, setUnitEntry] = useState<UnitEntry | undefined>()
+
+  // 换物料后数量输入回到库存单位
+  useEffect(() => {
+    setUnitEntry(undefined)
+  }, [formData.material_id])
 
   useEffect(() => {
     fetchMaterials()
     fetchSuppliers()
-  }, [fetchMaterials, fetchSuppliers])
+    fetchLocations()
+    getBinUsage().then(setBinUsage)
+  }, [fetchMaterials, fetchSuppliers, fetchLocations, getBinUsage])
+
+  // 新建时批次号可留空由服务端生成；这里仅预览下一个号（不占用流水号，保存时可能因并发顺延）
+  useEffect(() => {
+    if (batch || !formData.material_id) {
+      setBatchNumberPreview('')
+      return
+    }
+    let cancelled = false
+    generateBatchNumber(formData.material_id, { supplierId: formData.supplier_id, preview: true })
+      .then((preview) => {
+        if (!cancelled) setBatchNumberPreview(preview)
+      })
+      .catch(() => {
+        if (!cancelled) setBatchNumberPreview('')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [batch, formData.material_id, formData.supplier_id, generateBatchNumber])
+
+  // 可选库位：仅库位（bin）且未冻结；编辑时保留批次当前所在库位
+  const binOptions = useMemo(() => [
+    { id: '', label: '不指定库位' },
+    ...locations
+      .filter((l) => l.type === 'bin' && (!l.is_blocked || l.id === batch?.location_id))
+      .map((l) => ({
+        id: l.id,
+        label: l.code,
+        subtitle: `${getLocationPath(l.id)}${l.capacity ? ` · 已用 ${binUsage[l.id] || 0} / ${l.capacity}` : ''}${l.is_blocked ? ' · 已冻结' : ''}`
+      }))
+  ], [locations, binUsage, batch?.location_id, getLocationPath])
+
+  // 容量提示：放入后超过库位容量时只提示不拦截（容量为经验值）
+  const selectedBin = locations.find((l) => l.id === formData.location_id)
+  const projectedUsage = selectedBin
+    ? (binUsage[selectedBin.id] || 0)
+      - (batch && batch.location_id === selectedBin.id ? (batch.remaining_quantity ?? batch.quantity) : 0)
+      + (batch ? (batch.remaining_quantity ?? batch.quantity) : formData.quantity)
+    : 0
+  const overCapacity = !!selectedBin?.capacity && projectedUsage > selectedBin.capacity
 
   const validateForm = (): boolean => {
     const newErrors: Record<string, string> = {}
@@ -45,7 +108,7 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
       newErrors.material_id = '请选择物料'
     }
 
-    if (!formData.batch_number) {
+    if (batch && !formData.batch_number) {
       newErrors.batch_number = '请输入批次号'
     }
 
@@ -74,11 +137,20 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
 
     try {
       let success = false
+      const stockUnitName = getMaterialById(formData.material_id)?.unit_obj?.name || ''
+      const payload: BatchFormData = unitEntry
+        ? {
+          ...formData,
+          remarks: [`按 ${describeUnitEntry(unitEntry.quantity, unitEntry.option, stockUnitName)} 录入`, formData.remarks]
+            .filter(Boolean)
+            .join('；')
+        }
+        : formData
 
       if (batch) {
-        success = await updateBatch(batch.id, formData)
+        success = await updateBatch(batch.id, payload)
       } else {
-        success = await createBatch(formData)
+        success = await createBatch(payload)
       }
 
       if (success) {
@@ -141,19 +213,24 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
             {/* Batch Number */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                批次号 <span className="text-red-500">*</span>
+                批次号 {batch && <span className="text-red-500">*</span>}
               </label>
               <input
                 type="text"
                 value={formData.batch_number}
                 onChange={(e) => handleInputChange('batch_number', e.target.value)}
-                placeholder="请输入批次号"
+                placeholder={batch ? '请输入批次号' : '留空则按系统模板自动生成'}
                 className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${errors.batch_number ? 'border-red-500' : 'border-gray-300'
                   }`}
               />
               {errors.batch_number && (
                 <p className="mt-1 text-sm text-red-600">{errors.batch_number}</p>
               )}
+              {!batch && !formData.batch_number && batchNumberPreview && (
+                <p className="mt-1 text-xs text-gray-500">
+                  预计批次号：<span className="font-mono">{batchNumberPreview}</span>
+                </p>
+              )}
             </div>
 
             {/* Quantity */}
@@ -161,18 +238,18 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 数量 <span className="text-red-500">*</span>
               </label>
-              <input
-                type="number"
-                min="0"
-                step="0.01"
+              <UnitQuantityInput
+                material={getMaterialById(formData.material_id)}
                 value={formData.quantity}
-                onChange={(e) => handleInputChange('quantity', parseFloat(e.target.value) || 0)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${errors.quantity ? 'border-red-500' : 'border-gray-300'
-                  }`}
+                onChange={(quantity, entry) => {
+                  handleInputChange('quantity', quantity)
+                  setUnitEntry(entry)
+                }}
+                hasError={!!errors.quantity}
               />
               {formData.material_id && (
                 <p className="mt-1 text-sm text-gray-500">
-                  单位: {getMaterialById(formData.material_id)?.unit_obj?.name || getMaterialById(formData.material_id)?.unit || '未知'}
+                  库存单位: {getMaterialById(formData.material_id)?.unit_obj?.name || getMaterialById(formData.material_id)?.unit || '未知'}
                 </p>
               )}
               {errors.quantity && (
@@ -232,16 +309,24 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
 
             {/* Location */}
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                存储位置
-              </label>
-              <input
-                type="text"
-                value={formData.location}
-                onChange={(e) => handleInputChange('location', e.target.value)}
-                placeholder="请输入存储位置"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              <SearchableSelect
+                label="存储库位"
+                value={formData.location_id || ''}
+                onChange={(value) => {
+                  const bin = locations.find((l) => l.id === value)
+                  setFormData(prev => ({ ...prev, location_id: bin?.id ?? null, location: bin?.code ?? '' }))
+                }}
+                options={binOptions}
+                placeholder="搜索库位编码..."
               />
+              {batch?.location && !batch.location_id && !formData.location_id && (
+                <p className="mt-1 text-sm text-orange-600">原位置“{batch.location}”未关联库位，请重新选择</p>
+              )}
+              {overCapacity && selectedBin && (
+                <p className="mt-1 text-sm text-orange-600">
+                  放入后库位占用 {projectedUsage}，超过容量 {selectedBin.capacity}
+                </p>
+              )}
             </div>
 
             {/* Status */}
@@ -255,11 +340,14 @@ const BatchForm: React.FC<BatchFormProps> = ({ batch, onClose, onSuccess }) => {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="pending">待入库</option>
-                <option value="available">可用</option>
+                <option value="available" disabled={!canSetAvailable}>可用</option>
                 <option value="locked">锁定</option>
                 <option value="expired">过期</option>
                 <option value="disposed">已处置</option>
               </select>
+              {!canSetAvailable && (
+                <p className="mt-1 text-xs text-gray-500">新批次需在批次列表中质检放行后才可用</p>
+              )}
             </div>
 
             {/* Remarks */}
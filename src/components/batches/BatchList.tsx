@@ -1,7 +1,8 @@
 ﻿import React, { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
 import { useBatchStore } from '@/stores/batchStore'
 import { useMaterialStore } from '@/stores/materialStore'
-import { MaterialBatch } from '@/types/database'
+import { BatchInspectionFormData, BatchTransferFormData, MaterialBatch, OutboundFormData } from '@/types/database'
 import {
   PencilIcon,
   TrashIcon,
@@ -10,18 +11,24 @@ import {
   MagnifyingGlassIcon,
   DocumentDuplicateIcon,
   ArrowDownTrayIcon,
-  ArrowUpTrayIcon
+  ArrowUpTrayIcon,
+  ArrowsRightLeftIcon,
+  ShieldCheckIcon,
+  PrinterIcon
 } from '@heroicons/react/24/outline'
 import { format } from 'date-fns'
 import { zhCN } from 'date-fns/locale'
 import BatchForm from './BatchForm'
 import BatchDetailModal from './BatchDetailModal'
 import OutboundModal from './OutboundModal'
+import TransferModal from './TransferModal'
+import InspectionModal from './InspectionModal'
 import ConfirmDialog from '@/components/common/ConfirmDialog'
 import Pagination from '@/components/common/Pagination'
 import { getStatusBadgeColor } from '@/utils/statusHelpers'
 import { exportToExcel, getDateSuffix } from '@/lib/exportUtils'
 import { useToast } from '@/components/common/Toast'
+import { useAuthStore } from '@/stores/authStore'
 
 const BatchList: React.FC = () => {
   const {
@@ -32,16 +39,22 @@ const BatchList: React.FC = () => {
     pageSize,
     searchQuery,
     selectedMaterialId,
+    filters,
     setSearchQuery,
     setSelectedMaterialId,
     setPagination,
+    setFilters,
     fetchBatches,
-    updateBatch,
+    outboundBatch: submitOutbound,
+    transferBatch,
+    inspectBatch,
     deleteBatch
   } = useBatchStore()
 
   const { materials, fetchMaterials } = useMaterialStore()
+  const { hasPermission } = useAuthStore()
   const { success, error: showError } = useToast()
+  const navigate = useNavigate()
 
   const [showForm, setShowForm] = useState(false)
   const [showDetail, setShowDetail] = useState(false)
@@ -51,7 +64,11 @@ const BatchList: React.FC = () => {
   const [selectedBatch, setSelectedBatch] = useState<MaterialBatch | null>(null)
   const [editingBatch, setEditingBatch] = useState<MaterialBatch | null>(null)
   const [outboundBatch, setOutboundBatch] = useState<MaterialBatch | null>(null)
+  const [transferringBatch, setTransferringBatch] = useState<MaterialBatch | null>(null)
+  const [inspectingBatch, setInspectingBatch] = useState<MaterialBatch | null>(null)
   const [isExporting, setIsExporting] = useState(false)
+  // 勾选的批次（翻页/筛选后保留），用于批量打印标签
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
 
   useEffect(() => {
     fetchMaterials()
@@ -60,7 +77,7 @@ const BatchList: React.FC = () => {
 
   useEffect(() => {
     fetchBatches()
-  }, [fetchBatches, currentPage, pageSize, searchQuery, selectedMaterialId])
+  }, [fetchBatches, currentPage, pageSize, searchQuery, selectedMaterialId, filters])
 
   const handleSearch = (query: string) => {
     setSearchQuery(query)
@@ -70,6 +87,10 @@ const BatchList: React.FC = () => {
     setSelectedMaterialId(materialId === 'all' ? null : materialId)
   }
 
+  const handleClearFilters = () => {
+    setFilters({})
+  }
+
   const handlePageChange = (page: number) => {
     setPagination(page, pageSize)
   }
@@ -103,35 +124,66 @@ const BatchList: React.FC = () => {
     setShowOutbound(true)
   }
 
-  const handleOutboundSubmit = async (quantity: number, reason: string) => {
+  const handleOutboundSubmit = async (data: OutboundFormData) => {
     if (!outboundBatch) return
 
-    // 说明：数据库里批次的“当前库存”字段为 remaining_quantity（quantity 表示入库数量/初始数量）。
-    const currentRemaining = outboundBatch.remaining_quantity ?? outboundBatch.quantity
-    const newRemaining = Math.max(0, currentRemaining - quantity)
-    const newRemarks = outboundBatch.remarks
-      ? `${outboundBatch.remarks}\n[${format(new Date(), 'yyyy-MM-dd HH:mm')}] 出库 ${quantity} (原因: ${reason || '无'})`
-      : `[${format(new Date(), 'yyyy-MM-dd HH:mm')}] 出库 ${quantity} (原因: ${reason || '无'})`
-
-    const ok = await updateBatch(outboundBatch.id, {
-      remaining_quantity: newRemaining,
-      remarks: newRemarks,
-      // 当前库存为 0 时，标记为“已处置”
-      status: newRemaining === 0 ? 'disposed' : outboundBatch.status
-    })
-
-    if (ok) {
-      success('出库成功')
-      fetchBatches()
-    } else {
-      showError('出库失败', '请重试')
+    // 说明：出库/报废通过 batchStore.outboundBatch 扣减 remaining_quantity 并写入库存流水
+    const ok = await submitOutbound(outboundBatch.id, data)
+    if (!ok) {
+      // 失败原因已由 store 提示；抛出让弹窗保持打开
       throw new Error('出库失败')
     }
   }
 
+  const handleTransferSubmit = async (data: BatchTransferFormData) => {
+    if (!transferringBatch) return
+
+    const moved = await transferBatch(transferringBatch.id, data)
+    if (!moved) {
+      throw new Error('调拨失败')
+    }
+  }
+
+  const handleInspectionSubmit = async (data: BatchInspectionFormData) => {
+    if (!inspectingBatch) return
+
+    const ok = await inspectBatch(inspectingBatch.id, data)
+    if (!ok) {
+      throw new Error('质检提交失败')
+    }
+  }
+
+  // 质检入口：待检/锁定批次可放行（经理），待检/可用批次可锁定
+  const canInspect = (batch: MaterialBatch) =>
+    (hasPermission('release_batches') && (batch.status === 'pending' || batch.status === 'locked')) ||
+    (hasPermission('hold_batches') && (batch.status === 'pending' || batch.status === 'available'))
+
+  // 出库入口：可用批次；待检/锁定批次仅对可越权的用户显示
+  const canOutbound = (batch: MaterialBatch) =>
+    (batch.remaining_quantity ?? batch.quantity) > 0 &&
+    (batch.status === 'available' ||
+      (hasPermission('override_batch_hold') && (batch.status === 'pending' || batch.status === 'locked')))
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  const pageIds = batches.map((b) => b.id)
+  const pageAllSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id))
+  const togglePageSelected = () => {
+    setSelectedIds((prev) =>
+      pageAllSelected ? prev.filter((id) => !pageIds.includes(id)) : [...prev, ...pageIds.filter((id) => !prev.includes(id))]
+    )
+  }
+
+  const handlePrintLabels = () => {
+    navigate(`/label-print?batches=${selectedIds.join(',')}`)
+  }
+
   const confirmDelete = async () => {
     if (selectedBatch) {
       await deleteBatch(selectedBatch.id)
+      setSelectedIds((prev) => prev.filter((id) => id !== selectedBatch.id))
       setShowDeleteConfirm(false)
       setSelectedBatch(null)
     }
@@ -209,6 +261,14 @@ const BatchList: React.FC = () => {
 
   const totalPages = Math.ceil(totalCount / pageSize)
 
+  // 来自库存概览下钻的附加筛选条件，以标签形式展示
+  const filterLabels = [
+    filters.status && `状态：${getStatusText(filters.status)}`,
+    filters.location && `位置：${filters.location}`,
+    (filters.expiry_start || filters.expiry_end) &&
+      `有效期：${filters.expiry_start || '...'} ~ ${filters.expiry_end || '...'}`
+  ].filter(Boolean) as string[]
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -218,6 +278,23 @@ const BatchList: React.FC = () => {
           <p className="text-gray-600 text-sm">查看和管理物料入库批次</p>
         </div>
         <div className="flex space-x-3">
+          {selectedIds.length > 0 && (
+            <>
+              <button
+                onClick={() => setSelectedIds([])}
+                className="inline-flex items-center px-3 py-2 text-gray-600 hover:text-gray-800 text-sm"
+              >
+                清除选择
+              </button>
+              <button
+                onClick={handlePrintLabels}
+                className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+              >
+                <PrinterIcon className="w-4 h-4 mr-2" />
+                打印标签 ({selectedIds.length})
+              </button>
+            </>
+          )}
           <button
             onClick={handleExport}
             disabled={isExporting || batches.length === 0}
@@ -269,6 +346,22 @@ const BatchList: React.FC = () => {
             </select>
           </div>
         </div>
+
+        {filterLabels.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            {filterLabels.map((label) => (
+              <span key={label} className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                {label}
+              </span>
+            ))}
+            <button
+              onClick={handleClearFilters}
+              className="text-xs text-gray-500 hover:text-gray-700 underline"
+            >
+              清除筛选
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Batch List */}
@@ -277,6 +370,15 @@ const BatchList: React.FC = () => {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-8">
+                  <input
+                    type="checkbox"
+                    checked={pageAllSelected}
+                    onChange={togglePageSelected}
+                    title="选择本页"
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   批次号/时间
                 </th>
@@ -300,7 +402,7 @@ const BatchList: React.FC = () => {
             <tbody className="bg-white divide-y divide-gray-200">
               {loading ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
                     <div className="flex justify-center items-center">
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
                       <span className="ml-2">加载中...</span>
@@ -309,7 +411,7 @@ const BatchList: React.FC = () => {
                 </tr>
               ) : batches.length === 0 ? (
                 <tr>
-                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
                     <div className="flex flex-col items-center">
                       <DocumentDuplicateIcon className="w-12 h-12 text-gray-300 mb-2" />
                       <p>暂无入库记录</p>
@@ -319,7 +421,15 @@ const BatchList: React.FC = () => {
                 </tr>
               ) : (
                 batches.map((batch) => (
-                  <tr key={batch.id} className="hover:bg-gray-50">
+                  <tr key={batch.id} className={selectedIds.includes(batch.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    <td className="pl-6 py-4 w-8">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(batch.id)}
+                        onChange={() => toggleSelected(batch.id)}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
                         {batch.batch_number}
@@ -360,7 +470,16 @@ const BatchList: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-3">
-                        {(batch.remaining_quantity ?? batch.quantity) > 0 && batch.status === 'available' && (
+                        {canInspect(batch) && (
+                          <button
+                            onClick={() => setInspectingBatch(batch)}
+                            className="text-teal-600 hover:text-teal-900"
+                            title="质检"
+                          >
+                            <ShieldCheckIcon className="w-4 h-4" />
+                          </button>
+                        )}
+                        {canOutbound(batch) && (
                           <button
                             onClick={() => handleOutboundClick(batch)}
                             className="text-orange-600 hover:text-orange-900 flex items-center"
@@ -370,6 +489,15 @@ const BatchList: React.FC = () => {
                             出库
                           </button>
                         )}
+                        {(batch.remaining_quantity ?? batch.quantity) > 0 && batch.status !== 'disposed' && (
+                          <button
+                            onClick={() => setTransferringBatch(batch)}
+                            className="text-purple-600 hover:text-purple-900"
+                            title="调拨"
+                          >
+                            <ArrowsRightLeftIcon className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => handleView(batch)}
                           className="text-blue-600 hover:text-blue-900"
@@ -442,6 +570,22 @@ const BatchList: React.FC = () => {
         />
       )}
 
+      {transferringBatch && (
+        <TransferModal
+          batch={transferringBatch}
+          onClose={() => setTransferringBatch(null)}
+          onConfirm={handleTransferSubmit}
+        />
+      )}
+
+      {inspectingBatch && (
+        <InspectionModal
+          batch={inspectingBatch}
+          onClose={() => setInspectingBatch(null)}
+          onConfirm={handleInspectionSubmit}
+        />
+      )}
+
       {showDeleteConfirm && selectedBatch && (
         <ConfirmDialog
           title="删除入库记录"
@@ -0,0 +1,177 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import {
+    BatchInspectionFormData,
+    BatchInspectionReason,
+    BatchInspectionResult,
+    MaterialBatch
+} from '@/types/database'
+import { getStatusText, INSPECTION_REASON_TEXT, INSPECTION_RESULT_TEXT } from '@/utils/statusHelpers'
+
+interface InspectionModalProps {
+    batch: MaterialBatch
+    onClose: () => void
+    onConfirm: (data: BatchInspectionFormData) => Promise<void>
+}
+
+const InspectionModal: React.FC<InspectionModalProps> = ({ batch, onClose, onConfirm }) => {
+    const { hasPermission } = useAuthStore()
+    const canRelease = hasPermission('release_batches') && batch.status !== 'available'
+
+    const [result, setResult] = useState<BatchInspectionResult>(canRelease ? 'pass' : 'fail')
+    const [reasonCode, setReasonCode] = useState<BatchInspectionReason>(batch.status === 'pending' ? 'incoming' : 'retest')
+    const [notes, setNotes] = useState('')
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState('')
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        // 说明：锁定批次时必须写明原因备注，便于后续复检/追溯
+        if (result === 'fail' && !notes.trim()) {
+            setError('锁定批次时请填写备注')
+            return
+        }
+
+        setSubmitting(true)
+        try {
+            await onConfirm({
+                result,
+                reason_code: reasonCode,
+                notes: notes.trim() || undefined,
+            })
+            onClose()
+        } catch (err) {
+            console.error(err)
+            setError('提交失败，请重试')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <Dialog open={true} onClose={onClose} className="relative z-50">
+            <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-md w-full">
+                    <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                        <Dialog.Title className="text-lg font-semibold text-gray-900">
+                            批次质检
+                        </Dialog.Title>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-600 transition-colors"
+                        >
+                            <XMarkIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                        <div className="bg-blue-50 p-3 rounded-md mb-4">
+                            <p className="text-sm text-blue-900 font-medium">当前操作批次</p>
+                            <div className="text-sm text-blue-700 mt-1">
+                                <p>批次号：{batch.batch_number}</p>
+                                <p>物料：{batch.material?.name} ({batch.material?.code})</p>
+                                <p>当前状态：<span className="font-bold">{getStatusText(batch.status)}</span></p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                检验结论
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                {(['pass', 'fail'] as BatchInspectionResult[]).map((r) => {
+                                    const disabled = r === 'pass' && !canRelease
+                                    return (
+                                        <button
+                                            key={r}
+                                            type="button"
+                                            disabled={disabled}
+                                            onClick={() => {
+                                                setResult(r)
+                                                setError('')
+                                            }}
+                                            className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                                result === r
+                                                    ? r === 'pass'
+                                                        ? 'border-green-500 bg-green-50 text-green-700'
+                                                        : 'border-red-500 bg-red-50 text-red-700'
+                                                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                                            }`}
+                                        >
+                                            {INSPECTION_RESULT_TEXT[r]}
+                                        </button>
+                                    )
+                                })}
+                            </div>
+                            {!hasPermission('release_batches') && (
+                                <p className="mt-1 text-xs text-gray-500">放行需管理员或经理操作</p>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                原因
+                            </label>
+                            <select
+                                value={reasonCode}
+                                onChange={(e) => setReasonCode(e.target.value as BatchInspectionReason)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            >
+                                {Object.entries(INSPECTION_REASON_TEXT).map(([code, text]) => (
+                                    <option key={code} value={code}>{text}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                备注 {result === 'fail' && <span className="text-red-500">*</span>}
+                            </label>
+                            <textarea
+                                value={notes}
+                                onChange={(e) => {
+                                    setNotes(e.target.value)
+                                    setError('')
+                                }}
+                                rows={3}
+                                placeholder="例如：检验报告编号、外观/包装情况"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            {error && (
+                                <p className="mt-1 text-sm text-red-600 flex items-center">
+                                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                                    {error}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="flex justify-end space-x-3 pt-4">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                取消
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={submitting}
+                                className={`px-4 py-2 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                                    result === 'pass' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                                }`}
+                            >
+                                {submitting ? '处理中...' : result === 'pass' ? '确认放行' : '确认锁定'}
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    )
+}
+
+export default InspectionModal
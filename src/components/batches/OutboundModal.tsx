@@ -1,19 +1,35 @@
 ﻿import React, { useState } from 'react'
 import { Dialog } from '@headlessui/react'
 import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
-import { MaterialBatch } from '@/types/database'
+import { useAuthStore } from '@/stores/authStore'
+import { MaterialBatch, OutboundFormData, StockMovementReason } from '@/types/database'
+import { getMovementReasonText, getStatusText, OUTBOUND_REASON_CODES } from '@/utils/statusHelpers'
+import { describeUnitEntry } from '@/utils/unitConversion'
+import UnitQuantityInput, { UnitEntry } from '@/components/materials/UnitQuantityInput'
 
 interface OutboundModalProps {
     batch: MaterialBatch
     onClose: () => void
-    onConfirm: (quantity: number, reason: string) => Promise<void>
+    onConfirm: (data: OutboundFormData) => Promise<void>
 }
 
 const OutboundModal: React.FC<OutboundModalProps> = ({ batch, onClose, onConfirm }) => {
+    const { hasPermission } = useAuthStore()
     const [quantity, setQuantity] = useState<number>(0)
+    // 按包装单位/换算单位录入时的原始数量，提交时写入备注
+    const [unitEntry, setUnitEntry] = useState<UnitEntry | undefined>()
+    const [movementType, setMovementType] = useState<OutboundFormData['movement_type']>('outbound')
+    const [reasonCode, setReasonCode] = useState<StockMovementReason>('requisition')
+    const [referenceNo, setReferenceNo] = useState('')
     const [reason, setReason] = useState('')
     const [submitting, setSubmitting] = useState(false)
     const [error, setError] = useState('')
+    const [override, setOverride] = useState(false)
+
+    // 待检/锁定批次未经质检放行，只有经理确认越权后才能出库
+    const onHold = batch.status === 'pending' || batch.status === 'locked'
+    const canOverride = hasPermission('override_batch_hold')
+    const blocked = onHold && !override
 
     // 说明：数据库里批次“当前库存”字段为 remaining_quantity；为兼容旧数据，这里做一次兜底。
     const currentRemaining = batch.remaining_quantity ?? batch.quantity
@@ -29,9 +45,20 @@ const OutboundModal: React.FC<OutboundModalProps> = ({ batch, onClose, onConfirm
             return
         }
 
+        const unitNote = unitEntry
+            ? `按 ${describeUnitEntry(unitEntry.quantity, unitEntry.option, batch.material?.unit_obj?.name || '')} 出库`
+            : ''
+
         setSubmitting(true)
         try {
-            await onConfirm(quantity, reason)
+            await onConfirm({
+                quantity,
+                movement_type: movementType,
+                reason_code: reasonCode,
+                reason: [unitNote, reason.trim()].filter(Boolean).join('；') || undefined,
+                reference_no: referenceNo.trim() || undefined,
+                override: onHold && override,
+            })
             onClose()
         } catch (err) {
             console.error(err)
@@ -69,21 +96,76 @@ const OutboundModal: React.FC<OutboundModalProps> = ({ batch, onClose, onConfirm
                             </div>
                         </div>
 
+                        {onHold && (
+                            <div className="bg-orange-50 border border-orange-200 p-3 rounded-md">
+                                <p className="text-sm text-orange-800 flex items-center">
+                                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                                    批次状态为“{getStatusText(batch.status)}”，未经质检放行
+                                </p>
+                                {canOverride ? (
+                                    <label className="mt-2 flex items-center text-sm text-orange-900">
+                                        <input
+                                            type="checkbox"
+                                            checked={override}
+                                            onChange={(e) => setOverride(e.target.checked)}
+                                            className="h-4 w-4 mr-2 text-orange-600 focus:ring-orange-500 border-gray-300 rounded"
+                                        />
+                                        越权出库（将记录在库存流水中）
+                                    </label>
+                                ) : (
+                                    <p className="mt-1 text-xs text-orange-700">需管理员或经理越权出库</p>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    出库类型
+                                </label>
+                                <select
+                                    value={movementType}
+                                    onChange={(e) => {
+                                        const next = e.target.value as OutboundFormData['movement_type']
+                                        setMovementType(next)
+                                        setReasonCode(OUTBOUND_REASON_CODES[next][0] as StockMovementReason)
+                                    }}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    <option value="outbound">出库</option>
+                                    <option value="scrap">报废</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">
+                                    原因
+                                </label>
+                                <select
+                                    value={reasonCode}
+                                    onChange={(e) => setReasonCode(e.target.value as StockMovementReason)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                >
+                                    {OUTBOUND_REASON_CODES[movementType].map((code) => (
+                                        <option key={code} value={code}>{getMovementReasonText(code)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                                 出库数量 <span className="text-red-500">*</span>
                             </label>
-                            <input
-                                type="number"
-                                min="0"
-                                step="0.01"
-                                max={currentRemaining}
+                            <UnitQuantityInput
+                                material={batch.material}
                                 value={quantity}
-                                onChange={(e) => {
-                                    setQuantity(parseFloat(e.target.value))
+                                max={currentRemaining}
+                                onChange={(next, entry) => {
+                                    setQuantity(next)
+                                    setUnitEntry(entry)
                                     setError('')
                                 }}
-                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                hasError={!!error}
                                 autoFocus
                             />
                             {error && (
@@ -96,7 +178,20 @@ const OutboundModal: React.FC<OutboundModalProps> = ({ batch, onClose, onConfirm
 
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
-                                出库原因/备注
+                                关联单号
+                            </label>
+                            <input
+                                type="text"
+                                value={referenceNo}
+                                onChange={(e) => setReferenceNo(e.target.value)}
+                                placeholder="例如：领料单号、销售单号"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                备注
                             </label>
                             <textarea
                                 value={reason}
@@ -117,10 +212,10 @@ const OutboundModal: React.FC<OutboundModalProps> = ({ batch, onClose, onConfirm
                             </button>
                             <button
                                 type="submit"
-                                disabled={submitting || quantity <= 0 || quantity > currentRemaining}
+                                disabled={submitting || blocked || quantity <= 0 || quantity > currentRemaining}
                                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                             >
-                                {submitting ? '处理中...' : '确认出库'}
+                                {submitting ? '处理中...' : movementType === 'scrap' ? '确认报废' : '确认出库'}
                             </button>
                         </div>
                     </form>
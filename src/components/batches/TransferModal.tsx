@@ -0,0 +1,188 @@
+﻿import React, { useEffect, useMemo, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { useLocationStore } from '@/stores/locationStore'
+import { BatchTransferFormData, MaterialBatch } from '@/types/database'
+import SearchableSelect from '@/components/common/SearchableSelect'
+
+interface TransferModalProps {
+    batch: MaterialBatch
+    onClose: () => void
+    onConfirm: (data: BatchTransferFormData) => Promise<void>
+}
+
+const TransferModal: React.FC<TransferModalProps> = ({ batch, onClose, onConfirm }) => {
+    const { locations, fetchLocations, getLocationPath } = useLocationStore()
+
+    const currentRemaining = batch.remaining_quantity ?? batch.quantity
+    const [locationId, setLocationId] = useState('')
+    const [quantity, setQuantity] = useState<number>(currentRemaining)
+    const [referenceNo, setReferenceNo] = useState('')
+    const [reason, setReason] = useState('')
+    const [submitting, setSubmitting] = useState(false)
+    const [error, setError] = useState('')
+
+    useEffect(() => {
+        fetchLocations()
+    }, [fetchLocations])
+
+    // 目标库位：未冻结的库位（bin），排除批次当前所在库位
+    const binOptions = useMemo(() => locations
+        .filter((l) => l.type === 'bin' && !l.is_blocked && l.id !== batch.location_id)
+        .map((l) => ({ id: l.id, label: l.code, subtitle: getLocationPath(l.id) })),
+    [locations, batch.location_id, getLocationPath])
+
+    const isPartial = quantity > 0 && quantity < currentRemaining
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        if (!locationId) {
+            setError('请选择目标库位')
+            return
+        }
+        if (!(quantity > 0)) {
+            setError('调拨数量必须大于0')
+            return
+        }
+        if (quantity > currentRemaining) {
+            setError('调拨数量不能大于当前库存')
+            return
+        }
+
+        setSubmitting(true)
+        try {
+            await onConfirm({
+                location_id: locationId,
+                quantity,
+                reason: reason.trim() || undefined,
+                reference_no: referenceNo.trim() || undefined,
+            })
+            onClose()
+        } catch (err) {
+            console.error(err)
+            setError('调拨失败，请重试')
+        } finally {
+            setSubmitting(false)
+        }
+    }
+
+    return (
+        <Dialog open={true} onClose={onClose} className="relative z-50">
+            <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+            <div className="fixed inset-0 flex items-center justify-center p-4">
+                <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-md w-full">
+                    <div className="flex items-center justify-between p-6 border-b border-gray-200">
+                        <Dialog.Title className="text-lg font-semibold text-gray-900">
+                            库位调拨
+                        </Dialog.Title>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-gray-600 transition-colors"
+                        >
+                            <XMarkIcon className="w-6 h-6" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                        <div className="bg-blue-50 p-3 rounded-md mb-4">
+                            <p className="text-sm text-blue-900 font-medium">当前操作批次</p>
+                            <div className="text-sm text-blue-700 mt-1">
+                                <p>批次号：{batch.batch_number}</p>
+                                <p>物料：{batch.material?.name} ({batch.material?.code})</p>
+                                <p>当前库位：{batch.location || '未指定'}</p>
+                                <p>当前库存：<span className="font-bold">{currentRemaining}</span> {batch.material?.unit_obj?.name}</p>
+                            </div>
+                        </div>
+
+                        <SearchableSelect
+                            label="目标库位"
+                            required
+                            value={locationId}
+                            onChange={(value) => {
+                                setLocationId(value)
+                                setError('')
+                            }}
+                            options={binOptions}
+                            placeholder="搜索库位编码..."
+                        />
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                调拨数量 <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                max={currentRemaining}
+                                value={quantity}
+                                onChange={(e) => {
+                                    setQuantity(parseFloat(e.target.value))
+                                    setError('')
+                                }}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">
+                                {isPartial
+                                    ? `部分调拨：将拆分出子批次 ${batch.batch_number}-NN，继承有效期与供应商`
+                                    : '整批调拨：批次整体移至目标库位'}
+                            </p>
+                            {error && (
+                                <p className="mt-1 text-sm text-red-600 flex items-center">
+                                    <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                                    {error}
+                                </p>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                关联单号
+                            </label>
+                            <input
+                                type="text"
+                                value={referenceNo}
+                                onChange={(e) => setReferenceNo(e.target.value)}
+                                placeholder="例如：移库单号"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                备注
+                            </label>
+                            <textarea
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                rows={2}
+                                placeholder="例如：补货到拣货位"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                        </div>
+
+                        <div className="flex justify-end space-x-3 pt-4">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                                取消
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={submitting || !locationId || !(quantity > 0) || quantity > currentRemaining}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                            >
+                                {submitting ? '处理中...' : '确认调拨'}
+                            </button>
+                        </div>
+                    </form>
+                </Dialog.Panel>
+            </div>
+        </Dialog>
+    )
+}
+
+export default TransferModal
@@ -0,0 +1,175 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMaterialStore } from '@/stores/materialStore'
+import { MaterialCategory, MaterialCategoryFormData } from '@/types/database'
+import { flattenCategoryTree, wouldCreateCycle } from '@/utils/categoryTree'
+
+interface CategoryFormProps {
+  category?: MaterialCategory | null
+  // 新建下级时预设的上级
+  parent?: MaterialCategory | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const CategoryForm: React.FC<CategoryFormProps> = ({ category, parent, onClose, onSuccess }) => {
+  const { categories, createCategory, updateCategory } = useMaterialStore()
+
+  const [formData, setFormData] = useState<MaterialCategoryFormData>({
+    code: category?.code || '',
+    name: category?.name || '',
+    parent_id: category?.parent_id ?? parent?.id ?? null,
+    description: category?.description || ''
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  // 编辑时排除自己及下级，避免选出环
+  const parentOptions = flattenCategoryTree(categories).filter(
+    ({ category: c }) => !category || !wouldCreateCycle(categories, category.id, c.id)
+  )
+
+  const handleChange = (field: keyof MaterialCategoryFormData, value: string | null) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {}
+    const code = formData.code.trim().toUpperCase()
+
+    if (!code) {
+      newErrors.code = '请输入编码'
+    } else if (code.length > 20) {
+      newErrors.code = '编码不能超过 20 个字符'
+    } else if (categories.some((c) => c.code === code && c.id !== category?.id)) {
+      newErrors.code = '编码已存在'
+    }
+    if (!formData.name.trim()) {
+      newErrors.name = '请输入名称'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+
+    // 说明：分类编码会拼进自动生成的物料编码，统一大写
+    const payload: MaterialCategoryFormData = {
+      ...formData,
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      parent_id: formData.parent_id || null
+    }
+
+    setSubmitting(true)
+    const ok = category ? await updateCategory(category.id, payload) : await createCategory(payload)
+    setSubmitting(false)
+    if (ok) onSuccess()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {category ? '编辑分类' : '新建分类'}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">上级分类</label>
+              <select
+                value={formData.parent_id || ''}
+                onChange={(e) => handleChange('parent_id', e.target.value || null)}
+                className={inputClass()}
+              >
+                <option value="">（顶级分类）</option>
+                {parentOptions.map(({ category: c, depth }) => (
+                  <option key={c.id} value={c.id}>
+                    {'　'.repeat(depth)}{c.code} - {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  编码 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => handleChange('code', e.target.value)}
+                  placeholder="例如：RAW-METAL"
+                  className={inputClass(!!errors.code)}
+                />
+                {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  名称 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className={inputClass(!!errors.name)}
+                />
+                {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">描述</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                rows={2}
+                className={inputClass()}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : category ? '更新' : '创建'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default CategoryForm
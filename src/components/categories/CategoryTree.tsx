@@ -0,0 +1,240 @@
+﻿import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { MaterialCategory } from '@/types/database'
+import { flattenCategoryTree, getCategoryDescendantIds, wouldCreateCycle } from '@/utils/categoryTree'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import CategoryForm from './CategoryForm'
+
+// 拖放目标：某个分类，或 null 表示顶级
+type DropTarget = string | null
+
+// 物料分类树：新建/编辑/删除，拖动分类到另一分类上即可调整上级
+const CategoryTree: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { categories, fetchCategories, getAllMaterials, updateCategory, deleteCategory } = useMaterialStore()
+  const canWrite = hasPermission('write_categories')
+
+  const [materialCounts, setMaterialCounts] = useState<Record<string, number>>({})
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [editing, setEditing] = useState<MaterialCategory | null>(null)
+  const [creatingUnder, setCreatingUnder] = useState<MaterialCategory | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<MaterialCategory | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | undefined>(undefined)
+
+  const load = useCallback(async () => {
+    await fetchCategories()
+    const counts: Record<string, number> = {}
+    ;(await getAllMaterials()).forEach((m) => {
+      if (m.category_id) counts[m.category_id] = (counts[m.category_id] || 0) + 1
+    })
+    setMaterialCounts(counts)
+  }, [fetchCategories, getAllMaterials])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const rows = useMemo(() => flattenCategoryTree(categories, collapsed), [categories, collapsed])
+
+  // 含下级分类的物料数
+  const totalCount = (id: string) =>
+    getCategoryDescendantIds(categories, id).reduce((sum, cid) => sum + (materialCounts[cid] || 0), 0)
+
+  const toggleCollapse = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const openCreate = (parent: MaterialCategory | null) => {
+    setEditing(null)
+    setCreatingUnder(parent)
+    setShowForm(true)
+  }
+
+  const openEdit = (category: MaterialCategory) => {
+    setEditing(category)
+    setCreatingUnder(null)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteCategory(deleting.id)
+    setDeleting(null)
+  }
+
+  // 说明：拖到自己或自己的下级上会形成环，这类目标不响应 dragover（浏览器显示禁止光标）
+  const canDropOn = (target: DropTarget) => {
+    if (!draggingId) return false
+    const dragging = categories.find((c) => c.id === draggingId)
+    if ((dragging?.parent_id ?? null) === target) return false
+    return !wouldCreateCycle(categories, draggingId, target)
+  }
+
+  const endDrag = () => {
+    setDraggingId(null)
+    setDropTarget(undefined)
+  }
+
+  const dragOver = (target: DropTarget) => (e: React.DragEvent) => {
+    if (!canDropOn(target)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setDropTarget(target)
+  }
+
+  const drop = (target: DropTarget) => async (e: React.DragEvent) => {
+    e.preventDefault()
+    const id = draggingId
+    endDrag()
+    if (id && canDropOn(target)) await updateCategory(id, { parent_id: target })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {canWrite
+            ? '拖动分类到另一分类上可调整上级；有下级分类或仍被物料使用的分类不能删除'
+            : '按分类筛选物料时会包含其全部下级分类'}
+        </p>
+        {canWrite && (
+          <button
+            onClick={() => openCreate(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            新建分类
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">暂无分类</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">编码 / 名称</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">描述</th>
+                <th className="px-6 py-3 text-right font-medium text-gray-500">物料数（含下级）</th>
+                {canWrite && <th className="px-6 py-3 text-right font-medium text-gray-500">操作</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ category: c, depth, hasChildren }) => (
+                <tr
+                  key={c.id}
+                  draggable={canWrite}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    setDraggingId(c.id)
+                  }}
+                  onDragEnd={endDrag}
+                  onDragOver={dragOver(c.id)}
+                  onDragLeave={() => setDropTarget(undefined)}
+                  onDrop={drop(c.id)}
+                  className={`${draggingId === c.id ? 'opacity-50' : ''} ${
+                    dropTarget === c.id ? 'bg-blue-50 outline outline-2 outline-blue-400' : 'hover:bg-gray-50'
+                  } ${canWrite ? 'cursor-move' : ''}`}
+                >
+                  <td className="px-6 py-3">
+                    <div className="flex items-center" style={{ paddingLeft: depth * 24 }}>
+                      {hasChildren ? (
+                        <button onClick={() => toggleCollapse(c.id)} className="mr-1 text-gray-400 hover:text-gray-600">
+                          {collapsed.has(c.id) ? (
+                            <ChevronRightIcon className="w-4 h-4" />
+                          ) : (
+                            <ChevronDownIcon className="w-4 h-4" />
+                          )}
+                        </button>
+                      ) : (
+                        <span className="w-5" />
+                      )}
+                      <div>
+                        <div className="font-medium text-gray-900">{c.code}</div>
+                        <div className="text-xs text-gray-500">{c.name}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-6 py-3 text-gray-700">{c.description || '-'}</td>
+                  <td className="px-6 py-3 text-right text-gray-700">
+                    {materialCounts[c.id] || 0}
+                    {hasChildren && <span className="text-gray-400">（{totalCount(c.id)}）</span>}
+                  </td>
+                  {canWrite && (
+                    <td className="px-6 py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button onClick={() => openCreate(c)} className="text-blue-600 hover:text-blue-800" title="新建下级分类">
+                          <PlusIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => openEdit(c)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setDeleting(c)} className="text-red-600 hover:text-red-800" title="删除">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {canWrite && draggingId && (
+          <div
+            onDragOver={dragOver(null)}
+            onDragLeave={() => setDropTarget(undefined)}
+            onDrop={drop(null)}
+            className={`m-4 p-4 border-2 border-dashed rounded-lg text-center text-sm ${
+              dropTarget === null ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+            }`}
+          >
+            拖到此处设为顶级分类
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <CategoryForm
+          category={editing}
+          parent={creatingUnder}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false)
+            load()
+          }}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="删除分类"
+          message={`确定要删除分类 "${deleting.code} - ${deleting.name}" 吗？有下级分类或仍被物料使用时无法删除。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default CategoryTree
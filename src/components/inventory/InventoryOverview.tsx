@@ -0,0 +1,296 @@
+﻿import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { addDays, format } from 'date-fns'
+import { ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { useBatchStore } from '@/stores/batchStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { BatchFilters, Material, MaterialBatch } from '@/types/database'
+import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+
+interface InventoryOverviewProps {
+  // 下钻后切换到批次列表
+  onDrillDown: () => void
+}
+
+const BATCH_STATUSES: MaterialBatch['status'][] = ['pending', 'available', 'locked', 'expired', 'disposed']
+const EXPIRY_WINDOWS = [7, 30, 90]
+const NO_LOCATION = '未设置位置'
+
+const remainingOf = (b: MaterialBatch) => b.remaining_quantity ?? b.quantity
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+interface MaterialRow {
+  material: Pick<Material, 'id' | 'code' | 'name' | 'min_stock' | 'max_stock'> & { unitName?: string }
+  batchCount: number
+  available: number
+  onHand: number
+}
+
+const InventoryOverview: React.FC<InventoryOverviewProps> = ({ onDrillDown }) => {
+  const { getAllBatches, setFilters, setSelectedMaterialId, setSearchQuery } = useBatchStore()
+  const { getAllMaterials } = useMaterialStore()
+
+  const [batches, setBatches] = useState<MaterialBatch[]>([])
+  const [materials, setMaterials] = useState<Material[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    const [batchRows, materialRows] = await Promise.all([getAllBatches(), getAllMaterials()])
+    setBatches(batchRows)
+    setMaterials(materialRows)
+    setLoading(false)
+  }, [getAllBatches, getAllMaterials])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const today = format(new Date(), 'yyyy-MM-dd')
+
+  const overview = useMemo(() => {
+    const statusStats = Object.fromEntries(BATCH_STATUSES.map((s) => [s, { count: 0, quantity: 0 }])) as Record<
+      string,
+      { count: number; quantity: number }
+    >
+    const byMaterial = new Map<string, MaterialRow>()
+    const byLocation = new Map<string, { batchCount: number; quantity: number }>()
+
+    // 说明：物料维度以 materials 全量为基准，确保“没有任何批次”的物料也能参与最小库存判断
+    materials.forEach((m) => {
+      byMaterial.set(m.id, {
+        material: { id: m.id, code: m.code, name: m.name, min_stock: m.min_stock, max_stock: m.max_stock, unitName: m.unit_obj?.name || m.unit },
+        batchCount: 0,
+        available: 0,
+        onHand: 0,
+      })
+    })
+
+    batches.forEach((b) => {
+      const qty = remainingOf(b)
+      const stat = statusStats[b.status]
+      if (stat) {
+        stat.count += 1
+        stat.quantity = round2(stat.quantity + qty)
+      }
+      if (b.status === 'disposed' || qty <= 0) return
+
+      const row = byMaterial.get(b.material_id)
+      if (row) {
+        row.batchCount += 1
+        row.onHand = round2(row.onHand + qty)
+        if (b.status === 'available') row.available = round2(row.available + qty)
+      }
+
+      const loc = b.location || NO_LOCATION
+      const locRow = byLocation.get(loc) ?? { batchCount: 0, quantity: 0 }
+      locRow.batchCount += 1
+      locRow.quantity = round2(locRow.quantity + qty)
+      byLocation.set(loc, locRow)
+    })
+
+    // 即将过期：仅统计“可用”批次，窗口为 [今天, 今天 + N 天]
+    const expiring = EXPIRY_WINDOWS.map((days) => {
+      const end = format(addDays(new Date(), days), 'yyyy-MM-dd')
+      const rows = batches.filter(
+        (b) => b.status === 'available' && remainingOf(b) > 0 && b.expiry_date && b.expiry_date >= today && b.expiry_date <= end
+      )
+      return {
+        days,
+        end,
+        count: rows.length,
+        quantity: round2(rows.reduce((sum, b) => sum + remainingOf(b), 0)),
+      }
+    })
+
+    const materialRows = Array.from(byMaterial.values())
+    const belowMin = materialRows.filter((r) => r.material.min_stock > 0 && r.available <= r.material.min_stock)
+    const aboveMax = materialRows.filter((r) => r.material.max_stock > 0 && r.available > r.material.max_stock)
+
+    return {
+      statusStats,
+      expiring,
+      belowMin,
+      aboveMax,
+      materialRows: materialRows.filter((r) => r.batchCount > 0).sort((a, b) => b.onHand - a.onHand),
+      locationRows: Array.from(byLocation.entries()).sort((a, b) => b[1].quantity - a[1].quantity),
+    }
+  }, [batches, materials, today])
+
+  const drillDown = (filters: BatchFilters, materialId: string | null = null) => {
+    setSearchQuery('')
+    setSelectedMaterialId(materialId)
+    setFilters(filters)
+    onDrillDown()
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-16 text-gray-500">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        <span className="ml-2">加载中...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-8">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-900">库存概览</h2>
+        <button
+          onClick={load}
+          className="inline-flex items-center px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm transition-colors"
+        >
+          <ArrowPathIcon className="w-4 h-4 mr-1" />
+          刷新
+        </button>
+      </div>
+
+      {/* 批次状态 */}
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-3">批次状态</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {BATCH_STATUSES.map((status) => (
+            <button
+              key={status}
+              onClick={() => drillDown({ status })}
+              className="text-left border border-gray-200 rounded-lg p-4 hover:shadow-md hover:border-blue-300 transition"
+            >
+              <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(status)}`}>
+                {getStatusText(status)}
+              </span>
+              <p className="mt-2 text-2xl font-bold text-gray-900">{overview.statusStats[status].count}</p>
+              <p className="text-xs text-gray-500">剩余数量 {overview.statusStats[status].quantity}</p>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {/* 即将过期 */}
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-3">即将过期（可用批次）</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {overview.expiring.map((w) => (
+            <button
+              key={w.days}
+              onClick={() => drillDown({ status: 'available', expiry_start: today, expiry_end: w.end })}
+              className={`text-left rounded-lg p-4 border transition hover:shadow-md ${
+                w.days === 7 && w.count > 0 ? 'bg-red-50 border-red-200' : w.days === 30 && w.count > 0 ? 'bg-orange-50 border-orange-200' : 'bg-yellow-50 border-yellow-200'
+              }`}
+            >
+              <p className="text-sm text-gray-600">{w.days} 天内</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{w.quantity}</p>
+              <p className="text-xs text-gray-500">{w.count} 个批次，截至 {w.end}</p>
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {/* 库存上下限 */}
+      <section>
+        <h3 className="text-sm font-medium text-gray-700 mb-3">库存上下限预警</h3>
+        {overview.belowMin.length === 0 && overview.aboveMax.length === 0 ? (
+          <p className="text-sm text-gray-500">所有物料库存均在上下限范围内</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">物料</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">预警</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">可用库存</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">最小 / 最大</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {[...overview.belowMin.map((r) => ({ r, low: true })), ...overview.aboveMax.map((r) => ({ r, low: false }))].map(({ r, low }) => (
+                <tr
+                  key={`${r.material.id}-${low ? 'min' : 'max'}`}
+                  onClick={() => drillDown({}, r.material.id)}
+                  className="hover:bg-gray-50 cursor-pointer"
+                >
+                  <td className="px-4 py-2 text-gray-900">{r.material.code} - {r.material.name}</td>
+                  <td className="px-4 py-2">
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${low ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}`}>
+                      <ExclamationTriangleIcon className="w-3 h-3 mr-1" />
+                      {low ? '低于最小库存' : '超过最大库存'}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-medium text-gray-900">{r.available} {r.material.unitName}</td>
+                  <td className="px-4 py-2 text-right text-gray-500">{r.material.min_stock} / {r.material.max_stock}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* 按物料汇总 */}
+        <section className="lg:col-span-2">
+          <h3 className="text-sm font-medium text-gray-700 mb-3">按物料汇总</h3>
+          <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">物料</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">批次数</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">可用</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">在库合计</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {overview.materialRows.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-gray-500">暂无库存</td>
+                </tr>
+              ) : (
+                overview.materialRows.map((r) => (
+                  <tr key={r.material.id} onClick={() => drillDown({}, r.material.id)} className="hover:bg-gray-50 cursor-pointer">
+                    <td className="px-4 py-2 text-gray-900">{r.material.code} - {r.material.name}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">{r.batchCount}</td>
+                    <td className="px-4 py-2 text-right text-green-700">{r.available}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">{r.onHand} {r.material.unitName}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        {/* 按位置汇总 */}
+        <section>
+          <h3 className="text-sm font-medium text-gray-700 mb-3">按存储位置汇总</h3>
+          <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">位置</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">批次数</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">数量</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {overview.locationRows.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-4 py-6 text-center text-gray-500">暂无库存</td>
+                </tr>
+              ) : (
+                overview.locationRows.map(([loc, row]) => (
+                  <tr
+                    key={loc}
+                    // 说明：未设置位置的批次无法按 location 精确筛选，不提供下钻
+                    onClick={loc === NO_LOCATION ? undefined : () => drillDown({ location: loc })}
+                    className={loc === NO_LOCATION ? '' : 'hover:bg-gray-50 cursor-pointer'}
+                  >
+                    <td className="px-4 py-2 text-gray-900">{loc}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">{row.batchCount}</td>
+                    <td className="px-4 py-2 text-right font-medium text-gray-900">{row.quantity}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  )
+}
+
+export default InventoryOverview
@@ -0,0 +1,329 @@
+﻿import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import { useBatchStore } from '@/stores/batchStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import {
+  MaterialBatch,
+  OutboundFormData,
+  OutboundStrategy,
+  StockMovementReason
+} from '@/types/database'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import SearchableSelect from '@/components/common/SearchableSelect'
+import UnitQuantityInput, { UnitEntry } from '@/components/materials/UnitQuantityInput'
+import {
+  allocateOutbound,
+  isBatchPickable,
+  isBatchScrappable,
+  sortBatchesForOutbound
+} from '@/utils/outboundAllocation'
+import {
+  getMovementReasonText,
+  getStatusBadgeColor,
+  getStatusText,
+  OUTBOUND_REASON_CODES
+} from '@/utils/statusHelpers'
+import { describeUnitEntry } from '@/utils/unitConversion'
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+// 按物料出库：根据 FEFO/FIFO 自动建议批次分配，允许人工调整后一次性提交
+const MaterialOutbound: React.FC = () => {
+  const { getBatchesByMaterial, outboundMaterial } = useBatchStore()
+  const { materials, fetchMaterials } = useMaterialStore()
+
+  const [materialId, setMaterialId] = useState('')
+  const [quantity, setQuantity] = useState<number>(0)
+  // 按包装单位/换算单位录入时的原始数量，提交时写入备注
+  const [unitEntry, setUnitEntry] = useState<UnitEntry | undefined>()
+  const [strategy, setStrategy] = useState<OutboundStrategy>('fefo')
+  const [batches, setBatches] = useState<MaterialBatch[]>([])
+  // 每个批次的出库数量（batch_id -> quantity），由策略生成后可人工修改
+  const [lines, setLines] = useState<Record<string, number>>({})
+  const [movementType, setMovementType] = useState<OutboundFormData['movement_type']>('outbound')
+  const [reasonCode, setReasonCode] = useState<StockMovementReason>('requisition')
+  const [referenceNo, setReferenceNo] = useState('')
+  const [reason, setReason] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  // 分配合计少于出库数量时，需要二次确认后才提交
+  const [confirmingPartial, setConfirmingPartial] = useState(false)
+
+  useEffect(() => {
+    fetchMaterials()
+  }, [fetchMaterials])
+
+  const loadBatches = useCallback(async () => {
+    setBatches(materialId ? await getBatchesByMaterial(materialId) : [])
+  }, [materialId, getBatchesByMaterial])
+
+  useEffect(() => {
+    loadBatches()
+  }, [loadBatches])
+
+  // 换物料后数量输入回到库存单位
+  useEffect(() => {
+    setUnitEntry(undefined)
+  }, [materialId])
+
+  // 报废允许处理过期批次，普通出库只取可用且未过期的批次
+  const canPick = movementType === 'scrap' ? isBatchScrappable : isBatchPickable
+  const pickable = useMemo(
+    () => sortBatchesForOutbound(batches.filter(canPick), strategy),
+    [batches, strategy, canPick]
+  )
+  const skippedCount = batches.filter((b) => !canPick(b) && (b.remaining_quantity ?? b.quantity) > 0).length
+  const availableTotal = pickable.reduce((sum, b) => sum + (b.remaining_quantity ?? b.quantity), 0)
+
+  // 数量、策略或出库类型变化时重新生成建议分配（会覆盖人工调整）
+  useEffect(() => {
+    const { allocations } = allocateOutbound(batches, quantity || 0, strategy, canPick)
+    setLines(Object.fromEntries(allocations.map((a) => [a.batch_id, a.quantity])))
+  }, [batches, quantity, strategy, canPick])
+
+  const allocatedTotal = Math.round(Object.values(lines).reduce((sum, q) => sum + (q || 0), 0) * 100) / 100
+  const shortfall = Math.max(0, Math.round(((quantity || 0) - availableTotal) * 100) / 100)
+  const underAllocated = quantity > 0 && allocatedTotal < quantity
+  const material = materials.find((m) => m.id === materialId)
+
+  const handleLineChange = (batch: MaterialBatch, value: number) => {
+    const remaining = batch.remaining_quantity ?? batch.quantity
+    const next = Math.min(Math.max(0, value || 0), remaining)
+    setLines((prev) => ({ ...prev, [batch.id]: next }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    // 库存不足时不允许按部分数量出库
+    if (!materialId || allocatedTotal <= 0 || shortfall > 0) return
+    if (underAllocated) {
+      setConfirmingPartial(true)
+      return
+    }
+    submit()
+  }
+
+  const submit = async () => {
+    setConfirmingPartial(false)
+    // 人工调整分配后合计可能与录入不一致，此时不再按包装单位留痕
+    const unitNote = unitEntry && allocatedTotal === quantity
+      ? `按 ${describeUnitEntry(unitEntry.quantity, unitEntry.option, material?.unit_obj?.name || '')} 出库`
+      : ''
+
+    setSubmitting(true)
+    const ok = await outboundMaterial(
+      materialId,
+      Object.entries(lines).map(([batch_id, qty]) => ({ batch_id, quantity: qty })),
+      {
+        movement_type: movementType,
+        reason_code: reasonCode,
+        reason: [unitNote, reason.trim()].filter(Boolean).join('；') || undefined,
+        reference_no: referenceNo.trim() || undefined,
+      }
+    )
+    setSubmitting(false)
+
+    if (ok) {
+      setQuantity(0)
+      setUnitEntry(undefined)
+      setReferenceNo('')
+      setReason('')
+      await loadBatches()
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <SearchableSelect
+          label="物料"
+          required
+          value={materialId}
+          onChange={setMaterialId}
+          options={materials.map((m) => ({ id: m.id, label: m.name, subtitle: m.code }))}
+          placeholder="选择出库物料"
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            出库数量 <span className="text-red-500">*</span>
+          </label>
+          <UnitQuantityInput
+            material={material}
+            value={quantity}
+            onChange={(next, entry) => {
+              setQuantity(next)
+              setUnitEntry(entry)
+            }}
+          />
+          {materialId && (
+            <p className="mt-1 text-xs text-gray-500">
+              可出库合计：{availableTotal} {material?.unit_obj?.name || material?.unit}
+            </p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">分配策略</label>
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as OutboundStrategy)}
+            className={inputClass}
+          >
+            <option value="fefo">先到期先出（FEFO）</option>
+            <option value="fifo">先进先出（FIFO）</option>
+          </select>
+        </div>
+      </div>
+
+      {materialId && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-900">批次分配</h3>
+            {skippedCount > 0 && (
+              <span className="text-xs text-gray-500">
+                已跳过 {skippedCount} 个{movementType === 'scrap' ? '锁定/待入库' : '锁定/过期/待入库'}批次
+              </span>
+            )}
+          </div>
+          {pickable.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">该物料没有可出库的批次</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">批次号</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">生产日期</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">有效期</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">状态</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">剩余</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">本次出库</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {pickable.map((b) => (
+                  <tr key={b.id} className={lines[b.id] ? 'bg-blue-50' : ''}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{b.batch_number}</td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {b.production_date ? format(new Date(b.production_date), 'yyyy-MM-dd') : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">
+                      {b.expiry_date ? format(new Date(b.expiry_date), 'yyyy-MM-dd') : '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(b.status)}`}>
+                        {getStatusText(b.status)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">{b.remaining_quantity ?? b.quantity}</td>
+                    <td className="px-4 py-2 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={b.remaining_quantity ?? b.quantity}
+                        value={lines[b.id] ?? 0}
+                        onChange={(e) => handleLineChange(b, parseFloat(e.target.value))}
+                        className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={5} className="px-4 py-2 text-right font-medium text-gray-700">合计</td>
+                  <td className="px-4 py-2 text-right font-bold text-gray-900">{allocatedTotal}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          {shortfall > 0 && (
+            <p className="mt-2 text-sm text-red-600 flex items-center">
+              <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+              可用库存不足，还差 {shortfall}，请调整出库数量后再提交
+            </p>
+          )}
+          {quantity > 0 && shortfall === 0 && allocatedTotal !== quantity && (
+            <p className="mt-2 text-sm text-orange-600 flex items-center">
+              <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+              已人工调整：分配合计 {allocatedTotal} 与出库数量 {quantity} 不一致，将按分配合计出库
+              {underAllocated && '（提交时需确认）'}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">出库类型</label>
+          <select
+            value={movementType}
+            onChange={(e) => {
+              const next = e.target.value as OutboundFormData['movement_type']
+              setMovementType(next)
+              setReasonCode(OUTBOUND_REASON_CODES[next][0] as StockMovementReason)
+            }}
+            className={inputClass}
+          >
+            <option value="outbound">出库</option>
+            <option value="scrap">报废</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">原因</label>
+          <select
+            value={reasonCode}
+            onChange={(e) => setReasonCode(e.target.value as StockMovementReason)}
+            className={inputClass}
+          >
+            {OUTBOUND_REASON_CODES[movementType].map((code) => (
+              <option key={code} value={code}>{getMovementReasonText(code)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">关联单号</label>
+          <input
+            type="text"
+            value={referenceNo}
+            onChange={(e) => setReferenceNo(e.target.value)}
+            placeholder="例如：领料单号、销售单号"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={submitting || !materialId || allocatedTotal <= 0 || shortfall > 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitting ? '处理中...' : movementType === 'scrap' ? `确认报废 ${allocatedTotal}` : `确认出库 ${allocatedTotal}`}
+        </button>
+      </div>
+
+      {confirmingPartial && (
+        <ConfirmDialog
+          title={movementType === 'scrap' ? '确认部分报废' : '确认部分出库'}
+          message={`分配合计 ${allocatedTotal} 少于录入的数量 ${quantity}，将只处理 ${allocatedTotal}，确定继续吗？`}
+          onConfirm={submit}
+          onCancel={() => setConfirmingPartial(false)}
+          variant="warning"
+        />
+      )}
+    </form>
+  )
+}
+
+export default MaterialOutbound
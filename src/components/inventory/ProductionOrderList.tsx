@@ -0,0 +1,159 @@
+﻿import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { format } from 'date-fns'
+import { ChevronDownIcon, ChevronRightIcon, PlusIcon, PrinterIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useProductionStore } from '@/stores/productionStore'
+import { ProductionOrderInput } from '@/types/database'
+import ProductionOrderModal from './ProductionOrderModal'
+
+interface ProductionOrderListProps {
+  // 从物料清单页跳转时直接打开生产入库并预选成品
+  initialMaterialId?: string
+}
+
+// 生产入库：生产单列表，展开可查看实际投料的组件批次，并可直接打印成品标签
+const ProductionOrderList: React.FC<ProductionOrderListProps> = ({ initialMaterialId }) => {
+  const { hasPermission } = useAuthStore()
+  const { orders, loading, fetchOrders, getOrderInputs } = useProductionStore()
+  const canWrite = hasPermission('write_production')
+
+  const [showCreate, setShowCreate] = useState(!!initialMaterialId && canWrite)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [inputs, setInputs] = useState<ProductionOrderInput[]>([])
+
+  useEffect(() => {
+    fetchOrders()
+  }, [fetchOrders])
+
+  const toggleExpand = async (orderId: string) => {
+    if (expandedId === orderId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(orderId)
+    setInputs(await getOrderInputs(orderId))
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          按物料清单（BOM）投料 → 扣减组件批次 → 生成成品批次 → 打印成品标签
+        </p>
+        {canWrite && (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            生产入库
+          </button>
+        )}
+      </div>
+
+      {loading && orders.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+      ) : orders.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">暂无生产单</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">生产单号</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">成品</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">数量</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">成品批次</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">操作人</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">时间</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">标签</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {orders.map((o) => (
+              <React.Fragment key={o.id}>
+                <tr onClick={() => toggleExpand(o.id)} className="hover:bg-gray-50 cursor-pointer">
+                  <td className="px-4 py-2 font-medium text-blue-600">
+                    <span className="inline-flex items-center">
+                      {expandedId === o.id ? (
+                        <ChevronDownIcon className="w-4 h-4 mr-1 text-gray-400" />
+                      ) : (
+                        <ChevronRightIcon className="w-4 h-4 mr-1 text-gray-400" />
+                      )}
+                      {o.order_no}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">
+                    {o.material?.code} · {o.material?.name}
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-700">
+                    {Number(o.quantity)} {o.material?.unit_obj?.name || o.material?.unit}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{o.batch_number}</td>
+                  <td className="px-4 py-2 text-gray-700">{o.created_by_name || '-'}</td>
+                  <td className="px-4 py-2 text-gray-700">{format(new Date(o.created_at), 'yyyy-MM-dd HH:mm')}</td>
+                  <td className="px-4 py-2 text-right">
+                    {o.batch_id ? (
+                      <Link
+                        to={`/label-print?material=${o.material_id}&batch=${o.batch_id}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="inline-flex text-blue-600 hover:text-blue-800"
+                        title="打印成品标签"
+                      >
+                        <PrinterIcon className="w-4 h-4" />
+                      </Link>
+                    ) : (
+                      <span className="text-xs text-gray-400">批次已删除</span>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === o.id && (
+                  <tr>
+                    <td colSpan={7} className="px-10 py-3 bg-gray-50">
+                      {inputs.length === 0 ? (
+                        <p className="text-xs text-gray-500">无投料记录</p>
+                      ) : (
+                        <table className="min-w-full text-xs">
+                          <thead>
+                            <tr className="text-gray-500">
+                              <th className="py-1 text-left font-medium">组件</th>
+                              <th className="py-1 text-left font-medium">投料批次</th>
+                              <th className="py-1 text-right font-medium">投料数量</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {inputs.map((i) => (
+                              <tr key={i.id} className="text-gray-700">
+                                <td className="py-1">{i.material?.code} · {i.material?.name}</td>
+                                <td className="py-1">
+                                  {i.batch_number}
+                                  {!i.batch_id && <span className="ml-1 text-gray-400">（已删除）</span>}
+                                </td>
+                                <td className="py-1 text-right">
+                                  {Number(i.quantity)} {i.material?.unit_obj?.name || i.material?.unit}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showCreate && (
+        <ProductionOrderModal
+          initialMaterialId={initialMaterialId}
+          onClose={() => setShowCreate(false)}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ProductionOrderList
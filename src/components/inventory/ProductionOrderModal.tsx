@@ -0,0 +1,333 @@
+﻿import React, { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Dialog } from '@headlessui/react'
+import { CheckCircleIcon, ExclamationTriangleIcon, PrinterIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import { useBatchStore } from '@/stores/batchStore'
+import { useLocationStore } from '@/stores/locationStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { getBomRequirement, useProductionStore } from '@/stores/productionStore'
+import { Material, MaterialBatch, ProductionOrder } from '@/types/database'
+import SearchableSelect from '@/components/common/SearchableSelect'
+import UnitQuantityInput from '@/components/materials/UnitQuantityInput'
+import { allocateOutbound, isBatchPickable, sortBatchesForOutbound } from '@/utils/outboundAllocation'
+import { roundQuantity } from '@/utils/unitConversion'
+
+interface ProductionOrderModalProps {
+  // 从物料清单页跳转时预选的成品
+  initialMaterialId?: string
+  onClose: () => void
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+// 生产入库：按 BOM 计算各组件需求，FEFO 建议投料批次（可在批次间调整，合计须与需求一致），提交后扣减组件并生成成品批次
+const ProductionOrderModal: React.FC<ProductionOrderModalProps> = ({ initialMaterialId, onClose }) => {
+  const { getAllMaterials } = useMaterialStore()
+  const { getBatchesByMaterial } = useBatchStore()
+  const { locations, fetchLocations, getLocationPath } = useLocationStore()
+  const { bomByMaterial, fetchBom, postProductionOrder } = useProductionStore()
+
+  const [allMaterials, setAllMaterials] = useState<Material[]>([])
+  const [materialId, setMaterialId] = useState(initialMaterialId || '')
+  const [quantity, setQuantity] = useState<number>(0)
+  const [productionDate, setProductionDate] = useState(new Date().toISOString().split('T')[0])
+  const [expiryDate, setExpiryDate] = useState('')
+  const [locationId, setLocationId] = useState('')
+  const [remarks, setRemarks] = useState('')
+  // component_material_id -> 该组件的批次
+  const [componentBatches, setComponentBatches] = useState<Record<string, MaterialBatch[]>>({})
+  // 每个投料批次的数量（batch_id -> quantity），由 FEFO 生成后可人工修改
+  const [lines, setLines] = useState<Record<string, number>>({})
+  const [submitting, setSubmitting] = useState(false)
+  const [posted, setPosted] = useState<ProductionOrder | null>(null)
+
+  useEffect(() => {
+    getAllMaterials().then(setAllMaterials)
+    fetchLocations()
+  }, [getAllMaterials, fetchLocations])
+
+  useEffect(() => {
+    if (materialId) fetchBom(materialId)
+  }, [materialId, fetchBom])
+
+  const material = allMaterials.find((m) => m.id === materialId)
+  const bom = useMemo(() => (materialId ? bomByMaterial[materialId] || [] : []), [materialId, bomByMaterial])
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all(bom.map(async (bi) => [bi.component_material_id, await getBatchesByMaterial(bi.component_material_id)] as const))
+      .then((entries) => {
+        if (!cancelled) setComponentBatches(Object.fromEntries(entries))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [bom, getBatchesByMaterial])
+
+  // 生产数量或批次变化时重新生成建议投料（会覆盖人工调整）
+  useEffect(() => {
+    const next: Record<string, number> = {}
+    bom.forEach((bi) => {
+      const { allocations } = allocateOutbound(
+        componentBatches[bi.component_material_id] || [],
+        getBomRequirement(bi, quantity),
+        'fefo'
+      )
+      allocations.forEach((a) => {
+        next[a.batch_id] = a.quantity
+      })
+    })
+    setLines(next)
+  }, [bom, componentBatches, quantity])
+
+  const components = bom.map((bi) => {
+    const pickable = sortBatchesForOutbound((componentBatches[bi.component_material_id] || []).filter(isBatchPickable), 'fefo')
+    const required = getBomRequirement(bi, quantity)
+    const available = roundQuantity(pickable.reduce((sum, b) => sum + (b.remaining_quantity ?? b.quantity), 0))
+    const allocated = roundQuantity(pickable.reduce((sum, b) => sum + (lines[b.id] || 0), 0))
+    return { item: bi, pickable, required, available, allocated }
+  })
+  const shortComponents = components.filter((c) => c.available < c.required)
+  const unallocated = components.filter((c) => c.allocated <= 0)
+  const mismatched = components.filter((c) => c.allocated > 0 && c.allocated !== c.required)
+
+  const binOptions = [
+    { id: '', label: '不指定库位' },
+    ...locations
+      .filter((l) => l.type === 'bin' && !l.is_blocked)
+      .map((l) => ({ id: l.id, label: l.code, subtitle: getLocationPath(l.id) }))
+  ]
+
+  const handleLineChange = (batch: MaterialBatch, value: number) => {
+    const remaining = batch.remaining_quantity ?? batch.quantity
+    setLines((prev) => ({ ...prev, [batch.id]: Math.min(Math.max(0, value || 0), remaining) }))
+  }
+
+  const canSubmit =
+    !!materialId &&
+    quantity > 0 &&
+    bom.length > 0 &&
+    unallocated.length === 0 &&
+    shortComponents.length === 0 &&
+    mismatched.length === 0
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSubmit) return
+
+    setSubmitting(true)
+    const order = await postProductionOrder({
+      material_id: materialId,
+      quantity,
+      inputs: Object.entries(lines).map(([batch_id, qty]) => ({ batch_id, quantity: qty })),
+      production_date: productionDate,
+      expiry_date: expiryDate || undefined,
+      location_id: locationId || null,
+      remarks: remarks.trim() || undefined
+    })
+    setSubmitting(false)
+
+    if (order) setPosted(order)
+  }
+
+  const unitOf = (m?: Material) => m?.unit_obj?.name || m?.unit || ''
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">生产入库</Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          {posted ? (
+            <div className="p-6 space-y-4">
+              <div className="flex items-start">
+                <CheckCircleIcon className="w-8 h-8 text-green-500 mr-3 flex-shrink-0" />
+                <div>
+                  <p className="font-medium text-gray-900">生产单 {posted.order_no} 已完成</p>
+                  <p className="mt-1 text-sm text-gray-600">
+                    成品批次 {posted.batch_number}，数量 {Number(posted.quantity)} {unitOf(material)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  完成
+                </button>
+                {posted.batch_id && (
+                  <Link
+                    to={`/label-print?material=${posted.material_id}&batch=${posted.batch_id}`}
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    <PrinterIcon className="w-5 h-5 mr-2" />
+                    打印成品标签
+                  </Link>
+                )}
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SearchableSelect
+                  label="成品"
+                  required
+                  value={materialId}
+                  onChange={setMaterialId}
+                  options={allMaterials.map((m) => ({
+                    id: m.id,
+                    label: m.name,
+                    subtitle: [m.code, m.category?.name].filter(Boolean).join(' · ')
+                  }))}
+                  placeholder="选择要生产的成品"
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    生产数量 <span className="text-red-500">*</span>
+                  </label>
+                  <UnitQuantityInput material={material} value={quantity} onChange={(next) => setQuantity(next)} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">生产日期</label>
+                  <input
+                    type="date"
+                    value={productionDate}
+                    onChange={(e) => setProductionDate(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">有效期至</label>
+                  <input
+                    type="date"
+                    value={expiryDate}
+                    min={productionDate}
+                    onChange={(e) => setExpiryDate(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <SearchableSelect
+                  label="存储库位"
+                  value={locationId}
+                  onChange={setLocationId}
+                  options={binOptions}
+                  placeholder="搜索库位编码..."
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+                  <input
+                    type="text"
+                    value={remarks}
+                    onChange={(e) => setRemarks(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {materialId && bom.length === 0 && (
+                <p className="text-sm text-orange-600 flex items-center">
+                  <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                  该物料未维护物料清单（BOM），请先在物料详情的“物料清单”中添加组件
+                </p>
+              )}
+
+              {components.map(({ item, pickable, required, available, allocated }) => (
+                <div key={item.id}>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-900">
+                      {item.component?.code} · {item.component?.name}
+                    </h3>
+                    <span className={`text-xs ${available < required ? 'text-red-600' : 'text-gray-500'}`}>
+                      需求 {required} / 已分配 {allocated} / 可用 {available} {unitOf(item.component)}
+                    </span>
+                  </div>
+                  {pickable.length === 0 ? (
+                    <p className="text-sm text-gray-500 py-2">该组件没有可投料的批次</p>
+                  ) : (
+                    <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">批次号</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">有效期</th>
+                          <th className="px-4 py-2 text-left font-medium text-gray-500">库位</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">剩余</th>
+                          <th className="px-4 py-2 text-right font-medium text-gray-500">本次投料</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {pickable.map((b) => (
+                          <tr key={b.id} className={lines[b.id] ? 'bg-blue-50' : ''}>
+                            <td className="px-4 py-2 font-medium text-gray-900">{b.batch_number}</td>
+                            <td className="px-4 py-2 text-gray-700">
+                              {b.expiry_date ? format(new Date(b.expiry_date), 'yyyy-MM-dd') : '-'}
+                            </td>
+                            <td className="px-4 py-2 text-gray-700">{b.location || '-'}</td>
+                            <td className="px-4 py-2 text-right text-gray-700">{b.remaining_quantity ?? b.quantity}</td>
+                            <td className="px-4 py-2 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                max={b.remaining_quantity ?? b.quantity}
+                                value={lines[b.id] ?? 0}
+                                onChange={(e) => handleLineChange(b, parseFloat(e.target.value))}
+                                className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                              />
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+
+              {quantity > 0 && shortComponents.length > 0 && (
+                <p className="text-sm text-red-600 flex items-center">
+                  <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                  可用库存不足：{shortComponents.map((c) => `${c.item.component?.code} 还差 ${roundQuantity(c.required - c.available)}`).join('；')}
+                </p>
+              )}
+              {quantity > 0 && shortComponents.length === 0 && mismatched.length > 0 && (
+                <p className="text-sm text-red-600 flex items-center">
+                  <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+                  投料合计与 BOM 需求不一致：{mismatched.map((c) => `${c.item.component?.code} 需 ${c.required}，已分配 ${c.allocated}`).join('；')}
+                </p>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  取消
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting || !canSubmit}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {submitting ? '处理中...' : '确认生产入库'}
+                </button>
+              </div>
+            </form>
+          )}
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default ProductionOrderModal
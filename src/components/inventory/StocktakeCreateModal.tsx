@@ -0,0 +1,204 @@
+﻿import React, { useEffect, useMemo, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useLocationStore } from '@/stores/locationStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { useStocktakeStore } from '@/stores/stocktakeStore'
+import { StorageLocation, Stocktake, StocktakeScope } from '@/types/database'
+import { LOCATION_TYPE_TEXT } from '@/utils/statusHelpers'
+
+interface StocktakeCreateModalProps {
+  onClose: () => void
+  onCreated: (stocktake: Stocktake) => void
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+// 新建盘点：选择范围后由数据库函数冻结范围内批次的账面数量
+const StocktakeCreateModal: React.FC<StocktakeCreateModalProps> = ({ onClose, onCreated }) => {
+  const { locations, fetchLocations } = useLocationStore()
+  const { categories, fetchCategories, getAllMaterials } = useMaterialStore()
+  const { createStocktake } = useStocktakeStore()
+
+  const [scopeType, setScopeType] = useState<StocktakeScope['type']>('location')
+  const [location, setLocation] = useState('')
+  const [categoryId, setCategoryId] = useState('')
+  const [materialIds, setMaterialIds] = useState<string[]>([])
+  const [materialSearch, setMaterialSearch] = useState('')
+  const [remarks, setRemarks] = useState('')
+  const [materials, setMaterials] = useState<{ id: string; code: string; name: string }[]>([])
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetchCategories()
+    fetchLocations()
+    getAllMaterials().then(setMaterials)
+  }, [fetchCategories, fetchLocations, getAllMaterials])
+
+  // 按 仓库 -> 库区 -> 库位 层级展开，选择上级时盘点其下所有库位
+  const locationOptions = useMemo(() => {
+    const children = new Map<string | null, StorageLocation[]>()
+    locations.forEach((l) => {
+      const key = l.parent_id ?? null
+      children.set(key, [...(children.get(key) || []), l])
+    })
+    const result: { location: StorageLocation; depth: number }[] = []
+    const walk = (parentId: string | null, depth: number) => {
+      ;(children.get(parentId) || []).forEach((l) => {
+        result.push({ location: l, depth })
+        walk(l.id, depth + 1)
+      })
+    }
+    walk(null, 0)
+    return result
+  }, [locations])
+
+  const filteredMaterials = useMemo(() => {
+    const q = materialSearch.trim().toLowerCase()
+    if (!q) return materials
+    return materials.filter((m) => m.code.toLowerCase().includes(q) || m.name.toLowerCase().includes(q))
+  }, [materials, materialSearch])
+
+  const scope: StocktakeScope | null =
+    scopeType === 'location'
+      ? location ? { type: 'location', location } : null
+      : scopeType === 'category'
+        ? categoryId ? { type: 'category', category_id: categoryId } : null
+        : materialIds.length ? { type: 'materials', material_ids: materialIds } : null
+
+  const toggleMaterial = (id: string) => {
+    setMaterialIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!scope) return
+
+    setSubmitting(true)
+    const created = await createStocktake(scope, remarks.trim() || undefined)
+    setSubmitting(false)
+    if (created) onCreated(created)
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">新建盘点</Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">盘点范围</label>
+              <select
+                value={scopeType}
+                onChange={(e) => setScopeType(e.target.value as StocktakeScope['type'])}
+                className={inputClass}
+              >
+                <option value="location">按库位</option>
+                <option value="category">按物料分类</option>
+                <option value="materials">指定物料</option>
+              </select>
+            </div>
+
+            {scopeType === 'location' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  库位 <span className="text-red-500">*</span>
+                </label>
+                <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputClass}>
+                  <option value="">请选择仓库/库区/库位</option>
+                  {locationOptions.map(({ location: l, depth }) => (
+                    <option key={l.id} value={l.code}>
+                      {'\u3000'.repeat(depth)}{LOCATION_TYPE_TEXT[l.type]}：{l.code} - {l.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">选择仓库或库区时，盘点其下所有库位中的批次</p>
+              </div>
+            )}
+
+            {scopeType === 'category' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  物料分类 <span className="text-red-500">*</span>
+                </label>
+                <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={inputClass}>
+                  <option value="">请选择分类</option>
+                  {categories.map((c) => (
+                    <option key={c.id} value={c.id}>{c.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {scopeType === 'materials' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  物料 <span className="text-red-500">*</span>
+                  <span className="ml-2 font-normal text-gray-500">已选 {materialIds.length} 个</span>
+                </label>
+                <input
+                  type="text"
+                  value={materialSearch}
+                  onChange={(e) => setMaterialSearch(e.target.value)}
+                  placeholder="按编码或名称筛选"
+                  className={`${inputClass} mb-2`}
+                />
+                <div className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                  {filteredMaterials.map((m) => (
+                    <label key={m.id} className="flex items-center px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={materialIds.includes(m.id)}
+                        onChange={() => toggleMaterial(m.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      <span className="text-gray-500 mr-2">{m.code}</span>
+                      <span className="text-gray-900">{m.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+              <input type="text" value={remarks} onChange={(e) => setRemarks(e.target.value)} className={inputClass} />
+            </div>
+
+            <p className="text-xs text-gray-500">
+              创建后将冻结范围内所有有库存批次（可用/锁定/过期）的账面数量；盘点期间若批次库存发生变动，审批过账会被拒绝。
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={!scope || submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '创建中...' : '冻结并开始盘点'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default StocktakeCreateModal
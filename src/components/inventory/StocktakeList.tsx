@@ -0,0 +1,104 @@
+﻿import React, { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { PlusIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { useStocktakeStore } from '@/stores/stocktakeStore'
+import { Stocktake } from '@/types/database'
+import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+import StocktakeCreateModal from './StocktakeCreateModal'
+import StocktakeSheet from './StocktakeSheet'
+
+// 库存盘点：盘点单列表 + 盘点表（录入/审批）
+const StocktakeList: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { categories, fetchCategories } = useMaterialStore()
+  const { stocktakes, loading, fetchStocktakes } = useStocktakeStore()
+
+  const [showCreate, setShowCreate] = useState(false)
+  const [selected, setSelected] = useState<Stocktake | null>(null)
+
+  useEffect(() => {
+    fetchStocktakes()
+    fetchCategories()
+  }, [fetchStocktakes, fetchCategories])
+
+  const describeScope = (stocktake: Stocktake) => {
+    const { scope } = stocktake
+    if (scope.type === 'location') return `库位：${scope.location}`
+    if (scope.type === 'category') {
+      return `分类：${categories.find((c) => c.id === scope.category_id)?.name ?? '-'}`
+    }
+    return `指定物料：${scope.material_ids?.length ?? 0} 个`
+  }
+
+  if (selected) {
+    return <StocktakeSheet stocktake={selected} scopeText={describeScope(selected)} onBack={() => setSelected(null)} />
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          冻结盘点范围 → 录入实盘数量 → 提交审批 → 经理审批后差异过账为库存调整
+        </p>
+        {hasPermission('write_batches') && (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            新建盘点
+          </button>
+        )}
+      </div>
+
+      {loading && stocktakes.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+      ) : stocktakes.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">暂无盘点单</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">盘点单号</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">范围</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">状态</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">创建人</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">创建时间</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">审批人</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {stocktakes.map((s) => (
+              <tr key={s.id} onClick={() => setSelected(s)} className="hover:bg-gray-50 cursor-pointer">
+                <td className="px-4 py-2 font-medium text-blue-600">{s.stocktake_no}</td>
+                <td className="px-4 py-2 text-gray-700">{describeScope(s)}</td>
+                <td className="px-4 py-2">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(s.status)}`}>
+                    {getStatusText(s.status)}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-gray-700">{s.created_by_name || '-'}</td>
+                <td className="px-4 py-2 text-gray-700">{format(new Date(s.created_at), 'yyyy-MM-dd HH:mm')}</td>
+                <td className="px-4 py-2 text-gray-700">{s.reviewed_by_name || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showCreate && (
+        <StocktakeCreateModal
+          onClose={() => setShowCreate(false)}
+          onCreated={(created) => {
+            setShowCreate(false)
+            setSelected(created)
+          }}
+        />
+      )}
+    </div>
+  )
+}
+
+export default StocktakeList
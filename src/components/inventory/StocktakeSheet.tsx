@@ -0,0 +1,378 @@
+﻿import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import {
+  ArrowDownTrayIcon,
+  ArrowLeftIcon,
+  CheckIcon,
+  QrCodeIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useStocktakeStore } from '@/stores/stocktakeStore'
+import { Stocktake, StocktakeItem } from '@/types/database'
+import { exportToExcel, getDateSuffix } from '@/lib/exportUtils'
+import { useToast } from '@/components/common/Toast'
+import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+import { decodeLabelPayload } from '@/utils/labelPayload'
+import { useScanHandler } from '@/hooks/useScanHandler'
+
+interface StocktakeSheetProps {
+  stocktake: Stocktake
+  scopeText: string
+  onBack: () => void
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// 差异 = 实盘 - 账面；未录入时为 null
+const varianceOf = (item: StocktakeItem): number | null =>
+  item.counted_quantity === null || item.counted_quantity === undefined
+    ? null
+    : round2(Number(item.counted_quantity) - Number(item.system_quantity))
+
+// 盘点表：逐批次录入实盘数量（支持扫码定位），提交后由经理审批过账
+const StocktakeSheet: React.FC<StocktakeSheetProps> = ({ stocktake, scopeText, onBack }) => {
+  const { hasPermission } = useAuthStore()
+  const { stocktakes, getStocktakeItems, updateItemCount, submitStocktake, cancelStocktake, reviewStocktake } =
+    useStocktakeStore()
+  const { success, error: showError } = useToast()
+
+  // 说明：状态流转后列表会刷新，这里始终取最新的盘点单
+  const current = stocktakes.find((s) => s.id === stocktake.id) ?? stocktake
+  const editable = current.status === 'counting' && hasPermission('write_batches')
+  const canReview = current.status === 'submitted' && hasPermission('approve_stocktakes')
+
+  const [items, setItems] = useState<StocktakeItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [scanCode, setScanCode] = useState('')
+  const [highlightId, setHighlightId] = useState<string | null>(null)
+  const [reviewComment, setReviewComment] = useState('')
+  const [busy, setBusy] = useState(false)
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({})
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setItems(await getStocktakeItems(stocktake.id))
+    setLoading(false)
+  }, [stocktake.id, getStocktakeItems])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const summary = useMemo(() => {
+    let counted = 0
+    let gain = 0
+    let loss = 0
+    items.forEach((item) => {
+      const v = varianceOf(item)
+      if (v === null) return
+      counted += 1
+      if (v > 0) gain += 1
+      if (v < 0) loss += 1
+    })
+    return { counted, gain, loss }
+  }, [items])
+
+  const patchItem = (id: string, patch: Partial<StocktakeItem>) => {
+    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, ...patch } : i)))
+  }
+
+  const handleCountBlur = async (item: StocktakeItem, raw: string) => {
+    const value = raw.trim() === '' ? null : Math.max(0, round2(parseFloat(raw) || 0))
+    if (value === (item.counted_quantity ?? null)) return
+    patchItem(item.id, { counted_quantity: value })
+    const ok = await updateItemCount(item.id, value)
+    if (!ok) patchItem(item.id, { counted_quantity: item.counted_quantity })
+  }
+
+  const handleRemarksBlur = async (item: StocktakeItem, raw: string) => {
+    if (raw === (item.remarks ?? '')) return
+    patchItem(item.id, { remarks: raw })
+    await updateItemCount(item.id, item.counted_quantity ?? null, raw)
+  }
+
+  // 扫码定位：结构化标签码按物料编码 + 批次号精确匹配；
+  // 其他条码内容等于批次号，或包含批次号（如 物料编码-批次号-时间戳），取匹配最长的批次
+  const locateScanned = (code: string) => {
+    const decoded = decodeLabelPayload(code)
+    if (decoded?.error) {
+      showError('标签码无法识别', decoded.error)
+      return
+    }
+    const match = decoded
+      ? items.find(
+          (i) => i.material_code === decoded.payload.material_code && i.batch_number === decoded.payload.batch_number
+        )
+      : items
+          .filter((i) => i.batch_number === code || code.includes(i.batch_number))
+          .sort((a, b) => b.batch_number.length - a.batch_number.length)[0]
+    if (!match) {
+      showError('未找到批次', `盘点范围内没有与“${code}”匹配的批次`)
+      return
+    }
+    setHighlightId(match.id)
+    const input = inputRefs.current[match.id]
+    input?.scrollIntoView({ block: 'center' })
+    input?.focus()
+    input?.select()
+  }
+
+  const handleScan = (e: React.FormEvent) => {
+    e.preventDefault()
+    const code = scanCode.trim()
+    if (!code) return
+    setScanCode('')
+    locateScanned(code)
+  }
+
+  // 扫码枪模式下，盘点录入期间的全局扫码直接定位到盘点行
+  useScanHandler((code) => {
+    locateScanned(code)
+    return true
+  }, editable)
+
+  const handleExport = async () => {
+    try {
+      const rows = items.map((item) => ({
+        ...item,
+        variance: varianceOf(item) ?? ''
+      }))
+      const filename = `盘点表_${current.stocktake_no}_${getDateSuffix()}`
+      await exportToExcel(rows, filename, '盘点表', {
+        location: '库位',
+        material_code: '物料编码',
+        material_name: '物料名称',
+        batch_number: '批次号',
+        unit: '单位',
+        system_quantity: '账面数量',
+        counted_quantity: '实盘数量',
+        variance: '差异',
+        remarks: '备注'
+      })
+      success('导出成功', `数据已导出到 ${filename}.xlsx`)
+    } catch (err: unknown) {
+      showError('导出失败', err instanceof Error ? err.message : '导出失败')
+    }
+  }
+
+  const runAction = async (action: () => Promise<boolean>) => {
+    setBusy(true)
+    const ok = await action()
+    setBusy(false)
+    if (ok) {
+      setReviewComment('')
+      await load()
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <button onClick={onBack} className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2">
+            <ArrowLeftIcon className="w-4 h-4 mr-1" />
+            返回盘点列表
+          </button>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            {current.stocktake_no}
+            <span className={`ml-3 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(current.status)}`}>
+              {getStatusText(current.status)}
+            </span>
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {scopeText} · {current.created_by_name || '-'} 创建于 {format(new Date(current.created_at), 'yyyy-MM-dd HH:mm')}
+            {current.remarks && ` · ${current.remarks}`}
+          </p>
+          {current.reviewed_at && (
+            <p className="mt-1 text-sm text-gray-500">
+              {current.status === 'posted' ? '审批通过' : '最近审批'}：{current.reviewed_by_name || '-'}（
+              {format(new Date(current.reviewed_at), 'yyyy-MM-dd HH:mm')}）
+              {current.review_comment && ` · ${current.review_comment}`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={items.length === 0}
+          className="flex items-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+        >
+          <ArrowDownTrayIcon className="w-5 h-5 mr-2" />
+          导出盘点表
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">批次数</p>
+          <p className="text-xl font-bold text-gray-900">{items.length}</p>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">已录入</p>
+          <p className="text-xl font-bold text-gray-900">{summary.counted}</p>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">盘盈批次</p>
+          <p className="text-xl font-bold text-green-600">{summary.gain}</p>
+        </div>
+        <div className="p-4 rounded-lg border border-gray-200">
+          <p className="text-sm text-gray-500">盘亏批次</p>
+          <p className="text-xl font-bold text-red-600">{summary.loss}</p>
+        </div>
+      </div>
+
+      {editable && (
+        <form onSubmit={handleScan} className="flex items-center gap-2">
+          <QrCodeIcon className="w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={scanCode}
+            onChange={(e) => setScanCode(e.target.value)}
+            placeholder="扫描批次条码或输入批次号后回车，定位到对应行"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </form>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">加载中...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">库位</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">物料</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">批次号</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">账面</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">实盘</th>
+                <th className="px-4 py-2 text-right font-medium text-gray-500">差异</th>
+                <th className="px-4 py-2 text-left font-medium text-gray-500">备注</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map((item) => {
+                const variance = varianceOf(item)
+                return (
+                  <tr key={item.id} className={highlightId === item.id ? 'bg-blue-50' : ''}>
+                    <td className="px-4 py-2 text-gray-700">{item.location || '-'}</td>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{item.material_name}</div>
+                      <div className="text-xs text-gray-500">{item.material_code}</div>
+                    </td>
+                    <td className="px-4 py-2 text-gray-900">
+                      {item.batch_number}
+                      {!item.batch_id && <span className="ml-1 text-xs text-red-600">（批次已删除）</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-700">
+                      {item.system_quantity} <span className="text-xs text-gray-500">{item.unit}</span>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {editable ? (
+                        <input
+                          ref={(el) => {
+                            inputRefs.current[item.id] = el
+                          }}
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          defaultValue={item.counted_quantity ?? ''}
+                          onBlur={(e) => handleCountBlur(item, e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') e.currentTarget.blur()
+                          }}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      ) : (
+                        <span className="text-gray-900">{item.counted_quantity ?? '-'}</span>
+                      )}
+                    </td>
+                    <td
+                      className={`px-4 py-2 text-right font-medium ${
+                        variance === null || variance === 0
+                          ? 'text-gray-500'
+                          : variance > 0
+                            ? 'text-green-600'
+                            : 'text-red-600'
+                      }`}
+                    >
+                      {variance === null ? '-' : variance > 0 ? `+${variance}` : variance}
+                    </td>
+                    <td className="px-4 py-2">
+                      {editable ? (
+                        <input
+                          type="text"
+                          defaultValue={item.remarks ?? ''}
+                          onBlur={(e) => handleRemarksBlur(item, e.target.value)}
+                          placeholder="差异原因"
+                          className="w-40 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      ) : (
+                        <span className="text-gray-700">{item.remarks || '-'}</span>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(editable || canReview || (current.status === 'submitted' && hasPermission('write_batches'))) && (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-3 border-t border-gray-200 pt-4">
+          {canReview && (
+            <input
+              type="text"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              placeholder="审批意见（驳回时建议填写）"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          )}
+          {hasPermission('write_batches') && (
+            <button
+              onClick={() => runAction(() => cancelStocktake(current.id))}
+              disabled={busy}
+              className="flex items-center justify-center px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition-colors"
+            >
+              取消盘点
+            </button>
+          )}
+          {editable && (
+            <button
+              onClick={() => runAction(() => submitStocktake(current.id))}
+              disabled={busy || summary.counted < items.length}
+              title={summary.counted < items.length ? '所有批次录入实盘数量后才能提交' : undefined}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              提交审批
+            </button>
+          )}
+          {canReview && (
+            <>
+              <button
+                onClick={() => runAction(() => reviewStocktake(current.id, false, reviewComment.trim()))}
+                disabled={busy}
+                className="flex items-center justify-center px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 transition-colors"
+              >
+                <XMarkIcon className="w-5 h-5 mr-1" />
+                驳回
+              </button>
+              <button
+                onClick={() => runAction(() => reviewStocktake(current.id, true, reviewComment.trim()))}
+                disabled={busy}
+                className="flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 transition-colors"
+              >
+                <CheckIcon className="w-5 h-5 mr-1" />
+                审批通过并过账
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StocktakeSheet
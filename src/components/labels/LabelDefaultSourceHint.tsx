@@ -0,0 +1,26 @@
+﻿import React from 'react'
+
+interface LabelDefaultSourceHintProps {
+  manual: boolean
+  // 默认值来源（物料/供应商/全局/批次），显示为“来源：xx默认”
+  sourceText: string
+  onReset: () => void
+}
+
+// 模板/张数旁的来源提示：手动修改后可一键恢复默认
+const LabelDefaultSourceHint: React.FC<LabelDefaultSourceHintProps> = ({ manual, sourceText, onReset }) => (
+  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+    {manual ? (
+      <>
+        手动选择
+        <button type="button" onClick={onReset} className="ml-2 text-blue-600 hover:text-blue-700 dark:text-blue-400">
+          恢复默认
+        </button>
+      </>
+    ) : (
+      `来源：${sourceText}默认`
+    )}
+  </p>
+)
+
+export default LabelDefaultSourceHint
@@ -0,0 +1,122 @@
+﻿import React from 'react'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { MaterialBatch } from '@/types/database'
+import { getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+
+export interface LabelQueueRow {
+  batch: MaterialBatch
+  materialCode: string
+  materialName: string
+  supplierName: string
+  copies: number
+  // 份数来源说明（物料/供应商/全局默认）；手动修改后为空
+  copiesSource: string | null
+  // 未经质检放行（非 available）
+  onHold: boolean
+}
+
+interface LabelPrintQueueProps {
+  rows: LabelQueueRow[]
+  previewIndex: number
+  onPreview: (index: number) => void
+  onCopiesChange: (index: number, copies: number | null) => void
+  onRemove: (index: number) => void
+  onClear: () => void
+}
+
+// 标签打印队列：每个批次一张标签，可分别设置份数；点击行在右侧预览该批次
+const LabelPrintQueue: React.FC<LabelPrintQueueProps> = ({
+  rows,
+  previewIndex,
+  onPreview,
+  onCopiesChange,
+  onRemove,
+  onClear
+}) => {
+  const total = rows.reduce((sum, r) => sum + r.copies, 0)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          打印队列
+          <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+            {rows.length} 个批次，共 {total} 张
+          </span>
+        </h2>
+        {rows.length > 0 && (
+          <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400">
+            清空队列
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 py-6 text-center">
+          队列为空：在入库记录中勾选批次后点击“打印标签”，或在单个批次模式下加入队列
+        </p>
+      ) : (
+        <div className="max-h-[28rem] overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {rows.map((row, index) => (
+            <div
+              key={row.batch.id}
+              onClick={() => onPreview(index)}
+              className={`flex items-center gap-3 py-2 px-2 cursor-pointer rounded ${
+                index === previewIndex ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <span className="w-6 text-xs text-gray-400">{index + 1}</span>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {row.batch.batch_number}
+                  {row.onHold && (
+                    <span className={`ml-2 inline-flex px-1.5 py-0.5 rounded text-xs ${getStatusBadgeColor(row.batch.status)}`}>
+                      {getStatusText(row.batch.status)}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {row.materialCode} · {row.materialName}
+                  {row.supplierName !== '-' && ` · ${row.supplierName}`}
+                </div>
+              </div>
+              <div className="flex flex-col items-end" onClick={(e) => e.stopPropagation()}>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={row.copies}
+                  onChange={(e) => onCopiesChange(index, Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="w-16 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                  title="份数"
+                />
+                {row.copiesSource ? (
+                  <span className="text-[11px] text-gray-400">{row.copiesSource}</span>
+                ) : (
+                  <button
+                    onClick={() => onCopiesChange(index, null)}
+                    className="text-[11px] text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                  >
+                    恢复默认
+                  </button>
+                )}
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onRemove(index)
+                }}
+                className="text-gray-400 hover:text-red-600"
+                title="移出队列"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LabelPrintQueue
@@ -2,42 +2,31 @@ import React, { useRef, useEffect } from 'react';
 import JsBarcode from 'jsbarcode';
 import QRCode from 'qrcode';
 import { LabelPrintData } from '../../types/database';
-import type { LabelConfig } from '../../pages/LabelPrint';
+import { DEFAULT_LABEL_CONFIG, LabelConfig } from '../../utils/labelConfig';
+import { renderGs1128, renderGs1DataMatrix } from '../../utils/gs1';
 
 interface LabelPrintTemplateProps {
   data: LabelPrintData;
   config?: LabelConfig;
 }
 
-// 默认配置
-const DEFAULT_CONFIG: LabelConfig = {
-  labelWidth: 100,
-  labelHeight: 100,
-  marginTop: 2,
-  marginBottom: 2,
-  marginLeft: 2,
-  marginRight: 2,
-  offsetX: 0,
-  offsetY: 0,
-  tableWidth: 80,  // 降低表格宽度，让内容不超出
-  labelColumnWidth: 25,
-  titleFontSize: 12,
-  labelFontSize: 10,
-  valueFontSize: 12,
-  companyName: '深圳市颖灿生物科技有限公司',
-  showBarcode: false,  // 默认关闭一维条形码
-  showQrcode: true,
-  previewScale: 1.2
-};
-
 const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config }) => {
   const barcodeRef = useRef<HTMLCanvasElement>(null);
   const materialQrcodeRef = useRef<HTMLCanvasElement>(null);
   const batchQrcodeRef = useRef<HTMLCanvasElement>(null);
+  const gs1BarcodeRef = useRef<HTMLCanvasElement>(null);
+  const gs1MatrixRef = useRef<HTMLCanvasElement>(null);
+  const payloadQrcodeRef = useRef<HTMLCanvasElement>(null);
 
   // 合并配置
-  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const cfg = { ...DEFAULT_LABEL_CONFIG, ...config };
   const scale = cfg.previewScale;
+  // GS1 模式下条形码区为 GS1-128，二维码区为单个 GS1 Data Matrix
+  const useGs1 = cfg.codeSource === 'gs1';
+  const gs1Elements = data.gs1_elements;
+  const gs1Ready = useGs1 && !data.gs1_error && !!gs1Elements?.length;
+  // 结构化模式下二维码区为单个标签码，条形码区仍为物料编码
+  const useStructured = cfg.codeSource === 'structured';
 
   // 生成一维条形码（材料编码）- 保留但默认关闭
   useEffect(() => {
@@ -57,7 +46,7 @@ const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config })
         console.error('Barcode generation error:', error);
       }
     }
-  }, [data.material_barcode, cfg.showBarcode]);
+  }, [data.material_barcode, cfg.showBarcode, useGs1]);
 
   // 生成物料二维码（材料编码）
   useEffect(() => {
@@ -76,7 +65,7 @@ const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config })
         if (error) console.error('Material QR Code generation error:', error);
       });
     }
-  }, [data.material_barcode, cfg.showQrcode]);
+  }, [data.material_barcode, cfg.showQrcode, useGs1, useStructured]);
 
   // 生成批次二维码（批次号）
   useEffect(() => {
@@ -95,7 +84,39 @@ const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config })
         if (error) console.error('Batch QR Code generation error:', error);
       });
     }
-  }, [data.batch_barcode, cfg.showQrcode]);
+  }, [data.batch_barcode, cfg.showQrcode, useGs1, useStructured]);
+
+  // 生成结构化标签码
+  useEffect(() => {
+    if (payloadQrcodeRef.current && useStructured && data.label_payload && cfg.showQrcode) {
+      QRCode.toCanvas(payloadQrcodeRef.current, data.label_payload, {
+        width: 70,
+        margin: 0,
+        errorCorrectionLevel: 'M',
+        color: {
+          dark: '#000000',
+          light: '#ffffff'
+        }
+      }, (error) => {
+        if (error) console.error('Label payload QR Code generation error:', error);
+      });
+    }
+  }, [data.label_payload, cfg.showQrcode, useStructured]);
+
+  // GS1-128 / GS1 Data Matrix
+  useEffect(() => {
+    if (!gs1Ready || !gs1Elements) return;
+    try {
+      if (gs1BarcodeRef.current && cfg.showBarcode) {
+        renderGs1128(gs1BarcodeRef.current, gs1Elements, { width: 1.2, height: 30, fontSize: 8, margin: 1 });
+      }
+      if (gs1MatrixRef.current && cfg.showQrcode) {
+        renderGs1DataMatrix(gs1MatrixRef.current, gs1Elements, { moduleSize: 3, margin: 1 });
+      }
+    } catch (error) {
+      console.error('GS1 barcode generation error:', error);
+    }
+  }, [gs1Ready, gs1Elements, cfg.showBarcode, cfg.showQrcode]);
 
   // 格式化生产日期显示
   const formatProductionDate = (dateStr?: string): string => {
@@ -207,15 +228,55 @@ const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config })
         </tbody>
       </table>
 
+      {/* GS1 无法生成时（未设置 GTIN、批号不合规等）直接提示，不输出空白条码 */}
+      {useGs1 && data.gs1_error && (cfg.showBarcode || cfg.showQrcode) && (
+        <div className="border-t border-black text-red-600" style={{ padding: '3px', fontSize: `${8 * scale}px` }}>
+          GS1 条码无法生成：{data.gs1_error}
+        </div>
+      )}
+
+      {/* GS1-128：人工识读文本由 JsBarcode 打印在条码下方 */}
+      {gs1Ready && cfg.showBarcode && (
+        <div className="border-t border-black" style={{ padding: '3px', textAlign: 'center' }}>
+          <canvas ref={gs1BarcodeRef} style={{ maxWidth: '100%', height: 'auto' }} />
+        </div>
+      )}
+
+      {gs1Ready && cfg.showQrcode && (
+        <div
+          className="border-t border-black"
+          style={{ width: `${cfg.tableWidth}%`, display: 'flex', justifyContent: 'space-around', alignItems: 'center', padding: '6px 0' }}
+        >
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+            <canvas ref={gs1MatrixRef} style={{ width: '55px', height: '55px' }} />
+            <span style={{ fontSize: `${8 * scale}px`, marginTop: '2px', fontWeight: 'bold' }}>GS1</span>
+          </div>
+        </div>
+      )}
+
       {/* 条形码区域 - 独立于表格，可选，默认关闭 */}
-      {cfg.showBarcode && (
+      {!useGs1 && cfg.showBarcode && (
         <div className="border-t border-black" style={{ padding: '3px', textAlign: 'center' }}>
           <canvas ref={barcodeRef} style={{ maxWidth: '100%', height: 'auto' }} />
         </div>
       )}
 
+      {useStructured && cfg.showQrcode && data.label_payload && (
+        <div
+          className="border-t border-black"
+          style={{ width: `${cfg.tableWidth}%`, display: 'flex', justifyContent: 'space-around', alignItems: 'center', padding: '6px 0' }}
+        >
+          <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+            <canvas ref={payloadQrcodeRef} style={{ width: '70px', height: '70px' }} />
+            <span style={{ fontSize: `${8 * scale}px`, marginTop: '2px', fontWeight: 'bold' }}>
+              标签码{data.label_serial ? ` ${data.label_serial}` : ''}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* 二维码区域 - 宽度与表格一致，使用 space-around 均匀分布 */}
-      {cfg.showQrcode && (
+      {!useGs1 && !useStructured && cfg.showQrcode && (
         <div
           className="border-t border-black"
           style={{
@@ -236,6 +297,17 @@ const LabelPrintTemplate: React.FC<LabelPrintTemplateProps> = ({ data, config })
           </div>
         </div>
       )}
+
+      {/* 序号标签：逐张唯一的序号与张次（如 1/24） */}
+      {data.label_sequence && (
+        <div
+          className="border-t border-black font-bold"
+          style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 4px', fontSize: `${cfg.labelFontSize * scale}px` }}
+        >
+          <span>{data.label_serial}</span>
+          <span>{data.label_sequence}</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+﻿import React from 'react'
+import { ChevronLeftIcon, ChevronRightIcon, QueueListIcon } from '@heroicons/react/24/outline'
+import { LabelPrintData, LabelTemplate } from '@/types/database'
+import { LabelConfig } from '@/utils/labelConfig'
+import LabelPrintTemplate from './LabelPrintTemplate'
+import LabelTemplateRenderer from './LabelTemplateRenderer'
+
+export interface LabelQueuePreviewItem {
+  // 批次 id，用作渲染 key
+  id: string
+  copies: number
+  // 物料不存在时为空，该批次无法预览/打印
+  data: LabelPrintData | null
+}
+
+interface LabelQueuePreviewProps {
+  items: LabelQueuePreviewItem[]
+  template: LabelTemplate | null
+  config: LabelConfig
+  previewIndex: number
+  onPreview: (index: number) => void
+  // 离屏渲染容器：每个批次一张，子元素带 data-queue-index，打印时按份数复制
+  renderRef: React.Ref<HTMLDivElement>
+}
+
+// 打印队列预览：逐个批次翻页预览，同时在可视区域外渲染全部批次的标签供打印取用
+const LabelQueuePreview: React.FC<LabelQueuePreviewProps> = ({
+  items,
+  template,
+  config,
+  previewIndex,
+  onPreview,
+  renderRef
+}) => {
+  const current = items[previewIndex]
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          队列预览
+        </h2>
+        {current && (
+          <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <button
+              onClick={() => onPreview(Math.max(0, previewIndex - 1))}
+              disabled={previewIndex === 0}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+              title="上一个批次"
+            >
+              <ChevronLeftIcon className="h-5 w-5" />
+            </button>
+            <span>
+              第 {previewIndex + 1} / {items.length} 个批次 · {current.copies} 张
+            </span>
+            <button
+              onClick={() => onPreview(Math.min(items.length - 1, previewIndex + 1))}
+              disabled={previewIndex >= items.length - 1}
+              className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+              title="下一个批次"
+            >
+              <ChevronRightIcon className="h-5 w-5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center items-start min-h-[500px] bg-gray-100 dark:bg-gray-700 rounded-lg p-4 overflow-auto">
+        {current?.data ? (
+          template ? (
+            <LabelTemplateRenderer template={template} data={current.data} scale={config.previewScale} />
+          ) : (
+            <LabelPrintTemplate data={current.data} config={config} />
+          )
+        ) : (
+          <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
+            <QueueListIcon className="h-16 w-16 mb-4 opacity-50" />
+            <p>打印队列为空</p>
+          </div>
+        )}
+      </div>
+
+      {/* 打印用：队列中每个批次各渲染一张（移出可视区域，条码画布照常生成），打印时按份数复制 */}
+      <div ref={renderRef} aria-hidden="true" className="fixed -left-[10000px] top-0">
+        {items.map((item, i) => item.data && (
+          <div key={item.id} data-queue-index={i}>
+            {template ? (
+              <LabelTemplateRenderer template={template} data={item.data} />
+            ) : (
+              <LabelPrintTemplate data={item.data} config={config} />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default LabelQueuePreview
@@ -0,0 +1,111 @@
+﻿import React from 'react'
+import { Link } from 'react-router-dom'
+import { PrinterIcon } from '@heroicons/react/24/outline'
+import { LabelTemplate } from '@/types/database'
+import LabelDefaultSourceHint from './LabelDefaultSourceHint'
+
+interface LabelQueuePrintPanelProps {
+  templates: LabelTemplate[]
+  // 整个队列使用的模板；null 表示内置表格模板
+  template: LabelTemplate | null
+  manualTemplate: boolean
+  // 未手动选择时，队列中各批次的默认模板是否不一致
+  templateMismatch: boolean
+  onTemplateChange: (templateId: string) => void
+  onTemplateReset: () => void
+  onHoldCount: number
+  canOverrideHold: boolean
+  holdOverride: boolean
+  onHoldOverrideChange: (override: boolean) => void
+  serialEnabled: boolean
+  serialPrinting: boolean
+  blocked: boolean
+  total: number
+  onPrint: () => void
+}
+
+// 打印队列的打印设置：整个队列共用一个模板（同一卷标签纸），未放行批次需越权后才能打印
+const LabelQueuePrintPanel: React.FC<LabelQueuePrintPanelProps> = ({
+  templates,
+  template,
+  manualTemplate,
+  templateMismatch,
+  onTemplateChange,
+  onTemplateReset,
+  onHoldCount,
+  canOverrideHold,
+  holdOverride,
+  onHoldOverrideChange,
+  serialEnabled,
+  serialPrinting,
+  blocked,
+  total,
+  onPrint
+}) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          标签模板（整个队列）
+        </label>
+        <Link to="/label-templates" className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400">
+          管理模板
+        </Link>
+      </div>
+      <select
+        value={template ? template.id : ''}
+        onChange={(e) => onTemplateChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+      >
+        <option value="">内置表格模板（默认）</option>
+        {templates.map(t => (
+          <option key={t.id} value={t.id}>
+            {t.name}（{t.width_mm}×{t.height_mm}mm）
+          </option>
+        ))}
+      </select>
+      <LabelDefaultSourceHint manual={manualTemplate} sourceText="批次" onReset={onTemplateReset} />
+      {!manualTemplate && templateMismatch && (
+        <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+          队列中的批次默认模板不一致，一次打印只能使用一种模板，已使用第一个批次的模板
+        </p>
+      )}
+    </div>
+
+    {onHoldCount > 0 && (
+      <div className="p-3 rounded-lg border border-orange-200 bg-orange-50 text-sm text-orange-800">
+        <p>队列中有 {onHoldCount} 个批次未经质检放行，不能打印标签</p>
+        {canOverrideHold ? (
+          <label className="mt-2 flex items-center gap-2 text-orange-900">
+            <input
+              type="checkbox"
+              checked={holdOverride}
+              onChange={(e) => onHoldOverrideChange(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            越权打印
+          </label>
+        ) : (
+          <p className="mt-1 text-xs text-orange-700">请移出这些批次，或由管理员/经理越权打印</p>
+        )}
+      </div>
+    )}
+
+    {serialEnabled && (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        已开启序号标签：打印时按批次签发逐张唯一的序号（接着各批次已签发的序号往后排），预览中的序号仅为示例
+      </p>
+    )}
+
+    <button
+      onClick={onPrint}
+      disabled={blocked || serialPrinting}
+      className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+    >
+      <PrinterIcon className="h-5 w-5" />
+      {serialPrinting ? '签发序号中...' : `打印队列（共 ${total} 张）`}
+    </button>
+  </div>
+)
+
+export default LabelQueuePrintPanel
@@ -0,0 +1,147 @@
+﻿import React, { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { useAuthStore } from '@/stores/authStore'
+import { useLabelSerialStore } from '@/stores/labelSerialStore'
+import { LabelSerial } from '@/types/database'
+import { formatLabelSequence } from '@/utils/labelSerial'
+
+interface LabelSerialListProps {
+  batchId: string
+}
+
+// 批次的标签序号签发记录：勾选未作废的序号并填写原因后批量作废
+const LabelSerialList: React.FC<LabelSerialListProps> = ({ batchId }) => {
+  const { hasPermission } = useAuthStore()
+  const { getBatchSerials, voidSerials } = useLabelSerialStore()
+  const canVoid = hasPermission('void_label_serials')
+
+  const [serials, setSerials] = useState<LabelSerial[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [reason, setReason] = useState('')
+  const [voiding, setVoiding] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setSerials(await getBatchSerials(batchId))
+    setSelectedIds(new Set())
+    setLoading(false)
+  }, [batchId, getBatchSerials])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const issued = serials.filter((s) => s.status === 'issued')
+  const allSelected = issued.length > 0 && issued.every((s) => selectedIds.has(s.id))
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const handleVoid = async () => {
+    if (selectedIds.size === 0 || !reason.trim()) return
+    setVoiding(true)
+    const ok = await voidSerials(Array.from(selectedIds), reason.trim())
+    setVoiding(false)
+    if (ok) {
+      setReason('')
+      load()
+    }
+  }
+
+  if (loading) return <p className="text-sm text-gray-500">加载中...</p>
+  if (serials.length === 0) return <p className="text-sm text-gray-500">暂无序号标签（在标签设置中开启序号标签后打印）</p>
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-500">
+        已签发 {serials.length} 个，其中作废 {serials.length - issued.length} 个
+      </p>
+      <div className="overflow-x-auto max-h-72 overflow-y-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {canVoid && (
+                <th className="px-3 py-2 w-8">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    disabled={issued.length === 0}
+                    onChange={() => setSelectedIds(allSelected ? new Set() : new Set(issued.map((s) => s.id)))}
+                    className="h-4 w-4 rounded border-gray-300"
+                  />
+                </th>
+              )}
+              <th className="px-3 py-2 text-left font-medium text-gray-500">序号</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">张次</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">签发</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">状态</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {serials.map((s) => (
+              <tr key={s.id} className={s.status === 'void' ? 'text-gray-400' : 'text-gray-900'}>
+                {canVoid && (
+                  <td className="px-3 py-2">
+                    {s.status === 'issued' && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(s.id)}
+                        onChange={() => toggle(s.id)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                    )}
+                  </td>
+                )}
+                <td className={`px-3 py-2 whitespace-nowrap font-mono ${s.status === 'void' ? 'line-through' : ''}`}>{s.serial}</td>
+                <td className="px-3 py-2 whitespace-nowrap">{formatLabelSequence(s.job_index, s.job_total)}</td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {s.issued_by_name || '-'} · {format(new Date(s.issued_at), 'yyyy-MM-dd HH:mm')}
+                </td>
+                <td className="px-3 py-2">
+                  {s.status === 'void' ? (
+                    <span className="text-red-600">
+                      已作废：{s.void_reason}
+                      <span className="text-gray-400">
+                        {' '}（{s.voided_by_name || '-'}{s.voided_at ? ` · ${format(new Date(s.voided_at), 'yyyy-MM-dd HH:mm')}` : ''}）
+                      </span>
+                    </span>
+                  ) : (
+                    <span className="text-green-700">有效</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {canVoid && selectedIds.size > 0 && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="作废原因，如：标签损坏已补打"
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={handleVoid}
+            disabled={voiding || !reason.trim()}
+            className="px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {voiding ? '作废中...' : `作废所选 (${selectedIds.size})`}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LabelSerialList
@@ -0,0 +1,617 @@
+﻿import React, { useMemo, useRef, useState } from 'react'
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  DocumentDuplicateIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+import { notify } from '@/lib/notify'
+import { useLabelTemplateStore } from '@/stores/labelTemplateStore'
+import {
+  LabelBarcodeElement,
+  LabelCodeSource,
+  LabelElement,
+  LabelElementType,
+  LabelFieldKey,
+  LabelTemplate,
+  LabelTemplateFormData
+} from '@/types/database'
+import { BARCODE_SYMBOLOGIES } from '@/utils/barcodeSymbology'
+import {
+  GRID_SIZES,
+  LABEL_CODE_SOURCES,
+  LABEL_ELEMENT_TYPE_TEXT,
+  LABEL_FIELDS,
+  MM_TO_PX,
+  buildSampleLabelData,
+  collectSnapTargets,
+  createLabelElement,
+  duplicateLabelElement,
+  roundMm,
+  snapEdge,
+  snapMove
+} from '@/utils/labelTemplate'
+import LabelTemplateRenderer from './LabelTemplateRenderer'
+
+interface LabelTemplateDesignerProps {
+  // 为空表示新建模板
+  template: LabelTemplate | null
+  readOnly?: boolean
+  onSaved: (template: LabelTemplate) => void
+  onDirtyChange?: (dirty: boolean) => void
+}
+
+interface DragState {
+  mode: 'move' | 'resize'
+  id: string
+  startX: number
+  startY: number
+  origin: { x: number; y: number; width: number; height: number }
+  targetsX: number[]
+  targetsY: number[]
+}
+
+// 图片内嵌为 data URL 存进模板，过大会拖慢模板加载与打印
+const MAX_IMAGE_BYTES = 300 * 1024
+const MIN_SIZE_MM = 0.5
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+const labelClass = 'block text-xs text-gray-500 mb-1'
+
+// 标签模板设计器：画布上拖拽移动/缩放元素（网格 + 对齐线吸附），右侧属性面板精确调整
+const LabelTemplateDesigner: React.FC<LabelTemplateDesignerProps> = ({ template, readOnly, onSaved, onDirtyChange }) => {
+  const { createTemplate, updateTemplate } = useLabelTemplateStore()
+  const [draft, setDraft] = useState<LabelTemplateFormData>(() => ({
+    name: template?.name || '',
+    description: template?.description || '',
+    width_mm: template?.width_mm ?? 100,
+    height_mm: template?.height_mm ?? 60,
+    elements: template?.elements || []
+  }))
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [grid, setGrid] = useState(1)
+  const [zoom, setZoom] = useState(2)
+  const [guides, setGuides] = useState<{ x: number | null; y: number | null }>({ x: null, y: null })
+  const [saving, setSaving] = useState(false)
+
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const sampleData = useMemo(() => buildSampleLabelData(), [])
+
+  const selected = draft.elements.find((e) => e.id === selectedId) || null
+  const pxPerMm = MM_TO_PX * zoom
+
+  const changeDraft = (updater: (prev: LabelTemplateFormData) => LabelTemplateFormData) => {
+    setDraft(updater)
+    onDirtyChange?.(true)
+  }
+
+  const updateElement = (id: string, patch: Partial<LabelElement>) => {
+    changeDraft((prev) => ({
+      ...prev,
+      elements: prev.elements.map((e) => (e.id === id ? ({ ...e, ...patch } as LabelElement) : e))
+    }))
+  }
+
+  const addElement = (type: LabelElementType) => {
+    const element = createLabelElement(type)
+    changeDraft((prev) => ({ ...prev, elements: [...prev.elements, element] }))
+    setSelectedId(element.id)
+  }
+
+  const removeSelected = () => {
+    if (!selectedId) return
+    changeDraft((prev) => ({ ...prev, elements: prev.elements.filter((e) => e.id !== selectedId) }))
+    setSelectedId(null)
+  }
+
+  const duplicateSelected = () => {
+    if (!selected) return
+    const copy = duplicateLabelElement(selected)
+    changeDraft((prev) => ({ ...prev, elements: [...prev.elements, copy] }))
+    setSelectedId(copy.id)
+  }
+
+  // 元素顺序即叠放顺序：越靠后越在上层
+  const moveLayer = (delta: 1 | -1) => {
+    if (!selectedId) return
+    changeDraft((prev) => {
+      const index = prev.elements.findIndex((e) => e.id === selectedId)
+      const target = index + delta
+      if (index < 0 || target < 0 || target >= prev.elements.length) return prev
+      const elements = [...prev.elements]
+      ;[elements[index], elements[target]] = [elements[target], elements[index]]
+      return { ...prev, elements }
+    })
+  }
+
+  const handleElementPointerDown = (e: React.PointerEvent, element: LabelElement, mode: DragState['mode']) => {
+    if (readOnly || e.button !== 0) return
+    e.stopPropagation()
+    e.preventDefault()
+    setSelectedId(element.id)
+    canvasRef.current?.focus()
+    canvasRef.current?.setPointerCapture(e.pointerId)
+    dragRef.current = {
+      mode,
+      id: element.id,
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: { x: element.x, y: element.y, width: element.width, height: element.height },
+      targetsX: collectSnapTargets(draft, element.id, 'x'),
+      targetsY: collectSnapTargets(draft, element.id, 'y')
+    }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const dx = (e.clientX - drag.startX) / pxPerMm
+    const dy = (e.clientY - drag.startY) / pxPerMm
+    const { origin } = drag
+
+    if (drag.mode === 'move') {
+      const x = snapMove(origin.x + dx, origin.width, drag.targetsX, grid)
+      const y = snapMove(origin.y + dy, origin.height, drag.targetsY, grid)
+      updateElement(drag.id, {
+        x: Math.min(Math.max(0, x.value), roundMm(draft.width_mm - origin.width)),
+        y: Math.min(Math.max(0, y.value), roundMm(draft.height_mm - origin.height))
+      })
+      setGuides({ x: x.guide, y: y.guide })
+    } else {
+      const right = snapEdge(origin.x + origin.width + dx, drag.targetsX, grid)
+      const bottom = snapEdge(origin.y + origin.height + dy, drag.targetsY, grid)
+      updateElement(drag.id, {
+        width: roundMm(Math.max(MIN_SIZE_MM, Math.min(right.value, draft.width_mm) - origin.x)),
+        height: roundMm(Math.max(MIN_SIZE_MM, Math.min(bottom.value, draft.height_mm) - origin.y))
+      })
+      setGuides({ x: right.guide, y: bottom.guide })
+    }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    canvasRef.current?.releasePointerCapture(e.pointerId)
+    setGuides({ x: null, y: null })
+  }
+
+  // 方向键按网格（无网格时 0.5mm）微调，Shift 加速；Delete 删除
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (readOnly || !selected) return
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault()
+      removeSelected()
+      return
+    }
+    const step = (grid || 0.5) * (e.shiftKey ? 5 : 1)
+    const delta: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    }
+    const move = delta[e.key]
+    if (!move) return
+    e.preventDefault()
+    updateElement(selected.id, {
+      x: roundMm(Math.min(Math.max(0, selected.x + move[0]), draft.width_mm - selected.width)),
+      y: roundMm(Math.min(Math.max(0, selected.y + move[1]), draft.height_mm - selected.height))
+    })
+  }
+
+  const handleImageFile = (file: File | undefined) => {
+    if (!file || !selected) return
+    if (file.size > MAX_IMAGE_BYTES) {
+      notify.warning('图片过大', `请使用 ${MAX_IMAGE_BYTES / 1024}KB 以内的图片（如 Logo 的 PNG）`)
+      return
+    }
+    const id = selected.id
+    const reader = new FileReader()
+    reader.onload = () => updateElement(id, { src: String(reader.result || '') })
+    reader.readAsDataURL(file)
+  }
+
+  const handleSave = async () => {
+    const name = draft.name.trim()
+    if (!name) {
+      notify.warning('请输入模板名称')
+      return
+    }
+    if (!(draft.width_mm > 0) || !(draft.height_mm > 0)) {
+      notify.warning('请填写有效的标签尺寸')
+      return
+    }
+    const payload: LabelTemplateFormData = { ...draft, name, description: draft.description?.trim() || '' }
+
+    setSaving(true)
+    let saved: LabelTemplate | null = null
+    if (template) {
+      if (await updateTemplate(template.id, payload)) {
+        saved = useLabelTemplateStore.getState().templates.find((t) => t.id === template.id) || null
+      }
+    } else {
+      saved = await createTemplate(payload)
+    }
+    setSaving(false)
+    if (saved) {
+      onDirtyChange?.(false)
+      onSaved(saved)
+    }
+  }
+
+  const numberInput = (value: number, onChange: (v: number) => void, step = 0.5, min?: number) => (
+    <input
+      type="number"
+      step={step}
+      min={min}
+      value={value}
+      disabled={readOnly}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value)
+        if (!Number.isNaN(v)) onChange(roundMm(v))
+      }}
+      className={inputClass}
+    />
+  )
+
+  return (
+    <div className="flex flex-col xl:flex-row gap-4">
+      <div className="flex-1 min-w-0 space-y-3">
+        {!readOnly && (
+          <div className="flex flex-wrap items-center gap-2">
+            {(Object.keys(LABEL_ELEMENT_TYPE_TEXT) as LabelElementType[]).map((type) => (
+              <button
+                key={type}
+                onClick={() => addElement(type)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                + {LABEL_ELEMENT_TYPE_TEXT[type]}
+              </button>
+            ))}
+            <span className="mx-1 h-6 border-l border-gray-200" />
+            <button onClick={duplicateSelected} disabled={!selected} title="复制" className="p-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-40">
+              <DocumentDuplicateIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => moveLayer(1)} disabled={!selected} title="上移一层" className="p-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-40">
+              <ArrowUpIcon className="w-5 h-5" />
+            </button>
+            <button onClick={() => moveLayer(-1)} disabled={!selected} title="下移一层" className="p-1.5 text-gray-600 hover:text-gray-900 disabled:opacity-40">
+              <ArrowDownIcon className="w-5 h-5" />
+            </button>
+            <button onClick={removeSelected} disabled={!selected} title="删除" className="p-1.5 text-red-600 hover:text-red-800 disabled:opacity-40">
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            网格
+            <select value={grid} onChange={(e) => setGrid(parseFloat(e.target.value))} className="px-2 py-1 border border-gray-300 rounded">
+              {GRID_SIZES.map((g) => (
+                <option key={g} value={g}>{g ? `${g} mm` : '不吸附'}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            缩放
+            <select value={zoom} onChange={(e) => setZoom(parseFloat(e.target.value))} className="px-2 py-1 border border-gray-300 rounded">
+              {[1, 1.5, 2, 3, 4].map((z) => (
+                <option key={z} value={z}>{z * 100}%</option>
+              ))}
+            </select>
+          </label>
+          <span>{draft.width_mm} × {draft.height_mm} mm</span>
+          {!readOnly && <span className="text-xs text-gray-400">方向键微调（Shift 加速），Delete 删除；靠近其他元素或标签边缘/中线时自动对齐</span>}
+        </div>
+
+        <div className="overflow-auto bg-gray-100 rounded-lg p-6">
+          <div
+            ref={canvasRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerDown={() => setSelectedId(null)}
+            className="relative shadow outline-none"
+            style={{
+              width: draft.width_mm * pxPerMm,
+              height: draft.height_mm * pxPerMm,
+              backgroundImage: grid
+                ? 'linear-gradient(to right, rgba(59,130,246,0.08) 1px, transparent 1px), linear-gradient(to bottom, rgba(59,130,246,0.08) 1px, transparent 1px)'
+                : undefined,
+              backgroundSize: grid ? `${grid * pxPerMm}px ${grid * pxPerMm}px` : undefined
+            }}
+          >
+            <LabelTemplateRenderer template={draft} data={sampleData} scale={zoom} />
+
+            {/* 交互层：与渲染层同尺寸叠放，只负责选中、拖拽与缩放 */}
+            <div className="absolute inset-0">
+              {draft.elements.map((element) => (
+                <div
+                  key={element.id}
+                  onPointerDown={(e) => handleElementPointerDown(e, element, 'move')}
+                  className={`absolute ${readOnly ? '' : 'cursor-move'} ${
+                    element.id === selectedId ? 'outline outline-1 outline-blue-500' : 'hover:outline hover:outline-1 hover:outline-dashed hover:outline-gray-400'
+                  }`}
+                  style={{
+                    left: element.x * pxPerMm,
+                    top: element.y * pxPerMm,
+                    width: element.width * pxPerMm,
+                    height: element.height * pxPerMm
+                  }}
+                >
+                  {element.id === selectedId && !readOnly && (
+                    <div
+                      onPointerDown={(e) => handleElementPointerDown(e, element, 'resize')}
+                      className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-blue-500 cursor-nwse-resize"
+                    />
+                  )}
+                </div>
+              ))}
+              {guides.x !== null && (
+                <div className="absolute top-0 bottom-0 border-l border-pink-500 pointer-events-none" style={{ left: guides.x * pxPerMm }} />
+              )}
+              {guides.y !== null && (
+                <div className="absolute left-0 right-0 border-t border-pink-500 pointer-events-none" style={{ top: guides.y * pxPerMm }} />
+              )}
+            </div>
+          </div>
+        </div>
+        <p className="text-xs text-gray-400">画布使用示例数据预览；打印时替换为所选物料/批次的实际数据</p>
+      </div>
+
+      <div className="xl:w-80 space-y-4">
+        {selected ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">{LABEL_ELEMENT_TYPE_TEXT[selected.type]}</h3>
+              <button onClick={() => setSelectedId(null)} className="text-xs text-blue-600 hover:text-blue-800">
+                模板属性
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>X (mm)</label>
+                {numberInput(selected.x, (v) => updateElement(selected.id, { x: v }))}
+              </div>
+              <div>
+                <label className={labelClass}>Y (mm)</label>
+                {numberInput(selected.y, (v) => updateElement(selected.id, { y: v }))}
+              </div>
+              <div>
+                <label className={labelClass}>宽 (mm)</label>
+                {numberInput(selected.width, (v) => updateElement(selected.id, { width: Math.max(MIN_SIZE_MM, v) }), 0.5, MIN_SIZE_MM)}
+              </div>
+              <div>
+                <label className={labelClass}>高 (mm)</label>
+                {numberInput(selected.height, (v) => updateElement(selected.id, { height: Math.max(MIN_SIZE_MM, v) }), 0.5, MIN_SIZE_MM)}
+              </div>
+            </div>
+
+            {selected.type === 'text' && (
+              <div>
+                <label className={labelClass}>内容（可用 {'{字段}'} 引用，如 {'{batch_number}'}）</label>
+                <textarea
+                  rows={3}
+                  value={selected.content}
+                  disabled={readOnly}
+                  onChange={(e) => updateElement(selected.id, { content: e.target.value })}
+                  className={inputClass}
+                />
+                {!readOnly && (
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && updateElement(selected.id, { content: `${selected.content}{${e.target.value}}` })}
+                    className={`${inputClass} mt-1`}
+                  >
+                    <option value="">插入字段...</option>
+                    {LABEL_FIELDS.map((f) => (
+                      <option key={f.key} value={f.key}>{f.label}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
+
+            {selected.type === 'field' && (
+              <>
+                <div>
+                  <label className={labelClass}>绑定字段</label>
+                  <select
+                    value={selected.field}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { field: e.target.value as LabelFieldKey })}
+                    className={inputClass}
+                  >
+                    {LABEL_FIELDS.map((f) => (
+                      <option key={f.key} value={f.key}>{f.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>前缀</label>
+                  <input
+                    type="text"
+                    value={selected.prefix || ''}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { prefix: e.target.value })}
+                    placeholder="如：批号："
+                    className={inputClass}
+                  />
+                </div>
+              </>
+            )}
+
+            {(selected.type === 'text' || selected.type === 'field') && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>字号 (pt)</label>
+                  {numberInput(selected.fontSize, (v) => updateElement(selected.id, { fontSize: Math.max(4, v) }), 1, 4)}
+                </div>
+                <div>
+                  <label className={labelClass}>对齐</label>
+                  <select
+                    value={selected.align || 'left'}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { align: e.target.value as 'left' | 'center' | 'right' })}
+                    className={inputClass}
+                  >
+                    <option value="left">左对齐</option>
+                    <option value="center">居中</option>
+                    <option value="right">右对齐</option>
+                  </select>
+                </div>
+                <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!selected.bold}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { bold: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  加粗
+                </label>
+              </div>
+            )}
+
+            {(selected.type === 'barcode' || selected.type === 'qrcode') && (
+              <div>
+                <label className={labelClass}>内容来源</label>
+                <select
+                  value={selected.source}
+                  disabled={readOnly}
+                  onChange={(e) => updateElement(selected.id, { source: e.target.value as LabelCodeSource })}
+                  className={inputClass}
+                >
+                  {LABEL_CODE_SOURCES.map((s) => (
+                    <option key={s.value} value={s.value}>{s.label}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {selected.type === 'barcode' && (
+              <>
+                {selected.source !== 'gs1' && (
+                  <div>
+                    <label className={labelClass}>码制</label>
+                    <select
+                      value={selected.symbology}
+                      disabled={readOnly}
+                      onChange={(e) => updateElement(selected.id, { symbology: e.target.value as LabelBarcodeElement['symbology'] })}
+                      className={inputClass}
+                    >
+                      {BARCODE_SYMBOLOGIES.map((s) => (
+                        <option key={s.value} value={s.value}>{s.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selected.showText}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { showText: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  显示人读文本
+                </label>
+              </>
+            )}
+
+            {selected.type === 'line' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>方向</label>
+                  <select
+                    value={selected.orientation}
+                    disabled={readOnly}
+                    onChange={(e) => updateElement(selected.id, { orientation: e.target.value as 'horizontal' | 'vertical' })}
+                    className={inputClass}
+                  >
+                    <option value="horizontal">水平</option>
+                    <option value="vertical">垂直</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>线宽 (mm)</label>
+                  {numberInput(selected.thickness, (v) => updateElement(selected.id, { thickness: Math.max(0.1, v) }), 0.1, 0.1)}
+                </div>
+              </div>
+            )}
+
+            {selected.type === 'box' && (
+              <div>
+                <label className={labelClass}>边框宽 (mm)</label>
+                {numberInput(selected.thickness, (v) => updateElement(selected.id, { thickness: Math.max(0.1, v) }), 0.1, 0.1)}
+              </div>
+            )}
+
+            {selected.type === 'image' && !readOnly && (
+              <div>
+                <label className={labelClass}>图片（{MAX_IMAGE_BYTES / 1024}KB 以内）</label>
+                <input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => handleImageFile(e.target.files?.[0])}
+                  className="w-full text-sm"
+                />
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-900">模板属性</h3>
+            <div>
+              <label className={labelClass}>模板名称 *</label>
+              <input
+                type="text"
+                value={draft.name}
+                disabled={readOnly}
+                onChange={(e) => changeDraft((prev) => ({ ...prev, name: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>说明</label>
+              <input
+                type="text"
+                value={draft.description || ''}
+                disabled={readOnly}
+                onChange={(e) => changeDraft((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="如：客户 A 专用 60×40"
+                className={inputClass}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>标签宽 (mm)</label>
+                {numberInput(draft.width_mm, (v) => changeDraft((prev) => ({ ...prev, width_mm: Math.min(300, Math.max(10, v)) })), 1, 10)}
+              </div>
+              <div>
+                <label className={labelClass}>标签高 (mm)</label>
+                {numberInput(draft.height_mm, (v) => changeDraft((prev) => ({ ...prev, height_mm: Math.min(300, Math.max(10, v)) })), 1, 10)}
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">点击画布中的元素编辑其属性</p>
+          </div>
+        )}
+
+        {!readOnly && (
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {saving ? '保存中...' : template ? '保存模板' : '创建模板'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LabelTemplateDesigner
@@ -0,0 +1,214 @@
+﻿import React, { useEffect, useRef } from 'react'
+import JsBarcode from 'jsbarcode'
+import QRCode from 'qrcode'
+import {
+  LabelBarcodeElement,
+  LabelElement,
+  LabelPrintData,
+  LabelQrcodeElement,
+  LabelTemplate
+} from '@/types/database'
+import { getBarcodeFormat, validateBarcodeValue } from '@/utils/barcodeSymbology'
+import { parseGs1HumanReadable, renderGs1128, renderGs1DataMatrix } from '@/utils/gs1'
+import {
+  MM_TO_PX,
+  PT_TO_MM,
+  resolveLabelCode,
+  resolveLabelField,
+  resolveLabelText
+} from '@/utils/labelTemplate'
+
+interface LabelTemplateRendererProps {
+  template: Pick<LabelTemplate, 'width_mm' | 'height_mm' | 'elements'>
+  data: LabelPrintData
+  scale?: number
+}
+
+// 说明：根节点字号设为 1mm 对应的像素，元素位置/尺寸统一用 em 表示 mm；
+// 打印时只需把根节点字号改为 1mm 即为实际尺寸（见 LabelPrint 的打印样式）
+const LabelTemplateRenderer: React.FC<LabelTemplateRendererProps> = ({ template, data, scale = 1 }) => (
+  <div
+    className="label-template-canvas"
+    style={{
+      position: 'relative',
+      width: `${template.width_mm}em`,
+      height: `${template.height_mm}em`,
+      fontSize: `${MM_TO_PX * scale}px`,
+      fontFamily: 'SimHei, "Microsoft YaHei", sans-serif',
+      lineHeight: 1.2,
+      color: '#000',
+      background: '#fff',
+      overflow: 'hidden'
+    }}
+  >
+    {template.elements.map((element) => (
+      <div
+        key={element.id}
+        style={{
+          position: 'absolute',
+          left: `${element.x}em`,
+          top: `${element.y}em`,
+          width: `${element.width}em`,
+          height: `${element.height}em`
+        }}
+      >
+        <ElementContent element={element} data={data} />
+      </div>
+    ))}
+  </div>
+)
+
+const ElementContent: React.FC<{ element: LabelElement; data: LabelPrintData }> = ({ element, data }) => {
+  switch (element.type) {
+    case 'text':
+    case 'field': {
+      const text =
+        element.type === 'text'
+          ? resolveLabelText(element.content, data)
+          : `${element.prefix || ''}${resolveLabelField(data, element.field)}`
+      return (
+        <div
+          style={{
+            width: '100%',
+            height: '100%',
+            overflow: 'hidden',
+            fontSize: `${element.fontSize * PT_TO_MM}em`,
+            fontWeight: element.bold ? 'bold' : 'normal',
+            textAlign: element.align || 'left',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-all'
+          }}
+        >
+          {text}
+        </div>
+      )
+    }
+    case 'barcode':
+      return <BarcodeContent element={element} data={data} />
+    case 'qrcode':
+      return <QrcodeContent element={element} data={data} />
+    case 'line':
+      return element.orientation === 'horizontal' ? (
+        <div style={{ position: 'absolute', left: 0, right: 0, top: '50%', transform: 'translateY(-50%)', borderTop: `${element.thickness}em solid #000` }} />
+      ) : (
+        <div style={{ position: 'absolute', top: 0, bottom: 0, left: '50%', transform: 'translateX(-50%)', borderLeft: `${element.thickness}em solid #000` }} />
+      )
+    case 'box':
+      return <div style={{ width: '100%', height: '100%', boxSizing: 'border-box', border: `${element.thickness}em solid #000` }} />
+    case 'image':
+      return element.src ? (
+        <img src={element.src} alt="" style={{ width: '100%', height: '100%', objectFit: 'contain', display: 'block' }} />
+      ) : (
+        <Placeholder message="未选择图片" />
+      )
+  }
+}
+
+// 无法渲染的码/未设置的图片：打印预览里能直接看到原因
+const Placeholder: React.FC<{ message: string }> = ({ message }) => (
+  <div
+    style={{
+      width: '100%',
+      height: '100%',
+      boxSizing: 'border-box',
+      border: '0.2em dashed #9ca3af',
+      color: '#dc2626',
+      fontSize: '2em',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      textAlign: 'center',
+      overflow: 'hidden'
+    }}
+  >
+    {message}
+  </div>
+)
+
+// 人读文本行高（mm），不超过元素高度的三分之一
+const barcodeTextHeight = (height: number) => Math.min(3, height / 3)
+
+const BarcodeContent: React.FC<{ element: LabelBarcodeElement; data: LabelPrintData }> = ({ element, data }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const raw = resolveLabelCode(element.source, data)
+  const isGs1 = element.source === 'gs1'
+  const validation = isGs1 ? null : validateBarcodeValue(element.symbology, raw)
+  const value = validation ? validation.value : raw
+  const error = isGs1 ? data.gs1_error || (!raw ? '无 GS1 数据' : undefined) : validation?.error
+
+  useEffect(() => {
+    if (!canvasRef.current || error) return
+    try {
+      if (isGs1) {
+        renderGs1128(canvasRef.current, parseGs1HumanReadable(value), { width: 2, height: 80, margin: 0, displayValue: false })
+      } else {
+        JsBarcode(canvasRef.current, value, {
+          format: getBarcodeFormat(element.symbology),
+          width: 2,
+          height: 80,
+          margin: 0,
+          displayValue: false,
+          background: '#ffffff',
+          lineColor: '#000000'
+        })
+      }
+    } catch (err) {
+      console.error('Label template barcode error:', err)
+    }
+  }, [value, isGs1, error, element.symbology])
+
+  if (error) return <Placeholder message={error} />
+
+  const textHeight = element.showText ? barcodeTextHeight(element.height) : 0
+  return (
+    <div style={{ width: '100%', height: '100%', overflow: 'hidden' }}>
+      <canvas
+        ref={canvasRef}
+        data-label-element="barcode"
+        style={{ display: 'block', width: '100%', height: `${element.height - textHeight}em`, imageRendering: 'pixelated' }}
+      />
+      {element.showText && (
+        <div style={{ fontSize: `${textHeight * 0.8}em`, lineHeight: 1.25, textAlign: 'center', whiteSpace: 'nowrap' }}>
+          {value}
+        </div>
+      )}
+    </div>
+  )
+}
+
+const QrcodeContent: React.FC<{ element: LabelQrcodeElement; data: LabelPrintData }> = ({ element, data }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const value = resolveLabelCode(element.source, data)
+  const isGs1 = element.source === 'gs1'
+  const error = isGs1 ? data.gs1_error || (!value ? '无 GS1 数据' : undefined) : !value ? '无数据' : undefined
+
+  useEffect(() => {
+    if (!canvasRef.current || error) return
+    if (isGs1) {
+      try {
+        renderGs1DataMatrix(canvasRef.current, parseGs1HumanReadable(value), { moduleSize: 6, margin: 0 })
+      } catch (err) {
+        console.error('Label template GS1 Data Matrix error:', err)
+      }
+      return
+    }
+    QRCode.toCanvas(canvasRef.current, value, { width: 240, margin: 0, errorCorrectionLevel: 'M' }, (err) => {
+      if (err) console.error('Label template QR Code error:', err)
+    })
+  }, [value, isGs1, error])
+
+  if (error) return <Placeholder message={error} />
+
+  const side = Math.min(element.width, element.height)
+  return (
+    <div style={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+      <canvas
+        ref={canvasRef}
+        data-label-element="qrcode"
+        style={{ display: 'block', width: `${side}em`, height: `${side}em`, imageRendering: 'pixelated' }}
+      />
+    </div>
+  )
+}
+
+export default LabelTemplateRenderer
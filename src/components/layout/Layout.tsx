@@ -16,11 +16,19 @@ import {
   ClipboardDocumentListIcon,
   SunIcon,
   MoonIcon,
-  PrinterIcon
+  PrinterIcon,
+  MapPinIcon,
+  RectangleStackIcon,
+  SwatchIcon,
+  ViewfinderCircleIcon
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/authStore';
 import { useConnectivity } from '../../hooks/useConnectivity';
 import { useTheme } from '../../hooks/useTheme';
+import { useExpirySweep } from '../../hooks/useExpirySweep';
+import { useScannerListener } from '../../hooks/useScannerListener';
+import { useScanStore } from '../../stores/scanStore';
+import ScanResultModal from '../scan/ScanResultModal';
 
 const Layout: React.FC = () => {
   const navigate = useNavigate();
@@ -28,6 +36,9 @@ const Layout: React.FC = () => {
   const { user, signOut, hasPermission } = useAuthStore();
   const { status: connectivityStatus, lastCheckedAt, recheck } = useConnectivity();
   const { theme, toggleTheme, isDark } = useTheme();
+  useExpirySweep();
+  useScannerListener();
+  const { enabled: scannerEnabled, setEnabled: setScannerEnabled, resolving: scanResolving } = useScanStore();
 
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
@@ -37,9 +48,12 @@ const Layout: React.FC = () => {
     { name: '仪表盘', href: '/dashboard', icon: HomeIcon, permission: 'read' },
     { name: '物料管理', href: '/materials', icon: CubeIcon, permission: 'read_materials' },
     { name: '库存管理', href: '/batches', icon: ArchiveBoxIcon, permission: 'read_batches' },
+    { name: '库位管理', href: '/locations', icon: MapPinIcon, permission: 'read_batches' },
     { name: '供应商管理', href: '/suppliers', icon: TruckIcon, permission: 'read_suppliers' },
     { name: '条码生成', href: '/barcodes', icon: QrCodeIcon, permission: 'read_barcodes' },
     { name: '标签打印', href: '/label-print', icon: PrinterIcon, permission: 'read_barcodes' },
+    { name: '标签模板', href: '/label-templates', icon: SwatchIcon, permission: 'read_barcodes' },
+    { name: '条码台账', href: '/barcode-registry', icon: RectangleStackIcon, permission: 'read_barcodes' },
     { name: '统计分析', href: '/analytics', icon: ChartBarIcon, permission: 'read_analytics' },
     { name: '用户管理', href: '/users', icon: UserGroupIcon, permission: 'read_users' },
     { name: '操作日志', href: '/audit-logs', icon: ClipboardDocumentListIcon, permission: 'read_audit_logs' },
@@ -225,6 +239,22 @@ const Layout: React.FC = () => {
                 {connectivityUi.text}
               </button>
 
+              {/* 扫码枪模式：开启后在任意页面扫码即可定位物料/批次/条码 */}
+              <button
+                type="button"
+                onClick={() => setScannerEnabled(!scannerEnabled)}
+                className={`inline-flex items-center justify-center h-9 w-9 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900 ${
+                  scannerEnabled
+                    ? 'text-blue-600 bg-blue-50 hover:bg-blue-100 dark:text-blue-300 dark:bg-blue-900/30'
+                    : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-gray-100 dark:hover:bg-gray-800'
+                } ${scanResolving ? 'animate-pulse' : ''}`}
+                title={scannerEnabled ? '扫码枪模式：已开启（点击关闭）' : '扫码枪模式：已关闭（点击开启）'}
+                aria-label="切换扫码枪模式"
+                aria-pressed={scannerEnabled}
+              >
+                <ViewfinderCircleIcon className="h-5 w-5" />
+              </button>
+
               {/* 主题切换：light/dark（auto 需要在设置页扩展，这里先提供最常用切换） */}
               <button
                 type="button"
@@ -290,6 +320,8 @@ const Layout: React.FC = () => {
           </div>
         </main>
       </div>
+
+      <ScanResultModal />
     </div>
   );
 };
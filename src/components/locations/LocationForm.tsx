@@ -0,0 +1,243 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useLocationStore } from '@/stores/locationStore'
+import { StorageLocation, StorageLocationFormData, StorageLocationType } from '@/types/database'
+import { LOCATION_TYPE_TEXT } from '@/utils/statusHelpers'
+
+interface LocationFormProps {
+  location?: StorageLocation | null
+  // 新建下级时预设的父级
+  parent?: StorageLocation | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+// 每种类型允许的父级类型
+const PARENT_TYPE: Record<StorageLocationType, StorageLocationType | null> = {
+  warehouse: null,
+  zone: 'warehouse',
+  bin: 'zone'
+}
+
+const CHILD_TYPE: Record<StorageLocationType, StorageLocationType | null> = {
+  warehouse: 'zone',
+  zone: 'bin',
+  bin: null
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const LocationForm: React.FC<LocationFormProps> = ({ location, parent, onClose, onSuccess }) => {
+  const { locations, createLocation, updateLocation, getLocationPath } = useLocationStore()
+
+  const initialType: StorageLocationType = location?.type ?? (parent ? CHILD_TYPE[parent.type] ?? 'bin' : 'warehouse')
+  const [formData, setFormData] = useState<StorageLocationFormData>({
+    code: location?.code || (parent ? `${parent.code}-` : ''),
+    name: location?.name || '',
+    type: initialType,
+    parent_id: location?.parent_id ?? parent?.id ?? null,
+    capacity: location?.capacity ?? null,
+    is_blocked: location?.is_blocked ?? false,
+    remarks: location?.remarks || ''
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const parentType = PARENT_TYPE[formData.type]
+  const parentOptions = parentType ? locations.filter((l) => l.type === parentType) : []
+
+  const handleChange = (field: keyof StorageLocationFormData, value: string | number | boolean | null) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {}
+    const code = formData.code.trim().toUpperCase()
+
+    if (!code) {
+      newErrors.code = '请输入编码'
+    } else if (locations.some((l) => l.code === code && l.id !== location?.id)) {
+      newErrors.code = '编码已存在'
+    }
+    if (!formData.name.trim()) {
+      newErrors.name = '请输入名称'
+    }
+    if (parentType && !formData.parent_id) {
+      newErrors.parent_id = `请选择所属${LOCATION_TYPE_TEXT[parentType]}`
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+
+    // 说明：编码统一大写，避免再次出现 a-01 / A-01 这类拼写不一致
+    const payload: StorageLocationFormData = {
+      ...formData,
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      parent_id: parentType ? formData.parent_id : null,
+      capacity: formData.type === 'bin' ? formData.capacity || null : null
+    }
+
+    setSubmitting(true)
+    const ok = location ? await updateLocation(location.id, payload) : await createLocation(payload)
+    setSubmitting(false)
+    if (ok) onSuccess()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {location ? `编辑${LOCATION_TYPE_TEXT[location.type]}` : `新建${LOCATION_TYPE_TEXT[formData.type]}`}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            {!location && !parent && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">类型</label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => {
+                    handleChange('type', e.target.value)
+                    handleChange('parent_id', null)
+                  }}
+                  className={inputClass()}
+                >
+                  {(Object.keys(LOCATION_TYPE_TEXT) as StorageLocationType[]).map((t) => (
+                    <option key={t} value={t}>{LOCATION_TYPE_TEXT[t]}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {parentType && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  所属{LOCATION_TYPE_TEXT[parentType]} <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={formData.parent_id || ''}
+                  onChange={(e) => handleChange('parent_id', e.target.value || null)}
+                  className={inputClass(!!errors.parent_id)}
+                >
+                  <option value="">请选择</option>
+                  {parentOptions.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.code} - {getLocationPath(p.id)}
+                    </option>
+                  ))}
+                </select>
+                {errors.parent_id && <p className="mt-1 text-sm text-red-600">{errors.parent_id}</p>}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  编码 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => handleChange('code', e.target.value)}
+                  placeholder="例如：WH01-A-01"
+                  className={inputClass(!!errors.code)}
+                />
+                {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  名称 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className={inputClass(!!errors.name)}
+                />
+                {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+              </div>
+            </div>
+
+            {formData.type === 'bin' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">容量</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.capacity ?? ''}
+                  onChange={(e) => handleChange('capacity', e.target.value === '' ? null : parseFloat(e.target.value))}
+                  placeholder="不填表示不限"
+                  className={inputClass()}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="is_blocked"
+                checked={!!formData.is_blocked}
+                onChange={(e) => handleChange('is_blocked', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="is_blocked" className="ml-2 block text-sm text-gray-900">
+                冻结（不允许新批次放入）
+              </label>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+              <textarea
+                value={formData.remarks}
+                onChange={(e) => handleChange('remarks', e.target.value)}
+                rows={2}
+                className={inputClass()}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : location ? '更新' : '创建'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default LocationForm
@@ -0,0 +1,248 @@
+﻿import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useLocationStore } from '@/stores/locationStore'
+import { StorageLocation } from '@/types/database'
+import { LOCATION_TYPE_TEXT } from '@/utils/statusHelpers'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import LocationForm from './LocationForm'
+
+interface TreeRow {
+  location: StorageLocation
+  depth: number
+  hasChildren: boolean
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100
+
+// 库位管理：仓库 -> 库区 -> 库位 树形列表，显示库位占用/容量与冻结状态
+const LocationList: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { locations, loading, fetchLocations, updateLocation, deleteLocation, getBinUsage } = useLocationStore()
+  const canWrite = hasPermission('write_locations')
+
+  const [usage, setUsage] = useState<Record<string, number>>({})
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [search, setSearch] = useState('')
+  const [editing, setEditing] = useState<StorageLocation | null>(null)
+  const [creatingUnder, setCreatingUnder] = useState<StorageLocation | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<StorageLocation | null>(null)
+
+  const load = useCallback(async () => {
+    await fetchLocations()
+    setUsage(await getBinUsage())
+  }, [fetchLocations, getBinUsage])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  // 按层级展开为扁平行；搜索时保留命中节点及其祖先
+  const rows = useMemo(() => {
+    const children = new Map<string | null, StorageLocation[]>()
+    locations.forEach((l) => {
+      const key = l.parent_id ?? null
+      children.set(key, [...(children.get(key) || []), l])
+    })
+
+    const q = search.trim().toLowerCase()
+    const matches = (l: StorageLocation): boolean =>
+      !q ||
+      l.code.toLowerCase().includes(q) ||
+      l.name.toLowerCase().includes(q) ||
+      (children.get(l.id) || []).some(matches)
+
+    const result: TreeRow[] = []
+    const walk = (parentId: string | null, depth: number) => {
+      ;(children.get(parentId) || []).filter(matches).forEach((l) => {
+        const hasChildren = (children.get(l.id) || []).length > 0
+        result.push({ location: l, depth, hasChildren })
+        if (!collapsed.has(l.id) || q) walk(l.id, depth + 1)
+      })
+    }
+    walk(null, 0)
+    return result
+  }, [locations, collapsed, search])
+
+  const toggleCollapse = (id: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const openCreate = (parent: StorageLocation | null) => {
+    setEditing(null)
+    setCreatingUnder(parent)
+    setShowForm(true)
+  }
+
+  const openEdit = (location: StorageLocation) => {
+    setEditing(location)
+    setCreatingUnder(null)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteLocation(deleting.id)
+    setDeleting(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">库位管理</h1>
+          <p className="mt-1 text-sm text-gray-500">维护仓库、库区、库位层级；批次入库时从库位中选择</p>
+        </div>
+        {canWrite && (
+          <button
+            onClick={() => openCreate(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            新建仓库
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b border-gray-200">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="搜索编码或名称..."
+            className="w-full sm:w-80 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        {loading && locations.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">暂无库位</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">编码 / 名称</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">类型</th>
+                <th className="px-6 py-3 text-right font-medium text-gray-500">占用 / 容量</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">状态</th>
+                {canWrite && <th className="px-6 py-3 text-right font-medium text-gray-500">操作</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map(({ location: l, depth, hasChildren }) => {
+                const used = round2(usage[l.id] || 0)
+                const overCapacity = !!l.capacity && used > l.capacity
+                return (
+                  <tr key={l.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-3">
+                      <div className="flex items-center" style={{ paddingLeft: depth * 24 }}>
+                        {hasChildren ? (
+                          <button onClick={() => toggleCollapse(l.id)} className="mr-1 text-gray-400 hover:text-gray-600">
+                            {collapsed.has(l.id) ? (
+                              <ChevronRightIcon className="w-4 h-4" />
+                            ) : (
+                              <ChevronDownIcon className="w-4 h-4" />
+                            )}
+                          </button>
+                        ) : (
+                          <span className="w-5" />
+                        )}
+                        <div>
+                          <div className="font-medium text-gray-900">{l.code}</div>
+                          <div className="text-xs text-gray-500">{l.name}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-gray-700">{LOCATION_TYPE_TEXT[l.type]}</td>
+                    <td className={`px-6 py-3 text-right ${overCapacity ? 'text-red-600 font-medium' : 'text-gray-700'}`}>
+                      {l.type === 'bin' ? `${used} / ${l.capacity ?? '不限'}` : '-'}
+                    </td>
+                    <td className="px-6 py-3">
+                      {l.is_blocked ? (
+                        <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                          已冻结
+                        </span>
+                      ) : (
+                        <span className="inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                          正常
+                        </span>
+                      )}
+                    </td>
+                    {canWrite && (
+                      <td className="px-6 py-3">
+                        <div className="flex items-center justify-end space-x-2">
+                          {l.type !== 'bin' && (
+                            <button
+                              onClick={() => openCreate(l)}
+                              className="text-blue-600 hover:text-blue-800"
+                              title={`新建${LOCATION_TYPE_TEXT[l.type === 'warehouse' ? 'zone' : 'bin']}`}
+                            >
+                              <PlusIcon className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => updateLocation(l.id, { is_blocked: !l.is_blocked })}
+                            className="text-orange-600 hover:text-orange-800"
+                            title={l.is_blocked ? '解除冻结' : '冻结'}
+                          >
+                            {l.is_blocked ? <LockOpenIcon className="w-4 h-4" /> : <LockClosedIcon className="w-4 h-4" />}
+                          </button>
+                          <button onClick={() => openEdit(l)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                            <PencilIcon className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setDeleting(l)} className="text-red-600 hover:text-red-800" title="删除">
+                            <TrashIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <LocationForm
+          location={editing}
+          parent={creatingUnder}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => {
+            setShowForm(false)
+            load()
+          }}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title={`删除${LOCATION_TYPE_TEXT[deleting.type]}`}
+          message={`确定要删除 "${deleting.code}" 吗？有下级或仍有批次存放时无法删除。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default LocationList
@@ -0,0 +1,194 @@
+﻿import React, { useEffect, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMaterialStore } from '@/stores/materialStore'
+import { getBomRequirement, useProductionStore } from '@/stores/productionStore'
+import { BomItem, BomItemFormData, Material } from '@/types/database'
+import SearchableSelect from '@/components/common/SearchableSelect'
+
+interface BomItemFormProps {
+  material: Material
+  item?: BomItem | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const BomItemForm: React.FC<BomItemFormProps> = ({ material, item, onClose, onSuccess }) => {
+  const { getAllMaterials } = useMaterialStore()
+  const { bomByMaterial, createBomItem, updateBomItem } = useProductionStore()
+
+  const [allMaterials, setAllMaterials] = useState<Material[]>([])
+  const [formData, setFormData] = useState<BomItemFormData>({
+    parent_material_id: material.id,
+    component_material_id: item?.component_material_id || '',
+    quantity: Number(item?.quantity) || 0,
+    scrap_rate: Number(item?.scrap_rate) || 0,
+    remarks: item?.remarks || ''
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    getAllMaterials().then(setAllMaterials)
+  }, [getAllMaterials])
+
+  const existing = bomByMaterial[material.id] || []
+  // 已在清单中的组件不再出现在候选里（编辑时保留当前组件）
+  const options = allMaterials.filter(
+    (m) =>
+      m.id !== material.id &&
+      (m.id === item?.component_material_id || !existing.some((bi) => bi.component_material_id === m.id))
+  )
+  const component = allMaterials.find((m) => m.id === formData.component_material_id)
+  const componentUnit = component?.unit_obj?.name || component?.unit || ''
+  const parentUnit = material.unit_obj?.name || material.unit || ''
+
+  const handleChange = (field: keyof BomItemFormData, value: string | number) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.component_material_id) {
+      newErrors.component_material_id = '请选择组件物料'
+    } else if (formData.component_material_id === material.id) {
+      newErrors.component_material_id = '组件不能是成品自身'
+    } else if (existing.some((bi) => bi.component_material_id === formData.component_material_id && bi.id !== item?.id)) {
+      newErrors.component_material_id = '该组件已在物料清单中'
+    }
+    if (!(formData.quantity > 0)) {
+      newErrors.quantity = '用量必须大于0'
+    }
+    if (!(formData.scrap_rate >= 0 && formData.scrap_rate < 100)) {
+      newErrors.scrap_rate = '损耗率需在 0 ~ 100 之间'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+
+    setSubmitting(true)
+    const ok = item ? await updateBomItem(item.id, formData) : await createBomItem(formData)
+    setSubmitting(false)
+    if (ok) onSuccess()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {item ? '编辑组件' : '添加组件'}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              成品：{material.code} · {material.name}（库存单位：{parentUnit || '-'}）
+            </p>
+
+            <SearchableSelect
+              label="组件物料"
+              required
+              value={formData.component_material_id}
+              onChange={(value) => handleChange('component_material_id', value)}
+              options={options.map((m) => ({
+                id: m.id,
+                label: m.name,
+                subtitle: [m.code, m.category?.name].filter(Boolean).join(' · ')
+              }))}
+              placeholder="选择原材料/半成品"
+              disabled={!!item}
+              error={errors.component_material_id}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  单位用量 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.quantity || ''}
+                  onChange={(e) => handleChange('quantity', parseFloat(e.target.value) || 0)}
+                  className={inputClass(!!errors.quantity)}
+                />
+                {errors.quantity && <p className="mt-1 text-sm text-red-600">{errors.quantity}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">损耗率（%）</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="99.99"
+                  step="0.01"
+                  value={formData.scrap_rate}
+                  onChange={(e) => handleChange('scrap_rate', parseFloat(e.target.value) || 0)}
+                  className={inputClass(!!errors.scrap_rate)}
+                />
+                {errors.scrap_rate && <p className="mt-1 text-sm text-red-600">{errors.scrap_rate}</p>}
+              </div>
+            </div>
+
+            {component && formData.quantity > 0 && (
+              <p className="text-sm text-blue-700 bg-blue-50 rounded-md px-3 py-2">
+                每 1 {parentUnit} 成品消耗 {formData.quantity} {componentUnit}
+                {formData.scrap_rate > 0 && `，含损耗需 ${getBomRequirement(formData, 1)} ${componentUnit}`}
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+              <input
+                type="text"
+                value={formData.remarks}
+                onChange={(e) => handleChange('remarks', e.target.value)}
+                className={inputClass()}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : item ? '更新' : '添加'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default BomItemForm
@@ -0,0 +1,141 @@
+﻿import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { getBomRequirement, useProductionStore } from '@/stores/productionStore'
+import { BomItem, Material } from '@/types/database'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import BomItemForm from './BomItemForm'
+
+interface BomItemListProps {
+  material: Material
+}
+
+// 物料清单（BOM）：维护成品的组件、单位用量与损耗率；生产入库时据此计算投料需求
+const BomItemList: React.FC<BomItemListProps> = ({ material }) => {
+  const { hasPermission } = useAuthStore()
+  const { bomByMaterial, loading, fetchBom, deleteBomItem } = useProductionStore()
+  const canWrite = hasPermission('write_bom')
+
+  const [editing, setEditing] = useState<BomItem | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<BomItem | null>(null)
+
+  useEffect(() => {
+    fetchBom(material.id)
+  }, [material.id, fetchBom])
+
+  const rows = bomByMaterial[material.id] || []
+  const parentUnit = material.unit_obj?.name || material.unit || ''
+
+  const openForm = (item: BomItem | null) => {
+    setEditing(item)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteBomItem(deleting)
+    setDeleting(null)
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          用量按每 1 {parentUnit || '库存单位'}成品计；需求量 = 生产数量 × 单位用量 ×（1 + 损耗率）
+          {rows.length > 0 && hasPermission('write_production') && (
+            <>
+              {'，'}
+              <Link to={`/batches?tab=production&material=${material.id}`} className="text-blue-600 hover:text-blue-800">
+                去生产入库
+              </Link>
+            </>
+          )}
+        </p>
+        {canWrite && (
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            添加组件
+          </button>
+        )}
+      </div>
+
+      {loading && rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">暂无组件</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">组件</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">分类</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">单位用量</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">损耗率</th>
+              <th className="px-4 py-2 text-right font-medium text-gray-500">含损耗用量</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">备注</th>
+              {canWrite && <th className="px-4 py-2 text-right font-medium text-gray-500">操作</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((bi) => {
+              const unit = bi.component?.unit_obj?.name || bi.component?.unit || ''
+              return (
+                <tr key={bi.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2">
+                    <Link to={`/materials/${bi.component_material_id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {bi.component?.code || '-'}
+                    </Link>
+                    <div className="text-xs text-gray-500">{bi.component?.name}</div>
+                  </td>
+                  <td className="px-4 py-2 text-gray-700">{bi.component?.category?.name || '-'}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{Number(bi.quantity)} {unit}</td>
+                  <td className="px-4 py-2 text-right text-gray-700">{Number(bi.scrap_rate)}%</td>
+                  <td className="px-4 py-2 text-right text-gray-900">{getBomRequirement(bi, 1)} {unit}</td>
+                  <td className="px-4 py-2 text-gray-700">{bi.remarks || '-'}</td>
+                  {canWrite && (
+                    <td className="px-4 py-2">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button onClick={() => openForm(bi)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setDeleting(bi)} className="text-red-600 hover:text-red-800" title="移除">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {showForm && (
+        <BomItemForm
+          material={material}
+          item={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => setShowForm(false)}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="移除组件"
+          message={`确定要从物料清单中移除 "${deleting.component?.name ?? ''}" 吗？已完成的生产单不受影响。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default BomItemList
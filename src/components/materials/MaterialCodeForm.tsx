@@ -0,0 +1,170 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMaterialCodeStore } from '@/stores/materialCodeStore'
+import { Material, MaterialCode, MaterialCodeFormData, MaterialCodeType } from '@/types/database'
+import { MATERIAL_CODE_TYPE_TEXT } from '@/utils/statusHelpers'
+
+interface MaterialCodeFormProps {
+  material: Material
+  code?: MaterialCode | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const MaterialCodeForm: React.FC<MaterialCodeFormProps> = ({ material, code, onClose, onSuccess }) => {
+  const { codes: allCodes, createCode, updateCode, findConflict } = useMaterialCodeStore()
+  const codes = allCodes.filter((c) => c.material_id === material.id)
+
+  const [formData, setFormData] = useState<MaterialCodeFormData>({
+    material_id: material.id,
+    code: code?.code || '',
+    code_type: code?.code_type || 'supplier',
+    // 第一个编码默认设为主编码
+    is_primary: code?.is_primary ?? codes.length === 0,
+    description: code?.description || ''
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleChange = (field: keyof MaterialCodeFormData, value: string | boolean) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = async () => {
+    const newErrors: Record<string, string> = {}
+    const value = formData.code.trim()
+
+    if (!value) {
+      newErrors.code = '请输入编码'
+    } else if (value === material.code) {
+      newErrors.code = '与物料编码相同，无需重复登记'
+    } else if (codes.some((c) => c.code === value && c.code_type === formData.code_type && c.id !== code?.id)) {
+      newErrors.code = `已存在相同的${MATERIAL_CODE_TYPE_TEXT[formData.code_type]}`
+    } else {
+      // 说明：同一编码对应多个物料时扫码/搜索无法确定物料，这里直接拦截
+      const conflict = await findConflict(value, material.id)
+      if (conflict) newErrors.code = `该编码已是${conflict}`
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      if (!(await validate())) return
+      const ok = code ? await updateCode(code.id, formData) : await createCode(formData)
+      if (ok) onSuccess()
+    } catch (error) {
+      console.error('Error submitting material code form:', error)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {code ? '编辑物料编码' : '添加物料编码'}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              物料：{material.code} · {material.name}
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">类型</label>
+                <select
+                  value={formData.code_type}
+                  onChange={(e) => handleChange('code_type', e.target.value as MaterialCodeType)}
+                  className={inputClass()}
+                >
+                  {(Object.keys(MATERIAL_CODE_TYPE_TEXT) as MaterialCodeType[]).map((t) => (
+                    <option key={t} value={t}>{MATERIAL_CODE_TYPE_TEXT[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  编码 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => handleChange('code', e.target.value)}
+                  className={inputClass(!!errors.code)}
+                />
+                {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">说明</label>
+              <input
+                type="text"
+                value={formData.description}
+                onChange={(e) => handleChange('description', e.target.value)}
+                placeholder="例如：供应商名称、客户名称"
+                className={inputClass()}
+              />
+            </div>
+
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="is_primary"
+                checked={formData.is_primary}
+                onChange={(e) => handleChange('is_primary', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <label htmlFor="is_primary" className="ml-2 block text-sm text-gray-900">
+                设为主编码（每个物料只有一个，列表与标签选物料时优先显示）
+              </label>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : code ? '更新' : '添加'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default MaterialCodeForm
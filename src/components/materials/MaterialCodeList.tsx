@@ -0,0 +1,135 @@
+﻿import React, { useEffect, useState } from 'react'
+import { PencilIcon, PlusIcon, StarIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useMaterialCodeStore } from '@/stores/materialCodeStore'
+import { Material, MaterialCode } from '@/types/database'
+import { MATERIAL_CODE_TYPE_TEXT } from '@/utils/statusHelpers'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import MaterialCodeForm from './MaterialCodeForm'
+
+interface MaterialCodeListProps {
+  material: Material
+}
+
+// 物料多编码：供应商/客户/条码等替代编码，物料搜索、标签选物料与扫码都会匹配
+const MaterialCodeList: React.FC<MaterialCodeListProps> = ({ material }) => {
+  const { hasPermission } = useAuthStore()
+  const { codes, loading, fetchCodes, updateCode, deleteCode } = useMaterialCodeStore()
+  const canWrite = hasPermission('write_material_codes')
+
+  const [editing, setEditing] = useState<MaterialCode | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<MaterialCode | null>(null)
+
+  useEffect(() => {
+    fetchCodes(material.id)
+  }, [material.id, fetchCodes])
+
+  // 切换物料时 store 里可能还是上一个物料的编码
+  const rows = codes.filter((c) => c.material_id === material.id)
+
+  const openForm = (code: MaterialCode | null) => {
+    setEditing(code)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteCode(deleting.id)
+    setDeleting(null)
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          物料编码 {material.code} 之外的替代编码；主编码在列表与标签选物料时优先显示
+        </p>
+        {canWrite && (
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            添加编码
+          </button>
+        )}
+      </div>
+
+      {loading && rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">暂无替代编码</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">编码</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">类型</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">说明</th>
+              {canWrite && <th className="px-4 py-2 text-right font-medium text-gray-500">操作</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((c) => (
+              <tr key={c.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2">
+                  <span className="font-mono text-gray-900">{c.code}</span>
+                  {c.is_primary && (
+                    <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      主编码
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-700">{MATERIAL_CODE_TYPE_TEXT[c.code_type] ?? c.code_type}</td>
+                <td className="px-4 py-2 text-gray-700">{c.description || '-'}</td>
+                {canWrite && (
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end space-x-2">
+                      {!c.is_primary && (
+                        <button
+                          onClick={() => updateCode(c.id, { material_id: c.material_id, is_primary: true })}
+                          className="text-yellow-600 hover:text-yellow-800"
+                          title="设为主编码"
+                        >
+                          <StarIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button onClick={() => openForm(c)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeleting(c)} className="text-red-600 hover:text-red-800" title="删除">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showForm && (
+        <MaterialCodeForm
+          material={material}
+          code={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => setShowForm(false)}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="删除物料编码"
+          message={`确定要删除编码 "${deleting.code}" 吗？删除后扫码和搜索将不再匹配该编码。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default MaterialCodeList
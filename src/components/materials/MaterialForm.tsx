@@ -2,8 +2,11 @@
 import { Dialog } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { useMaterialStore } from '../../stores/materialStore';
+import { useLabelTemplateStore } from '../../stores/labelTemplateStore';
 import { Material, MaterialFormData } from '../../types/database';
 import { useToast } from '../common/Toast';
+import { normalizeGtin } from '../../utils/gs1';
+import { flattenCategoryTree } from '../../utils/categoryTree';
 
 interface MaterialFormProps {
   material?: Material | null;
@@ -13,6 +16,7 @@ interface MaterialFormProps {
 
 const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSuccess }) => {
   const { createMaterial, updateMaterial, categories, units, fetchCategories, fetchUnits, fetchSuppliers } = useMaterialStore();
+  const { templates, fetchTemplates } = useLabelTemplateStore();
   const { success, error: showError } = useToast();
   
   const [formData, setFormData] = useState<MaterialFormData>({
@@ -29,7 +33,10 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
     weight: '',
     storage_conditions: '存放于阴凉干燥通风处，密封避光',
     main_ingredients: '食品用香料、食品用香精辅料',
-    shelf_life: '12个月'
+    shelf_life: '12个月',
+    gtin: '',
+    label_template_id: null,
+    label_print_count: null
   });
   
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -39,7 +46,8 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
     fetchCategories();
     fetchUnits();
     fetchSuppliers();
-  }, [fetchCategories, fetchUnits, fetchSuppliers]);
+    fetchTemplates();
+  }, [fetchCategories, fetchUnits, fetchSuppliers, fetchTemplates]);
 
   useEffect(() => {
     if (material) {
@@ -57,7 +65,10 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
         weight: material.weight || '',
         storage_conditions: material.storage_conditions || '',
         main_ingredients: material.main_ingredients || '',
-        shelf_life: material.shelf_life || ''
+        shelf_life: material.shelf_life || '',
+        gtin: material.gtin || '',
+        label_template_id: material.label_template_id ?? null,
+        label_print_count: material.label_print_count ?? null
       });
     }
   }, [material]);
@@ -88,6 +99,11 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
     if (formData.max_stock < formData.min_stock) {
       newErrors.max_stock = '最大库存不能小于最小库存';
     }
+
+    if (formData.gtin?.trim()) {
+      const gtin = normalizeGtin(formData.gtin);
+      if (!gtin.valid) newErrors.gtin = gtin.error!;
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -103,11 +119,13 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
     setLoading(true);
     
     try {
+      // 说明：GTIN 为空时存 NULL，避免空字符串触发唯一索引冲突
+      const payload: MaterialFormData = { ...formData, gtin: formData.gtin?.trim() || null };
       let result;
       if (material) {
-        result = await updateMaterial(material.id, formData);
+        result = await updateMaterial(material.id, payload);
       } else {
-        result = await createMaterial(formData);
+        result = await createMaterial(payload);
       }
       
       if (result) {
@@ -232,9 +250,9 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
                   className={`w-full rounded-lg border ${errors.category_id ? 'border-red-300' : 'border-gray-300'} shadow-sm focus:border-blue-500 focus:ring-blue-500`}
                 >
                   <option value="">请选择分类</option>
-                  {categories.map(category => (
+                  {flattenCategoryTree(categories).map(({ category, depth }) => (
                     <option key={category.id} value={category.id}>
-                      {category.name}
+                      {'　'.repeat(depth)}{category.name}
                     </option>
                   ))}
                 </select>
@@ -366,6 +384,58 @@ const MaterialForm: React.FC<MaterialFormProps> = ({ material, onClose, onSucces
                 />
               </div>
 
+              <div>
+                <label htmlFor="gtin" className="block text-sm font-medium text-gray-700 mb-1">
+                  GTIN
+                </label>
+                <input
+                  type="text"
+                  id="gtin"
+                  name="gtin"
+                  value={formData.gtin || ''}
+                  onChange={handleInputChange}
+                  className={`w-full rounded-lg border ${errors.gtin ? 'border-red-300' : 'border-gray-300'} shadow-sm focus:border-blue-500 focus:ring-blue-500`}
+                  placeholder="GS1 商品条码，8/12/13/14 位"
+                />
+                {errors.gtin && <p className="mt-1 text-sm text-red-600">{errors.gtin}</p>}
+              </div>
+
+              <div>
+                <label htmlFor="label_template_id" className="block text-sm font-medium text-gray-700 mb-1">
+                  默认标签模板
+                </label>
+                <select
+                  id="label_template_id"
+                  value={formData.label_template_id || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, label_template_id: e.target.value || null }))}
+                  className="w-full rounded-lg border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">不设置（按供应商/全局默认）</option>
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}（{t.width_mm}×{t.height_mm}mm）</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="label_print_count" className="block text-sm font-medium text-gray-700 mb-1">
+                  默认打印张数
+                </label>
+                <input
+                  type="number"
+                  id="label_print_count"
+                  min="1"
+                  max="100"
+                  value={formData.label_print_count ?? ''}
+                  onChange={(e) => {
+                    const count = parseInt(e.target.value);
+                    setFormData(prev => ({ ...prev, label_print_count: count > 0 ? Math.min(100, count) : null }));
+                  }}
+                  className="w-full rounded-lg border border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="不填按供应商/全局默认"
+                />
+              </div>
+
               <div className="md:col-span-2">
                 <label htmlFor="storage_conditions" className="block text-sm font-medium text-gray-700 mb-1">
                   储存条件
@@ -8,9 +8,11 @@ import {
   MagnifyingGlassIcon,
   ArrowPathIcon,
   ArrowDownTrayIcon,
-  ArrowUpTrayIcon
+  ArrowUpTrayIcon,
+  ScaleIcon
 } from '@heroicons/react/24/outline';
 import { useMaterialStore } from '../../stores/materialStore';
+import { useAuthStore } from '../../stores/authStore';
 import { Material } from '../../types/database';
 import { useToast } from '../common/Toast';
 import { exportToExcel, getDateSuffix, downloadMaterialTemplate } from '../../lib/exportUtils';
@@ -21,7 +23,9 @@ import LoadingSpinner from '../common/LoadingSpinner';
 import StatusBadge from '../common/StatusBadge';
 import Pagination from '../common/Pagination';
 import ImportModal from '../common/ImportModal';
+import StockReconcileModal from './StockReconcileModal';
 import { supabase } from '../../lib/supabase';
+import { flattenCategoryTree } from '../../utils/categoryTree';
 
 const MaterialList: React.FC = () => {
   const {
@@ -41,6 +45,7 @@ const MaterialList: React.FC = () => {
   } = useMaterialStore();
 
   const { success, error: showError } = useToast();
+  const { hasPermission } = useAuthStore();
 
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
@@ -50,6 +55,7 @@ const MaterialList: React.FC = () => {
   const [deletingMaterial, setDeletingMaterial] = useState<Material | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showReconcile, setShowReconcile] = useState(false);
 
   useEffect(() => {
     fetchMaterials();
@@ -104,8 +110,11 @@ const MaterialList: React.FC = () => {
   const confirmDelete = async () => {
     if (deletingMaterial) {
       try {
-        await deleteMaterial(deletingMaterial.id);
-        success('删除成功', `物料 "${deletingMaterial.name}" 已删除`);
+        if (await deleteMaterial(deletingMaterial.id)) {
+          success('删除成功', `物料 "${deletingMaterial.name}" 已删除`);
+        } else {
+          showError('删除失败', useMaterialStore.getState().error || '无法删除物料');
+        }
         setDeletingMaterial(null);
       } catch (err: unknown) {
         const message = err instanceof Error ? err.message : '无法删除物料';
@@ -186,6 +195,8 @@ const MaterialList: React.FC = () => {
           .insert([
             {
               ...materialData,
+              // 库存由批次台账汇总，导入只建立物料主数据；期初库存请通过批次入库录入
+              current_stock: 0,
               created_by: userId,
               updated_by: userId
             }
@@ -237,6 +248,15 @@ const MaterialList: React.FC = () => {
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">物料管理</h1>
           <div className="flex space-x-3">
+            {hasPermission('write_materials') && (
+              <button
+                onClick={() => setShowReconcile(true)}
+                className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
+              >
+                <ScaleIcon className="h-5 w-5" />
+                <span>库存对账</span>
+              </button>
+            )}
             <button
               onClick={() => setShowImportModal(true)}
               className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg flex items-center space-x-2 transition-colors"
@@ -285,9 +305,10 @@ const MaterialList: React.FC = () => {
                 className="px-3 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               >
                 <option value="">所有分类</option>
-                {categories.map(category => (
+                {/* 选中上级分类时同时包含其下级分类的物料 */}
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
                   <option key={category.id} value={category.id}>
-                    {category.name}
+                    {'　'.repeat(depth)}{category.name}
                   </option>
                 ))}
               </select>
@@ -458,6 +479,11 @@ const MaterialList: React.FC = () => {
         />
       )}
 
+      {/* 库存对账 */}
+      {showReconcile && (
+        <StockReconcileModal onClose={() => setShowReconcile(false)} />
+      )}
+
       {/* 导入模态框 */}
       {showImportModal && (
         <ImportModal
@@ -467,7 +493,7 @@ const MaterialList: React.FC = () => {
           onDownloadTemplate={downloadMaterialTemplate}
           validateData={(rows) => validateMaterialData(rows, categories, units)}
           // 说明：与导入模板表头一致（Excel 第 1 行字段名）
-          templateFields={['物料编码', '物料名称', '规格型号', '单位', '分类', '当前库存', '最小库存', '最大库存', '状态']}
+          templateFields={['物料编码', '物料名称', '规格型号', '单位', '分类', '最小库存', '最大库存', '状态']}
         />
       )}
     </div>
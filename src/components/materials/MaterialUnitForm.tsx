@@ -0,0 +1,171 @@
+﻿import React, { useEffect, useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMaterialStore } from '@/stores/materialStore'
+import { useMaterialUnitStore } from '@/stores/materialUnitStore'
+import { Material, MaterialUnit, MaterialUnitFormData } from '@/types/database'
+
+interface MaterialUnitFormProps {
+  material: Material
+  materialUnit?: MaterialUnit | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const MaterialUnitForm: React.FC<MaterialUnitFormProps> = ({ material, materialUnit, onClose, onSuccess }) => {
+  const { units, fetchUnits } = useMaterialStore()
+  const { unitsByMaterial, createMaterialUnit, updateMaterialUnit } = useMaterialUnitStore()
+
+  const [formData, setFormData] = useState<MaterialUnitFormData>({
+    material_id: material.id,
+    unit_id: materialUnit?.unit_id || '',
+    conversion_factor: Number(materialUnit?.conversion_factor) || 0,
+    remarks: materialUnit?.remarks || ''
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (units.length === 0) fetchUnits()
+  }, [units.length, fetchUnits])
+
+  const stockUnitName = units.find((u) => u.id === material.unit_id)?.name || material.unit_obj?.name || material.unit
+  const selectedUnit = units.find((u) => u.id === formData.unit_id)
+
+  const handleChange = (field: keyof MaterialUnitFormData, value: string | number) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {}
+    const existing = unitsByMaterial[material.id] || []
+
+    if (!formData.unit_id) {
+      newErrors.unit_id = '请选择单位'
+    } else if (existing.some((mu) => mu.unit_id === formData.unit_id && mu.id !== materialUnit?.id)) {
+      newErrors.unit_id = '该物料已设置过这个单位'
+    }
+    if (!(formData.conversion_factor > 0)) {
+      newErrors.conversion_factor = '换算数量必须大于0'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+
+    setSubmitting(true)
+    const ok = materialUnit
+      ? await updateMaterialUnit(materialUnit.id, formData)
+      : await createMaterialUnit(formData)
+    setSubmitting(false)
+    if (ok) onSuccess()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {materialUnit ? '编辑包装单位' : '添加包装单位'}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-gray-500">
+              物料：{material.code} · {material.name}（库存单位：{stockUnitName}）
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  包装单位 <span className="text-red-500">*</span>
+                </label>
+                <select
+                  value={formData.unit_id}
+                  onChange={(e) => handleChange('unit_id', e.target.value)}
+                  className={inputClass(!!errors.unit_id)}
+                >
+                  <option value="">请选择</option>
+                  {units
+                    .filter((u) => u.id !== material.unit_id)
+                    .map((u) => (
+                      <option key={u.id} value={u.id}>{u.name}（{u.symbol}）</option>
+                    ))}
+                </select>
+                {errors.unit_id && <p className="mt-1 text-sm text-red-600">{errors.unit_id}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  换算数量 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.conversion_factor || ''}
+                  onChange={(e) => handleChange('conversion_factor', parseFloat(e.target.value) || 0)}
+                  className={inputClass(!!errors.conversion_factor)}
+                />
+                {errors.conversion_factor && <p className="mt-1 text-sm text-red-600">{errors.conversion_factor}</p>}
+              </div>
+            </div>
+
+            {selectedUnit && formData.conversion_factor > 0 && (
+              <p className="text-sm text-blue-700 bg-blue-50 rounded-md px-3 py-2">
+                1 {selectedUnit.name} = {formData.conversion_factor} {stockUnitName}
+              </p>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">备注</label>
+              <input
+                type="text"
+                value={formData.remarks}
+                onChange={(e) => handleChange('remarks', e.target.value)}
+                placeholder="例如：外箱规格、供应商包装"
+                className={inputClass()}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : materialUnit ? '更新' : '添加'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default MaterialUnitForm
@@ -0,0 +1,127 @@
+﻿import React, { useEffect, useState } from 'react'
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { useMaterialUnitStore } from '@/stores/materialUnitStore'
+import { Material, MaterialUnit } from '@/types/database'
+import { getUnitOptions } from '@/utils/unitConversion'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import MaterialUnitForm from './MaterialUnitForm'
+
+interface MaterialUnitListProps {
+  material: Material
+}
+
+// 物料包装单位：出入库可按箱/袋等录入，保存时换算为库存单位
+const MaterialUnitList: React.FC<MaterialUnitListProps> = ({ material }) => {
+  const { hasPermission } = useAuthStore()
+  const { units, fetchUnits } = useMaterialStore()
+  const { unitsByMaterial, loading, fetchMaterialUnits, deleteMaterialUnit } = useMaterialUnitStore()
+  const canWrite = hasPermission('write_material_units')
+
+  const [editing, setEditing] = useState<MaterialUnit | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<MaterialUnit | null>(null)
+
+  useEffect(() => {
+    fetchUnits()
+    fetchMaterialUnits(material.id)
+  }, [material.id, fetchUnits, fetchMaterialUnits])
+
+  const rows = unitsByMaterial[material.id] || []
+  const stockUnitName = units.find((u) => u.id === material.unit_id)?.name || material.unit_obj?.name || material.unit
+  // 无需设置即可使用的标准换算单位（如库存为千克时的克）
+  const standardOptions = getUnitOptions(material, units).filter((o) => o.key.startsWith('std:'))
+
+  const openForm = (materialUnit: MaterialUnit | null) => {
+    setEditing(materialUnit)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteMaterialUnit(deleting)
+    setDeleting(null)
+  }
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          库存单位：{stockUnitName || '-'}
+          {standardOptions.length > 0 && `；还可按 ${standardOptions.map((o) => o.name).join('、')} 录入（自动换算）`}
+        </p>
+        {canWrite && (
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            添加包装单位
+          </button>
+        )}
+      </div>
+
+      {loading && rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500 py-8 text-center">暂无包装单位</p>
+      ) : (
+        <table className="min-w-full divide-y divide-gray-200 text-sm border border-gray-200 rounded-lg">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">单位</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">换算</th>
+              <th className="px-4 py-2 text-left font-medium text-gray-500">备注</th>
+              {canWrite && <th className="px-4 py-2 text-right font-medium text-gray-500">操作</th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.map((mu) => (
+              <tr key={mu.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2 text-gray-900">{mu.unit?.name || '-'}</td>
+                <td className="px-4 py-2 text-gray-700">
+                  1 {mu.unit?.name} = {Number(mu.conversion_factor)} {stockUnitName}
+                </td>
+                <td className="px-4 py-2 text-gray-700">{mu.remarks || '-'}</td>
+                {canWrite && (
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end space-x-2">
+                      <button onClick={() => openForm(mu)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                        <PencilIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setDeleting(mu)} className="text-red-600 hover:text-red-800" title="删除">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {showForm && (
+        <MaterialUnitForm
+          material={material}
+          materialUnit={editing}
+          onClose={() => setShowForm(false)}
+          onSuccess={() => setShowForm(false)}
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="删除包装单位"
+          message={`确定要删除包装单位 "${deleting.unit?.name ?? ''}" 吗？已入库的数量不受影响。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default MaterialUnitList
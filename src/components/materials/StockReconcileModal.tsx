@@ -0,0 +1,125 @@
+﻿import React, { useEffect, useState } from 'react';
+import { Dialog } from '@headlessui/react';
+import { XMarkIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import { useMaterialStore } from '../../stores/materialStore';
+import { StockDiscrepancy } from '../../types/database';
+import { useToast } from '../common/Toast';
+
+interface StockReconcileModalProps {
+  onClose: () => void;
+}
+
+// 库存对账：列出 current_stock 与可用批次剩余数量之和不一致的物料，并支持一键修正
+const StockReconcileModal: React.FC<StockReconcileModalProps> = ({ onClose }) => {
+  const { reconcileStock } = useMaterialStore();
+  const { success, error: showError } = useToast();
+
+  const [discrepancies, setDiscrepancies] = useState<StockDiscrepancy[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    reconcileStock(false).then((rows) => {
+      if (cancelled) return;
+      if (rows === null) showError('对账失败', '请稍后重试');
+      setDiscrepancies(rows ?? []);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [reconcileStock, showError]);
+
+  const handleApply = async () => {
+    setApplying(true);
+    const rows = await reconcileStock(true);
+    setApplying(false);
+    if (rows === null) {
+      showError('校准失败', '请稍后重试');
+      return;
+    }
+    success('校准完成', `已修正 ${rows.length} 个物料的当前库存`);
+    setDiscrepancies([]);
+  };
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white dark:bg-gray-900 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+            <Dialog.Title className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+              库存对账
+            </Dialog.Title>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-6 overflow-y-auto">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              当前库存应等于该物料所有“可用”批次剩余数量之和。以下物料的记录值与批次实际值不一致。
+            </p>
+
+            {loading ? (
+              <p className="text-sm text-gray-500">对账中...</p>
+            ) : discrepancies && discrepancies.length === 0 ? (
+              <div className="flex items-center text-green-600 text-sm">
+                <CheckCircleIcon className="w-5 h-5 mr-2" />
+                所有物料库存一致
+              </div>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-800 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">物料编码</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500 dark:text-gray-400">物料名称</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">记录库存</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">批次合计</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500 dark:text-gray-400">差异</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                  {discrepancies?.map((d) => (
+                    <tr key={d.material_id}>
+                      <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{d.code}</td>
+                      <td className="px-4 py-2 text-gray-900 dark:text-gray-100">{d.name}</td>
+                      <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{d.recorded_stock}</td>
+                      <td className="px-4 py-2 text-right text-gray-700 dark:text-gray-300">{d.actual_stock}</td>
+                      <td className={`px-4 py-2 text-right font-medium ${d.difference > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {d.difference > 0 ? `+${d.difference}` : d.difference}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-800">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              关闭
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={loading || applying || !discrepancies?.length}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {applying ? '校准中...' : '按批次修正'}
+            </button>
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  );
+};
+
+export default StockReconcileModal;
@@ -0,0 +1,117 @@
+﻿import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { useMaterialStore } from '@/stores/materialStore'
+import { useMaterialUnitStore } from '@/stores/materialUnitStore'
+import { Material } from '@/types/database'
+import {
+  BASE_UNIT_KEY,
+  UnitOption,
+  fromStockQuantity,
+  getUnitOptions,
+  toStockQuantity
+} from '@/utils/unitConversion'
+
+export interface UnitEntry {
+  quantity: number
+  option: UnitOption
+}
+
+interface UnitQuantityInputProps {
+  material?: Material
+  // 始终为库存单位数量
+  value: number
+  // entry 为按非库存单位录入时的原始数量与单位（用于备注留痕）
+  onChange: (quantity: number, entry?: UnitEntry) => void
+  max?: number
+  hasError?: boolean
+  autoFocus?: boolean
+}
+
+// 数量输入 + 单位选择：可按包装单位/可换算单位录入，对外只输出库存单位数量
+const UnitQuantityInput: React.FC<UnitQuantityInputProps> = ({ material, value, onChange, max, hasError, autoFocus }) => {
+  const { units, fetchUnits } = useMaterialStore()
+  const { unitsByMaterial, fetchMaterialUnits } = useMaterialUnitStore()
+
+  const [optionKey, setOptionKey] = useState(BASE_UNIT_KEY)
+  const [entered, setEntered] = useState<number>(0)
+  // 最近一次向外输出的库存数量，用于区分“自己输出的回传”与“外部改写”
+  const lastEmitted = useRef(value)
+
+  useEffect(() => {
+    if (units.length === 0) fetchUnits()
+  }, [units.length, fetchUnits])
+
+  const materialId = material?.id
+  useEffect(() => {
+    setOptionKey(BASE_UNIT_KEY)
+    if (materialId) fetchMaterialUnits(materialId)
+  }, [materialId, fetchMaterialUnits])
+
+  const options = useMemo(
+    () => getUnitOptions(material, units, materialId ? unitsByMaterial[materialId] : []),
+    [material, units, materialId, unitsByMaterial]
+  )
+  const option = options.find((o) => o.key === optionKey) || options[0]
+  const isBase = !option || option.key === BASE_UNIT_KEY
+
+  // 外部改写数量（如提交后重置表单）时，按当前单位回算显示值
+  useEffect(() => {
+    if (value === lastEmitted.current) return
+    lastEmitted.current = value
+    if (!isBase) setEntered(fromStockQuantity(value, option))
+  }, [value, isBase, option])
+
+  const emit = (quantity: number, next: UnitOption | undefined) => {
+    if (!next || next.key === BASE_UNIT_KEY) {
+      lastEmitted.current = quantity
+      onChange(quantity)
+    } else {
+      const stockQuantity = toStockQuantity(quantity, next)
+      lastEmitted.current = stockQuantity
+      setEntered(quantity)
+      onChange(stockQuantity, { quantity, option: next })
+    }
+  }
+
+  const displayed = isBase ? value : entered
+
+  return (
+    <div>
+      <div className="flex">
+        <input
+          type="number"
+          min="0"
+          step="any"
+          max={isBase ? max : undefined}
+          value={Number.isFinite(displayed) ? displayed : ''}
+          onChange={(e) => emit(parseFloat(e.target.value) || 0, option)}
+          autoFocus={autoFocus}
+          className={`w-full px-3 py-2 border focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+            options.length > 1 ? 'rounded-l-lg' : 'rounded-lg'
+          } ${hasError ? 'border-red-500' : 'border-gray-300'}`}
+        />
+        {options.length > 1 && (
+          <select
+            value={option?.key}
+            onChange={(e) => {
+              const next = options.find((o) => o.key === e.target.value)
+              setOptionKey(e.target.value)
+              emit(Number.isFinite(displayed) ? displayed : 0, next)
+            }}
+            className="px-2 py-2 border border-l-0 border-gray-300 rounded-r-lg bg-gray-50 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {options.map((o) => (
+              <option key={o.key} value={o.key}>{o.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {!isBase && option && (
+        <p className="mt-1 text-xs text-blue-700">
+          1 {option.name} = {option.factor} {options[0].name}，合计 {toStockQuantity(entered, option)} {options[0].name}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default UnitQuantityInput
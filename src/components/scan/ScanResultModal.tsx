@@ -0,0 +1,183 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { useNavigate } from 'react-router-dom'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useBatchStore } from '@/stores/batchStore'
+import { useScanStore } from '@/stores/scanStore'
+import { Barcode, MaterialBatch, OutboundFormData } from '@/types/database'
+import { BARCODE_TYPE_TEXT, MATERIAL_CODE_TYPE_TEXT, getStatusBadgeColor, getStatusText } from '@/utils/statusHelpers'
+import BatchDetailModal from '@/components/batches/BatchDetailModal'
+import OutboundModal from '@/components/batches/OutboundModal'
+import BarcodeReprintModal from '@/components/barcodes/BarcodeReprintModal'
+
+const actionClass = 'px-2.5 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50'
+
+// 全局扫码结果：列出命中的物料/批次/台账条码，并提供对应的操作入口
+const ScanResultModal: React.FC = () => {
+  const navigate = useNavigate()
+  const { hasPermission } = useAuthStore()
+  const { result, clearResult } = useScanStore()
+  const outboundBatch = useBatchStore((s) => s.outboundBatch)
+
+  const [viewing, setViewing] = useState<MaterialBatch | null>(null)
+  const [outbounding, setOutbounding] = useState<MaterialBatch | null>(null)
+  const [reprinting, setReprinting] = useState<Barcode | null>(null)
+
+  if (!result) return null
+
+  const { code, label, materials, materialCodes, batches, barcodes } = result
+
+  const goTo = (path: string) => {
+    clearResult()
+    navigate(path)
+  }
+
+  // 与批次列表一致：可用批次可出库；待检/锁定批次仅对可越权的用户开放
+  const canOutbound = (batch: MaterialBatch) =>
+    hasPermission('write_batches') &&
+    (batch.remaining_quantity ?? batch.quantity) > 0 &&
+    (batch.status === 'available' ||
+      (hasPermission('override_batch_hold') && (batch.status === 'pending' || batch.status === 'locked')))
+
+  const handleOutbound = async (data: OutboundFormData) => {
+    if (!outbounding) return
+    const ok = await outboundBatch(outbounding.id, data)
+    if (!ok) throw new Error('出库失败')
+  }
+
+  // 子弹窗打开时先隐藏结果弹窗，避免两层 Dialog 争抢焦点
+  if (viewing) return <BatchDetailModal batch={viewing} onClose={() => setViewing(null)} />
+  if (outbounding) return <OutboundModal batch={outbounding} onClose={() => setOutbounding(null)} onConfirm={handleOutbound} />
+  if (reprinting) {
+    return <BarcodeReprintModal barcode={reprinting} onClose={() => setReprinting(null)} onPrinted={() => setReprinting(null)} />
+  }
+
+  return (
+    <Dialog open={true} onClose={clearResult} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <div>
+              <Dialog.Title className="text-lg font-semibold text-gray-900">扫码结果</Dialog.Title>
+              <p className="mt-1 text-xs text-gray-500 break-all">{code}</p>
+            </div>
+            <button onClick={clearResult} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <div className="p-6 space-y-5 text-sm">
+            {label && (
+              <p className="p-3 rounded-lg bg-blue-50 text-blue-800">
+                标签码：{label.material_code} / {label.batch_number}
+                {label.serial ? ` · 序号 ${label.serial}` : ''}
+                {label.quantity !== null && label.quantity !== undefined ? ` · 数量 ${label.quantity}` : ''}
+              </p>
+            )}
+
+            {materials.length > 0 && (
+              <section>
+                <h3 className="font-medium text-gray-900 mb-2">物料</h3>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {materials.map((m) => {
+                    const matchedCode = materialCodes?.find((c) => c.material_id === m.id)
+                    return (
+                      <li key={m.id} className="flex items-center justify-between px-3 py-2">
+                        <span className="text-gray-700">
+                          {m.code} - {m.name}
+                          {matchedCode && (
+                            <span className="ml-2 text-xs text-gray-500">
+                              （{MATERIAL_CODE_TYPE_TEXT[matchedCode.code_type]}{matchedCode.is_primary ? '·主编码' : ''}）
+                            </span>
+                          )}
+                        </span>
+                        <div className="flex gap-2">
+                          <button onClick={() => goTo(`/materials/${m.id}`)} className={actionClass}>
+                            查看详情
+                          </button>
+                          {hasPermission('read_barcodes') && (
+                            <button onClick={() => goTo(`/label-print?material=${m.id}`)} className={actionClass}>
+                              打印标签
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ul>
+              </section>
+            )}
+
+            {batches.length > 0 && (
+              <section>
+                <h3 className="font-medium text-gray-900 mb-2">批次</h3>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {batches.map((b) => (
+                    <li key={b.id} className="flex items-center justify-between px-3 py-2 gap-3">
+                      <div className="text-gray-700">
+                        <span className="font-medium">{b.batch_number}</span>
+                        <span className="ml-2 text-gray-500">{b.material?.name}</span>
+                        <span className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeColor(b.status)}`}>
+                          {getStatusText(b.status)}
+                        </span>
+                        <span className="ml-2 text-gray-500">剩余 {b.remaining_quantity ?? b.quantity}</span>
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button onClick={() => setViewing(b)} className={actionClass}>
+                          详情
+                        </button>
+                        {canOutbound(b) && (
+                          <button onClick={() => setOutbounding(b)} className={actionClass}>
+                            出库
+                          </button>
+                        )}
+                        {hasPermission('read_barcodes') && (
+                          <button
+                            onClick={() => goTo(`/label-print?material=${b.material_id}&batch=${b.id}`)}
+                            className={actionClass}
+                          >
+                            补打标签
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {barcodes.length > 0 && (
+              <section>
+                <h3 className="font-medium text-gray-900 mb-2">台账条码</h3>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {barcodes.map((bc) => (
+                    <li key={bc.id} className="flex items-center justify-between px-3 py-2">
+                      <span className="text-gray-700">
+                        {BARCODE_TYPE_TEXT[bc.barcode_type] ?? bc.barcode_type}
+                        <span className="ml-2 text-gray-500">
+                          {bc.material?.code ?? '自定义'}
+                          {bc.batch ? ` / ${bc.batch.batch_number}` : ''} · 已打印 {bc.print_count ?? 0} 张
+                        </span>
+                        {!bc.is_active && <span className="ml-2 text-red-600">已停用</span>}
+                      </span>
+                      {bc.is_active && (
+                        <button onClick={() => setReprinting(bc)} className={actionClass}>
+                          补打
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default ScanResultModal
@@ -1,5 +1,14 @@
 ﻿import React, { useState, useEffect } from 'react';
 import { XMarkIcon, GlobeAltIcon, ShieldCheckIcon, BellIcon, CircleStackIcon } from '@heroicons/react/24/outline';
+import {
+  BATCH_NUMBER_RESET_TEXT,
+  BATCH_NUMBER_TOKENS,
+  BatchNumberReset,
+  DEFAULT_BATCH_NUMBER_PATTERN,
+  formatBatchNumber,
+  validateBatchNumberPattern
+} from '../../utils/batchNumberPattern';
+import { useLabelTemplateStore } from '../../stores/labelTemplateStore';
 
 interface GeneralSettings {
   site_name?: string;
@@ -21,6 +30,7 @@ interface NotificationSettings {
   low_stock_alerts?: boolean;
   system_maintenance?: boolean;
   user_activities?: boolean;
+  near_expiry_days?: number;
 }
 
 interface SystemSettings {
@@ -28,6 +38,10 @@ interface SystemSettings {
   backup_frequency?: string;
   data_retention_days?: number;
   maintenance_mode?: boolean;
+  batch_number_pattern?: string;
+  batch_number_reset?: BatchNumberReset;
+  default_label_template_id?: string | null;
+  default_label_print_count?: number;
 }
 
 type SettingsConfig = {
@@ -47,12 +61,17 @@ interface SettingsFormProps {
 const SettingsForm: React.FC<SettingsFormProps> = ({ config, activeTab, onClose, onSubmit }) => {
   const [formData, setFormData] = useState<SettingsConfig>(config);
   const [loading, setLoading] = useState(false);
+  const { templates, fetchTemplates } = useLabelTemplateStore();
 
   useEffect(() => {
     setFormData(config);
   }, [config]);
 
-  const handleInputChange = (category: keyof SettingsConfig, key: string, value: string | number | boolean) => {
+  useEffect(() => {
+    if (activeTab === 'system') fetchTemplates();
+  }, [activeTab, fetchTemplates]);
+
+  const handleInputChange = (category: keyof SettingsConfig, key: string, value: string | number | boolean | null) => {
     setFormData((prev: SettingsConfig) => ({
       ...prev,
       [category]: {
@@ -62,8 +81,12 @@ const SettingsForm: React.FC<SettingsFormProps> = ({ config, activeTab, onClose,
     }));
   };
 
+  const batchNumberPattern = formData.system?.batch_number_pattern ?? DEFAULT_BATCH_NUMBER_PATTERN;
+  const batchNumberPatternError = validateBatchNumberPattern(batchNumberPattern);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (activeTab === 'system' && batchNumberPatternError) return;
     setLoading(true);
     
     try {
@@ -262,6 +285,21 @@ const SettingsForm: React.FC<SettingsFormProps> = ({ config, activeTab, onClose,
           用户活动通知
         </label>
       </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          临期预警天数
+        </label>
+        <input
+          type="number"
+          min="1"
+          max="365"
+          value={formData.notifications?.near_expiry_days || 30}
+          onChange={(e) => handleInputChange('notifications', 'near_expiry_days', parseInt(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <p className="mt-1 text-xs text-gray-500">有效期在该天数内的可用批次会在仪表盘标记为临期</p>
+      </div>
     </div>
   );
 
@@ -322,6 +360,89 @@ const SettingsForm: React.FC<SettingsFormProps> = ({ config, activeTab, onClose,
           维护模式
         </label>
       </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          批次号模板
+        </label>
+        <input
+          type="text"
+          value={batchNumberPattern}
+          onChange={(e) => handleInputChange('system', 'batch_number_pattern', e.target.value)}
+          className={`w-full px-3 py-2 border rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+            batchNumberPatternError ? 'border-red-500' : 'border-gray-300'
+          }`}
+        />
+        <div className="mt-2 flex flex-wrap gap-2">
+          {BATCH_NUMBER_TOKENS.map(({ token, label }) => (
+            <button
+              key={token}
+              type="button"
+              title={label}
+              onClick={() => handleInputChange('system', 'batch_number_pattern', batchNumberPattern + token)}
+              className="px-2 py-0.5 text-xs font-mono rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              {token}
+            </button>
+          ))}
+        </div>
+        {batchNumberPatternError ? (
+          <p className="mt-1 text-sm text-red-600">{batchNumberPatternError}</p>
+        ) : (
+          <p className="mt-1 text-xs text-gray-500">
+            示例：{formatBatchNumber(batchNumberPattern, { materialCode: 'MAT001', supplierCode: 'SUP01', seq: 1 })}
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          流水号重置周期
+        </label>
+        <select
+          value={formData.system?.batch_number_reset || 'daily'}
+          onChange={(e) => handleInputChange('system', 'batch_number_reset', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {(Object.keys(BATCH_NUMBER_RESET_TEXT) as BatchNumberReset[]).map((r) => (
+            <option key={r} value={r}>{BATCH_NUMBER_RESET_TEXT[r]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            默认标签模板
+          </label>
+          <select
+            value={formData.system?.default_label_template_id || ''}
+            onChange={(e) => handleInputChange('system', 'default_label_template_id', e.target.value || null)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">内置表格模板</option>
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}（{t.width_mm}×{t.height_mm}mm）</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            默认打印张数
+          </label>
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={formData.system?.default_label_print_count || 1}
+            onChange={(e) => handleInputChange('system', 'default_label_print_count', Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <p className="sm:col-span-2 -mt-2 text-xs text-gray-500">
+          标签打印按 物料 &gt; 供应商 &gt; 全局 的顺序取默认模板和张数，物料、供应商未设置时使用这里的全局默认
+        </p>
+      </div>
     </div>
   );
 
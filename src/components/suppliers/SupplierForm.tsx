@@ -1,5 +1,6 @@
-﻿import React, { useState } from 'react';
+﻿import React, { useEffect, useState } from 'react';
 import { useSupplierStore } from '../../stores/supplierStore';
+import { useLabelTemplateStore } from '../../stores/labelTemplateStore';
 import { Supplier, SupplierFormData } from '../../types/database';
 import { useToast } from '../common/Toast';
 
@@ -11,6 +12,7 @@ interface SupplierFormProps {
 
 const SupplierForm: React.FC<SupplierFormProps> = ({ initialData, onSuccess, onCancel }) => {
   const { createSupplier, updateSupplier, loading } = useSupplierStore();
+  const { templates, fetchTemplates } = useLabelTemplateStore();
   const { success } = useToast();
   
   const [formData, setFormData] = useState<SupplierFormData>({
@@ -21,9 +23,15 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ initialData, onSuccess, onC
     email: initialData?.email || '',
     address: initialData?.address || '',
     status: initialData?.status || 'active',
-    remarks: initialData?.remarks || ''
+    remarks: initialData?.remarks || '',
+    label_template_id: initialData?.label_template_id ?? null,
+    label_print_count: initialData?.label_print_count ?? null
   });
 
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const validate = () => {
@@ -226,6 +234,47 @@ const SupplierForm: React.FC<SupplierFormProps> = ({ initialData, onSuccess, onC
                 </div>
               </div>
 
+              {/* 默认标签模板与打印张数：物料未设置时使用 */}
+              <div className="sm:col-span-3">
+                <label htmlFor="label_template_id" className="block text-sm font-medium text-gray-700">
+                  默认标签模板
+                </label>
+                <div className="mt-1">
+                  <select
+                    id="label_template_id"
+                    value={formData.label_template_id || ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, label_template_id: e.target.value || null }))}
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  >
+                    <option value="">不设置（按全局默认）</option>
+                    {templates.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}（{t.width_mm}×{t.height_mm}mm）</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="sm:col-span-3">
+                <label htmlFor="label_print_count" className="block text-sm font-medium text-gray-700">
+                  默认打印张数
+                </label>
+                <div className="mt-1">
+                  <input
+                    type="number"
+                    id="label_print_count"
+                    min="1"
+                    max="100"
+                    value={formData.label_print_count ?? ''}
+                    onChange={(e) => {
+                      const count = parseInt(e.target.value);
+                      setFormData(prev => ({ ...prev, label_print_count: count > 0 ? Math.min(100, count) : null }));
+                    }}
+                    placeholder="不填按全局默认"
+                    className="shadow-sm focus:ring-blue-500 focus:border-blue-500 block w-full sm:text-sm border-gray-300 rounded-md"
+                  />
+                </div>
+              </div>
+
               {/* 备注 */}
               <div className="sm:col-span-6">
                 <label htmlFor="remarks" className="block text-sm font-medium text-gray-700">
@@ -0,0 +1,220 @@
+﻿import React, { useState } from 'react'
+import { Dialog } from '@headlessui/react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { useMaterialStore } from '@/stores/materialStore'
+import { Unit, UnitCategory, UnitFormData } from '@/types/database'
+import { UNIT_CATEGORY_TEXT } from '@/utils/statusHelpers'
+
+interface UnitFormProps {
+  unit?: Unit | null
+  onClose: () => void
+  onSuccess: () => void
+}
+
+const inputClass = (hasError?: boolean) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`
+
+const UnitForm: React.FC<UnitFormProps> = ({ unit, onClose, onSuccess }) => {
+  const { units, createUnit, updateUnit } = useMaterialStore()
+
+  const [formData, setFormData] = useState<UnitFormData>({
+    code: unit?.code || '',
+    name: unit?.name || '',
+    symbol: unit?.symbol || '',
+    category: unit?.category || 'piece',
+    conversion_factor: Number(unit?.conversion_factor) || 1,
+    base_unit: unit?.base_unit || null
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState(false)
+
+  // 说明：只允许一层换算（基准单位本身不能再有基准），已被其他单位作为基准时不能改为换算单位
+  const isBaseOfOthers = !!unit && units.some((u) => u.base_unit === unit.code)
+  const baseOptions = units.filter((u) => u.category === formData.category && !u.base_unit && u.id !== unit?.id)
+  const baseUnit = units.find((u) => u.code === formData.base_unit)
+
+  const handleChange = (field: keyof UnitFormData, value: string | number | null) => {
+    setFormData((prev) => ({ ...prev, [field]: value }))
+    if (errors[field]) {
+      setErrors((prev) => ({ ...prev, [field]: '' }))
+    }
+  }
+
+  const validate = () => {
+    const newErrors: Record<string, string> = {}
+    const code = formData.code.trim().toUpperCase()
+
+    if (!code) {
+      newErrors.code = '请输入编码'
+    } else if (units.some((u) => u.code === code && u.id !== unit?.id)) {
+      newErrors.code = '编码已存在'
+    }
+    if (!formData.name.trim()) newErrors.name = '请输入名称'
+    if (!formData.symbol.trim()) newErrors.symbol = '请输入符号'
+    if (formData.base_unit && !(formData.conversion_factor > 0)) {
+      newErrors.conversion_factor = '换算系数必须大于0'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!validate()) return
+
+    const payload: UnitFormData = {
+      ...formData,
+      code: formData.code.trim().toUpperCase(),
+      name: formData.name.trim(),
+      symbol: formData.symbol.trim(),
+      base_unit: formData.base_unit || null,
+      conversion_factor: formData.base_unit ? formData.conversion_factor : 1
+    }
+
+    setSubmitting(true)
+    const ok = unit ? await updateUnit(unit.id, payload) : await createUnit(payload)
+    setSubmitting(false)
+    if (ok) onSuccess()
+  }
+
+  return (
+    <Dialog open={true} onClose={onClose} className="relative z-50">
+      <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
+
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <Dialog.Panel className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+          <div className="flex items-center justify-between p-6 border-b border-gray-200">
+            <Dialog.Title className="text-lg font-semibold text-gray-900">
+              {unit ? '编辑单位' : '新建单位'}
+            </Dialog.Title>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <XMarkIcon className="w-6 h-6" />
+            </button>
+          </div>
+
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  编码 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.code}
+                  onChange={(e) => handleChange('code', e.target.value)}
+                  placeholder="例如：BOX"
+                  className={inputClass(!!errors.code)}
+                />
+                {errors.code && <p className="mt-1 text-sm text-red-600">{errors.code}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  名称 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className={inputClass(!!errors.name)}
+                />
+                {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name}</p>}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  符号 <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={formData.symbol}
+                  onChange={(e) => handleChange('symbol', e.target.value)}
+                  className={inputClass(!!errors.symbol)}
+                />
+                {errors.symbol && <p className="mt-1 text-sm text-red-600">{errors.symbol}</p>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">类别</label>
+              <select
+                value={formData.category}
+                onChange={(e) => {
+                  handleChange('category', e.target.value as UnitCategory)
+                  handleChange('base_unit', null)
+                }}
+                disabled={isBaseOfOthers}
+                className={inputClass()}
+              >
+                {(Object.keys(UNIT_CATEGORY_TEXT) as UnitCategory[]).map((c) => (
+                  <option key={c} value={c}>{UNIT_CATEGORY_TEXT[c]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">基准单位</label>
+                <select
+                  value={formData.base_unit || ''}
+                  onChange={(e) => handleChange('base_unit', e.target.value || null)}
+                  disabled={isBaseOfOthers}
+                  className={inputClass()}
+                >
+                  <option value="">（自身为基准单位）</option>
+                  {baseOptions.map((u) => (
+                    <option key={u.id} value={u.code}>{u.name}（{u.symbol}）</option>
+                  ))}
+                </select>
+                {isBaseOfOthers && <p className="mt-1 text-xs text-gray-500">已有其他单位以它为基准</p>}
+              </div>
+              {formData.base_unit && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    换算系数 <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={formData.conversion_factor}
+                    onChange={(e) => handleChange('conversion_factor', parseFloat(e.target.value) || 0)}
+                    className={inputClass(!!errors.conversion_factor)}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    1 {formData.name || '该单位'} = {formData.conversion_factor || 0} {baseUnit?.name}
+                  </p>
+                  {errors.conversion_factor && <p className="mt-1 text-sm text-red-600">{errors.conversion_factor}</p>}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-gray-500">
+              同类且基准相同的单位之间自动换算（如克与千克）；箱、袋等包装单位请在物料详情的“包装单位”中按物料设置换算。
+            </p>
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={submitting}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? '保存中...' : unit ? '更新' : '创建'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Panel>
+      </div>
+    </Dialog>
+  )
+}
+
+export default UnitForm
@@ -0,0 +1,130 @@
+﻿import React, { useEffect, useMemo, useState } from 'react'
+import { PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useAuthStore } from '@/stores/authStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { Unit, UnitCategory } from '@/types/database'
+import { UNIT_CATEGORY_TEXT } from '@/utils/statusHelpers'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import UnitForm from './UnitForm'
+
+const CATEGORY_ORDER = Object.keys(UNIT_CATEGORY_TEXT) as UnitCategory[]
+
+// 计量单位：标准单位及其换算关系（同类、同基准的单位之间可互相换算）
+const UnitList: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { units, fetchUnits, deleteUnit } = useMaterialStore()
+  const canWrite = hasPermission('write_units')
+
+  const [editing, setEditing] = useState<Unit | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [deleting, setDeleting] = useState<Unit | null>(null)
+
+  useEffect(() => {
+    fetchUnits()
+  }, [fetchUnits])
+
+  // 按类别分组，类别内基准单位在前
+  const rows = useMemo(
+    () =>
+      [...units].sort(
+        (a, b) =>
+          CATEGORY_ORDER.indexOf(a.category || 'other') - CATEGORY_ORDER.indexOf(b.category || 'other') ||
+          (a.base_unit ? 1 : 0) - (b.base_unit ? 1 : 0) ||
+          a.code.localeCompare(b.code)
+      ),
+    [units]
+  )
+
+  const openForm = (unit: Unit | null) => {
+    setEditing(unit)
+    setShowForm(true)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    await deleteUnit(deleting.id)
+    setDeleting(null)
+  }
+
+  const describeConversion = (unit: Unit) => {
+    if (!unit.base_unit) return '基准单位'
+    const base = units.find((u) => u.code === unit.base_unit)
+    return `1 ${unit.name} = ${Number(unit.conversion_factor)} ${base?.name ?? unit.base_unit}`
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <p className="text-sm text-gray-500">库存始终以物料的库存单位记录；出入库时可按可换算单位或物料包装单位录入</p>
+        {canWrite && (
+          <button
+            onClick={() => openForm(null)}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <PlusIcon className="w-5 h-5 mr-2" />
+            新建单位
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">暂无单位</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">编码 / 名称</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">符号</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">类别</th>
+                <th className="px-6 py-3 text-left font-medium text-gray-500">换算</th>
+                {canWrite && <th className="px-6 py-3 text-right font-medium text-gray-500">操作</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((u) => (
+                <tr key={u.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-3">
+                    <div className="font-medium text-gray-900">{u.code}</div>
+                    <div className="text-xs text-gray-500">{u.name}</div>
+                  </td>
+                  <td className="px-6 py-3 text-gray-700">{u.symbol || '-'}</td>
+                  <td className="px-6 py-3 text-gray-700">{u.category ? UNIT_CATEGORY_TEXT[u.category] : '-'}</td>
+                  <td className="px-6 py-3 text-gray-700">{describeConversion(u)}</td>
+                  {canWrite && (
+                    <td className="px-6 py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button onClick={() => openForm(u)} className="text-gray-600 hover:text-gray-800" title="编辑">
+                          <PencilIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setDeleting(u)} className="text-red-600 hover:text-red-800" title="删除">
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showForm && (
+        <UnitForm unit={editing} onClose={() => setShowForm(false)} onSuccess={() => setShowForm(false)} />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="删除单位"
+          message={`确定要删除单位 "${deleting.name}" 吗？仍被物料或包装单位使用时无法删除。`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default UnitList
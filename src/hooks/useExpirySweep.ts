@@ -0,0 +1,27 @@
+﻿import { useEffect } from 'react'
+import { useBatchStore } from '@/stores/batchStore'
+import { useAuthStore } from '@/stores/authStore'
+
+// 说明：过期扫描间隔；跨天后最多延迟一个间隔即可完成流转
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000
+
+/**
+ * 批次过期扫描 Hook：
+ * - 登录后立即执行一次，之后按固定间隔重复
+ * - 实际的状态流转与审计日志由数据库函数 sweep_batch_expiry 完成（离线由 localRpc 模拟）
+ */
+export const useExpirySweep = (): void => {
+  const userId = useAuthStore((s) => s.user?.id)
+  const sweepExpiredBatches = useBatchStore((s) => s.sweepExpiredBatches)
+
+  useEffect(() => {
+    if (!userId) return
+
+    void sweepExpiredBatches()
+    const timer = window.setInterval(() => {
+      void sweepExpiredBatches()
+    }, SWEEP_INTERVAL_MS)
+
+    return () => window.clearInterval(timer)
+  }, [userId, sweepExpiredBatches])
+}
@@ -0,0 +1,17 @@
+﻿import { useEffect, useRef } from 'react'
+import { ScanHandler, useScanStore } from '@/stores/scanStore'
+
+/**
+ * 页面级扫码处理 Hook：组件挂载期间优先处理全局扫码（返回 true 表示已处理），卸载后自动注销。
+ * 处理函数通过 ref 读取，组件重渲染不会重复注册。
+ */
+export const useScanHandler = (handler: ScanHandler, active = true): void => {
+  const pushHandler = useScanStore((s) => s.pushHandler)
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    if (!active) return
+    return pushHandler((code) => handlerRef.current(code))
+  }, [active, pushHandler])
+}
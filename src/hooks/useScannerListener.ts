@@ -0,0 +1,65 @@
+﻿import { useEffect } from 'react'
+import { useScanStore } from '@/stores/scanStore'
+
+// 说明：扫码枪逐字符输入的间隔通常在 10~30ms，人工连续敲键很难低于 50ms
+const MAX_KEY_INTERVAL_MS = 35
+// 过短的连击（如快速双击同一个键）不算扫码
+const MIN_CODE_LENGTH = 4
+
+// GS1 组分隔符（FNC1）：键盘模拟型扫码枪以 Ctrl+] 发送，部分扫码枪/键盘布局直接给出 0x1D
+const GROUP_SEPARATOR = '\x1d'
+const isGroupSeparator = (e: KeyboardEvent) =>
+  e.key === GROUP_SEPARATOR ||
+  (e.ctrlKey && !e.altKey && !e.metaKey && (e.key === ']' || e.code === 'BracketRight'))
+
+const isEditable = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null
+  if (!el) return false
+  return el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable
+}
+
+/**
+ * 全局扫码枪监听 Hook（键盘模拟型 USB HID 扫码枪：逐字符输入后回车）：
+ * - 仅在扫码枪模式开启时生效；焦点在输入框内时不拦截，由输入框自行处理（如盘点表的扫码框）
+ * - 连续按键间隔都小于阈值、且以回车结束的输入视为一次扫码，交给 scanStore 解析
+ */
+export const useScannerListener = (): void => {
+  const enabled = useScanStore((s) => s.enabled)
+  const handleScan = useScanStore((s) => s.handleScan)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ''
+    let lastKeyAt = 0
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // 说明：组分隔符须在过滤组合键之前识别，否则 GS1 变长字段会连在一起
+      const key = isGroupSeparator(e) ? GROUP_SEPARATOR : e.key
+      if (isEditable(e.target)) return
+      if (key !== GROUP_SEPARATOR && (e.ctrlKey || e.altKey || e.metaKey)) return
+
+      const now = e.timeStamp
+      const fast = now - lastKeyAt <= MAX_KEY_INTERVAL_MS
+      lastKeyAt = now
+
+      if (key === 'Enter') {
+        const code = buffer.trim()
+        buffer = ''
+        if (fast && code.length >= MIN_CODE_LENGTH) {
+          // 说明：阻止回车触发当前聚焦按钮的点击
+          e.preventDefault()
+          void handleScan(code)
+        }
+        return
+      }
+
+      if (key.length !== 1) return
+      // 间隔过长说明是人工按键，从这个字符重新开始累计
+      buffer = fast ? buffer + key : key
+    }
+
+    document.addEventListener('keydown', onKeyDown, true)
+    return () => document.removeEventListener('keydown', onKeyDown, true)
+  }, [enabled, handleScan])
+}
@@ -252,7 +252,6 @@ export const downloadMaterialTemplate = async (): Promise<void> => {
       '规格型号': 'M3*10',
       '单位': '个',
       '分类': '标准件',
-      '当前库存': 1000,
       '最小库存': 100,
       '最大库存': 5000,
       '状态': '可用',
@@ -263,7 +262,6 @@ export const downloadMaterialTemplate = async (): Promise<void> => {
       '规格型号': '10mm*1000mm*2000mm',
       '单位': '张',
       '分类': '原材料',
-      '当前库存': 50,
       '最小库存': 10,
       '最大库存': 200,
       '状态': '可用',
@@ -274,7 +272,6 @@ export const downloadMaterialTemplate = async (): Promise<void> => {
       '规格型号': '',
       '单位': '',
       '分类': '',
-      '当前库存': '',
       '最小库存': '',
       '最大库存': '',
       '状态': '',
@@ -303,10 +300,10 @@ export const downloadMaterialTemplate = async (): Promise<void> => {
     { '字段名': '规格型号', '是否必填': '否', '说明': '物料的规格型号描述' },
     { '字段名': '单位', '是否必填': '是', '说明': '物料的计量单位，必须在系统中已存在' },
     { '字段名': '分类', '是否必填': '是', '说明': '物料的分类，必须在系统中已存在' },
-    { '字段名': '当前库存', '是否必填': '否', '说明': '当前库存数量，默认为0' },
     { '字段名': '最小库存', '是否必填': '否', '说明': '最小库存数量，默认为0' },
     { '字段名': '最大库存', '是否必填': '否', '说明': '最大库存数量，默认为0' },
     { '字段名': '状态', '是否必填': '否', '说明': '物料状态：可用、停用、报废，默认为可用' },
+    { '字段名': '（当前库存）', '是否必填': '-', '说明': '不支持导入：库存由批次入库/出库流水汇总，期初库存请在入库记录中按批次录入' },
   ];
 
   const instructionsWs = wb.addWorksheet('导入说明');
@@ -24,7 +24,6 @@ export interface MaterialImportRow {
   '规格型号': string;
   '单位': string;
   '分类': string;
-  '当前库存': string | number;
   '最小库存': string | number;
   '最大库存': string | number;
   '状态': string;
@@ -227,20 +226,10 @@ export const validateMaterialData = (
       });
     }
 
-    // 验证库存数字
-    const currentStock = parseFloat(String(data['当前库存'] || 0));
+    // 验证库存上下限（当前库存由批次台账汇总，不从导入文件读取）
     const minStock = parseFloat(String(data['最小库存'] || 0));
     const maxStock = parseFloat(String(data['最大库存'] || 0));
 
-    if (isNaN(currentStock)) {
-      rowErrors.push({
-        row: rowNum,
-        field: '当前库存',
-        value: data['当前库存'],
-        message: '当前库存必须是数字',
-      });
-    }
-
     if (isNaN(minStock)) {
       rowErrors.push({
         row: rowNum,
@@ -302,7 +291,6 @@ export const validateMaterialData = (
         unit: data['单位'],
         unit_id: unit?.id,
         category_id: category?.id || '',
-        current_stock: currentStock,
         min_stock: minStock,
         max_stock: maxStock,
         status: status,
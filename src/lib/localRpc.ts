@@ -0,0 +1,798 @@
+﻿/* eslint-disable */
+/**
+ * localRpc：离线模式下模拟 supabase.rpc() 调用的数据库函数（对应 supabase/migrations 中的 plpgsql 函数）。
+ *
+ * 约定：
+ * - 每个处理函数与同名数据库函数的参数/返回值保持一致（参数名带 p_ 前缀）
+ * - 处理函数内“先全部校验、再统一写入”，抛出的错误转换为 { data: null, error }，
+ *   从而与数据库事务一样：要么全部生效，要么全部不生效
+ */
+
+import { db, session, syncMaterialStock } from './localdb'
+import {
+  DEFAULT_BATCH_NUMBER_PATTERN,
+  DEFAULT_BATCH_NUMBER_RESET,
+  formatBatchNumber,
+  getBatchNumberPeriod,
+} from '../utils/batchNumberPattern'
+import { MAX_LABEL_SERIALS_PER_JOB, formatLabelSerial, validateLabelSerialPattern } from '../utils/labelSerial'
+
+type RpcHandler = (args: Record<string, any>) => any
+
+const todayStr = () => new Date().toISOString().split('T')[0]
+
+// 与数据库侧 auth.uid() + public.users 对应：取当前离线会话用户作为操作人
+const currentOperator = () => {
+  const user = session.get()?.user
+  return {
+    operator_id: user?.id ?? null,
+    operator_name: user?.full_name || user?.username || null,
+  }
+}
+
+// 与数据库函数中 SELECT ... FROM system_settings ORDER BY created_at DESC LIMIT 1 一致：取最新的一条设置
+const latestSettings = (): any => {
+  const rows = db.getAll('system_settings') as any[]
+  return rows.reduce((latest, row) => (!latest || String(row.created_at ?? '') > String(latest.created_at ?? '') ? row : latest), null)
+}
+
+// 与数据库侧 public.current_user_role() 对应
+const requireRole = (roles: string[], message: string) => {
+  const user = session.get()?.user
+  if (!user || !roles.includes(user.role)) throw new Error(message)
+}
+
+const findStocktake = (id: string) => {
+  const stocktake = (db.getAll('stocktakes') as any[]).find((s) => s.id === id)
+  if (!stocktake) throw new Error('盘点单不存在')
+  return stocktake
+}
+
+const handlers: Record<string, RpcHandler> = {
+  // 对应 007_post_material_outbound.sql：按分配明细对同一物料的多个批次原子出库
+  // 012_batch_quality_control.sql 增加 p_override：admin/manager 可对待检/锁定批次越权出库
+  post_material_outbound: ({ p_material_id, p_allocations, p_movement_type = 'outbound', p_reason_code = 'requisition', p_reason = null, p_reference_no = null, p_override = false }) => {
+    if (p_override) requireRole(['admin', 'manager'], '只有管理员或经理可以越权出库')
+    if (!['outbound', 'scrap'].includes(p_movement_type)) throw new Error('不支持的出库类型')
+    const lines = (p_allocations ?? []) as Array<{ batch_id: string; quantity: number }>
+    if (!lines.length) throw new Error('出库明细不能为空')
+
+    const batches = db.getAll('material_batches') as any[]
+    const remaining = new Map<string, number>()
+    const today = todayStr()
+
+    // 1) 校验（同一批次出现多行时按累计数量校验）
+    lines.forEach((line) => {
+      const qty = Number(line.quantity)
+      if (!(qty > 0)) throw new Error('出库数量必须大于0')
+      const batch = batches.find((b) => b.id === line.batch_id)
+      if (!batch) throw new Error('批次不存在')
+      if (batch.material_id !== p_material_id) throw new Error(`批次 ${batch.batch_number} 不属于该物料`)
+      const allowExpired = p_movement_type === 'scrap'
+      const overridden = p_override && ['pending', 'locked'].includes(batch.status)
+      if (batch.status !== 'available' && !(allowExpired && batch.status === 'expired') && !overridden) {
+        throw new Error(`批次 ${batch.batch_number} 当前状态不可出库`)
+      }
+      if (!allowExpired && batch.expiry_date && batch.expiry_date < today) {
+        throw new Error(`批次 ${batch.batch_number} 已过期`)
+      }
+      const current = remaining.has(batch.id) ? remaining.get(batch.id)! : Number(batch.remaining_quantity ?? batch.quantity)
+      if (qty > current) throw new Error(`批次 ${batch.batch_number} 库存不足（剩余 ${current}）`)
+      remaining.set(batch.id, current - qty)
+    })
+
+    // 2) 写入
+    const operator = currentOperator()
+    const balances = new Map<string, number>()
+    const movements = lines.map((line) => {
+      const batch = batches.find((b) => b.id === line.batch_id)
+      const before = balances.has(batch.id) ? balances.get(batch.id)! : Number(batch.remaining_quantity ?? batch.quantity)
+      const after = before - Number(line.quantity)
+      balances.set(batch.id, after)
+      return db.insert('stock_movements', {
+        batch_id: batch.id,
+        material_id: batch.material_id,
+        movement_type: p_movement_type,
+        quantity: -Number(line.quantity),
+        balance_after: after,
+        reason_code: p_reason_code,
+        reason: ['pending', 'locked'].includes(batch.status)
+          ? [p_reason, `[越权出库：批次状态 ${batch.status}]`].filter(Boolean).join(' ')
+          : p_reason,
+        reference_no: p_reference_no,
+        ...operator,
+      })
+    })
+    balances.forEach((after, id) => {
+      const batch = batches.find((b) => b.id === id)
+      db.update('material_batches', id, {
+        remaining_quantity: after,
+        status: after === 0 ? 'disposed' : batch.status,
+        updated_by: operator.operator_id,
+      })
+    })
+    syncMaterialStock([p_material_id])
+
+    return movements
+  },
+
+  // 对应 008_batch_expiry_sweep.sql：已过有效期的可用批次置为 expired，逐条写审计日志
+  sweep_batch_expiry: () => {
+    const today = todayStr()
+    const expired = (db.getAll('material_batches') as any[]).filter(
+      (b) => b.status === 'available' && b.expiry_date && b.expiry_date < today
+    )
+    if (!expired.length) return []
+
+    const user = session.get()?.user
+    const swept = expired.map((batch) => {
+      const updated = db.update('material_batches', batch.id, { status: 'expired' })
+      db.insert('audit_logs', {
+        user_id: user?.id ?? null,
+        user_name: user?.username || user?.email || 'system',
+        action: 'update',
+        module: 'batch',
+        target_id: batch.id,
+        target_name: batch.batch_number,
+        details: { source: 'expiry_sweep', from: 'available', to: 'expired', expiry_date: batch.expiry_date },
+      })
+      return updated
+    })
+    syncMaterialStock(Array.from(new Set(expired.map((b) => b.material_id))))
+
+    return swept
+  },
+
+  // 对应 008_batch_expiry_sweep.sql：读取已保存的临期预警天数，仅在没有设置记录或旧设置缺少该字段时回落到 30 天
+  get_near_expiry_days: () => {
+    const stored = latestSettings()?.near_expiry_days
+    return stored === undefined || stored === null || stored === '' ? 30 : Number(stored)
+  },
+
+  // 对应 022_label_template_defaults.sql：全局默认标签模板与打印张数
+  get_label_defaults: () => {
+    const settings = latestSettings()
+    return {
+      template_id: settings?.default_label_template_id ?? null,
+      print_count: Number(settings?.default_label_print_count) || 1
+    }
+  },
+
+  // 对应 009_create_stocktakes.sql：生成单号并冻结范围内批次的账面数量
+  create_stocktake: ({ p_scope, p_remarks = null }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有盘点权限')
+    const type = p_scope?.type
+    if (!['location', 'category', 'materials'].includes(type)) throw new Error(`不支持的盘点范围：${type}`)
+
+    const materials = db.getAll('materials') as any[]
+    const units = db.getAll('units') as any[]
+    // 对应 025_stocktake_location_subtree.sql：选中仓库/库区时包含其下所有库位
+    const locations = db.getAll('storage_locations') as any[]
+    const subtree = new Set<string>(locations.filter((l) => l.code === p_scope?.location).map((l) => l.id))
+    for (let grew = true; grew; ) {
+      grew = false
+      locations.forEach((l) => {
+        if (l.parent_id && subtree.has(l.parent_id) && !subtree.has(l.id)) {
+          subtree.add(l.id)
+          grew = true
+        }
+      })
+    }
+    const inScope = (batch: any, material: any) => {
+      if (type === 'location') return batch.location === p_scope.location || subtree.has(batch.location_id)
+      if (type === 'category') return material.category_id === p_scope.category_id
+      return (p_scope.material_ids ?? []).includes(batch.material_id)
+    }
+    const rows = (db.getAll('material_batches') as any[])
+      .map((batch) => ({ batch, material: materials.find((m) => m.id === batch.material_id) }))
+      .filter(({ batch, material }) =>
+        material &&
+        ['available', 'locked', 'expired'].includes(batch.status) &&
+        Number(batch.remaining_quantity) > 0 &&
+        inScope(batch, material)
+      )
+      .sort((x, y) =>
+        String(x.batch.location ?? '\uffff').localeCompare(String(y.batch.location ?? '\uffff')) ||
+        String(x.material.code).localeCompare(String(y.material.code)) ||
+        String(x.batch.batch_number).localeCompare(String(y.batch.batch_number))
+      )
+    if (!rows.length) throw new Error('盘点范围内没有可盘点的批次')
+
+    const prefix = `ST-${todayStr().replace(/-/g, '')}-`
+    const seq = (db.getAll('stocktakes') as any[]).filter((s) => String(s.stocktake_no).startsWith(prefix)).length + 1
+    const user = session.get()?.user
+    const stocktake = db.insert('stocktakes', {
+      stocktake_no: prefix + String(seq).padStart(3, '0'),
+      scope: p_scope,
+      status: 'counting',
+      remarks: p_remarks,
+      created_by: user?.id ?? null,
+      created_by_name: currentOperator().operator_name,
+    })
+
+    // 说明：db.insert 会把新行插到最前面，这里倒序插入以保持明细顺序
+    ;[...rows].reverse().forEach(({ batch, material }) => {
+      db.insert('stocktake_items', {
+        stocktake_id: stocktake.id,
+        batch_id: batch.id,
+        material_id: material.id,
+        material_code: material.code,
+        material_name: material.name,
+        batch_number: batch.batch_number,
+        location: batch.location ?? null,
+        unit: units.find((u) => u.id === material.unit_id)?.name ?? material.unit ?? null,
+        system_quantity: Number(batch.remaining_quantity),
+        counted_quantity: null,
+      })
+    })
+
+    return stocktake
+  },
+
+  submit_stocktake: ({ p_stocktake_id }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有盘点权限')
+    const stocktake = findStocktake(p_stocktake_id)
+    if (stocktake.status !== 'counting') throw new Error(`盘点单 ${stocktake.stocktake_no} 当前状态不可提交`)
+    const items = (db.getAll('stocktake_items') as any[]).filter((i) => i.stocktake_id === p_stocktake_id)
+    if (items.some((i) => i.counted_quantity === null || i.counted_quantity === undefined)) {
+      throw new Error('仍有批次未录入实盘数量')
+    }
+    return db.update('stocktakes', p_stocktake_id, { status: 'submitted', submitted_at: new Date().toISOString() })
+  },
+
+  cancel_stocktake: ({ p_stocktake_id }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有盘点权限')
+    const stocktake = findStocktake(p_stocktake_id)
+    if (!['counting', 'submitted'].includes(stocktake.status)) throw new Error('盘点单不存在或已结束')
+    return db.update('stocktakes', p_stocktake_id, { status: 'cancelled' })
+  },
+
+  // 审批通过时把差异过账到批次并写 adjust/stocktake 流水；批次自冻结后有变动则整体拒绝
+  review_stocktake: ({ p_stocktake_id, p_approve, p_comment = null }) => {
+    requireRole(['admin', 'manager'], '没有盘点审批权限')
+    const stocktake = findStocktake(p_stocktake_id)
+    if (stocktake.status !== 'submitted') throw new Error(`盘点单 ${stocktake.stocktake_no} 不是待审批状态`)
+
+    const operator = currentOperator()
+    if (p_approve) {
+      const batches = db.getAll('material_batches') as any[]
+      const lines = (db.getAll('stocktake_items') as any[])
+        .filter((i) => i.stocktake_id === p_stocktake_id && Number(i.counted_quantity) !== Number(i.system_quantity))
+        .map((item) => ({ item, batch: batches.find((b) => b.id === item.batch_id) }))
+
+      // 1) 校验
+      lines.forEach(({ item, batch }) => {
+        if (!batch) throw new Error(`批次 ${item.batch_number} 已被删除，无法过账`)
+        if (Number(batch.remaining_quantity) !== Number(item.system_quantity)) {
+          throw new Error(`批次 ${item.batch_number} 在盘点期间发生库存变动（账面 ${item.system_quantity} -> ${batch.remaining_quantity}），请重新盘点`)
+        }
+      })
+
+      // 2) 写入
+      lines.forEach(({ item, batch }) => {
+        const counted = Number(item.counted_quantity)
+        db.update('material_batches', batch.id, {
+          remaining_quantity: counted,
+          status: counted === 0 ? 'disposed' : batch.status,
+          updated_by: operator.operator_id,
+        })
+        db.insert('stock_movements', {
+          batch_id: batch.id,
+          material_id: batch.material_id,
+          movement_type: 'adjust',
+          quantity: counted - Number(item.system_quantity),
+          balance_after: counted,
+          reason_code: 'stocktake',
+          reason: item.remarks ?? null,
+          reference_no: stocktake.stocktake_no,
+          ...operator,
+        })
+      })
+      syncMaterialStock(Array.from(new Set(lines.map(({ batch }) => batch.material_id))))
+    }
+
+    return db.update('stocktakes', p_stocktake_id, {
+      status: p_approve ? 'posted' : 'counting',
+      reviewed_by: operator.operator_id,
+      reviewed_by_name: operator.operator_name,
+      reviewed_at: new Date().toISOString(),
+      review_comment: p_comment,
+    })
+  },
+
+  // 对应 011_batch_transfer.sql：整批改挂库位，或拆出子批次放入目标库位；返回位于目标库位的批次
+  transfer_batch: ({ p_batch_id, p_location_id, p_quantity = null, p_reason = null, p_reference_no = null }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有调拨权限')
+
+    // 1) 校验
+    const batches = db.getAll('material_batches') as any[]
+    const batch = batches.find((b) => b.id === p_batch_id)
+    if (!batch) throw new Error('批次不存在')
+    const remaining = Number(batch.remaining_quantity ?? batch.quantity)
+    if (batch.status === 'disposed' || remaining <= 0) throw new Error(`批次 ${batch.batch_number} 已无库存，不能调拨`)
+
+    const target = (db.getAll('storage_locations') as any[]).find((l) => l.id === p_location_id)
+    if (!target || target.type !== 'bin') throw new Error('请选择目标库位')
+    if (target.is_blocked) throw new Error(`库位 ${target.code} 已冻结，不能放入批次`)
+    if (batch.location_id === p_location_id) throw new Error('目标库位与当前库位相同')
+
+    const qty = p_quantity == null ? remaining : Number(p_quantity)
+    if (!(qty > 0)) throw new Error('调拨数量必须大于0')
+    if (qty > remaining) throw new Error(`批次 ${batch.batch_number} 库存不足（剩余 ${remaining}）`)
+
+    // 2) 写入
+    const operator = currentOperator()
+    const reason = `${p_reason?.trim() || '库位调拨'}：${batch.location || '未指定'} → ${target.code}`
+    const movement = {
+      material_id: batch.material_id,
+      movement_type: 'transfer',
+      reason_code: 'other',
+      reason,
+      reference_no: p_reference_no,
+      ...operator,
+    }
+
+    if (qty === remaining) {
+      const moved = db.update('material_batches', batch.id, {
+        location_id: target.id,
+        location: target.code,
+        updated_by: operator.operator_id,
+      })
+      db.insert('stock_movements', { ...movement, batch_id: batch.id, quantity: 0, balance_after: remaining })
+      return moved
+    }
+
+    let seq = batches.filter((b) => b.parent_batch_id === batch.id).length + 1
+    const taken = (n: string) => batches.some((b) => b.material_id === batch.material_id && b.batch_number === n)
+    while (taken(`${batch.batch_number}-${String(seq).padStart(2, '0')}`)) seq++
+    const childNumber = `${batch.batch_number}-${String(seq).padStart(2, '0')}`
+    if (childNumber.length > 50) {
+      throw new Error(`批次 ${batch.batch_number} 的批次号过长，拆分后的子批次号 ${childNumber} 超过 50 个字符，请整批调拨`)
+    }
+
+    db.update('material_batches', batch.id, {
+      remaining_quantity: remaining - qty,
+      updated_by: operator.operator_id,
+    })
+    const child = db.insert('material_batches', {
+      material_id: batch.material_id,
+      batch_number: childNumber,
+      parent_batch_id: batch.id,
+      production_date: batch.production_date,
+      expiry_date: batch.expiry_date,
+      supplier_id: batch.supplier_id,
+      quantity: qty,
+      remaining_quantity: qty,
+      status: batch.status,
+      location_id: target.id,
+      location: target.code,
+      remarks: `由批次 ${batch.batch_number} 拆分调拨`,
+      created_by: operator.operator_id,
+      updated_by: operator.operator_id,
+    })
+    db.insert('stock_movements', { ...movement, batch_id: batch.id, quantity: -qty, balance_after: remaining - qty, related_batch_id: child.id })
+    db.insert('stock_movements', { ...movement, batch_id: child.id, quantity: qty, balance_after: qty, related_batch_id: batch.id })
+    syncMaterialStock([batch.material_id])
+
+    return child
+  },
+
+  // 对应 012_batch_quality_control.sql：pass 放行（-> available，仅 admin/manager），fail 锁定（-> locked）
+  inspect_batch: ({ p_batch_id, p_result, p_reason_code = 'incoming', p_notes = null }) => {
+    if (p_result === 'pass') requireRole(['admin', 'manager'], '没有放行权限')
+    else if (p_result === 'fail') requireRole(['admin', 'manager', 'operator'], '没有锁定权限')
+    else throw new Error(`不支持的质检结论：${p_result}`)
+
+    const batch = (db.getAll('material_batches') as any[]).find((b) => b.id === p_batch_id)
+    if (!batch) throw new Error('批次不存在')
+    if (!['pending', 'available', 'locked'].includes(batch.status)) throw new Error(`批次 ${batch.batch_number} 当前状态不可质检`)
+    if (p_result === 'pass' && batch.status === 'available') throw new Error(`批次 ${batch.batch_number} 已放行`)
+    if (p_result === 'pass' && batch.expiry_date && batch.expiry_date < todayStr()) {
+      throw new Error(`批次 ${batch.batch_number} 已过期，不能放行`)
+    }
+
+    const operator = currentOperator()
+    const toStatus = p_result === 'pass' ? 'available' : 'locked'
+    db.update('material_batches', batch.id, { status: toStatus, updated_by: operator.operator_id })
+    syncMaterialStock([batch.material_id])
+
+    return db.insert('batch_inspections', {
+      batch_id: batch.id,
+      result: p_result,
+      reason_code: p_reason_code || 'other',
+      notes: p_notes,
+      from_status: batch.status,
+      to_status: toStatus,
+      inspector_id: operator.operator_id,
+      inspector_name: operator.operator_name,
+    })
+  },
+
+  // 对应 013_batch_number_sequences.sql：按“物料 + 周期”递增流水号并套用系统设置中的模板；p_preview 只预览不占号
+  next_batch_number: ({ p_material_id, p_supplier_id = null, p_preview = false }) => {
+    if (!p_preview) requireRole(['admin', 'manager', 'operator'], '没有入库权限')
+
+    const material = (db.getAll('materials') as any[]).find((m) => m.id === p_material_id)
+    if (!material) throw new Error('物料不存在')
+    const supplier = p_supplier_id ? (db.getAll('suppliers') as any[]).find((s) => s.id === p_supplier_id) : null
+
+    const settings = latestSettings()
+    const pattern = settings?.batch_number_pattern || DEFAULT_BATCH_NUMBER_PATTERN
+    const period = getBatchNumberPeriod(settings?.batch_number_reset || DEFAULT_BATCH_NUMBER_RESET)
+
+    const sequences = db.getAll('batch_number_sequences') as any[]
+    const current = sequences.find((s) => s.material_id === p_material_id && s.period === period)
+    const batches = db.getAll('material_batches') as any[]
+
+    let seq = Number(current?.last_value) || 0
+    let number = ''
+    do {
+      seq++
+      number = formatBatchNumber(pattern, { materialCode: material.code, supplierCode: supplier?.code, seq })
+    } while (batches.some((b) => b.material_id === p_material_id && b.batch_number === number))
+
+    if (!p_preview) {
+      if (current) db.update('batch_number_sequences', current.id, { last_value: seq })
+      else db.insert('batch_number_sequences', { material_id: p_material_id, period, last_value: seq })
+    }
+
+    return number
+  },
+
+  // 对应 017_material_codes_primary.sql：新增/修改物料编码，切换主编码与写入一起生效
+  save_material_code: ({ p_id = null, p_data = {} }) => {
+    requireRole(['admin', 'manager'], '没有维护物料编码的权限')
+
+    const codes = db.getAll('material_codes') as any[]
+    const previous = p_id ? codes.find((c) => c.id === p_id) : null
+    if (p_id && !previous) throw new Error('物料编码不存在')
+    const materialId = previous?.material_id ?? p_data.material_id
+    const next = {
+      code: p_data.code !== undefined ? String(p_data.code).trim() : previous?.code,
+      code_type: p_data.code_type ?? previous?.code_type,
+      description: 'description' in p_data ? p_data.description : previous?.description,
+    }
+    // 与数据库的 UNIQUE(material_id, code, code_type) 一致
+    if (codes.some((c) => c.id !== p_id && c.material_id === materialId && c.code === next.code && c.code_type === next.code_type)) {
+      throw new Error('该物料已存在相同类型的同名编码')
+    }
+
+    const isPrimary = p_data.is_primary ?? previous?.is_primary ?? false
+    if (isPrimary) {
+      codes
+        .filter((c) => c.material_id === materialId && c.is_primary && c.id !== p_id)
+        .forEach((c) => db.update('material_codes', c.id, { is_primary: false }))
+    }
+    return previous
+      ? db.update('material_codes', previous.id, { ...next, is_primary: isPrimary })
+      : db.insert('material_codes', { ...next, material_id: materialId, is_primary: isPrimary, created_by: session.get()?.user?.id ?? null })
+  },
+
+  // 对应 020_bom_production.sql：按投料明细扣减组件批次并产出成品批次；返回生产单
+  post_production_order: ({
+    p_material_id,
+    p_quantity,
+    p_inputs,
+    p_production_date = null,
+    p_expiry_date = null,
+    p_location_id = null,
+    p_remarks = null,
+  }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有生产入库权限')
+    const quantity = Number(p_quantity)
+    if (!(quantity > 0)) throw new Error('生产数量必须大于0')
+
+    const materials = db.getAll('materials') as any[]
+    const bom = (db.getAll('bom_items') as any[]).filter((bi) => bi.parent_material_id === p_material_id)
+    if (!bom.length) throw new Error('该物料未维护物料清单（BOM）')
+    const lines = (p_inputs ?? []) as Array<{ batch_id: string; quantity: number }>
+    if (!lines.length) throw new Error('投料明细不能为空')
+
+    const batches = db.getAll('material_batches') as any[]
+    const today = todayStr()
+    const missing = bom.find(
+      (bi) => !lines.some((l) => batches.find((b) => b.id === l.batch_id)?.material_id === bi.component_material_id)
+    )
+    if (missing) throw new Error(`组件 ${materials.find((m) => m.id === missing.component_material_id)?.code ?? ''} 没有投料批次`)
+    const foreign = lines
+      .map((l) => batches.find((b) => b.id === l.batch_id))
+      .find((b) => b && !bom.some((bi) => bi.component_material_id === b.material_id))
+    if (foreign) throw new Error(`批次 ${foreign.batch_number} 不是该成品的 BOM 组件`)
+
+    // 每个组件的投料合计须等于 BOM 需求（含损耗），允许 0.01 的舍入差
+    bom.forEach((bi) => {
+      const total = lines
+        .filter((l) => batches.find((b) => b.id === l.batch_id)?.material_id === bi.component_material_id)
+        .reduce((sum, l) => sum + (Number(l.quantity) || 0), 0)
+      const required = quantity * Number(bi.quantity) * (1 + (Number(bi.scrap_rate) || 0) / 100)
+      if (Math.abs(total - required) > 0.01 + 1e-9) {
+        const code = materials.find((m) => m.id === bi.component_material_id)?.code ?? ''
+        throw new Error(`组件 ${code} 投料合计 ${Math.round(total * 100) / 100} 与 BOM 需求 ${Math.round(required * 100) / 100} 不一致`)
+      }
+    })
+
+    // 1) 校验（同一批次出现多行时按累计数量校验）
+    const remaining = new Map<string, number>()
+    lines.forEach((line) => {
+      const qty = Number(line.quantity)
+      if (!(qty > 0)) throw new Error('投料数量必须大于0')
+      const batch = batches.find((b) => b.id === line.batch_id)
+      if (!batch) throw new Error('批次不存在')
+      if (batch.status !== 'available') throw new Error(`批次 ${batch.batch_number} 当前状态不可投料`)
+      if (batch.expiry_date && batch.expiry_date < today) throw new Error(`批次 ${batch.batch_number} 已过期`)
+      const current = remaining.has(batch.id) ? remaining.get(batch.id)! : Number(batch.remaining_quantity ?? batch.quantity)
+      if (qty > current) throw new Error(`批次 ${batch.batch_number} 库存不足（剩余 ${current}）`)
+      remaining.set(batch.id, current - qty)
+    })
+
+    let location: any = null
+    if (p_location_id) {
+      location = (db.getAll('storage_locations') as any[]).find((l) => l.id === p_location_id)
+      if (!location || location.type !== 'bin') throw new Error('请选择库位')
+      if (location.is_blocked) throw new Error(`库位 ${location.code} 已冻结，不能放入批次`)
+    }
+
+    // 2) 写入
+    const operator = currentOperator()
+    const prefix = `MO-${today.replace(/-/g, '')}-`
+    const seq = (db.getAll('production_orders') as any[]).filter((o) => String(o.order_no).startsWith(prefix)).length + 1
+    const orderNo = prefix + String(seq).padStart(3, '0')
+    const role = session.get()?.user?.role
+
+    const output = db.insert('material_batches', {
+      material_id: p_material_id,
+      batch_number: handlers.next_batch_number({ p_material_id }),
+      production_date: p_production_date || today,
+      expiry_date: p_expiry_date,
+      quantity,
+      remaining_quantity: quantity,
+      status: ['admin', 'manager'].includes(role) ? 'available' : 'pending',
+      location_id: location?.id ?? null,
+      location: location?.code ?? null,
+      remarks: `生产单 ${orderNo}`,
+      created_by: operator.operator_id,
+      updated_by: operator.operator_id,
+    })
+    db.insert('stock_movements', {
+      batch_id: output.id,
+      material_id: p_material_id,
+      movement_type: 'inbound',
+      quantity,
+      balance_after: quantity,
+      reason_code: 'production',
+      reason: p_remarks,
+      reference_no: orderNo,
+      ...operator,
+    })
+    const order = db.insert('production_orders', {
+      order_no: orderNo,
+      material_id: p_material_id,
+      quantity,
+      batch_id: output.id,
+      batch_number: output.batch_number,
+      remarks: p_remarks,
+      created_by: operator.operator_id,
+      created_by_name: operator.operator_name,
+    })
+
+    const balances = new Map<string, number>()
+    lines.forEach((line) => {
+      const batch = batches.find((b) => b.id === line.batch_id)
+      const before = balances.has(batch.id) ? balances.get(batch.id)! : Number(batch.remaining_quantity ?? batch.quantity)
+      const after = before - Number(line.quantity)
+      balances.set(batch.id, after)
+      const movement = db.insert('stock_movements', {
+        batch_id: batch.id,
+        material_id: batch.material_id,
+        movement_type: 'outbound',
+        quantity: -Number(line.quantity),
+        balance_after: after,
+        related_batch_id: output.id,
+        reason_code: 'production',
+        reason: `生产投料：${output.batch_number}`,
+        reference_no: orderNo,
+        ...operator,
+      })
+      db.insert('production_order_inputs', {
+        order_id: order.id,
+        batch_id: batch.id,
+        material_id: batch.material_id,
+        batch_number: batch.batch_number,
+        quantity: Number(line.quantity),
+        movement_id: movement.id,
+      })
+    })
+    balances.forEach((after, id) => {
+      db.update('material_batches', id, {
+        remaining_quantity: after,
+        status: after === 0 ? 'disposed' : 'available',
+        updated_by: operator.operator_id,
+      })
+    })
+    syncMaterialStock([p_material_id, ...Array.from(new Set(lines.map((l) => batches.find((b) => b.id === l.batch_id).material_id)))])
+
+    return order
+  },
+
+  // 对应 014_barcode_print_registry.sql：同一码（物料 + 批次 + 码值 + 码制）只登记一行；p_copies > 0 时累加打印次数并记打印记录
+  // 未放行批次的码只有 admin/manager 以 p_override 越权才能登记
+  register_barcode: ({
+    p_barcode,
+    p_barcode_type,
+    p_format,
+    p_data = null,
+    p_material_id = null,
+    p_batch_id = null,
+    p_copies = 0,
+    p_source = 'generator',
+    p_override = false,
+  }) => {
+    if (!session.get()?.user) throw new Error('没有权限')
+    if (p_override) requireRole(['admin', 'manager'], '只有管理员或经理可以越权打印')
+    if (!String(p_barcode ?? '').trim()) throw new Error('条码内容不能为空')
+    const copies = Number(p_copies) || 0
+    if (copies < 0) throw new Error('打印份数不能为负数')
+
+    let materialId = p_material_id
+    if (p_batch_id) {
+      const batch = (db.getAll('material_batches') as any[]).find((b) => b.id === p_batch_id)
+      if (!batch) throw new Error('批次不存在')
+      if (batch.status !== 'available' && !p_override) throw new Error(`批次 ${batch.batch_number} 未放行，不能打印标签`)
+      materialId = batch.material_id
+    }
+
+    const existing = (db.getAll('barcodes') as any[]).find(
+      (b) =>
+        b.barcode === p_barcode &&
+        b.barcode_type === p_barcode_type &&
+        (b.material_id ?? null) === (materialId ?? null) &&
+        (b.batch_id ?? null) === (p_batch_id ?? null)
+    )
+    if (existing && existing.is_active === false) {
+      throw new Error(`条码 ${existing.barcode} 已停用，不能再生成或打印`)
+    }
+
+    const operator = currentOperator()
+    const data = p_data ?? p_barcode
+    const barcode = existing
+      ? db.update('barcodes', existing.id, { data })
+      : db.insert('barcodes', {
+          material_id: materialId,
+          batch_id: p_batch_id,
+          barcode: p_barcode,
+          barcode_type: p_barcode_type,
+          format: p_format,
+          width: 200,
+          height: 100,
+          data,
+          is_active: true,
+          print_count: 0,
+          last_printed_at: null,
+          created_by: operator.operator_id,
+        })
+    if (copies === 0) return barcode
+
+    db.insert('barcode_print_logs', {
+      barcode_id: barcode.id,
+      copies,
+      source: p_source,
+      printed_by: operator.operator_id,
+      printed_by_name: operator.operator_name,
+      printed_at: new Date().toISOString(),
+    })
+    return db.update('barcodes', barcode.id, {
+      print_count: (Number(barcode.print_count) || 0) + copies,
+      last_printed_at: new Date().toISOString(),
+    })
+  },
+
+  // 对应 023_label_config_profiles.sql：新增/修改配置方案，切换默认方案与写入一起生效
+  save_label_config_profile: ({ p_id = null, p_data = {} }) => {
+    requireRole(['admin', 'manager'], '没有维护标签配置方案的权限')
+
+    const profiles = db.getAll('label_config_profiles') as any[]
+    const previous = p_id ? profiles.find((p) => p.id === p_id) : null
+    if (p_id && !previous) throw new Error('配置方案不存在')
+    if (p_data.name !== undefined && profiles.some((p) => p.id !== p_id && p.name === p_data.name)) {
+      throw new Error(`方案名称“${p_data.name}”已存在`)
+    }
+
+    const now = new Date().toISOString()
+    if (p_data.is_default) {
+      profiles
+        .filter((p) => p.is_default && p.id !== p_id)
+        .forEach((p) => db.update('label_config_profiles', p.id, { is_default: false, updated_at: now }))
+    }
+    const patch = Object.fromEntries(
+      ['name', 'config', 'config_version', 'is_default'].filter((k) => p_data[k] !== undefined).map((k) => [k, p_data[k]])
+    )
+    return previous
+      ? db.update('label_config_profiles', previous.id, { ...patch, updated_at: now })
+      : db.insert('label_config_profiles', {
+        config: {},
+        config_version: 5,
+        is_default: false,
+        ...patch,
+        created_by: session.get()?.user?.id ?? null,
+      })
+  },
+
+  // 对应 024_label_serials.sql：按批次递增流水号，为一次打印签发 p_count 个连续序号；返回签发记录
+  // 未放行批次只有 admin/manager 以 p_override 越权才签发
+  issue_label_serials: ({ p_batch_id, p_count, p_pattern, p_override = false }) => {
+    if (!session.get()?.user) throw new Error('没有权限')
+    if (p_override) requireRole(['admin', 'manager'], '只有管理员或经理可以越权打印')
+    const count = Number(p_count) || 0
+    if (!Number.isInteger(count) || count < 1 || count > MAX_LABEL_SERIALS_PER_JOB) {
+      throw new Error(`序号数量必须在 1 到 ${MAX_LABEL_SERIALS_PER_JOB} 之间`)
+    }
+    const patternError = validateLabelSerialPattern(String(p_pattern ?? ''))
+    if (patternError) throw new Error(patternError)
+
+    const batch = (db.getAll('material_batches') as any[]).find((b) => b.id === p_batch_id)
+    if (!batch) throw new Error('批次不存在')
+    if (batch.status !== 'available' && !p_override) throw new Error(`批次 ${batch.batch_number} 未放行，不能打印标签`)
+    const material = (db.getAll('materials') as any[]).find((m) => m.id === batch.material_id)
+    if (!material) throw new Error('批次不存在')
+
+    const counter = (db.getAll('label_serial_counters') as any[]).find((c) => c.batch_id === p_batch_id)
+    const start = Number(counter?.last_value) || 0
+    if (counter) db.update('label_serial_counters', counter.id, { last_value: start + count })
+    else db.insert('label_serial_counters', { batch_id: p_batch_id, last_value: count })
+
+    const operator = currentOperator()
+    const issuedAt = new Date().toISOString()
+    return Array.from({ length: count }, (_, i) => {
+      const seq = start + i + 1
+      return db.insert('label_serials', {
+        batch_id: p_batch_id,
+        seq,
+        serial: formatLabelSerial(p_pattern, { materialCode: material.code, batchNumber: batch.batch_number, seq }),
+        job_index: i + 1,
+        job_total: count,
+        status: 'issued',
+        issued_by: operator.operator_id,
+        issued_by_name: operator.operator_name,
+        issued_at: issuedAt,
+        void_reason: null,
+        voided_by: null,
+        voided_by_name: null,
+        voided_at: null,
+      })
+    })
+  },
+
+  // 对应 024_label_serials.sql：作废仍为 issued 的序号，返回实际作废条数
+  void_label_serials: ({ p_serial_ids = [], p_reason }) => {
+    requireRole(['admin', 'manager', 'operator'], '没有作废标签序号的权限')
+    const reason = String(p_reason ?? '').trim()
+    if (!reason) throw new Error('请填写作废原因')
+
+    const idSet = new Set(p_serial_ids as string[])
+    const targets = (db.getAll('label_serials') as any[]).filter((s) => idSet.has(s.id) && s.status === 'issued')
+    const operator = currentOperator()
+    const voidedAt = new Date().toISOString()
+    targets.forEach((s) => {
+      db.update('label_serials', s.id, {
+        status: 'void',
+        void_reason: reason,
+        voided_by: operator.operator_id,
+        voided_by_name: operator.operator_name,
+        voided_at: voidedAt,
+      })
+    })
+    return targets.length
+  },
+}
+
+export const callLocalRpc = (fn: string, args?: Record<string, any>) => {
+  const handler = handlers[fn]
+  if (!handler) {
+    return { data: null, error: { message: `未知的数据库函数：${fn}` } }
+  }
+  try {
+    return { data: handler(args ?? {}), error: null }
+  } catch (e: any) {
+    return { data: null, error: { message: e?.message || '操作失败' } }
+  }
+}
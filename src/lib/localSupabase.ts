@@ -12,16 +12,31 @@
  * - 这里用 any 简化 TS 泛型，避免把离线适配变成类型体操
  */
 
-import { db, session, enrich } from './localdb'
+import { db, session, enrich, syncMaterialStock } from './localdb'
+import { callLocalRpc } from './localRpc'
 import type { User } from '../types/database'
 
 type TableName =
   | 'materials'
+  | 'material_codes'
+  | 'material_units'
+  | 'bom_items'
   | 'material_categories'
   | 'units'
   | 'suppliers'
   | 'material_batches'
+  | 'storage_locations'
+  | 'stock_movements'
+  | 'batch_inspections'
+  | 'stocktakes'
+  | 'stocktake_items'
+  | 'production_orders'
+  | 'production_order_inputs'
   | 'barcodes'
+  | 'barcode_print_logs'
+  | 'label_templates'
+  | 'label_config_profiles'
+  | 'label_serials'
   | 'users'
   | 'system_settings'
   | 'audit_logs'
@@ -83,6 +98,15 @@ const enrichRow = (table: TableName, row: any) => {
   switch (table) {
     case 'materials':
       return enrich.material(row)
+    case 'material_codes':
+      return enrich.materialCode(row)
+    case 'material_units':
+      return enrich.materialUnit(row)
+    case 'bom_items':
+      return enrich.bomItem(row)
+    case 'production_orders':
+    case 'production_order_inputs':
+      return enrich.productionRow(row)
     case 'material_batches':
       return enrich.batch(row)
     case 'barcodes':
@@ -96,7 +120,8 @@ class QueryBuilder<T = any> {
   private table: TableName
 
   private _filters: FilterFunction[] = []
-  private _order: OrderConfig | null = null
+  // 与 PostgREST 一致：多次 order() 依次作为第一、第二……排序键
+  private _orders: OrderConfig[] = []
   private _range: RangeConfig | null = null
   private _count: boolean = false
   private _head: boolean = false
@@ -125,7 +150,7 @@ class QueryBuilder<T = any> {
   }
 
   order(field: string, opts?: { ascending?: boolean }): this {
-    this._order = { field, asc: opts?.ascending ?? true }
+    this._orders.push({ field, asc: opts?.ascending ?? true })
     return this
   }
 
@@ -134,6 +159,21 @@ class QueryBuilder<T = any> {
     return this
   }
 
+  // LIKE 模式（忽略大小写）：% 任意串、_ 单个字符、\ 转义下一个字符
+  ilike(field: string, pattern: string): this {
+    let source = ''
+    for (let i = 0; i < pattern.length; i++) {
+      const escaped = pattern[i] === '\\' && i + 1 < pattern.length
+      const ch = escaped ? pattern[++i] : pattern[i]
+      if (!escaped && ch === '%') source += '.*'
+      else if (!escaped && ch === '_') source += '.'
+      else source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+    const regex = new RegExp(`^${source}$`, 'is')
+    this._filters.push((r) => regex.test(String(getByPath(r, field) ?? '')))
+    return this
+  }
+
   lt(field: string, value: any): this {
     this._filters.push((r) => ((getByPath(r, field) ?? '') as any) < value)
     return this
@@ -150,7 +190,8 @@ class QueryBuilder<T = any> {
   }
 
   or(expr: string): this {
-    const parts = expr.split(',')
+    // 按顶层逗号拆分条件（in.(a,b) 的括号内逗号不拆）
+    const parts = expr.match(/[^,(]+(\([^)]*\))?/g) ?? []
     this._filters.push((row) =>
       parts.some((p) => {
         const segs = p.split('.')
@@ -162,6 +203,9 @@ class QueryBuilder<T = any> {
         const fieldPath = segs.slice(0, -2).join('.')
 
         const v = (getByPath(row, fieldPath) ?? '').toString().toLowerCase()
+        if (op === 'in') {
+          return right.replace(/^\(|\)$/g, '').toLowerCase().split(',').includes(v)
+        }
         if (op === 'ilike') {
           const needle = right.replace(/%/g, '').toLowerCase()
           return v.includes(needle)
@@ -200,15 +244,18 @@ class QueryBuilder<T = any> {
   }
 
   private applyOrder(rows: any[]): any[] {
-    if (!this._order) return rows
-    const { field, asc } = this._order
+    if (!this._orders.length) return rows
     const sorted = [...rows]
     sorted.sort((a, b) => {
-      const av = getByPath(a, field) as any
-      const bv = getByPath(b, field) as any
-      if (av === bv) return 0
-      const r = av > bv ? 1 : -1
-      return asc ? r : -r
+      for (const { field, asc } of this._orders) {
+        const av = getByPath(a, field) as any
+        const bv = getByPath(b, field) as any
+        if (av === bv) continue
+        // 与 Postgres 一致：NULL 视为最大值（升序排在最后，降序排在最前）
+        const r = av == null ? 1 : bv == null ? -1 : av > bv ? 1 : -1
+        return asc ? r : -r
+      }
+      return 0
     })
     return sorted
   }
@@ -246,6 +293,7 @@ class QueryBuilder<T = any> {
   private executeInsert(): QueryResult<any> {
     const rows = this._insertRows ?? []
     const inserted = rows.map((r) => db.insert(this.table, r))
+    this.afterBatchWrite(inserted)
     const enriched = inserted.map((r) => enrichRow(this.table, r))
 
     // 默认不 returning（与 supabase-js 一致），只有调用 select() 才返回 data
@@ -266,10 +314,9 @@ class QueryBuilder<T = any> {
       return this.ok(this._returning ? (this._single ? null : []) : null)
     }
 
-    const updated = ids
-      .map((id) => db.update(this.table, id, patch))
-      .filter(Boolean)
-      .map((r) => enrichRow(this.table, r))
+    const written = ids.map((id) => db.update(this.table, id, patch)).filter(Boolean)
+    this.afterBatchWrite([...matched, ...written])
+    const updated = written.map((r) => enrichRow(this.table, r))
 
     if (!this._returning || this._head) return this.ok(null)
     if (this._single) return this.ok(updated[0] ?? null)
@@ -283,11 +330,67 @@ class QueryBuilder<T = any> {
     const deleted = matched
     ids.forEach((id) => db.delete(this.table, id))
 
+    // 模拟数据库外键 ON DELETE CASCADE：删除物料时一并清理其多编码、包装单位、BOM（作为成品）
+    if (this.table === 'materials' && ids.length) {
+      const idSet = new Set(ids)
+      ;(['material_codes', 'material_units'] as const).forEach((child) => {
+        const rows = db.getAll(child) as any[]
+        db.setAll(child, rows.filter((r) => !idSet.has(r.material_id)))
+      })
+      const bomItems = db.getAll('bom_items') as any[]
+      db.setAll('bom_items', bomItems.filter((r) => !idSet.has(r.parent_material_id)))
+    }
+
+    // 模拟数据库外键 ON DELETE CASCADE：删除批次时一并清理其流水、质检记录、条码及条码打印记录、标签序号
+    if (this.table === 'material_batches' && ids.length) {
+      const idSet = new Set(ids)
+      const barcodeIds = new Set((db.getAll('barcodes') as any[]).filter((r) => idSet.has(r.batch_id)).map((r) => r.id))
+      ;(['stock_movements', 'batch_inspections', 'barcodes', 'label_serial_counters', 'label_serials'] as const).forEach((child) => {
+        const rows = db.getAll(child) as any[]
+        db.setAll(child, rows.filter((r) => !idSet.has(r.batch_id)))
+      })
+      const printLogs = db.getAll('barcode_print_logs') as any[]
+      db.setAll('barcode_print_logs', printLogs.filter((r) => !barcodeIds.has(r.barcode_id)))
+      // 盘点明细为 ON DELETE SET NULL：保留快照，仅断开批次关联
+      const items = db.getAll('stocktake_items') as any[]
+      db.setAll('stocktake_items', items.map((r) => (idSet.has(r.batch_id) ? { ...r, batch_id: null } : r)))
+      // 生产单产出批次、投料明细同样为 ON DELETE SET NULL
+      ;(['production_orders', 'production_order_inputs'] as const).forEach((child) => {
+        const rows = db.getAll(child) as any[]
+        db.setAll(child, rows.map((r) => (idSet.has(r.batch_id) ? { ...r, batch_id: null } : r)))
+      })
+      // 拆分血缘与调拨流水的关联批次同样为 ON DELETE SET NULL
+      const batches = db.getAll('material_batches') as any[]
+      db.setAll('material_batches', batches.map((r) => (idSet.has(r.parent_batch_id) ? { ...r, parent_batch_id: null } : r)))
+      const movements = db.getAll('stock_movements') as any[]
+      db.setAll('stock_movements', movements.map((r) => (idSet.has(r.related_batch_id) ? { ...r, related_batch_id: null } : r)))
+    }
+
+    // 模拟数据库外键 ON DELETE SET NULL：删除标签模板时清除物料/供应商/全局默认模板
+    if (this.table === 'label_templates' && ids.length) {
+      const idSet = new Set(ids)
+      ;(['materials', 'suppliers'] as const).forEach((owner) => {
+        const rows = db.getAll(owner) as any[]
+        db.setAll(owner, rows.map((r) => (idSet.has(r.label_template_id) ? { ...r, label_template_id: null } : r)))
+      })
+      const settings = db.getAll('system_settings') as any[]
+      db.setAll('system_settings', settings.map((r) => (
+        idSet.has(r.default_label_template_id) ? { ...r, default_label_template_id: null } : r
+      )))
+    }
+    this.afterBatchWrite(matched)
+
     if (!this._returning || this._head) return this.ok(null)
     if (this._single) return this.ok(deleted[0] ?? null)
     return this.ok(deleted)
   }
 
+  /** 模拟数据库触发器：批次变动后重算相关物料的 current_stock */
+  private afterBatchWrite(rows: any[]) {
+    if (this.table !== 'material_batches' || !rows.length) return
+    syncMaterialStock(Array.from(new Set(rows.map((r) => r?.material_id).filter(Boolean))))
+  }
+
   private execute(): QueryResult<any> {
     switch (this._mutation) {
       case 'insert':
@@ -402,6 +505,7 @@ class LocalSupabaseAuth {
 export interface LocalSupabaseClient {
   auth: LocalSupabaseAuth
   from(table: TableName): QueryBuilder
+  rpc(fn: string, args?: Record<string, any>): Promise<QueryResult<any>>
   isOnline(): Promise<boolean>
 }
 
@@ -412,6 +516,10 @@ export class LocalSupabaseClientImpl implements LocalSupabaseClient {
     return new QueryBuilder(table)
   }
 
+  async rpc(fn: string, args?: Record<string, any>): Promise<QueryResult<any>> {
+    return callLocalRpc(fn, args)
+  }
+
   async isOnline(): Promise<boolean> {
     // 离线模式始终返回 false
     return false
@@ -3,11 +3,27 @@ const KEY_PREFIX = 'mma_local_'
 
 const tableKeys = {
   materials: KEY_PREFIX + 'materials',
+  material_codes: KEY_PREFIX + 'material_codes',
+  material_units: KEY_PREFIX + 'material_units',
+  bom_items: KEY_PREFIX + 'bom_items',
   material_categories: KEY_PREFIX + 'material_categories',
   units: KEY_PREFIX + 'units',
   suppliers: KEY_PREFIX + 'suppliers',
   material_batches: KEY_PREFIX + 'material_batches',
+  storage_locations: KEY_PREFIX + 'storage_locations',
+  stock_movements: KEY_PREFIX + 'stock_movements',
+  batch_inspections: KEY_PREFIX + 'batch_inspections',
+  batch_number_sequences: KEY_PREFIX + 'batch_number_sequences',
+  stocktakes: KEY_PREFIX + 'stocktakes',
+  stocktake_items: KEY_PREFIX + 'stocktake_items',
+  production_orders: KEY_PREFIX + 'production_orders',
+  production_order_inputs: KEY_PREFIX + 'production_order_inputs',
   barcodes: KEY_PREFIX + 'barcodes',
+  barcode_print_logs: KEY_PREFIX + 'barcode_print_logs',
+  label_templates: KEY_PREFIX + 'label_templates',
+  label_config_profiles: KEY_PREFIX + 'label_config_profiles',
+  label_serial_counters: KEY_PREFIX + 'label_serial_counters',
+  label_serials: KEY_PREFIX + 'label_serials',
   users: KEY_PREFIX + 'users',
   sessions: KEY_PREFIX + 'sessions',
   system_settings: KEY_PREFIX + 'system_settings',
@@ -105,7 +121,12 @@ export const seedIfEmpty = () => {
   if (units.length === 0) {
     save(tableKeys.units, [
       { id: uuid(), code: 'PCS', name: '件', symbol: 'pcs', category: 'piece', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() },
-      { id: uuid(), code: 'KG', name: '千克', symbol: 'kg', category: 'weight', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() }
+      { id: uuid(), code: 'KG', name: '千克', symbol: 'kg', category: 'weight', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() },
+      { id: uuid(), code: 'G', name: '克', symbol: 'g', category: 'weight', conversion_factor: 0.001, base_unit: 'KG', created_at: nowIso(), updated_at: nowIso() },
+      { id: uuid(), code: 'L', name: '升', symbol: 'L', category: 'volume', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() },
+      { id: uuid(), code: 'ML', name: '毫升', symbol: 'ml', category: 'volume', conversion_factor: 0.001, base_unit: 'L', created_at: nowIso(), updated_at: nowIso() },
+      { id: uuid(), code: 'BOX', name: '箱', symbol: '箱', category: 'piece', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() },
+      { id: uuid(), code: 'BAG', name: '袋', symbol: '袋', category: 'piece', conversion_factor: 1, created_at: nowIso(), updated_at: nowIso() }
     ])
   }
   const cats = load(tableKeys.material_categories)
@@ -181,6 +202,11 @@ export const seedIfEmpty = () => {
         backup_frequency: 'daily',
         data_retention_days: 365,
         maintenance_mode: false,
+        near_expiry_days: 30,
+        batch_number_pattern: '{MATERIAL}-{YYYYMMDD}-{SEQ:3}',
+        batch_number_reset: 'daily',
+        default_label_template_id: null,
+        default_label_print_count: 1,
         created_at: nowIso(),
         updated_at: nowIso()
       }
@@ -203,6 +229,29 @@ export const enrich = {
       unit: m.unit ?? unit?.symbol ?? unit?.code ?? unit?.name
     }
   },
+  // 物料多编码联表：补齐 material_code.material
+  materialCode: (mc: any) => {
+    const materials = load(tableKeys.materials)
+    const material = materials.find((m: any) => m.id === mc.material_id)
+    return { ...mc, material: material ? enrich.material(material) : undefined }
+  },
+  // 物料包装单位联表：补齐 material_unit.unit
+  materialUnit: (mu: any) => {
+    const units = load(tableKeys.units)
+    return { ...mu, unit: units.find((u: any) => u.id === mu.unit_id) }
+  },
+  // BOM 联表：补齐 bom_item.component（组件物料）
+  bomItem: (bi: any) => {
+    const materials = load(tableKeys.materials)
+    const component = materials.find((m: any) => m.id === bi.component_material_id)
+    return { ...bi, component: component ? enrich.material(component) : undefined }
+  },
+  // 生产单/投料明细联表：补齐 material
+  productionRow: (row: any) => {
+    const materials = load(tableKeys.materials)
+    const material = materials.find((m: any) => m.id === row.material_id)
+    return { ...row, material: material ? enrich.material(material) : undefined }
+  },
   // 批次联表：补齐 batch.material 与 batch.supplier，方便离线列表/条码页展示
   batch: (b: any) => {
     const materials = load(tableKeys.materials)
@@ -229,6 +278,46 @@ export const enrich = {
   }
 }
 
+// 与数据库触发器口径一致：物料当前库存 = 可用(available)批次 remaining_quantity 之和
+// materialIds 为空时重算全部物料
+export const syncMaterialStock = (materialIds?: string[]) => {
+  const materials = load(tableKeys.materials)
+  const batches = load(tableKeys.material_batches)
+  const targets = materialIds ? new Set(materialIds) : null
+  let changed = false
+  const next = materials.map((m: any) => {
+    if (targets && !targets.has(m.id)) return m
+    const stock = batches
+      .filter((b: any) => b.material_id === m.id && b.status === 'available')
+      .reduce((sum: number, b: any) => sum + (Number(b.remaining_quantity) || 0), 0)
+    if (m.current_stock === stock) return m
+    changed = true
+    return { ...m, current_stock: stock }
+  })
+  if (changed) save(tableKeys.materials, next)
+}
+
+// 与 010_create_storage_locations.sql 一致：首次启用库位主数据时，把历史批次的 location 文本
+// （忽略大小写/首尾空格）映射为“默认仓库/未分区”下的库位，并回写 location_id
+const migrateLocations = () => {
+  if (load(tableKeys.storage_locations).length > 0) return
+  const warehouse = { id: uuid(), code: 'WH01', name: '默认仓库', type: 'warehouse', parent_id: null, capacity: null, is_blocked: false, created_at: nowIso(), updated_at: nowIso() }
+  const zone = { id: uuid(), code: 'WH01-UNZONED', name: '未分区', type: 'zone', parent_id: warehouse.id, capacity: null, is_blocked: false, created_at: nowIso(), updated_at: nowIso() }
+  const bins = new Map<string, any>()
+  const batches = load(tableKeys.material_batches).map((b: any) => {
+    const raw = String(b.location ?? '').trim()
+    if (!raw || b.location_id) return b
+    const code = raw.toUpperCase()
+    if (!bins.has(code)) {
+      bins.set(code, { id: uuid(), code, name: raw, type: 'bin', parent_id: zone.id, capacity: null, is_blocked: false, created_at: nowIso(), updated_at: nowIso() })
+    }
+    return { ...b, location_id: bins.get(code).id, location: code }
+  })
+  save(tableKeys.storage_locations, [warehouse, zone, ...bins.values()])
+  save(tableKeys.material_batches, batches)
+}
+
 seedIfEmpty()
+migrateLocations()
 
 export default db
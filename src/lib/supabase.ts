@@ -56,6 +56,7 @@ export type SupabaseQueryBuilder = PromiseLike<SupabaseQueryResponse> & {
   select: (...args: unknown[]) => SupabaseQueryBuilder;
   order: (...args: unknown[]) => SupabaseQueryBuilder;
   eq: (...args: unknown[]) => SupabaseQueryBuilder;
+  ilike: (...args: unknown[]) => SupabaseQueryBuilder;
   lt: (...args: unknown[]) => SupabaseQueryBuilder;
   lte: (...args: unknown[]) => SupabaseQueryBuilder;
   gte: (...args: unknown[]) => SupabaseQueryBuilder;
@@ -70,6 +71,8 @@ export type SupabaseQueryBuilder = PromiseLike<SupabaseQueryResponse> & {
 export interface SupabaseLikeClient {
   auth: SupabaseAuthLike;
   from: (table: string) => SupabaseQueryBuilder;
+  // 调用数据库函数（在线为 Postgres 函数；离线由 localRpc 模拟）。多表/多行需要原子提交的操作统一走这里
+  rpc: (fn: string, args?: Record<string, unknown>) => PromiseLike<SupabaseQueryResponse>;
   isOnline: () => Promise<boolean>;
 }
 
@@ -145,6 +148,24 @@ if (isOfflineMode) {
 
 export const supabase: SupabaseLikeClient = baseClient;
 
+// ilike 模式中 % _ \ 有特殊含义：按用户输入匹配前先转义，避免输入被当作通配符
+export const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+// PostgREST 单次请求最多返回 max-rows 行（默认 1000），超出部分会被静默截断；
+// 需要全量数据时用本函数按页拉取，直到某一页为空。buildQuery 每次返回一个新的查询，且应带稳定的排序
+const FETCH_ALL_PAGE_SIZE = 1000;
+
+export const fetchAllRows = async <T>(buildQuery: () => SupabaseQueryBuilder): Promise<T[]> => {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await buildQuery().range(rows.length, rows.length + FETCH_ALL_PAGE_SIZE - 1);
+    if (error) throw error;
+    const page = (data as T[] | null) || [];
+    if (page.length === 0) return rows;
+    rows.push(...page);
+  }
+};
+
 // 错误处理函数
 export interface ValidationRule {
   required?: boolean;
@@ -1,5 +1,6 @@
 ﻿import React from 'react'
 import BarcodeGeneratorRedesigned from '@/components/barcodes/BarcodeGeneratorRedesigned'
+import ImageBarcodeImport from '@/components/barcodes/ImageBarcodeImport'
 import { useAuthStore } from '@/stores/authStore'
 
 const BarcodeManagement: React.FC = () => {
@@ -26,9 +27,10 @@ const BarcodeManagement: React.FC = () => {
       <div className="mb-4">
         <h1 className="text-2xl font-bold text-gray-900">条码管理器</h1>
         <p className="mt-1 text-sm text-gray-500">
-          物料/批次条码预览与打印
+          物料/批次条码预览与打印；上传送货标签照片识别条码并入库
         </p>
       </div>
+      <ImageBarcodeImport />
       <BarcodeGeneratorRedesigned />
     </div>
   )
@@ -1,4 +1,4 @@
-﻿import React, { useEffect } from 'react';
+﻿import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   CubeIcon, 
@@ -6,9 +6,14 @@ import {
   ArchiveBoxIcon, 
   ChartBarIcon,
   ExclamationTriangleIcon,
-  ClockIcon
+  ClockIcon,
+  CalendarDaysIcon
 } from '@heroicons/react/24/outline';
+import { format } from 'date-fns';
 import { useMaterialStore } from '../stores/materialStore';
+import { useBatchStore } from '../stores/batchStore';
+import type { MaterialBatch } from '../types/database';
+import { getDaysUntilExpiry } from '../utils/statusHelpers';
 import { useAuthStore } from '../stores/authStore';
 import StatusBadge from '../components/common/StatusBadge';
 import LoadingSpinner from '../components/common/LoadingSpinner';
@@ -16,12 +21,28 @@ import LoadingSpinner from '../components/common/LoadingSpinner';
 const Dashboard: React.FC = () => {
   const { stats, materials, loading, fetchMaterials, fetchStats } = useMaterialStore();
   const { user, hasRole } = useAuthStore();
+  const { getNearExpiryDays, getNearExpiryBatches, getExpiredBatches } = useBatchStore();
+  const [nearExpiryDays, setNearExpiryDays] = useState<number | null>(null);
+  const [nearExpiryBatches, setNearExpiryBatches] = useState<MaterialBatch[]>([]);
+  const [expiredCount, setExpiredCount] = useState(0);
 
   useEffect(() => {
     fetchMaterials({ limit: 10 });
     fetchStats();
   }, [fetchMaterials, fetchStats]);
 
+  // 临期批次：阈值来自系统设置 near_expiry_days
+  useEffect(() => {
+    const loadExpiry = async () => {
+      const days = await getNearExpiryDays();
+      const [nearExpiry, expired] = await Promise.all([getNearExpiryBatches(days), getExpiredBatches()]);
+      setNearExpiryDays(days);
+      setNearExpiryBatches(nearExpiry);
+      setExpiredCount(expired.filter((b) => (b.remaining_quantity ?? b.quantity) > 0).length);
+    };
+    loadExpiry();
+  }, [getNearExpiryDays, getNearExpiryBatches, getExpiredBatches]);
+
   const getLowStockMaterials = () => {
     return materials.filter(m => m.current_stock <= m.min_stock).slice(0, 5);
   };
@@ -197,6 +218,60 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* 临期批次 */}
+      <div className="mt-8 bg-white dark:bg-gray-900 rounded-lg shadow-sm border dark:border-gray-800">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 flex items-center">
+            <CalendarDaysIcon className="h-5 w-5 text-orange-500 mr-2" />
+            临期批次
+            {nearExpiryDays !== null && (
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">（{nearExpiryDays} 天内到期）</span>
+            )}
+          </h3>
+          {expiredCount > 0 && (
+            <Link to="/batches" className="text-sm text-red-600 hover:text-red-700">
+              另有 {expiredCount} 个过期批次待处理
+            </Link>
+          )}
+        </div>
+        <div className="p-6">
+          {nearExpiryBatches.length > 0 ? (
+            <div className="space-y-3">
+              {nearExpiryBatches.slice(0, 5).map((batch) => {
+                const daysLeft = batch.expiry_date ? getDaysUntilExpiry(batch.expiry_date) : 0;
+                return (
+                  <div key={batch.id} className="flex items-center justify-between p-3 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-gray-100">{batch.material?.name || '-'}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {batch.batch_number} · 剩余 {batch.remaining_quantity ?? batch.quantity}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-sm font-medium text-orange-600">
+                        {daysLeft === 0 ? '今天到期' : `${daysLeft} 天后到期`}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {batch.expiry_date ? format(new Date(batch.expiry_date), 'yyyy-MM-dd') : '-'}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+              {nearExpiryBatches.length > 5 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                  共 {nearExpiryBatches.length} 个临期批次，<Link to="/batches" className="text-blue-600 hover:text-blue-700">查看全部</Link>
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <p className="text-gray-600 dark:text-gray-300">暂无临期批次</p>
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* 快速操作 */}
       {hasRole('operator') && (
         <div className="mt-8 bg-white dark:bg-gray-900 rounded-lg shadow-sm border dark:border-gray-800">
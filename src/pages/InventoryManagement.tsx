@@ -1,14 +1,28 @@
 ﻿import React, { useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { useAuthStore } from '@/stores/authStore'
 import BatchList from '@/components/batches/BatchList'
+import MaterialOutbound from '@/components/inventory/MaterialOutbound'
+import InventoryOverview from '@/components/inventory/InventoryOverview'
+import StocktakeList from '@/components/inventory/StocktakeList'
+import ProductionOrderList from '@/components/inventory/ProductionOrderList'
 import {
     ArchiveBoxArrowDownIcon,
-    ArchiveBoxIcon
+    ArrowUpTrayIcon,
+    ArchiveBoxIcon,
+    ClipboardDocumentCheckIcon,
+    WrenchScrewdriverIcon
 } from '@heroicons/react/24/outline'
 
+type InventoryTab = 'inbound' | 'outbound' | 'production' | 'stocktake' | 'overview'
+
 const InventoryManagement: React.FC = () => {
     const { hasPermission } = useAuthStore()
-    const [activeTab, setActiveTab] = useState<'inbound' | 'outbound' | 'overview'>('inbound')
+    // 物料清单页通过 ?tab=production&material= 直接进入生产入库
+    const [searchParams] = useSearchParams()
+    const [activeTab, setActiveTab] = useState<InventoryTab>(
+        searchParams.get('tab') === 'production' ? 'production' : 'inbound'
+    )
 
     if (!hasPermission('read_batches')) {
         return (
@@ -32,7 +46,7 @@ const InventoryManagement: React.FC = () => {
             <div className="mb-6">
                 <h1 className="text-2xl font-bold text-gray-900">库存管理</h1>
                 <p className="mt-1 text-sm text-gray-500">
-                    管理物料的入库、出库及库存盘点
+                    管理物料的入库、出库、生产入库及库存盘点
                 </p>
             </div>
 
@@ -50,6 +64,41 @@ const InventoryManagement: React.FC = () => {
                         入库记录
                     </button>
 
+                    {hasPermission('write_batches') && (
+                        <button
+                            onClick={() => setActiveTab('outbound')}
+                            className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'outbound'
+                                    ? 'border-blue-500 text-blue-600'
+                                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                                }`}
+                        >
+                            <ArrowUpTrayIcon className="w-5 h-5 mr-2" />
+                            物料出库
+                        </button>
+                    )}
+
+                    <button
+                        onClick={() => setActiveTab('production')}
+                        className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'production'
+                                ? 'border-blue-500 text-blue-600'
+                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            }`}
+                    >
+                        <WrenchScrewdriverIcon className="w-5 h-5 mr-2" />
+                        生产入库
+                    </button>
+
+                    <button
+                        onClick={() => setActiveTab('stocktake')}
+                        className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'stocktake'
+                                ? 'border-blue-500 text-blue-600'
+                                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                            }`}
+                    >
+                        <ClipboardDocumentCheckIcon className="w-5 h-5 mr-2" />
+                        库存盘点
+                    </button>
+
                     <button
                         onClick={() => setActiveTab('overview')}
                         className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'overview'
@@ -73,12 +122,20 @@ const InventoryManagement: React.FC = () => {
                     <BatchList />
                 )}
 
+                {activeTab === 'outbound' && (
+                    <MaterialOutbound />
+                )}
+
+                {activeTab === 'production' && (
+                    <ProductionOrderList initialMaterialId={searchParams.get('material') || undefined} />
+                )}
+
+                {activeTab === 'stocktake' && (
+                    <StocktakeList />
+                )}
+
                 {activeTab === 'overview' && (
-                    <div className="p-8 text-center text-gray-500">
-                        <ArchiveBoxIcon className="w-12 h-12 mx-auto mb-2 text-gray-300" />
-                        <p>库存概览功能开发中...</p>
-                        <p className="text-sm mt-2">目前请在入库记录中查看具体批次库存。</p>
-                    </div>
+                    <InventoryOverview onDrillDown={() => setActiveTab('inbound')} />
                 )}
             </div>
         </div>
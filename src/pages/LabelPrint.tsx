@@ -1,107 +1,102 @@
-import React, { useState, useEffect, useRef } from 'react';
+﻿import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import {
   PrinterIcon,
   ArrowDownTrayIcon,
   PlusIcon,
   MagnifyingGlassIcon,
   Cog6ToothIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  QueueListIcon
 } from '@heroicons/react/24/outline';
 import { useMaterialStore } from '../stores/materialStore';
 import { useBatchStore } from '../stores/batchStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { useAuthStore } from '../stores/authStore';
+import { useBarcodeStore } from '../stores/barcodeStore';
+import { useMaterialCodeStore } from '../stores/materialCodeStore';
+import { useLabelTemplateStore } from '../stores/labelTemplateStore';
+import { useLabelConfigStore } from '../stores/labelConfigStore';
+import { useLabelSerialStore } from '../stores/labelSerialStore';
 import LabelPrintTemplate from '../components/labels/LabelPrintTemplate';
-import { LabelPrintData } from '../types/database';
+import LabelTemplateRenderer from '../components/labels/LabelTemplateRenderer';
+import LabelPrintQueue, { LabelQueueRow } from '../components/labels/LabelPrintQueue';
+import LabelQueuePrintPanel from '../components/labels/LabelQueuePrintPanel';
+import LabelQueuePreview from '../components/labels/LabelQueuePreview';
+import LabelDefaultSourceHint from '../components/labels/LabelDefaultSourceHint';
+import { BarcodeRegisterInput, LabelPrintData, LabelSerial, LabelTemplate, Material, MaterialBatch } from '../types/database';
 import { useToast } from '../components/common/Toast';
-
-// 标签配置类型
-export interface LabelConfig {
-  // 标签尺寸
-  labelWidth: number;        // 标签宽度 mm
-  labelHeight: number;       // 标签高度 mm
-  // 打印边距
-  marginTop: number;         // 上边距 mm
-  marginBottom: number;      // 下边距 mm
-  marginLeft: number;        // 左边距 mm
-  marginRight: number;       // 右边距 mm
-  // 打印偏移（用于校准打印位置，支持负值）
-  offsetX: number;           // 水平偏移 mm（正值向右，负值向左）
-  offsetY: number;           // 垂直偏移 mm（正值向下，负值向上）
-  // 表格设置
-  tableWidth: number;        // 表格宽度 (百分比 1-100)
-  labelColumnWidth: number;  // 标签列宽度 (百分比 1-50)
-  // 字体设置
-  titleFontSize: number;     // 标题字号
-  labelFontSize: number;     // 标签字号
-  valueFontSize: number;     // 值字号
-  // 固定内容
-  companyName: string;       // 公司名称
-  // 显示选项
-  showBarcode: boolean;      // 显示材料条形码
-  showQrcode: boolean;       // 显示批次二维码
-  // 预览缩放
-  previewScale: number;
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import { LABEL_PAYLOAD_FORMATS, LabelPayloadFormat } from '../utils/labelPayload';
+import {
+  DEFAULT_LABEL_LAYOUT,
+  LABEL_CONFIG_VERSION,
+  LabelConfig,
+  LabelLayoutConfig,
+  LabelWorkstationSettings,
+  clearLegacyLabelLayout,
+  isSameLabelLayout,
+  loadLabelWorkstation,
+  loadLegacyLabelLayout,
+  migrateLabelLayout,
+  saveLabelWorkstation
+} from '../utils/labelConfig';
+import {
+  buildLabelDownloadDocument,
+  buildLabelPrintDocument,
+  convertCanvasToImages,
+  downloadHtmlFile,
+  printLabelDocument
+} from '../utils/labelPrintDocument';
+import { buildLabelPrintData, collectLabelBarcodes, getLabelCodeNeeds } from '../utils/labelData';
+import {
+  LABEL_SERIAL_TOKENS,
+  formatLabelSequence,
+  formatLabelSerial,
+  validateLabelSerialPattern
+} from '../utils/labelSerial';
+import { MATERIAL_CODE_TYPE_TEXT, getStatusBadgeColor, getStatusText } from '../utils/statusHelpers';
+import {
+  LABEL_DEFAULT_SOURCE_TEXT,
+  LabelDefaultLevel,
+  resolveLabelDefaults
+} from '../utils/labelTemplate';
+
+// 配置方案下拉中代表“本机旧配置”（旧版 localStorage 迁移出的版式，尚未保存为方案）的取值
+const LEGACY_PROFILE_ID = 'legacy';
+
+// 打印队列中的一项：copies 为空时按物料 > 供应商 > 全局默认张数
+interface LabelQueueEntry {
+  batch: MaterialBatch;
+  copies: number | null;
 }
 
-// 配置版本号 - 修改默认配置时递增此值，会自动清除旧配置
-const CONFIG_VERSION = 4;
-
-// 默认配置
-const DEFAULT_LABEL_CONFIG: LabelConfig = {
-  labelWidth: 100,
-  labelHeight: 100,
-  marginTop: 2,
-  marginBottom: 2,
-  marginLeft: 2,
-  marginRight: 2,
-  offsetX: 0,
-  offsetY: 0,
-  tableWidth: 80,  // 降低表格宽度，让内容不超出
-  labelColumnWidth: 25,
-  titleFontSize: 12,
-  labelFontSize: 10,
-  valueFontSize: 12,
-  companyName: '深圳市颖灿生物科技有限公司',
-  showBarcode: false,  // 默认关闭一维条形码，使用双二维码布局
-  showQrcode: true,
-  previewScale: 1.2
-};
-
-// 从 localStorage 加载配置
-const loadLabelConfig = (): LabelConfig => {
-  try {
-    // 检查配置版本
-    const savedVersion = localStorage.getItem('labelPrintConfigVersion');
-    if (savedVersion !== String(CONFIG_VERSION)) {
-      // 版本不匹配，清除旧配置，使用新默认值
-      localStorage.removeItem('labelPrintConfig');
-      localStorage.setItem('labelPrintConfigVersion', String(CONFIG_VERSION));
-      return DEFAULT_LABEL_CONFIG;
-    }
+// 序号标签中的一张：签发记录写入标签序号与张次
+interface SerialLabelJob {
+  material: Material;
+  batch: MaterialBatch;
+  copies: number;
+  editData?: Partial<LabelPrintData>;
+}
 
-    const saved = localStorage.getItem('labelPrintConfig');
-    if (saved) {
-      return { ...DEFAULT_LABEL_CONFIG, ...JSON.parse(saved) };
-    }
-  } catch (e) {
-    console.error('Failed to load label config:', e);
-  }
-  return DEFAULT_LABEL_CONFIG;
-};
+const serialLabelFields = (serial: Pick<LabelSerial, 'serial' | 'job_index' | 'job_total'>): Partial<LabelPrintData> => ({
+  label_serial: serial.serial,
+  label_sequence: formatLabelSequence(serial.job_index, serial.job_total)
+});
 
-// 保存配置到 localStorage
-const saveLabelConfig = (config: LabelConfig) => {
-  try {
-    localStorage.setItem('labelPrintConfig', JSON.stringify(config));
-  } catch (e) {
-    console.error('Failed to save label config:', e);
-  }
-};
+// 等待离屏标签渲染完成（条码/二维码在子组件的 effect 中绘制到画布）
+const waitForLabelRender = () => new Promise<void>(resolve => setTimeout(resolve, 300));
 
 const LabelPrint: React.FC = () => {
   const { materials, fetchMaterials, suppliers, fetchSuppliers } = useMaterialStore();
-  const { batches, fetchBatches } = useBatchStore();
+  const { batches, fetchBatches, getBatchesByIds } = useBatchStore();
   const { settings, fetchSettings } = useSettingsStore();
+  const { hasPermission } = useAuthStore();
+  const { registerBarcode } = useBarcodeStore();
+  const { codesByMaterial, fetchAllCodes } = useMaterialCodeStore();
+  const { templates, fetchTemplates, globalDefaults, fetchGlobalDefaults } = useLabelTemplateStore();
+  const { profiles, fetchProfiles, createProfile, updateProfile, deleteProfile, setDefaultProfile } = useLabelConfigStore();
+  const { issueSerials, getNextSerialSeq } = useLabelSerialStore();
   const { success, error: showError } = useToast();
 
   // 选择状态
@@ -118,12 +113,38 @@ const LabelPrint: React.FC = () => {
     quantity: 1
   });
 
-  // 打印数量
-  const [printCount, setPrintCount] = useState(1);
+  // 手动覆盖的打印数量；为空时按物料 > 供应商 > 全局默认
+  const [manualPrintCount, setManualPrintCount] = useState<number | null>(null);
+
+  // 未放行批次（非 available）的越权打印确认
+  const [holdOverride, setHoldOverride] = useState(false);
 
-  // 标签配置
-  const [labelConfig, setLabelConfig] = useState<LabelConfig>(loadLabelConfig);
+  // 标签配置：共享版式来自配置方案（未保存的修改暂存在 draftLayout），打印位置校准与预览缩放为本机设置
+  const [workstation, setWorkstation] = useState<LabelWorkstationSettings>(loadLabelWorkstation);
+  const [legacyLayout, setLegacyLayout] = useState<LabelLayoutConfig | null>(loadLegacyLabelLayout);
+  const [draftLayout, setDraftLayout] = useState<LabelLayoutConfig | null>(null);
+  const [saveAsName, setSaveAsName] = useState<string | null>(null);
+  const [deletingProfile, setDeletingProfile] = useState(false);
   const [showConfigPanel, setShowConfigPanel] = useState(false);
+  const canWriteConfig = hasPermission('write_label_config');
+
+  // 手动选择的标签模板：null 表示按默认解析，'' 表示内置表格模板；切换物料/批次时恢复默认
+  const [manualTemplateId, setManualTemplateId] = useState<string | null>(null);
+
+  // 打印队列：多个批次作为一个打印任务，每个批次单独设置份数
+  const [queueMode, setQueueMode] = useState(false);
+  const [queue, setQueue] = useState<LabelQueueEntry[]>([]);
+  const [queuePreviewIndex, setQueuePreviewIndex] = useState(0);
+  // 队列统一使用的模板：null 表示按各批次默认，'' 表示内置表格模板
+  const [queueTemplateId, setQueueTemplateId] = useState<string | null>(null);
+  const [queueHoldOverride, setQueueHoldOverride] = useState(false);
+  const queueRenderRef = useRef<HTMLDivElement>(null);
+
+  // 序号标签：签发后逐张渲染到离屏容器，取出 HTML 后清空；nextSerialSeq 为当前批次下一个流水号（预览用）
+  const [serialRender, setSerialRender] = useState<{ labels: LabelPrintData[]; template: LabelTemplate | null } | null>(null);
+  const [serialPrinting, setSerialPrinting] = useState(false);
+  const [nextSerialSeq, setNextSerialSeq] = useState<number | null>(null);
+  const serialRenderRef = useRef<HTMLDivElement>(null);
 
   // 临时编辑数据（打印前可临时修改）
   const [editData, setEditData] = useState<Partial<LabelPrintData>>({});
@@ -131,12 +152,49 @@ const LabelPrint: React.FC = () => {
   // 预览区域引用
   const printRef = useRef<HTMLDivElement>(null);
 
+  // 扫码等入口通过 ?material=&batch= 预选物料/批次；批次需等该物料的批次加载后再选中
+  const [searchParams] = useSearchParams();
+  const pendingBatchIdRef = useRef<string | null>(searchParams.get('batch'));
+
   // 初始化数据
   useEffect(() => {
     fetchMaterials();
     fetchSuppliers();
     fetchSettings();
-  }, [fetchMaterials, fetchSuppliers, fetchSettings]);
+    fetchAllCodes();
+    fetchTemplates();
+    fetchGlobalDefaults();
+    fetchProfiles();
+  }, [fetchMaterials, fetchSuppliers, fetchSettings, fetchAllCodes, fetchTemplates, fetchGlobalDefaults, fetchProfiles]);
+
+  // 入库记录中勾选批次后通过 ?batches=id1,id2 进入打印队列
+  useEffect(() => {
+    const ids = (searchParams.get('batches') || '').split(',').filter(Boolean);
+    if (ids.length === 0) return;
+    let cancelled = false;
+    getBatchesByIds(ids).then(rows => {
+      if (cancelled) return;
+      setQueue(rows.map(batch => ({ batch, copies: null })));
+      setQueuePreviewIndex(0);
+      setQueueTemplateId(null);
+      setQueueHoldOverride(false);
+      setQueueMode(true);
+      if (rows.length < ids.length) {
+        showError('部分批次不存在或已删除', `已加入 ${rows.length} / ${ids.length} 个批次`);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, getBatchesByIds, showError]);
+
+  useEffect(() => {
+    const materialId = searchParams.get('material');
+    if (materialId) {
+      pendingBatchIdRef.current = searchParams.get('batch');
+      setSelectedMaterialId(materialId);
+    }
+  }, [searchParams]);
 
   // 当选择物料后，获取该物料的批次
   useEffect(() => {
@@ -144,24 +202,110 @@ const LabelPrint: React.FC = () => {
       fetchBatches({ materialId: selectedMaterialId });
       setSelectedBatchId('');
       setEditData({});  // 清空临时编辑
+      setManualTemplateId(null);
+      setManualPrintCount(null);
     }
   }, [selectedMaterialId, fetchBatches]);
 
-  // 当选择批次后，清空临时编辑
+  // 说明：放在“选择物料”effect 之后，同一轮里先清空批次再选中预选批次
+  useEffect(() => {
+    const pendingId = pendingBatchIdRef.current;
+    if (pendingId && batches.some(b => b.id === pendingId && b.material_id === selectedMaterialId)) {
+      pendingBatchIdRef.current = null;
+      setSelectedBatchId(pendingId);
+    }
+  }, [batches, selectedMaterialId]);
+
+  // 当选择批次后，清空临时编辑、越权确认与手动选择的模板/张数
   useEffect(() => {
     setEditData({});
+    setHoldOverride(false);
+    setManualTemplateId(null);
+    setManualPrintCount(null);
   }, [selectedBatchId]);
 
-  // 保存配置
+  // 保存本机设置
   useEffect(() => {
-    saveLabelConfig(labelConfig);
-  }, [labelConfig]);
+    saveLabelWorkstation(workstation);
+  }, [workstation]);
+
+  // 当前方案：本机选择的方案 > 本机旧配置 > 默认方案 > 内置默认版式；所选方案被删除后按同样顺序回退
+  const profileLayouts = useMemo(
+    () => new Map(profiles.map(p => [p.id, migrateLabelLayout(p.config, p.config_version)])),
+    [profiles]
+  );
+  const isAvailableProfile = (id: string | null) =>
+    id === '' || (id === LEGACY_PROFILE_ID ? !!legacyLayout : !!id && profileLayouts.has(id));
+  const activeProfileId = isAvailableProfile(workstation.profileId)
+    ? workstation.profileId as string
+    : legacyLayout ? LEGACY_PROFILE_ID : profiles.find(p => p.is_default)?.id ?? '';
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || null;
+  const sourceLayout = activeProfileId === LEGACY_PROFILE_ID && legacyLayout
+    ? legacyLayout
+    : profileLayouts.get(activeProfileId) ?? DEFAULT_LABEL_LAYOUT;
+  const layout = draftLayout ?? sourceLayout;
+  const layoutDirty = !!draftLayout && !isSameLabelLayout(draftLayout, sourceLayout);
+  const labelConfig: LabelConfig = {
+    ...layout,
+    offsetX: workstation.offsetX,
+    offsetY: workstation.offsetY,
+    previewScale: workstation.previewScale
+  };
+  const serialPatternError = labelConfig.serialEnabled ? validateLabelSerialPattern(labelConfig.serialPattern) : null;
+
+  // 序号标签预览：取当前批次下一个流水号
+  useEffect(() => {
+    if (!labelConfig.serialEnabled || !selectedBatchId) {
+      setNextSerialSeq(null);
+      return;
+    }
+    let cancelled = false;
+    getNextSerialSeq(selectedBatchId).then(seq => {
+      if (!cancelled) setNextSerialSeq(seq);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [labelConfig.serialEnabled, selectedBatchId, getNextSerialSeq]);
+
+  const updateLayout = (patch: Partial<LabelLayoutConfig>) => {
+    setDraftLayout(prev => ({ ...(prev ?? sourceLayout), ...patch }));
+  };
+
+  const updateWorkstation = (patch: Partial<LabelWorkstationSettings>) => {
+    setWorkstation(prev => ({ ...prev, ...patch }));
+  };
 
   // 获取选中的物料和批次
   const selectedMaterial = materials.find(m => m.id === selectedMaterialId);
   const selectedBatch = batches.find(b => b.id === selectedBatchId);
   const materialBatches = batches.filter(b => b.material_id === selectedMaterialId);
 
+  // 默认模板与打印张数：物料 > 批次供应商 > 全局，模板与张数分别解析
+  const getDefaultLevels = (material?: Material, batch?: MaterialBatch): LabelDefaultLevel[] => {
+    const supplier = batch?.supplier_id ? suppliers.find(s => s.id === batch.supplier_id) : undefined;
+    return [
+      { source: 'material', template_id: material?.label_template_id, print_count: material?.label_print_count },
+      ...(batch ? [{ source: 'supplier' as const, template_id: supplier?.label_template_id, print_count: supplier?.label_print_count }] : []),
+      { source: 'global', template_id: globalDefaults.template_id, print_count: globalDefaults.print_count }
+    ];
+  };
+  const templateExists = (id: string) => templates.some(t => t.id === id);
+  const batchSupplier = selectedBatch?.supplier_id ? suppliers.find(s => s.id === selectedBatch.supplier_id) : undefined;
+  const defaultLevels = getDefaultLevels(selectedMaterial, selectedBatch);
+  const resolvedDefaults = resolveLabelDefaults(defaultLevels, templateExists);
+  const activeTemplate = templates.find(t => t.id === (manualTemplateId ?? resolvedDefaults.templateId)) || null;
+  const printCount = manualPrintCount ?? resolvedDefaults.printCount;
+  const describeLevelTemplate = (level: LabelDefaultLevel) => {
+    if (!level.template_id) return level.source === 'global' ? '内置表格模板' : '未设置';
+    return templates.find(t => t.id === level.template_id)?.name ?? '已删除的模板';
+  };
+
+  // 说明：未经质检放行的批次默认不允许打印标签，避免待检/锁定物料被贴标流转；经理可越权
+  const batchOnHold = !!selectedBatch && selectedBatch.status !== 'available';
+  const canOverrideHold = hasPermission('override_batch_hold');
+  const printBlocked = batchOnHold && !holdOverride;
+
   // 获取供应商信息（优先使用批次中的联表数据）
   const getSupplierInfo = (batch?: typeof selectedBatch): { code: string; name: string } => {
     // 首先尝试从批次的联表数据中获取
@@ -187,345 +331,341 @@ const LabelPrint: React.FC = () => {
     return { code: '-', name: '-' };
   };
 
-  // 构建打印数据
+  const companyName = labelConfig.companyName || settings?.company_name || '深圳市颖灿生物科技有限公司';
+
+  // 构建打印数据：已选批次或新建批次模式下填写的批次信息
   const buildLabelData = (): LabelPrintData | null => {
     if (!selectedMaterial) return null;
-
-    let baseData: LabelPrintData | null = null;
-
-    // 如果有选中的批次，使用批次数据
-    if (selectedBatch) {
-      const supplierInfo = getSupplierInfo(selectedBatch);
-      // 确保 barcode 数据是字符串类型
-      const materialCode = String(selectedMaterial.code || '');
-      const batchNumber = String(selectedBatch.batch_number || '');
-
-      baseData = {
-        company_name: labelConfig.companyName || settings?.company_name || '深圳市颖灿生物科技有限公司',
-        supplier_code: supplierInfo.code,
-        supplier_name: supplierInfo.name,
-        product_name: selectedMaterial.name,
-        product_code: selectedMaterial.code,
-        weight: selectedMaterial.weight,
-        storage_conditions: selectedMaterial.storage_conditions,
-        main_ingredients: selectedMaterial.main_ingredients,
-        shelf_life: selectedMaterial.shelf_life,
-        production_date: selectedBatch.production_date,
-        batch_number: batchNumber,
-        material_barcode: materialCode,
-        batch_barcode: batchNumber
-      };
-    }
-
-    // 如果是新建批次模式
-    if (showNewBatchForm && !baseData) {
-      const batchNumber = newBatchData.batch_number || '';
-      // 确保 barcode 数据是字符串类型
-      const materialCode = String(selectedMaterial.code || '');
-
-      baseData = {
-        company_name: labelConfig.companyName || settings?.company_name || '深圳市颖灿生物科技有限公司',
-        supplier_code: '-',
-        supplier_name: '-',
-        product_name: selectedMaterial.name,
-        product_code: selectedMaterial.code,
-        weight: selectedMaterial.weight,
-        storage_conditions: selectedMaterial.storage_conditions,
-        main_ingredients: selectedMaterial.main_ingredients,
-        shelf_life: selectedMaterial.shelf_life,
-        production_date: newBatchData.production_date,
-        batch_number: batchNumber,
-        material_barcode: materialCode,
-        batch_barcode: batchNumber
-      };
-    }
-
-    if (!baseData) return null;
-
-    // 合并临时编辑数据
-    return {
-      ...baseData,
-      ...editData,
-      company_name: editData.company_name || baseData.company_name
-    };
+    const batch = selectedBatch
+      ? selectedBatch
+      : showNewBatchForm
+        ? { batch_number: newBatchData.batch_number || '', production_date: newBatchData.production_date, quantity: newBatchData.quantity }
+        : null;
+    if (!batch) return null;
+
+    // 序号标签预览第一张：序号按下一个流水号示意，实际序号打印时签发
+    const serialPreview = labelConfig.serialEnabled
+      ? serialLabelFields({
+        serial: formatLabelSerial(labelConfig.serialPattern, {
+          materialCode: selectedMaterial.code,
+          batchNumber: batch.batch_number,
+          seq: nextSerialSeq ?? 1
+        }),
+        job_index: 1,
+        job_total: printCount
+      })
+      : {};
+
+    return buildLabelPrintData({
+      material: selectedMaterial,
+      batch,
+      supplier: selectedBatch ? getSupplierInfo(selectedBatch) : { code: '-', name: '-' },
+      companyName,
+      config: labelConfig,
+      needs: getLabelCodeNeeds(activeTemplate, labelConfig),
+      editData: { ...editData, ...serialPreview }
+    });
   };
 
   const labelData = buildLabelData();
 
-  // 过滤物料列表
+  // 打印队列：整个队列用同一模板（同一卷标签纸）——手动选择优先，否则取各批次的默认模板；
+  // 各批次默认模板不一致时使用第一个批次的，并在界面上提示
+  const queueItems = queue.map(entry => {
+    const material = materials.find(m => m.id === entry.batch.material_id);
+    const resolved = resolveLabelDefaults(getDefaultLevels(material, entry.batch), templateExists);
+    return { batch: entry.batch, material, resolved, manualCopies: entry.copies !== null, copies: entry.copies ?? resolved.printCount };
+  });
+  const queueDefaultTemplateIds = [...new Set(queueItems.map(item => item.resolved.templateId ?? ''))];
+  const queueTemplate = templates.find(t => t.id === (queueTemplateId ?? queueDefaultTemplateIds[0])) || null;
+  const queueLabels = queueItems.map(item => item.material
+    ? buildLabelPrintData({
+      material: item.material,
+      batch: item.batch,
+      supplier: getSupplierInfo(item.batch),
+      companyName,
+      config: labelConfig,
+      needs: getLabelCodeNeeds(queueTemplate, labelConfig),
+      // 队列预览中的序号仅为示例（流水号从 1 起），实际序号打印时按批次签发
+      editData: labelConfig.serialEnabled
+        ? serialLabelFields({
+          serial: formatLabelSerial(labelConfig.serialPattern, {
+            materialCode: item.material.code,
+            batchNumber: item.batch.batch_number,
+            seq: 1
+          }),
+          job_index: 1,
+          job_total: item.copies
+        })
+        : undefined
+    })
+    : null);
+  const queueRows: LabelQueueRow[] = queueItems.map(item => ({
+    batch: item.batch,
+    materialCode: item.material?.code ?? '-',
+    materialName: item.material?.name ?? '物料不存在',
+    supplierName: getSupplierInfo(item.batch).name,
+    copies: item.copies,
+    copiesSource: item.manualCopies ? null : `${LABEL_DEFAULT_SOURCE_TEXT[item.resolved.printCountSource]}默认`,
+    onHold: item.batch.status !== 'available'
+  }));
+  const queueOnHoldCount = queueRows.filter(r => r.onHold).length;
+  const queueBlocked = queueOnHoldCount > 0 && !queueHoldOverride;
+  const queueTotal = queueItems.reduce((sum, item) => sum + item.copies, 0);
+  const queuePreview = Math.min(queuePreviewIndex, Math.max(0, queue.length - 1));
+
+  // 过滤物料列表（同时匹配物料的多编码）
+  const materialSearchLower = materialSearch.toLowerCase();
+  const findMatchedAltCode = (materialId: string) =>
+    materialSearchLower
+      ? (codesByMaterial[materialId] || []).find(c => c.code.toLowerCase().includes(materialSearchLower))
+      : undefined;
   const filteredMaterials = materials.filter(m => {
-    const searchLower = materialSearch.toLowerCase();
     const name = typeof m.name === 'string' ? m.name : String(m.name || '');
     const code = typeof m.code === 'string' ? m.code : String(m.code || '');
-    const nameMatch = name.toLowerCase().includes(searchLower);
-    const codeMatch = code.toLowerCase().includes(searchLower);
-    return nameMatch || codeMatch;
+    const nameMatch = name.toLowerCase().includes(materialSearchLower);
+    const codeMatch = code.toLowerCase().includes(materialSearchLower);
+    return nameMatch || codeMatch || !!findMatchedAltCode(m.id);
   });
 
-  // 将 Canvas 转换为图片的辅助函数
-  const convertCanvasToImages = (container: HTMLElement): string => {
-    // 克隆容器以避免修改原始内容
-    const clone = container.cloneNode(true) as HTMLElement;
-
-    // 获取原始容器中的所有 canvas
-    const originalCanvases = container.querySelectorAll('canvas');
-    const clonedCanvases = clone.querySelectorAll('canvas');
-
-    // 将每个 canvas 替换为 img 标签
-    originalCanvases.forEach((canvas, index) => {
-      try {
-        const dataUrl = canvas.toDataURL('image/png');
-        const img = document.createElement('img');
-        img.src = dataUrl;
-        img.style.cssText = canvas.getAttribute('style') || '';
-        img.style.maxWidth = '100%';
-        img.style.height = 'auto';
-
-        const clonedCanvas = clonedCanvases[index];
-        if (clonedCanvas && clonedCanvas.parentNode) {
-          clonedCanvas.parentNode.replaceChild(img, clonedCanvas);
+  // 标签上实际渲染的码登记到条码台账（新建批次模式下批次尚未入库，批次码不关联批次）
+  const registerLabelBarcodes = async (copies: number) => {
+    if (!labelData || !selectedMaterial) return false;
+
+    const { codes, error } = collectLabelBarcodes(labelData, {
+      template: activeTemplate,
+      config: labelConfig,
+      materialId: selectedMaterial.id,
+      batchId: selectedBatch?.id
+    });
+    if (error) {
+      showError(error.title, error.message);
+      return false;
+    }
+
+    for (const code of codes) {
+      if (!(await registerBarcode({ ...code, copies, source: 'label', override: batchOnHold && holdOverride }))) return false;
+    }
+    return true;
+  };
+
+  // 打印一组标签（每个元素为一张标签的 HTML），整组作为一个打印任务
+  const printLabelPages = async (labelHtmls: string[], template: LabelTemplate | null) => {
+    try {
+      await printLabelDocument(buildLabelPrintDocument(labelHtmls, template, labelConfig));
+      success(`正在打印 ${labelHtmls.length} 张标签`);
+    } catch (err) {
+      showError((err as Error).message);
+    }
+  };
+
+  // 序号标签：逐批签发序号（补打时接着往后排），每张标签单独渲染、登记条码，整组作为一个打印任务
+  const printSerialLabels = async (jobs: SerialLabelJob[], template: LabelTemplate | null, override: boolean) => {
+    const patternError = validateLabelSerialPattern(labelConfig.serialPattern);
+    if (patternError) {
+      showError('序号模板无效', patternError);
+      return false;
+    }
+    const needs = getLabelCodeNeeds(template, labelConfig);
+    const buildJobLabel = (job: SerialLabelJob, serial: Pick<LabelSerial, 'serial' | 'job_index' | 'job_total'>) =>
+      buildLabelPrintData({
+        material: job.material,
+        batch: job.batch,
+        supplier: getSupplierInfo(job.batch),
+        companyName,
+        config: labelConfig,
+        needs,
+        editData: { ...job.editData, ...serialLabelFields(serial) }
+      });
+
+    // 说明：签发前先用示例序号校验条码能否生成，避免序号已签发却打印不出来
+    for (const job of jobs) {
+      const sample = buildJobLabel(job, {
+        serial: formatLabelSerial(labelConfig.serialPattern, { materialCode: job.material.code, batchNumber: job.batch.batch_number, seq: 1 }),
+        job_index: 1,
+        job_total: job.copies
+      });
+      const { error } = collectLabelBarcodes(sample, { template, config: labelConfig, materialId: job.material.id, batchId: job.batch.id });
+      if (error) {
+        showError(`批次 ${job.batch.batch_number}：${error.title}`, error.message);
+        return false;
+      }
+    }
+
+    setSerialPrinting(true);
+    try {
+      const labels: LabelPrintData[] = [];
+      // 同一个码（如物料条码）在多张标签上重复出现时合并为一次登记
+      const registrations = new Map<string, BarcodeRegisterInput & { copies: number }>();
+      for (const job of jobs) {
+        const serials = await issueSerials(job.batch.id, job.copies, labelConfig.serialPattern, override);
+        if (!serials) {
+          if (labels.length > 0) showError('标签未打印', '已签发的序号可在批次详情中作废');
+          return false;
         }
-      } catch (error) {
-        console.error('Canvas to image conversion error:', error);
+        serials.forEach(serial => {
+          const data = buildJobLabel(job, serial);
+          labels.push(data);
+          collectLabelBarcodes(data, { template, config: labelConfig, materialId: job.material.id, batchId: job.batch.id })
+            .codes.forEach(code => {
+              const key = [code.barcode_type, code.barcode, code.material_id ?? '', code.batch_id ?? ''].join('|');
+              const existing = registrations.get(key);
+              registrations.set(key, { ...code, copies: (existing?.copies ?? 0) + 1 });
+            });
+        });
       }
-    });
 
-    return clone.innerHTML;
+      for (const code of registrations.values()) {
+        if (!(await registerBarcode({ ...code, source: 'label', override }))) {
+          showError('标签未打印', '已签发的序号可在批次详情中作废');
+          return false;
+        }
+      }
+
+      setSerialRender({ labels, template });
+      await waitForLabelRender();
+      const container = serialRenderRef.current;
+      const labelHtmls = labels
+        .map((_, i) => container?.querySelector<HTMLElement>(`[data-serial-index="${i}"]`))
+        .filter((el): el is HTMLElement => !!el)
+        .map(el => convertCanvasToImages(el));
+      printLabelPages(labelHtmls, template);
+      return true;
+    } finally {
+      setSerialRender(null);
+      setSerialPrinting(false);
+    }
   };
 
-  // 打印功能
-  const handlePrint = () => {
+  const handlePrint = async () => {
     if (!labelData || !printRef.current) {
       showError('请先选择物料和批次');
       return;
     }
+    if (printBlocked) {
+      showError('批次未放行，不能打印标签');
+      return;
+    }
+    if (labelConfig.serialEnabled) {
+      if (!selectedMaterial || !selectedBatch) {
+        showError('请先创建批次', '序号按批次签发，新建批次模式下请先保存批次再打印');
+        return;
+      }
+      const printed = await printSerialLabels(
+        [{ material: selectedMaterial, batch: selectedBatch, copies: printCount, editData }],
+        activeTemplate,
+        batchOnHold && holdOverride
+      );
+      if (printed) setNextSerialSeq(await getNextSerialSeq(selectedBatch.id));
+      return;
+    }
+    // 说明：先登记再打印，任一条码已停用时整张标签不打印
+    if (!(await registerLabelBarcodes(printCount))) return;
 
     // 将 Canvas 转换为图片后获取 HTML
     const labelHtml = convertCanvasToImages(printRef.current);
+    printLabelPages(Array(printCount).fill(labelHtml), activeTemplate);
+  };
 
-    // 创建隐藏的 iframe 进行打印（兼容 Electron）
-    const printFrame = document.createElement('iframe');
-    printFrame.style.position = 'absolute';
-    printFrame.style.top = '-10000px';
-    printFrame.style.left = '-10000px';
-    printFrame.style.width = '0';
-    printFrame.style.height = '0';
-    document.body.appendChild(printFrame);
-
-    const printDocument = printFrame.contentDocument || printFrame.contentWindow?.document;
-    if (!printDocument) {
-      showError('无法创建打印文档');
-      document.body.removeChild(printFrame);
+  // 打印队列：先校验全部批次的条码，再逐批登记，最后按队列顺序、各自份数一次打印
+  const handlePrintQueue = async () => {
+    const container = queueRenderRef.current;
+    if (!container || queueItems.length === 0) {
+      showError('打印队列为空');
+      return;
+    }
+    if (queueBlocked) {
+      showError('队列中有未放行的批次', '请移出这些批次或越权打印');
       return;
     }
 
-    // 计算实际打印区域尺寸
-    const contentWidth = labelConfig.labelWidth - labelConfig.marginLeft - labelConfig.marginRight;
-    const contentHeight = labelConfig.labelHeight - labelConfig.marginTop - labelConfig.marginBottom;
-
-    // 构建打印页面
-    printDocument.write(`
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>打印标签</title>
-        <style>
-          @page {
-            size: ${labelConfig.labelWidth}mm ${labelConfig.labelHeight}mm;
-            margin: 0;
-          }
-          * {
-            box-sizing: border-box;
-            margin: 0;
-            padding: 0;
-          }
-          body {
-            font-family: SimHei, "Microsoft YaHei", sans-serif;
-            -webkit-print-color-adjust: exact;
-            print-color-adjust: exact;
-            /* 应用打印偏移 */
-            padding-top: ${labelConfig.marginTop + labelConfig.offsetY}mm;
-            padding-left: ${labelConfig.marginLeft + labelConfig.offsetX}mm;
-            padding-right: ${labelConfig.marginRight}mm;
-            padding-bottom: ${labelConfig.marginBottom}mm;
-          }
-          .label-container {
-            width: ${contentWidth}mm;
-            height: ${contentHeight}mm;
-            overflow: hidden;
-            page-break-after: always;
-          }
-          .label-container:last-child {
-            page-break-after: auto;
-          }
-          .label-template {
-            width: 100%;
-            border: 1px solid #000;
-            background: #fff;
-            font-size: ${labelConfig.labelFontSize}px;
-          }
-          table {
-            width: ${labelConfig.tableWidth}%;
-            border-collapse: collapse;
-          }
-          td {
-            border: 1px solid #000;
-            padding: 1mm 2mm;
-            font-size: ${labelConfig.labelFontSize}px;
-            line-height: 1.2;
-          }
-          td:first-child {
-            width: ${labelConfig.labelColumnWidth}%;
-          }
-          .text-red-600 {
-            color: #000;
-          }
-          .font-bold {
-            font-weight: bold;
-          }
-          .text-center {
-            text-align: center;
-          }
-          img {
-            max-width: 100%;
-            height: auto;
-            display: block;
-            margin: 0 auto;
-          }
-          .flex {
-            display: flex;
-          }
-          .justify-center {
-            justify-content: center;
-          }
-          .align-top {
-            vertical-align: top;
-          }
-          .border-b {
-            border-bottom: 1px solid #000;
-          }
-          .border-r {
-            border-right: 1px solid #000;
-          }
-          .px-2 {
-            padding-left: 2mm;
-            padding-right: 2mm;
-          }
-          .py-1 {
-            padding-top: 1mm;
-            padding-bottom: 1mm;
-          }
-          .py-2 {
-            padding-top: 2mm;
-            padding-bottom: 2mm;
-          }
-          @media print {
-            body {
-              margin: 0;
-              padding: 0;
-            }
-            .label-container {
-              margin: 0;
-              padding: 0;
-            }
-          }
-        </style>
-      </head>
-      <body>
-        ${Array(printCount).fill(`<div class="label-container">${labelHtml}</div>`).join('')}
-      </body>
-      </html>
-    `);
-    printDocument.close();
-
-    // 等待内容加载完成后打印
-    setTimeout(() => {
-      try {
-        printFrame.contentWindow?.focus();
-        printFrame.contentWindow?.print();
-        success(`正在打印 ${printCount} 张标签`);
-      } catch (err) {
-        console.error('Print error:', err);
-        showError('打印失败，请重试');
-      } finally {
-        // 延迟移除 iframe，确保打印对话框已关闭
-        setTimeout(() => {
-          document.body.removeChild(printFrame);
-        }, 1000);
+    const registrations: { codes: BarcodeRegisterInput[]; copies: number }[] = [];
+    for (let i = 0; i < queueItems.length; i++) {
+      const item = queueItems[i];
+      const data = queueLabels[i];
+      if (!item.material || !data) {
+        showError(`批次 ${item.batch.batch_number} 无法打印`, '物料不存在');
+        setQueuePreviewIndex(i);
+        return;
+      }
+      const { codes, error } = collectLabelBarcodes(data, {
+        template: queueTemplate,
+        config: labelConfig,
+        materialId: item.material.id,
+        batchId: item.batch.id
+      });
+      if (error) {
+        showError(`批次 ${item.batch.batch_number}：${error.title}`, error.message);
+        setQueuePreviewIndex(i);
+        return;
+      }
+      registrations.push({ codes, copies: item.copies });
+    }
+    if (labelConfig.serialEnabled) {
+      await printSerialLabels(
+        queueItems.map(item => ({ material: item.material!, batch: item.batch, copies: item.copies })),
+        queueTemplate,
+        queueOnHoldCount > 0 && queueHoldOverride
+      );
+      return;
+    }
+    for (const { codes, copies } of registrations) {
+      for (const code of codes) {
+        if (!(await registerBarcode({ ...code, copies, source: 'label', override: queueOnHoldCount > 0 && queueHoldOverride }))) return;
       }
-    }, 500);
+    }
+
+    const labelHtmls: string[] = [];
+    queueItems.forEach((item, i) => {
+      const el = container.querySelector<HTMLElement>(`[data-queue-index="${i}"]`);
+      if (!el) return;
+      const html = convertCanvasToImages(el);
+      for (let c = 0; c < item.copies; c++) labelHtmls.push(html);
+    });
+    printLabelPages(labelHtmls, queueTemplate);
+  };
+
+  // 单个批次模式下把当前批次加入队列（已在队列中则只切换到队列）
+  const handleAddToQueue = () => {
+    if (!selectedBatch) return;
+    const index = queue.findIndex(e => e.batch.id === selectedBatch.id);
+    if (index >= 0) {
+      setQueuePreviewIndex(index);
+    } else {
+      setQueue(prev => [...prev, { batch: selectedBatch, copies: manualPrintCount }]);
+      success('已加入打印队列', `${selectedBatch.batch_number}，队列共 ${queue.length + 1} 个批次`);
+    }
   };
 
   // 下载为 HTML 文件（包含条形码图片）
-  const handleDownload = () => {
+  const handleDownload = async () => {
     if (!printRef.current || !labelData) {
       showError('请先选择物料和批次');
       return;
     }
+    if (printBlocked) {
+      showError('批次未放行，不能打印标签');
+      return;
+    }
+    if (labelConfig.serialEnabled) {
+      showError('序号标签不支持下载', '每张标签的序号在打印时签发，请直接打印');
+      return;
+    }
 
     const barcodeCanvases = printRef.current.querySelectorAll('canvas');
-    if (barcodeCanvases.length === 0) {
+    if (!activeTemplate && barcodeCanvases.length === 0) {
       showError('标签数据未加载完成');
       return;
     }
+    if (!(await registerLabelBarcodes(0))) return;
 
     // 将 Canvas 转换为图片
     const labelHtml = convertCanvasToImages(printRef.current);
 
-    // 创建 Blob 并下载为 HTML 文件
-    const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <title>标签 - ${labelData.product_code}</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body {
-      font-family: SimHei, "Microsoft YaHei", sans-serif;
-      display: flex;
-      justify-content: center;
-      align-items: center;
-      min-height: 100vh;
-      background: #f0f0f0;
-      padding: 20px;
-    }
-    .label-template {
-      background: #fff;
-      border: 2px solid #000;
-    }
-    table { width: 100%; border-collapse: collapse; }
-    td { border: 1px solid #000; padding: 4px 8px; }
-    .text-red-600 { color: #dc2626; }
-    .font-bold { font-weight: bold; }
-    .text-center { text-align: center; }
-    img { max-width: 100%; height: auto; display: block; margin: 0 auto; }
-    .flex { display: flex; }
-    .justify-center { justify-content: center; }
-    @media print {
-      body { background: #fff; padding: 0; }
-    }
-  </style>
-</head>
-<body>
-  ${labelHtml}
-  <script>
-    // 提示用户可以直接打印
-    console.log('提示：可以按 Ctrl+P 打印此标签');
-  </script>
-</body>
-</html>`;
-
-    const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `标签_${labelData.product_code}_${labelData.batch_number}.html`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadHtmlFile(
+      buildLabelDownloadDocument(labelHtml, `标签 - ${labelData.product_code}`),
+      `标签_${labelData.product_code}_${labelData.batch_number}.html`
+    );
 
     success('标签已下载为 HTML 文件，可用浏览器打开后打印');
   };
@@ -549,7 +689,8 @@ const LabelPrint: React.FC = () => {
         production_date: newBatchData.production_date,
         quantity: newBatchData.quantity,
         remaining_quantity: newBatchData.quantity,
-        status: 'available'
+        // 说明：无放行权限时新批次保持待检，需在批次列表质检放行
+        status: hasPermission('release_batches') ? 'available' : 'pending'
       });
 
       if (result) {
@@ -574,10 +715,51 @@ const LabelPrint: React.FC = () => {
     }
   };
 
-  // 重置配置
+  // 恢复默认：版式恢复为内置默认（保存到方案后才对其他工作站生效），本机校准保持不变
   const handleResetConfig = () => {
-    setLabelConfig(DEFAULT_LABEL_CONFIG);
-    success('已恢复默认设置');
+    setDraftLayout(DEFAULT_LABEL_LAYOUT);
+    success('已恢复默认版式');
+  };
+
+  const handleSelectProfile = (id: string) => {
+    updateWorkstation({ profileId: id });
+    setDraftLayout(null);
+    setSaveAsName(null);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!activeProfile || !draftLayout) return;
+    if (await updateProfile(activeProfile.id, { config: { ...draftLayout }, config_version: LABEL_CONFIG_VERSION })) {
+      setDraftLayout(null);
+    }
+  };
+
+  // 另存为方案：还没有任何方案时自动设为默认；从本机旧配置另存后即视为已同步，删除本机旧配置
+  const handleSaveAsProfile = async () => {
+    const name = saveAsName?.trim();
+    if (!name) return;
+    const created = await createProfile({
+      name,
+      config: { ...layout },
+      config_version: LABEL_CONFIG_VERSION,
+      is_default: profiles.length === 0
+    });
+    if (!created) return;
+    if (activeProfileId === LEGACY_PROFILE_ID) {
+      clearLegacyLabelLayout();
+      setLegacyLayout(null);
+    }
+    setSaveAsName(null);
+    setDraftLayout(null);
+    updateWorkstation({ profileId: created.id });
+  };
+
+  const handleDeleteProfile = async () => {
+    if (activeProfile && await deleteProfile(activeProfile.id)) {
+      updateWorkstation({ profileId: null });
+      setDraftLayout(null);
+    }
+    setDeletingProfile(false);
   };
 
   return (
@@ -617,6 +799,96 @@ const LabelPrint: React.FC = () => {
             </button>
           </div>
 
+          {/* 配置方案：共享版式保存在服务端，各工作站共用 */}
+          <div className="mb-4 pb-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">配置方案</label>
+              <select
+                value={activeProfileId}
+                onChange={(e) => handleSelectProfile(e.target.value)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">内置默认版式</option>
+                {legacyLayout && <option value={LEGACY_PROFILE_ID}>本机旧配置（未保存为方案）</option>}
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}{p.is_default ? '（默认）' : ''}
+                  </option>
+                ))}
+              </select>
+              {layoutDirty && (
+                <span className="text-xs text-orange-600 dark:text-orange-400">有未保存的修改</span>
+              )}
+              {canWriteConfig && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {activeProfile && layoutDirty && (
+                    <button
+                      onClick={handleSaveProfile}
+                      className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                    >
+                      保存
+                    </button>
+                  )}
+                  {saveAsName === null ? (
+                    <button
+                      onClick={() => setSaveAsName(activeProfile ? `${activeProfile.name} 副本` : '')}
+                      className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      另存为方案
+                    </button>
+                  ) : (
+                    <>
+                      <input
+                        type="text"
+                        value={saveAsName}
+                        onChange={(e) => setSaveAsName(e.target.value)}
+                        placeholder="方案名称"
+                        autoFocus
+                        className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      />
+                      <button
+                        onClick={handleSaveAsProfile}
+                        disabled={!saveAsName.trim()}
+                        className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        确定
+                      </button>
+                      <button
+                        onClick={() => setSaveAsName(null)}
+                        className="px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-800"
+                      >
+                        取消
+                      </button>
+                    </>
+                  )}
+                  {activeProfile && !activeProfile.is_default && (
+                    <button
+                      onClick={() => setDefaultProfile(activeProfile.id)}
+                      className="px-3 py-1.5 text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                    >
+                      设为默认
+                    </button>
+                  )}
+                  {activeProfile && (
+                    <button
+                      onClick={() => setDeletingProfile(true)}
+                      className="px-3 py-1.5 text-red-600 hover:text-red-700"
+                    >
+                      删除
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {activeProfileId === LEGACY_PROFILE_ID
+                ? '本机旧配置是升级前保存在本机的版式，另存为方案后各工作站即可共用。'
+                : canWriteConfig
+                  ? '尺寸、边距、表格、字号与条码设置保存在方案中，各工作站共用；打印位置校准与预览缩放只保存在本机。'
+                  : '版式修改仅对本次打开的页面有效，需经理保存为方案后各工作站共用；打印位置校准与预览缩放保存在本机。'}
+            </p>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             {/* 公司名称 */}
             <div className="lg:col-span-2">
@@ -626,7 +898,7 @@ const LabelPrint: React.FC = () => {
               <input
                 type="text"
                 value={labelConfig.companyName}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, companyName: e.target.value }))}
+                onChange={(e) => updateLayout({ companyName: e.target.value })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -641,7 +913,7 @@ const LabelPrint: React.FC = () => {
                 min="40"
                 max="150"
                 value={labelConfig.labelWidth}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, labelWidth: parseInt(e.target.value) || 100 }))}
+                onChange={(e) => updateLayout({ labelWidth: parseInt(e.target.value) || 100 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -656,7 +928,7 @@ const LabelPrint: React.FC = () => {
                 min="40"
                 max="200"
                 value={labelConfig.labelHeight}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, labelHeight: parseInt(e.target.value) || 100 }))}
+                onChange={(e) => updateLayout({ labelHeight: parseInt(e.target.value) || 100 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -671,7 +943,7 @@ const LabelPrint: React.FC = () => {
                 min="50"
                 max="100"
                 value={labelConfig.tableWidth}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, tableWidth: parseInt(e.target.value) || 100 }))}
+                onChange={(e) => updateLayout({ tableWidth: parseInt(e.target.value) || 100 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -686,7 +958,7 @@ const LabelPrint: React.FC = () => {
                 min="15"
                 max="50"
                 value={labelConfig.labelColumnWidth}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, labelColumnWidth: parseInt(e.target.value) || 30 }))}
+                onChange={(e) => updateLayout({ labelColumnWidth: parseInt(e.target.value) || 30 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -703,7 +975,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.marginTop}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, marginTop: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateLayout({ marginTop: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -715,7 +987,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.marginBottom}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, marginBottom: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateLayout({ marginBottom: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -727,7 +999,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.marginLeft}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, marginLeft: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateLayout({ marginLeft: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -739,7 +1011,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.marginRight}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, marginRight: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateLayout({ marginRight: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -748,9 +1020,9 @@ const LabelPrint: React.FC = () => {
 
             {/* 打印偏移校准 */}
             <div className="lg:col-span-4 border-t border-gray-200 dark:border-gray-700 pt-4 mt-2">
-              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">打印位置校准 (mm)</h3>
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">打印位置校准 (mm，本机)</h3>
               <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
-                如果打印内容对不齐标签纸，可调整偏移量。负值向上/左移动，正值向下/右移动。
+                如果打印内容对不齐标签纸，可调整偏移量。负值向上/左移动，正值向下/右移动。校准值只保存在本机，不随方案同步。
               </p>
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -764,7 +1036,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.offsetX}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, offsetX: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateWorkstation({ offsetX: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -779,7 +1051,7 @@ const LabelPrint: React.FC = () => {
                     max="20"
                     step="0.5"
                     value={labelConfig.offsetY}
-                    onChange={(e) => setLabelConfig(prev => ({ ...prev, offsetY: parseFloat(e.target.value) || 0 }))}
+                    onChange={(e) => updateWorkstation({ offsetY: parseFloat(e.target.value) || 0 })}
                     className="w-full px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
                   />
                 </div>
@@ -796,7 +1068,7 @@ const LabelPrint: React.FC = () => {
                 min="10"
                 max="24"
                 value={labelConfig.titleFontSize}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, titleFontSize: parseInt(e.target.value) || 14 }))}
+                onChange={(e) => updateLayout({ titleFontSize: parseInt(e.target.value) || 14 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -811,7 +1083,7 @@ const LabelPrint: React.FC = () => {
                 min="8"
                 max="18"
                 value={labelConfig.labelFontSize}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, labelFontSize: parseInt(e.target.value) || 12 }))}
+                onChange={(e) => updateLayout({ labelFontSize: parseInt(e.target.value) || 12 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -826,7 +1098,7 @@ const LabelPrint: React.FC = () => {
                 min="10"
                 max="24"
                 value={labelConfig.valueFontSize}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, valueFontSize: parseInt(e.target.value) || 16 }))}
+                onChange={(e) => updateLayout({ valueFontSize: parseInt(e.target.value) || 16 })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               />
             </div>
@@ -838,7 +1110,7 @@ const LabelPrint: React.FC = () => {
               </label>
               <select
                 value={labelConfig.previewScale}
-                onChange={(e) => setLabelConfig(prev => ({ ...prev, previewScale: parseFloat(e.target.value) }))}
+                onChange={(e) => updateWorkstation({ previewScale: parseFloat(e.target.value) })}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
               >
                 <option value="0.8">80%</option>
@@ -854,7 +1126,7 @@ const LabelPrint: React.FC = () => {
                 <input
                   type="checkbox"
                   checked={labelConfig.showBarcode}
-                  onChange={(e) => setLabelConfig(prev => ({ ...prev, showBarcode: e.target.checked }))}
+                  onChange={(e) => updateLayout({ showBarcode: e.target.checked })}
                   className="h-4 w-4 text-blue-600 rounded border-gray-300"
                 />
                 <span className="text-sm text-gray-700 dark:text-gray-300">显示材料条形码</span>
@@ -863,12 +1135,110 @@ const LabelPrint: React.FC = () => {
                 <input
                   type="checkbox"
                   checked={labelConfig.showQrcode}
-                  onChange={(e) => setLabelConfig(prev => ({ ...prev, showQrcode: e.target.checked }))}
+                  onChange={(e) => updateLayout({ showQrcode: e.target.checked })}
                   className="h-4 w-4 text-blue-600 rounded border-gray-300"
                 />
                 <span className="text-sm text-gray-700 dark:text-gray-300">显示批次二维码</span>
               </label>
             </div>
+            <div className="mt-3 flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300">条码数据来源</span>
+                <select
+                  value={labelConfig.codeSource}
+                  onChange={(e) => updateLayout({ codeSource: e.target.value as LabelConfig['codeSource'] })}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="plain">物料编码 / 批次号</option>
+                  <option value="gs1">GS1（GS1-128 / GS1 Data Matrix）</option>
+                  <option value="structured">结构化标签码（可扫码解析）</option>
+                </select>
+              </label>
+              {labelConfig.codeSource === 'structured' && (
+                <label className="flex items-center gap-2">
+                  <span className="text-sm text-gray-700 dark:text-gray-300">标签码格式</span>
+                  <select
+                    value={labelConfig.payloadFormat}
+                    onChange={(e) => updateLayout({ payloadFormat: e.target.value as LabelPayloadFormat })}
+                    className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded dark:bg-gray-700 dark:text-white"
+                  >
+                    {LABEL_PAYLOAD_FORMATS.map(f => (
+                      <option key={f.value} value={f.value}>{f.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {labelConfig.codeSource === 'gs1' && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={labelConfig.gs1IncludeCount}
+                    onChange={(e) => updateLayout({ gs1IncludeCount: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">附带数量 (37)（托盘标签）</span>
+                </label>
+              )}
+              {labelConfig.codeSource === 'gs1' && labelData?.gs1_error && (
+                <span className="text-sm text-red-600">{labelData.gs1_error}</span>
+              )}
+            </div>
+            {/* 序号标签：序号写入结构化标签码，序号与张次显示在内置标签底部（模板中使用“标签序号”“张次”字段） */}
+            <div className="mt-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={labelConfig.serialEnabled}
+                    onChange={(e) => updateLayout({ serialEnabled: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 rounded border-gray-300"
+                  />
+                  <span className="text-sm text-gray-700 dark:text-gray-300">序号标签（逐张唯一，补打时序号接着往后排）</span>
+                </label>
+                {labelConfig.serialEnabled && (
+                  <label className="flex items-center gap-2">
+                    <span className="text-sm text-gray-700 dark:text-gray-300">序号模板</span>
+                    <input
+                      type="text"
+                      value={labelConfig.serialPattern}
+                      onChange={(e) => updateLayout({ serialPattern: e.target.value })}
+                      className={`w-48 px-2 py-1 text-sm font-mono border rounded dark:bg-gray-700 dark:text-white ${
+                        serialPatternError ? 'border-red-500' : 'border-gray-300 dark:border-gray-600'
+                      }`}
+                    />
+                  </label>
+                )}
+              </div>
+              {labelConfig.serialEnabled && (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {LABEL_SERIAL_TOKENS.map(({ token, label }) => (
+                      <button
+                        key={token}
+                        type="button"
+                        title={label}
+                        onClick={() => updateLayout({ serialPattern: labelConfig.serialPattern + token })}
+                        className="px-2 py-0.5 text-xs font-mono rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        {token}
+                      </button>
+                    ))}
+                  </div>
+                  {serialPatternError ? (
+                    <p className="text-sm text-red-600">{serialPatternError}</p>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      示例：{formatLabelSerial(labelConfig.serialPattern, { materialCode: 'MAT001', batchNumber: 'B20260101-001', seq: 1 })}
+                    </p>
+                  )}
+                  {!getLabelCodeNeeds(queueMode ? queueTemplate : activeTemplate, labelConfig).payload && (
+                    <p className="text-sm text-orange-600">
+                      当前{(queueMode ? queueTemplate : activeTemplate) ? '模板没有结构化标签码' : '条码数据来源不是结构化标签码'}，序号不会写入二维码，只显示在标签上
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -876,371 +1246,594 @@ const LabelPrint: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* 左侧：选择和配置 */}
         <div className="space-y-6">
-          {/* 物料选择 */}
-          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              选择物料
-            </h2>
+          {/* 模式切换：单个批次 / 打印队列 */}
+          <div className="flex rounded-lg bg-gray-100 dark:bg-gray-700 p-1">
+            <button
+              onClick={() => setQueueMode(false)}
+              className={`flex-1 py-2 text-sm font-medium rounded-md ${!queueMode ? 'bg-white dark:bg-gray-800 shadow text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}
+            >
+              单个批次
+            </button>
+            <button
+              onClick={() => setQueueMode(true)}
+              className={`flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-md ${queueMode ? 'bg-white dark:bg-gray-800 shadow text-gray-900 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}
+            >
+              <QueueListIcon className="h-4 w-4" />
+              打印队列{queue.length > 0 && ` (${queue.length})`}
+            </button>
+          </div>
 
-            <div className="relative">
-              <div className="relative">
-                <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  type="text"
-                  value={materialSearch}
-                  onChange={(e) => {
-                    setMaterialSearch(e.target.value);
-                    setShowMaterialDropdown(true);
-                  }}
-                  onFocus={() => setShowMaterialDropdown(true)}
-                  placeholder="搜索物料名称或编码..."
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          {queueMode ? (
+            <>
+              <LabelPrintQueue
+                rows={queueRows}
+                previewIndex={queuePreview}
+                onPreview={setQueuePreviewIndex}
+                onCopiesChange={(index, copies) =>
+                  setQueue(prev => prev.map((e, i) => (i === index ? { ...e, copies } : e)))
+                }
+                onRemove={(index) => setQueue(prev => prev.filter((_, i) => i !== index))}
+                onClear={() => setQueue([])}
+              />
+
+              {queue.length > 0 && (
+                <LabelQueuePrintPanel
+                  templates={templates}
+                  template={queueTemplate}
+                  manualTemplate={queueTemplateId !== null}
+                  templateMismatch={queueDefaultTemplateIds.length > 1}
+                  onTemplateChange={setQueueTemplateId}
+                  onTemplateReset={() => setQueueTemplateId(null)}
+                  onHoldCount={queueOnHoldCount}
+                  canOverrideHold={canOverrideHold}
+                  holdOverride={queueHoldOverride}
+                  onHoldOverrideChange={setQueueHoldOverride}
+                  serialEnabled={labelConfig.serialEnabled}
+                  serialPrinting={serialPrinting}
+                  blocked={queueBlocked}
+                  total={queueTotal}
+                  onPrint={handlePrintQueue}
                 />
+              )}
+            </>
+          ) : (
+            <>
+            {/* 物料选择 */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                选择物料
+              </h2>
+
+              <div className="relative">
+                <div className="relative">
+                  <MagnifyingGlassIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    type="text"
+                    value={materialSearch}
+                    onChange={(e) => {
+                      setMaterialSearch(e.target.value);
+                      setShowMaterialDropdown(true);
+                    }}
+                    onFocus={() => setShowMaterialDropdown(true)}
+                    placeholder="搜索物料名称或编码..."
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+
+                {showMaterialDropdown && (
+                  <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-60 overflow-auto">
+                    {filteredMaterials.length === 0 ? (
+                      <div className="px-4 py-3 text-gray-500 dark:text-gray-400">
+                        未找到匹配的物料
+                      </div>
+                    ) : (
+                      filteredMaterials.map(material => {
+                        // 命中多编码时显示命中的编码，否则显示主编码
+                        const altCode = findMatchedAltCode(material.id)
+                          || (codesByMaterial[material.id] || []).find(c => c.is_primary);
+                        return (
+                          <button
+                            key={material.id}
+                            onClick={() => {
+                              setSelectedMaterialId(material.id);
+                              setMaterialSearch(material.name);
+                              setShowMaterialDropdown(false);
+                              setShowNewBatchForm(false);
+                            }}
+                            className={`w-full px-4 py-3 text-left hover:bg-gray-100 dark:hover:bg-gray-600 ${
+                              selectedMaterialId === material.id ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                            }`}
+                          >
+                            <div className="font-medium text-gray-900 dark:text-white">
+                              {material.name}
+                            </div>
+                            <div className="text-sm text-gray-500 dark:text-gray-400">
+                              编码: {material.code}
+                              {altCode && (
+                                <span className="ml-2">
+                                  {MATERIAL_CODE_TYPE_TEXT[altCode.code_type]}: {altCode.code}
+                                  {altCode.is_primary && (
+                                    <span className="ml-1 px-1.5 py-0.5 rounded text-xs bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200">
+                                      主编码
+                                    </span>
+                                  )}
+                                </span>
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })
+                    )}
+                  </div>
+                )}
               </div>
 
-              {showMaterialDropdown && (
-                <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg max-h-60 overflow-auto">
-                  {filteredMaterials.length === 0 ? (
-                    <div className="px-4 py-3 text-gray-500 dark:text-gray-400">
-                      未找到匹配的物料
+              {/* 已选物料信息 */}
+              {selectedMaterial && (
+                <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">名称：</span>
+                      <span className="text-gray-900 dark:text-white">{selectedMaterial.name}</span>
                     </div>
-                  ) : (
-                    filteredMaterials.map(material => (
-                      <button
-                        key={material.id}
-                        onClick={() => {
-                          setSelectedMaterialId(material.id);
-                          setMaterialSearch(material.name);
-                          setShowMaterialDropdown(false);
-                          setShowNewBatchForm(false);
-                        }}
-                        className={`w-full px-4 py-3 text-left hover:bg-gray-100 dark:hover:bg-gray-600 ${
-                          selectedMaterialId === material.id ? 'bg-blue-50 dark:bg-blue-900/30' : ''
-                        }`}
-                      >
-                        <div className="font-medium text-gray-900 dark:text-white">
-                          {material.name}
-                        </div>
-                        <div className="text-sm text-gray-500 dark:text-gray-400">
-                          编码: {material.code}
-                        </div>
-                      </button>
-                    ))
-                  )}
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">编码：</span>
+                      <span className="text-gray-900 dark:text-white">{selectedMaterial.code}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">重量：</span>
+                      <span className="text-gray-900 dark:text-white">{selectedMaterial.weight || '-'}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">保质期：</span>
+                      <span className="text-gray-900 dark:text-white">{selectedMaterial.shelf_life || '-'}</span>
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
 
-            {/* 已选物料信息 */}
+            {/* 批次选择 */}
             {selectedMaterial && (
-              <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
-                <div className="grid grid-cols-2 gap-2 text-sm">
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">名称：</span>
-                    <span className="text-gray-900 dark:text-white">{selectedMaterial.name}</span>
-                  </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">编码：</span>
-                    <span className="text-gray-900 dark:text-white">{selectedMaterial.code}</span>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    选择批次
+                  </h2>
+                  <button
+                    onClick={() => {
+                      setShowNewBatchForm(true);
+                      setSelectedBatchId('');
+                    }}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                  >
+                    <PlusIcon className="h-4 w-4" />
+                    新建批次
+                  </button>
+                </div>
+
+                {/* 现有批次列表 */}
+                {materialBatches.length > 0 && !showNewBatchForm && (
+                  <div className="space-y-2 max-h-48 overflow-auto">
+                    {materialBatches.map(batch => {
+                      const batchSupplier = getSupplierInfo(batch);
+                      return (
+                        <button
+                          key={batch.id}
+                          onClick={() => {
+                            setSelectedBatchId(batch.id);
+                            setShowNewBatchForm(false);
+                          }}
+                          className={`w-full p-3 text-left border rounded-lg transition-colors ${
+                            selectedBatchId === batch.id
+                              ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                              : 'border-gray-300 dark:border-gray-600 hover:border-gray-400'
+                          }`}
+                        >
+                          <div className="flex justify-between">
+                            <span className="font-medium text-gray-900 dark:text-white">
+                              批次号: {batch.batch_number}
+                              {batch.status !== 'available' && (
+                                <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal ${getStatusBadgeColor(batch.status)}`}>
+                                  {getStatusText(batch.status)}
+                                </span>
+                              )}
+                            </span>
+                            <span className="text-sm text-gray-500 dark:text-gray-400">
+                              库存: {batch.remaining_quantity}
+                            </span>
+                          </div>
+                          <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400">
+                            <span>生产日期: {batch.production_date || '-'}</span>
+                            <span>供应商: {batchSupplier.code !== '-' ? batchSupplier.code : (batchSupplier.name !== '-' ? batchSupplier.name : '-')}</span>
+                          </div>
+                        </button>
+                      );
+                    })}
                   </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">重量：</span>
-                    <span className="text-gray-900 dark:text-white">{selectedMaterial.weight || '-'}</span>
+                )}
+
+                {/* 新建批次表单 */}
+                {showNewBatchForm && (
+                  <div className="space-y-4 p-4 border border-blue-300 rounded-lg bg-blue-50 dark:bg-blue-900/20">
+                    <h3 className="font-medium text-gray-900 dark:text-white">新建批次</h3>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        生产日期
+                      </label>
+                      <input
+                        type="date"
+                        value={newBatchData.production_date}
+                        onChange={(e) => setNewBatchData(prev => ({ ...prev, production_date: e.target.value }))}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        生产批号
+                      </label>
+                      <input
+                        type="text"
+                        value={newBatchData.batch_number}
+                        onChange={(e) => setNewBatchData(prev => ({ ...prev, batch_number: e.target.value }))}
+                        placeholder="请输入批次号"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        数量
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={newBatchData.quantity}
+                        onChange={(e) => setNewBatchData(prev => ({ ...prev, quantity: parseInt(e.target.value) || 1 }))}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      />
+                    </div>
+
+                    <div className="flex gap-2">
+                      <button
+                        onClick={handleCreateBatch}
+                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      >
+                        创建并选择
+                      </button>
+                      <button
+                        onClick={() => setShowNewBatchForm(false)}
+                        className="px-4 py-2 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        取消
+                      </button>
+                    </div>
                   </div>
-                  <div>
-                    <span className="text-gray-500 dark:text-gray-400">保质期：</span>
-                    <span className="text-gray-900 dark:text-white">{selectedMaterial.shelf_life || '-'}</span>
+                )}
+
+                {materialBatches.length === 0 && !showNewBatchForm && (
+                  <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                    <p>该物料暂无批次记录</p>
+                    <p className="text-sm mt-1">点击"新建批次"创建</p>
                   </div>
-                </div>
+                )}
               </div>
             )}
-          </div>
 
-          {/* 批次选择 */}
-          {selectedMaterial && (
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-                  选择批次
+            {/* 临时编辑（打印前调整） */}
+            {labelData && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  临时编辑
+                  <span className="ml-2 text-sm font-normal text-gray-500">（仅影响本次打印）</span>
                 </h2>
-                <button
-                  onClick={() => {
-                    setShowNewBatchForm(true);
-                    setSelectedBatchId('');
-                  }}
-                  className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-                >
-                  <PlusIcon className="h-4 w-4" />
-                  新建批次
-                </button>
-              </div>
 
-              {/* 现有批次列表 */}
-              {materialBatches.length > 0 && !showNewBatchForm && (
-                <div className="space-y-2 max-h-48 overflow-auto">
-                  {materialBatches.map(batch => {
-                    const batchSupplier = getSupplierInfo(batch);
-                    return (
-                      <button
-                        key={batch.id}
-                        onClick={() => {
-                          setSelectedBatchId(batch.id);
-                          setShowNewBatchForm(false);
-                        }}
-                        className={`w-full p-3 text-left border rounded-lg transition-colors ${
-                          selectedBatchId === batch.id
-                            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
-                            : 'border-gray-300 dark:border-gray-600 hover:border-gray-400'
-                        }`}
-                      >
-                        <div className="flex justify-between">
-                          <span className="font-medium text-gray-900 dark:text-white">
-                            批次号: {batch.batch_number}
-                          </span>
-                          <span className="text-sm text-gray-500 dark:text-gray-400">
-                            库存: {batch.remaining_quantity}
-                          </span>
-                        </div>
-                        <div className="flex justify-between text-sm text-gray-500 dark:text-gray-400">
-                          <span>生产日期: {batch.production_date || '-'}</span>
-                          <span>供应商: {batchSupplier.code !== '-' ? batchSupplier.code : (batchSupplier.name !== '-' ? batchSupplier.name : '-')}</span>
-                        </div>
-                      </button>
-                    );
-                  })}
-                </div>
-              )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      重量
+                    </label>
+                    <input
+                      type="text"
+                      value={editData.weight ?? labelData.weight ?? ''}
+                      onChange={(e) => setEditData(prev => ({ ...prev, weight: e.target.value }))}
+                      placeholder={labelData.weight || '如：0.18KG'}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  </div>
 
-              {/* 新建批次表单 */}
-              {showNewBatchForm && (
-                <div className="space-y-4 p-4 border border-blue-300 rounded-lg bg-blue-50 dark:bg-blue-900/20">
-                  <h3 className="font-medium text-gray-900 dark:text-white">新建批次</h3>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      保质期
+                    </label>
+                    <input
+                      type="text"
+                      value={editData.shelf_life ?? labelData.shelf_life ?? ''}
+                      onChange={(e) => setEditData(prev => ({ ...prev, shelf_life: e.target.value }))}
+                      placeholder={labelData.shelf_life || '如：12个月'}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  </div>
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      生产日期
+                      开封日期
                     </label>
                     <input
                       type="date"
-                      value={newBatchData.production_date}
-                      onChange={(e) => setNewBatchData(prev => ({ ...prev, production_date: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                      value={editData.open_date ?? ''}
+                      onChange={(e) => setEditData(prev => ({ ...prev, open_date: e.target.value }))}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
                     />
                   </div>
 
-                  <div>
+                  <div className="col-span-2">
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      生产批号
+                      储存条件
                     </label>
                     <input
                       type="text"
-                      value={newBatchData.batch_number}
-                      onChange={(e) => setNewBatchData(prev => ({ ...prev, batch_number: e.target.value }))}
-                      placeholder="请输入批次号"
+                      value={editData.storage_conditions ?? labelData.storage_conditions ?? ''}
+                      onChange={(e) => setEditData(prev => ({ ...prev, storage_conditions: e.target.value }))}
+                      placeholder={labelData.storage_conditions || '如：阴凉干燥处保存'}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  </div>
+
+                  {getLabelCodeNeeds(activeTemplate, labelConfig).payload && !labelConfig.serialEnabled && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        标签序号
+                      </label>
+                      <input
+                        type="text"
+                        value={editData.label_serial ?? ''}
+                        onChange={(e) => setEditData(prev => ({ ...prev, label_serial: e.target.value }))}
+                        placeholder="写入标签码，可留空"
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                      />
+                    </div>
+                  )}
+
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      主要成份
+                    </label>
+                    <input
+                      type="text"
+                      value={editData.main_ingredients ?? labelData.main_ingredients ?? ''}
+                      onChange={(e) => setEditData(prev => ({ ...prev, main_ingredients: e.target.value }))}
+                      placeholder={labelData.main_ingredients || '主要成份'}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                    />
+                  </div>
+
+                  {Object.keys(editData).length > 0 && (
+                    <div className="col-span-2">
+                      <button
+                        onClick={() => setEditData({})}
+                        className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                      >
+                        清除临时修改
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* 打印设置 */}
+            {labelData && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                  打印设置
+                </h2>
+
+                <div className="space-y-4">
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        标签模板
+                      </label>
+                      <Link to="/label-templates" className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400">
+                        管理模板
+                      </Link>
+                    </div>
+                    <select
+                      value={activeTemplate ? activeTemplate.id : ''}
+                      onChange={(e) => setManualTemplateId(e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="">内置表格模板（默认）</option>
+                      {templates.map(t => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}（{t.width_mm}×{t.height_mm}mm）
+                        </option>
+                      ))}
+                    </select>
+                    <LabelDefaultSourceHint
+                      manual={manualTemplateId !== null}
+                      sourceText={LABEL_DEFAULT_SOURCE_TEXT[resolvedDefaults.templateSource]}
+                      onReset={() => setManualTemplateId(null)}
                     />
+                    {activeTemplate && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        使用模板时，标签设置中的尺寸、边距、表格、字号与条码来源不生效（打印位置校准仍生效）
+                      </p>
+                    )}
                   </div>
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      数量
+                      打印数量
                     </label>
                     <input
                       type="number"
                       min="1"
-                      value={newBatchData.quantity}
-                      onChange={(e) => setNewBatchData(prev => ({ ...prev, quantity: parseInt(e.target.value) || 1 }))}
+                      max="100"
+                      value={printCount}
+                      onChange={(e) => setManualPrintCount(Math.min(100, Math.max(1, parseInt(e.target.value) || 1)))}
                       className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
                     />
+                    <LabelDefaultSourceHint
+                      manual={manualPrintCount !== null}
+                      sourceText={LABEL_DEFAULT_SOURCE_TEXT[resolvedDefaults.printCountSource]}
+                      onReset={() => setManualPrintCount(null)}
+                    />
+                  </div>
+
+                  {/* 默认值解析顺序：高亮当前生效的一级 */}
+                  <div className="rounded-lg bg-gray-50 dark:bg-gray-700/50 p-3 text-xs">
+                    <p className="text-gray-500 dark:text-gray-400 mb-1">默认值解析顺序：物料 &gt; 供应商 &gt; 全局</p>
+                    <ul className="space-y-0.5">
+                      {defaultLevels.map(level => (
+                        <li key={level.source} className="flex justify-between gap-2 text-gray-600 dark:text-gray-300">
+                          <span>{LABEL_DEFAULT_SOURCE_TEXT[level.source]}{level.source === 'supplier' && batchSupplier ? `（${batchSupplier.name}）` : ''}</span>
+                          <span>
+                            <span className={manualTemplateId === null && resolvedDefaults.templateSource === level.source ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>
+                              {describeLevelTemplate(level)}
+                            </span>
+                            {' / '}
+                            <span className={manualPrintCount === null && resolvedDefaults.printCountSource === level.source ? 'font-semibold text-blue-600 dark:text-blue-400' : ''}>
+                              {level.print_count ? `${level.print_count} 张` : '未设置'}
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
 
-                  <div className="flex gap-2">
+                  {batchOnHold && selectedBatch && (
+                    <div className="p-3 rounded-lg border border-orange-200 bg-orange-50 text-sm text-orange-800">
+                      <p>批次状态为“{getStatusText(selectedBatch.status)}”，未经质检放行，不能打印标签</p>
+                      {canOverrideHold ? (
+                        <label className="mt-2 flex items-center gap-2 text-orange-900">
+                          <input
+                            type="checkbox"
+                            checked={holdOverride}
+                            onChange={(e) => setHoldOverride(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                          越权打印
+                        </label>
+                      ) : (
+                        <p className="mt-1 text-xs text-orange-700">需管理员或经理越权打印</p>
+                      )}
+                    </div>
+                  )}
+
+                  {labelConfig.serialEnabled && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {selectedBatch
+                        ? `序号标签：本次签发 ${printCount} 个序号，流水号从 ${nextSerialSeq ?? '-'} 起（以打印时签发为准）`
+                        : '序号标签按批次签发，请先选择或创建批次'}
+                    </p>
+                  )}
+
+                  <div className="flex gap-3">
                     <button
-                      onClick={handleCreateBatch}
-                      className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                      onClick={handlePrint}
+                      disabled={printBlocked || serialPrinting}
+                      className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
-                      创建并选择
+                      <PrinterIcon className="h-5 w-5" />
+                      {serialPrinting ? '签发序号中...' : '打印标签'}
                     </button>
                     <button
-                      onClick={() => setShowNewBatchForm(false)}
-                      className="px-4 py-2 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+                      onClick={handleDownload}
+                      disabled={printBlocked || labelConfig.serialEnabled}
+                      title={labelConfig.serialEnabled ? '序号标签的序号在打印时签发，不支持下载' : undefined}
+                      className="flex items-center justify-center gap-2 px-4 py-2.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
-                      取消
+                      <ArrowDownTrayIcon className="h-5 w-5" />
+                      下载
                     </button>
                   </div>
-                </div>
-              )}
-
-              {materialBatches.length === 0 && !showNewBatchForm && (
-                <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-                  <p>该物料暂无批次记录</p>
-                  <p className="text-sm mt-1">点击"新建批次"创建</p>
-                </div>
-              )}
-            </div>
-          )}
-
-          {/* 临时编辑（打印前调整） */}
-          {labelData && (
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                临时编辑
-                <span className="ml-2 text-sm font-normal text-gray-500">（仅影响本次打印）</span>
-              </h2>
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    重量
-                  </label>
-                  <input
-                    type="text"
-                    value={editData.weight ?? labelData.weight ?? ''}
-                    onChange={(e) => setEditData(prev => ({ ...prev, weight: e.target.value }))}
-                    placeholder={labelData.weight || '如：0.18KG'}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    保质期
-                  </label>
-                  <input
-                    type="text"
-                    value={editData.shelf_life ?? labelData.shelf_life ?? ''}
-                    onChange={(e) => setEditData(prev => ({ ...prev, shelf_life: e.target.value }))}
-                    placeholder={labelData.shelf_life || '如：12个月'}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
-                  />
-                </div>
-
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    开封日期
-                  </label>
-                  <input
-                    type="date"
-                    value={editData.open_date ?? ''}
-                    onChange={(e) => setEditData(prev => ({ ...prev, open_date: e.target.value }))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
-                  />
-                </div>
-
-                <div className="col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    储存条件
-                  </label>
-                  <input
-                    type="text"
-                    value={editData.storage_conditions ?? labelData.storage_conditions ?? ''}
-                    onChange={(e) => setEditData(prev => ({ ...prev, storage_conditions: e.target.value }))}
-                    placeholder={labelData.storage_conditions || '如：阴凉干燥处保存'}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
-                  />
-                </div>
-
-                <div className="col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    主要成份
-                  </label>
-                  <input
-                    type="text"
-                    value={editData.main_ingredients ?? labelData.main_ingredients ?? ''}
-                    onChange={(e) => setEditData(prev => ({ ...prev, main_ingredients: e.target.value }))}
-                    placeholder={labelData.main_ingredients || '主要成份'}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
-                  />
-                </div>
-
-                {Object.keys(editData).length > 0 && (
-                  <div className="col-span-2">
+                  {selectedBatch && (
                     <button
-                      onClick={() => setEditData({})}
-                      className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                      onClick={handleAddToQueue}
+                      className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 rounded-lg hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors"
                     >
-                      清除临时修改
+                      <QueueListIcon className="h-4 w-4" />
+                      加入打印队列
                     </button>
-                  </div>
-                )}
+                  )}
+                </div>
               </div>
-            </div>
+            )}
+            </>
           )}
+        </div>
 
-          {/* 打印设置 */}
-          {labelData && (
-            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-                打印设置
+        {/* 右侧：预览区域 */}
+        {queueMode ? (
+          <LabelQueuePreview
+            items={queueItems.map((item, i) => ({ id: item.batch.id, copies: item.copies, data: queueLabels[i] }))}
+            template={queueTemplate}
+            config={labelConfig}
+            previewIndex={queuePreview}
+            onPreview={setQueuePreviewIndex}
+            renderRef={queueRenderRef}
+          />
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                标签预览
               </h2>
+              {labelData && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">
+                  {activeTemplate
+                    ? `${activeTemplate.name} · ${activeTemplate.width_mm}mm × ${activeTemplate.height_mm}mm`
+                    : `${labelConfig.labelWidth}mm × ${labelConfig.labelHeight}mm`}
+                </span>
+              )}
+            </div>
 
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                    打印数量
-                  </label>
-                  <input
-                    type="number"
-                    min="1"
-                    max="100"
-                    value={printCount}
-                    onChange={(e) => setPrintCount(Math.max(1, parseInt(e.target.value) || 1))}
-                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
-                  />
+            <div className="flex justify-center items-start min-h-[500px] bg-gray-100 dark:bg-gray-700 rounded-lg p-4 overflow-auto">
+              {labelData ? (
+                <div ref={printRef}>
+                  {activeTemplate ? (
+                    <LabelTemplateRenderer
+                      template={activeTemplate}
+                      data={labelData}
+                      scale={labelConfig.previewScale}
+                    />
+                  ) : (
+                    <LabelPrintTemplate
+                      data={labelData}
+                      config={labelConfig}
+                    />
+                  )}
                 </div>
-
-                <div className="flex gap-3">
-                  <button
-                    onClick={handlePrint}
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                  >
-                    <PrinterIcon className="h-5 w-5" />
-                    打印标签
-                  </button>
-                  <button
-                    onClick={handleDownload}
-                    className="flex items-center justify-center gap-2 px-4 py-2.5 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
-                  >
-                    <ArrowDownTrayIcon className="h-5 w-5" />
-                    下载
-                  </button>
+              ) : (
+                <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
+                  <PrinterIcon className="h-16 w-16 mb-4 opacity-50" />
+                  <p>请先选择物料和批次</p>
+                  <p className="text-sm mt-1">选择后将在此处显示标签预览</p>
                 </div>
-              </div>
+              )}
             </div>
-          )}
-        </div>
-
-        {/* 右侧：预览区域 */}
-        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
-              标签预览
-            </h2>
-            {labelData && (
-              <span className="text-sm text-gray-500 dark:text-gray-400">
-                {labelConfig.labelWidth}mm × {labelConfig.labelHeight}mm
-              </span>
-            )}
           </div>
+        )}
+      </div>
 
-          <div className="flex justify-center items-start min-h-[500px] bg-gray-100 dark:bg-gray-700 rounded-lg p-4 overflow-auto">
-            {labelData ? (
-              <div ref={printRef}>
-                <LabelPrintTemplate
-                  data={labelData}
-                  config={labelConfig}
-                />
-              </div>
-            ) : (
-              <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
-                <PrinterIcon className="h-16 w-16 mb-4 opacity-50" />
-                <p>请先选择物料和批次</p>
-                <p className="text-sm mt-1">选择后将在此处显示标签预览</p>
-              </div>
-            )}
-          </div>
+      {/* 打印用：序号标签逐张渲染（移出可视区域，条码画布照常生成），取出 HTML 后清空 */}
+      {serialRender && (
+        <div ref={serialRenderRef} aria-hidden="true" className="fixed -left-[10000px] top-0">
+          {serialRender.labels.map((data, i) => (
+            <div key={i} data-serial-index={i}>
+              {serialRender.template ? (
+                <LabelTemplateRenderer template={serialRender.template} data={data} />
+              ) : (
+                <LabelPrintTemplate data={data} config={labelConfig} />
+              )}
+            </div>
+          ))}
         </div>
-      </div>
+      )}
 
       {/* 点击其他区域关闭下拉 */}
       {showMaterialDropdown && (
@@ -1249,6 +1842,16 @@ const LabelPrint: React.FC = () => {
           onClick={() => setShowMaterialDropdown(false)}
         />
       )}
+
+      {deletingProfile && activeProfile && (
+        <ConfirmDialog
+          title="删除配置方案"
+          message={`确定要删除配置方案 "${activeProfile.name}" 吗？正在使用该方案的工作站将回退到默认方案。`}
+          onConfirm={handleDeleteProfile}
+          onCancel={() => setDeletingProfile(false)}
+          variant="danger"
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,207 @@
+﻿import React, { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { DocumentDuplicateIcon, PlusIcon, PrinterIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { format } from 'date-fns'
+import { useAuthStore } from '@/stores/authStore'
+import { useLabelTemplateStore } from '@/stores/labelTemplateStore'
+import { LabelTemplate } from '@/types/database'
+import ConfirmDialog from '@/components/common/ConfirmDialog'
+import LabelTemplateDesigner from '@/components/labels/LabelTemplateDesigner'
+
+// 正在编辑的模板：已有模板的 id，或 'new' 表示新建
+type EditingKey = string | 'new' | null
+
+// 标签模板：左侧模板列表，右侧可视化设计器
+const LabelTemplates: React.FC = () => {
+  const { hasPermission } = useAuthStore()
+  const { templates, loading, fetchTemplates, createTemplate, deleteTemplate } = useLabelTemplateStore()
+  const canWrite = hasPermission('write_label_templates')
+
+  const [editing, setEditing] = useState<EditingKey>(null)
+  const [dirty, setDirty] = useState(false)
+  // 有未保存修改时切换模板需要确认
+  const [pendingSwitch, setPendingSwitch] = useState<EditingKey | undefined>(undefined)
+  const [deleting, setDeleting] = useState<LabelTemplate | null>(null)
+
+  useEffect(() => {
+    fetchTemplates()
+  }, [fetchTemplates])
+
+  const editingTemplate = editing && editing !== 'new' ? templates.find((t) => t.id === editing) || null : null
+
+  const switchTo = (key: EditingKey) => {
+    if (key === editing) return
+    if (dirty) {
+      setPendingSwitch(key)
+      return
+    }
+    setEditing(key)
+  }
+
+  const handleCopy = async (template: LabelTemplate) => {
+    let name = `${template.name} - 副本`
+    for (let i = 2; templates.some((t) => t.name === name); i++) {
+      name = `${template.name} - 副本${i}`
+    }
+    const created = await createTemplate({
+      name,
+      description: template.description || '',
+      width_mm: template.width_mm,
+      height_mm: template.height_mm,
+      elements: template.elements
+    })
+    if (created) switchTo(created.id)
+  }
+
+  const confirmDelete = async () => {
+    if (!deleting) return
+    const ok = await deleteTemplate(deleting.id)
+    if (ok && editing === deleting.id) {
+      setEditing(null)
+      setDirty(false)
+    }
+    setDeleting(null)
+  }
+
+  if (!hasPermission('read_barcodes')) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <h3 className="text-lg font-medium text-gray-900 mb-1">权限不足</h3>
+          <p className="text-gray-500">您没有查看标签模板的权限</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 px-4 sm:px-6 lg:px-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">标签模板</h1>
+          <p className="mt-1 text-sm text-gray-500">
+            拖拽设计标签版式（单位 mm），可绑定物料/批次字段、条码与二维码；在标签打印中选择模板使用
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Link
+            to="/label-print"
+            className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <PrinterIcon className="w-5 h-5 mr-2" />
+            标签打印
+          </Link>
+          {canWrite && (
+            <button
+              onClick={() => switchTo('new')}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <PlusIcon className="w-5 h-5 mr-2" />
+              新建模板
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border lg:col-span-1">
+          {loading && templates.length === 0 ? (
+            <p className="text-sm text-gray-500 py-8 text-center">加载中...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500 py-8 text-center">暂无模板</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {templates.map((t) => (
+                <li
+                  key={t.id}
+                  onClick={() => switchTo(t.id)}
+                  className={`px-4 py-3 cursor-pointer ${editing === t.id ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-gray-900 truncate">{t.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {t.width_mm} × {t.height_mm} mm · {t.elements.length} 个元素
+                      </div>
+                      {t.description && <div className="text-xs text-gray-400 truncate">{t.description}</div>}
+                      <div className="text-xs text-gray-400">更新于 {format(new Date(t.updated_at), 'yyyy-MM-dd HH:mm')}</div>
+                    </div>
+                    {canWrite && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleCopy(t)
+                          }}
+                          className="p-1 text-gray-500 hover:text-gray-800"
+                          title="复制"
+                        >
+                          <DocumentDuplicateIcon className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setDeleting(t)
+                          }}
+                          className="p-1 text-red-600 hover:text-red-800"
+                          title="删除"
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border p-4 lg:col-span-3">
+          {editing ? (
+            <LabelTemplateDesigner
+              key={editing}
+              template={editingTemplate}
+              readOnly={!canWrite}
+              onDirtyChange={setDirty}
+              onSaved={(saved) => {
+                setDirty(false)
+                setEditing(saved.id)
+              }}
+            />
+          ) : (
+            <p className="text-sm text-gray-500 py-16 text-center">
+              {canWrite ? '选择左侧模板进行编辑，或新建模板' : '选择左侧模板查看版式'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {pendingSwitch !== undefined && (
+        <ConfirmDialog
+          title="放弃未保存的修改"
+          message="当前模板有未保存的修改，切换后修改将丢失，确定继续吗？"
+          onConfirm={() => {
+            setDirty(false)
+            setEditing(pendingSwitch)
+            setPendingSwitch(undefined)
+          }}
+          onCancel={() => setPendingSwitch(undefined)}
+          variant="warning"
+        />
+      )}
+
+      {deleting && (
+        <ConfirmDialog
+          title="删除标签模板"
+          message={`确定要删除模板 "${deleting.name}" 吗？`}
+          onConfirm={confirmDelete}
+          onCancel={() => setDeleting(null)}
+          variant="danger"
+        />
+      )}
+    </div>
+  )
+}
+
+export default LabelTemplates
@@ -1,13 +1,19 @@
-﻿import React, { useEffect } from 'react'
+﻿import React, { useEffect, useState } from 'react'
 import { Link, useParams } from 'react-router-dom'
 import { useMaterialStore } from '@/stores/materialStore'
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import StatusBadge from '@/components/common/StatusBadge'
+import MaterialCodeList from '@/components/materials/MaterialCodeList'
+import MaterialUnitList from '@/components/materials/MaterialUnitList'
+import BomItemList from '@/components/materials/BomItemList'
+
+type DetailTab = 'info' | 'codes' | 'units' | 'bom'
 
 // 物料详情页：用于承接物料列表里的“查看详情”链接
 const MaterialDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const { materials, loading, fetchMaterials, getMaterialById } = useMaterialStore()
+  const [activeTab, setActiveTab] = useState<DetailTab>('info')
 
   const material = id ? getMaterialById(id) : undefined
 
@@ -81,52 +87,83 @@ const MaterialDetail: React.FC = () => {
       </div>
 
       <div className="bg-white rounded-lg shadow-sm border">
-        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <div className="text-sm text-gray-500">分类</div>
-            <div className="mt-1 text-gray-900">{material.category?.name || '-'}</div>
-          </div>
-          <div>
-            <div className="text-sm text-gray-500">单位</div>
-            <div className="mt-1 text-gray-900">{material.unit_obj?.symbol || material.unit || '-'}</div>
-          </div>
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-8 px-6">
+            {([
+              { id: 'info', name: '基本信息' },
+              { id: 'codes', name: '多编码' },
+              { id: 'units', name: '包装单位' },
+              { id: 'bom', name: '物料清单' },
+            ] as { id: DetailTab; name: string }[]).map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === tab.id
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {tab.name}
+              </button>
+            ))}
+          </nav>
+        </div>
 
-          <div>
-            <div className="text-sm text-gray-500">状态</div>
-            <div className="mt-1">
-              <StatusBadge
-                status={material.status}
-                color={statusColorMap[material.status] ?? 'gray'}
-                text={statusTextMap[material.status] ?? material.status}
-                size="sm"
-              />
+        {activeTab === 'codes' ? (
+          <MaterialCodeList material={material} />
+        ) : activeTab === 'units' ? (
+          <MaterialUnitList material={material} />
+        ) : activeTab === 'bom' ? (
+          <BomItemList material={material} />
+        ) : (
+          <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="text-sm text-gray-500">分类</div>
+              <div className="mt-1 text-gray-900">{material.category?.name || '-'}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-500">单位</div>
+              <div className="mt-1 text-gray-900">{material.unit_obj?.symbol || material.unit || '-'}</div>
             </div>
-          </div>
 
-          <div>
-            <div className="text-sm text-gray-500">规格</div>
-            <div className="mt-1 text-gray-900">{material.specification || '-'}</div>
-          </div>
+            <div>
+              <div className="text-sm text-gray-500">状态</div>
+              <div className="mt-1">
+                <StatusBadge
+                  status={material.status}
+                  color={statusColorMap[material.status] ?? 'gray'}
+                  text={statusTextMap[material.status] ?? material.status}
+                  size="sm"
+                />
+              </div>
+            </div>
 
-          <div>
-            <div className="text-sm text-gray-500">库存</div>
-            <div className="mt-1 text-gray-900">
-              {material.current_stock}（最小 {material.min_stock} / 最大 {material.max_stock}）
+            <div>
+              <div className="text-sm text-gray-500">规格</div>
+              <div className="mt-1 text-gray-900">{material.specification || '-'}</div>
             </div>
-          </div>
 
-          <div>
-            <div className="text-sm text-gray-500">更新时间</div>
-            <div className="mt-1 text-gray-900">
-              {material.updated_at ? new Date(material.updated_at).toLocaleString('zh-CN') : '-'}
+            <div>
+              <div className="text-sm text-gray-500">库存</div>
+              <div className="mt-1 text-gray-900">
+                {material.current_stock}（最小 {material.min_stock} / 最大 {material.max_stock}）
+              </div>
             </div>
-          </div>
 
-          <div className="md:col-span-2">
-            <div className="text-sm text-gray-500">描述</div>
-            <div className="mt-1 text-gray-900 whitespace-pre-wrap">{material.description || '-'}</div>
+            <div>
+              <div className="text-sm text-gray-500">更新时间</div>
+              <div className="mt-1 text-gray-900">
+                {material.updated_at ? new Date(material.updated_at).toLocaleString('zh-CN') : '-'}
+              </div>
+            </div>
+
+            <div className="md:col-span-2">
+              <div className="text-sm text-gray-500">描述</div>
+              <div className="mt-1 text-gray-900 whitespace-pre-wrap">{material.description || '-'}</div>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   )
@@ -1,9 +1,14 @@
-﻿import React from 'react'
+﻿import React, { useState } from 'react'
 import MaterialList from '@/components/materials/MaterialList'
+import CategoryTree from '@/components/categories/CategoryTree'
+import UnitList from '@/components/units/UnitList'
 import { useAuthStore } from '@/stores/authStore'
 
+type MaterialTab = 'materials' | 'categories' | 'units'
+
 const MaterialManagement: React.FC = () => {
   const { hasPermission } = useAuthStore()
+  const [activeTab, setActiveTab] = useState<MaterialTab>('materials')
   
   if (!hasPermission('read_materials')) {
     return (
@@ -23,7 +28,29 @@ const MaterialManagement: React.FC = () => {
 
   return (
     <div className="container mx-auto px-4 py-8">
-      <MaterialList />
+      <div className="border-b border-gray-200 mb-6">
+        <nav className="flex space-x-8">
+          {([
+            { id: 'materials', name: '物料列表' },
+            { id: 'categories', name: '分类管理' },
+            { id: 'units', name: '单位管理' },
+          ] as { id: MaterialTab; name: string }[]).map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center py-4 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab.id
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {tab.name}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {activeTab === 'categories' ? <CategoryTree /> : activeTab === 'units' ? <UnitList /> : <MaterialList />}
     </div>
   )
 }
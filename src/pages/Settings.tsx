@@ -9,11 +9,13 @@ import {
 } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../stores/authStore';
 import { useSettingsStore } from '../stores/settingsStore';
+import { useLabelTemplateStore } from '../stores/labelTemplateStore';
 import SettingsForm from '../components/settings/SettingsForm';
 import LoadingSpinner from '../components/common/LoadingSpinner';
 import StatusBadge from '../components/common/StatusBadge';
 import { useTheme } from '../hooks/useTheme';
 import type { SystemSettingsFormData } from '../types/database';
+import { BATCH_NUMBER_RESET_TEXT, type BatchNumberReset } from '../utils/batchNumberPattern';
 
 interface SettingsPageProps {
   className?: string;
@@ -23,6 +25,7 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
   const { hasPermission } = useAuthStore();
   const { settings, loading, error: storeError, fetchSettings, updateSettings, clearError } = useSettingsStore();
   const { theme, setTheme, resolvedTheme } = useTheme();
+  const { templates, fetchTemplates } = useLabelTemplateStore();
 
   const [success, setSuccess] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('general');
@@ -31,7 +34,8 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
 
   useEffect(() => {
     fetchSettings();
-  }, [fetchSettings]);
+    fetchTemplates();
+  }, [fetchSettings, fetchTemplates]);
 
   const handleEditConfig = () => {
     if (!hasPermission('write_settings') || !settings) return;
@@ -56,12 +60,17 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
         low_stock_alerts: settings.low_stock_alerts,
         system_maintenance: settings.system_maintenance,
         user_activities: settings.user_activities,
+        near_expiry_days: settings.near_expiry_days,
       },
       system: {
         auto_backup: settings.auto_backup,
         backup_frequency: settings.backup_frequency,
         data_retention_days: settings.data_retention_days,
         maintenance_mode: settings.maintenance_mode,
+        batch_number_pattern: settings.batch_number_pattern,
+        batch_number_reset: settings.batch_number_reset,
+        default_label_template_id: settings.default_label_template_id ?? null,
+        default_label_print_count: settings.default_label_print_count ?? 1,
       },
     };
 
@@ -102,7 +111,16 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
       general: ['site_name', 'company_name', 'timezone', 'language', 'date_format'],
       security: ['password_min_length', 'session_timeout', 'max_login_attempts', 'two_factor_required'],
       notifications: ['email_enabled', 'low_stock_alerts', 'system_maintenance', 'user_activities'],
-      system: ['auto_backup', 'backup_frequency', 'data_retention_days', 'maintenance_mode'],
+      system: [
+        'auto_backup',
+        'backup_frequency',
+        'data_retention_days',
+        'maintenance_mode',
+        'batch_number_pattern',
+        'batch_number_reset',
+        'default_label_template_id',
+        'default_label_print_count'
+      ],
     };
 
     if (!categoryMap[category]?.includes(key)) return '';
@@ -138,6 +156,19 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
       return `${hours}小时`;
     }
 
+    if (category === 'system' && key === 'batch_number_reset') {
+      return BATCH_NUMBER_RESET_TEXT[value as BatchNumberReset] ?? String(value);
+    }
+
+    if (category === 'system' && key === 'default_label_template_id') {
+      if (!value) return '内置表格模板';
+      return templates.find(t => t.id === value)?.name ?? '已删除的模板';
+    }
+
+    if (category === 'system' && key === 'default_label_print_count') {
+      return `${value || 1} 张`;
+    }
+
     return String(value);
   };
 
@@ -192,7 +223,11 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ className = '' }) => {
       { key: 'auto_backup', label: '自动备份' },
       { key: 'backup_frequency', label: '备份频率' },
       { key: 'data_retention_days', label: '数据保留天数' },
-      { key: 'maintenance_mode', label: '维护模式' }
+      { key: 'maintenance_mode', label: '维护模式' },
+      { key: 'batch_number_pattern', label: '批次号模板' },
+      { key: 'batch_number_reset', label: '流水号重置周期' },
+      { key: 'default_label_template_id', label: '默认标签模板' },
+      { key: 'default_label_print_count', label: '默认标签打印张数' }
     ]
   };
 
@@ -52,11 +52,30 @@ const MODULE_PERMISSIONS = {
   read_materials: ['admin', 'manager', 'operator', 'viewer'] as const,
   write_materials: ['admin', 'manager', 'operator'] as const,
   delete_materials: ['admin', 'manager'] as const,
+  // 物料多编码（与数据库 RLS 一致：仅经理及以上可维护）
+  write_material_codes: ['admin', 'manager'] as const,
+  // 物料分类（与数据库 RLS 一致：仅管理员可维护）
+  write_categories: ['admin'] as const,
+  // 计量单位仅管理员维护；物料包装单位与多编码一致
+  write_units: ['admin'] as const,
+  write_material_units: ['admin', 'manager'] as const,
+  // 物料清单（BOM）与包装单位一致；生产入库与普通入库一致
+  write_bom: ['admin', 'manager'] as const,
+  write_production: ['admin', 'manager', 'operator'] as const,
 
   // 批次
   read_batches: ['admin', 'manager', 'operator', 'viewer'] as const,
   write_batches: ['admin', 'manager', 'operator'] as const,
   delete_batches: ['admin', 'manager'] as const,
+  // 质检：放行需经理；任何可写用户都可以锁定（隔离）批次
+  release_batches: ['admin', 'manager'] as const,
+  hold_batches: ['admin', 'manager', 'operator'] as const,
+  // 待检/锁定批次越权出库、打印标签
+  override_batch_hold: ['admin', 'manager'] as const,
+  // 库位主数据
+  write_locations: ['admin', 'manager'] as const,
+  // 盘点差异过账需经理审批
+  approve_stocktakes: ['admin', 'manager'] as const,
 
   // 供应商
   read_suppliers: ['admin', 'manager', 'operator', 'viewer'] as const,
@@ -67,6 +86,12 @@ const MODULE_PERMISSIONS = {
   read_barcodes: ['admin', 'manager', 'operator', 'viewer'] as const,
   write_barcodes: ['admin', 'manager', 'operator'] as const,
   delete_barcodes: ['admin', 'manager'] as const,
+  // 标签模板（与数据库 RLS 一致：仅经理及以上可维护）
+  write_label_templates: ['admin', 'manager'] as const,
+  // 标签打印配置方案（共享版式）；打印位置校准为本机设置，不受此权限限制
+  write_label_config: ['admin', 'manager'] as const,
+  // 作废已签发的标签序号（签发随打印进行，不单独设权限）
+  void_label_serials: ['admin', 'manager', 'operator'] as const,
 
   // 用户
   read_users: ['admin', 'manager'] as const,
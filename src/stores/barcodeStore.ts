@@ -0,0 +1,205 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { Barcode, BarcodePrintLog, BarcodeRegisterInput, LabelSerial, MaterialBatch } from '@/types/database'
+import { notify } from '@/lib/notify'
+import { getBarcodeFormat } from '@/utils/barcodeSymbology'
+import { LabelPayload, decodeLabelPayload } from '@/utils/labelPayload'
+
+export interface BarcodeFilters {
+  search?: string
+  material_id?: string
+  batch_id?: string
+  // '' 表示全部
+  status?: 'active' | 'inactive' | ''
+}
+
+// 结构化标签码的解析结果：batch 为载荷指向的批次，barcode 为台账中登记的这张标签码（含打印次数），
+// serial 为序号标签的签发记录（可据此识别已作废的标签）
+export interface LabelScanResolution {
+  payload: LabelPayload
+  batch: MaterialBatch | null
+  barcode: Barcode | null
+  serial: LabelSerial | null
+}
+
+// 条码码制对应的渲染格式（写入 barcodes.format）
+const getFormat = (type: Barcode['barcode_type']) => {
+  if (type === 'qr_code') return 'QR'
+  if (type === 'gs1_128') return 'GS1-128'
+  if (type === 'gs1_datamatrix') return 'GS1-DATAMATRIX'
+  return getBarcodeFormat(type)
+}
+
+interface BarcodeState {
+  barcodes: Barcode[]
+  totalCount: number
+  currentPage: number
+  pageSize: number
+  filters: BarcodeFilters
+  loading: boolean
+  error: string | null
+
+  fetchBarcodes: (params?: { page?: number; filters?: BarcodeFilters }) => Promise<void>
+  // 登记条码；copies > 0 时同时累加打印次数并写打印记录。返回 null 表示登记失败（已提示）
+  registerBarcode: (input: BarcodeRegisterInput) => Promise<Barcode | null>
+  setBarcodeActive: (id: string, active: boolean) => Promise<boolean>
+  getPrintLogs: (barcodeId: string) => Promise<BarcodePrintLog[]>
+  // 解析结构化标签码并定位批次/标签；不是结构化标签码时返回 null，内容不合法时抛出错误信息
+  resolveLabelScan: (raw: string) => Promise<LabelScanResolution | null>
+}
+
+export const useBarcodeStore = create<BarcodeState>((set, get) => ({
+  barcodes: [],
+  totalCount: 0,
+  currentPage: 1,
+  pageSize: 20,
+  filters: {},
+  loading: false,
+  error: null,
+
+  fetchBarcodes: async (params) => {
+    const { currentPage, pageSize, filters: storedFilters } = get()
+    const page = params?.page ?? currentPage
+    const filters = params?.filters ?? storedFilters
+
+    set({ loading: true, error: null })
+    try {
+      let query = supabase
+        .from('barcodes')
+        .select(`
+          *,
+          material:materials!material_id(id, code, name),
+          batch:material_batches!batch_id(id, batch_number, status)
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false })
+
+      if (filters.search) {
+        query = query.or(`barcode.ilike.%${filters.search}%`)
+      }
+      if (filters.material_id) {
+        query = query.eq('material_id', filters.material_id)
+      }
+      if (filters.batch_id) {
+        query = query.eq('batch_id', filters.batch_id)
+      }
+      if (filters.status) {
+        query = query.eq('is_active', filters.status === 'active')
+      }
+
+      const from = (page - 1) * pageSize
+      query = query.range(from, from + pageSize - 1)
+
+      const { data, error, count } = await query
+      if (error) throw error
+
+      set({
+        barcodes: (data as Barcode[] | null) || [],
+        totalCount: count || 0,
+        currentPage: page,
+        filters,
+        loading: false
+      })
+    } catch (error) {
+      console.error('Error fetching barcodes:', error)
+      set({ error: '获取条码台账失败', loading: false })
+      notify.error('获取条码台账失败')
+    }
+  },
+
+  registerBarcode: async (input) => {
+    try {
+      // 去重、停用校验与打印计数都在数据库函数内完成，多人同时打印同一个码不会重复登记
+      const { data, error } = await supabase.rpc('register_barcode', {
+        p_barcode: input.barcode,
+        p_barcode_type: input.barcode_type,
+        p_format: getFormat(input.barcode_type),
+        p_data: input.data ?? input.barcode,
+        p_material_id: input.material_id ?? null,
+        p_batch_id: input.batch_id ?? null,
+        p_copies: input.copies ?? 0,
+        p_source: input.source ?? 'generator',
+        p_override: input.override ?? false
+      })
+
+      if (error) throw error
+      return data as Barcode
+    } catch (error) {
+      console.error('Error registering barcode:', error)
+      notify.error('条码登记失败', (error as { message?: string })?.message)
+      return null
+    }
+  },
+
+  setBarcodeActive: async (id, active) => {
+    try {
+      const { error } = await supabase
+        .from('barcodes')
+        .update({ is_active: active })
+        .eq('id', id)
+
+      if (error) throw error
+
+      set((state) => ({
+        barcodes: state.barcodes.map((b) => (b.id === id ? { ...b, is_active: active } : b))
+      }))
+      notify.success(active ? '条码已启用' : '条码已停用')
+      return true
+    } catch (error) {
+      console.error('Error updating barcode status:', error)
+      notify.error(active ? '启用条码失败' : '停用条码失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  getPrintLogs: async (barcodeId) => {
+    try {
+      const { data, error } = await supabase
+        .from('barcode_print_logs')
+        .select('*')
+        .eq('barcode_id', barcodeId)
+        .order('printed_at', { ascending: false })
+
+      if (error) throw error
+      return (data as BarcodePrintLog[] | null) || []
+    } catch (error) {
+      console.error('Error fetching barcode print logs:', error)
+      return []
+    }
+  },
+
+  resolveLabelScan: async (raw) => {
+    const decoded = decodeLabelPayload(raw)
+    if (!decoded) return null
+    if (decoded.error) throw new Error(decoded.error)
+
+    const { payload } = decoded
+    // 说明：批次号只在同一物料下唯一，按批次号取出后再用物料编码确认
+    const { data: batches, error: batchError } = await supabase
+      .from('material_batches')
+      .select('*, material:materials!material_id(id, code, name)')
+      .eq('batch_number', payload.batch_number)
+    if (batchError) throw batchError
+    const batch =
+      ((batches as MaterialBatch[] | null) || []).find((b) => b.material?.code === payload.material_code) ?? null
+
+    const { data: codes, error: codeError } = await supabase
+      .from('barcodes')
+      .select('*')
+      .eq('barcode', raw.trim())
+      .eq('barcode_type', 'qr_code')
+    if (codeError) throw codeError
+
+    let serial: LabelSerial | null = null
+    if (batch && payload.serial) {
+      const { data: serials, error: serialError } = await supabase
+        .from('label_serials')
+        .select('*')
+        .eq('batch_id', batch.id)
+        .eq('serial', payload.serial)
+      if (serialError) throw serialError
+      serial = ((serials as LabelSerial[] | null) || [])[0] ?? null
+    }
+
+    return { payload, batch, barcode: ((codes as Barcode[] | null) || [])[0] ?? null, serial }
+  }
+}))
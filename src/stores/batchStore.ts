@@ -1,7 +1,54 @@
 ﻿import { create } from 'zustand'
-import { supabase } from '@/lib/supabase'
-import { MaterialBatch, BatchFormData, BatchQueryParams } from '@/types/database'
+import { addDays, format } from 'date-fns'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import {
+  MaterialBatch,
+  BatchFilters,
+  BatchFormData,
+  BatchQueryParams,
+  BatchInspection,
+  BatchInspectionFormData,
+  BatchTransferFormData,
+  OutboundAllocation,
+  OutboundFormData,
+  StockMovement,
+  StockMovementReason,
+  StockMovementType
+} from '@/types/database'
 import { notify } from '@/lib/notify'
+import { useAuthStore } from '@/stores/authStore'
+import { DEFAULT_NEAR_EXPIRY_DAYS } from '@/utils/statusHelpers'
+
+interface MovementInput {
+  batch_id: string
+  material_id: string
+  movement_type: StockMovementType
+  quantity: number
+  balance_after: number
+  reason_code: StockMovementReason
+  reason?: string
+  reference_no?: string
+}
+
+// 写入一条库存流水（操作人取当前登录用户）
+// 说明：流水写入失败时不回滚批次本身的变更，只做告警，避免“库存已变但界面提示失败”导致重复操作
+const recordMovement = async (input: MovementInput): Promise<void> => {
+  if (input.quantity === 0) return
+  const user = useAuthStore.getState().user
+  const { error } = await supabase
+    .from('stock_movements')
+    .insert([{
+      ...input,
+      reason: input.reason || null,
+      reference_no: input.reference_no || null,
+      operator_id: user?.id,
+      operator_name: user?.full_name || user?.username,
+    }])
+  if (error) {
+    console.error('Error recording stock movement:', error)
+    notify.error('库存流水记录失败')
+  }
+}
 
 interface BatchState {
   batches: MaterialBatch[]
@@ -12,6 +59,7 @@ interface BatchState {
   pageSize: number
   searchQuery: string
   selectedMaterialId: string | null
+  filters: BatchFilters
   
   // Actions
   setLoading: (loading: boolean) => void
@@ -19,6 +67,7 @@ interface BatchState {
   setSearchQuery: (query: string) => void
   setSelectedMaterialId: (id: string | null) => void
   setPagination: (page: number, pageSize: number) => void
+  setFilters: (filters: BatchFilters) => void
   
   // CRUD Operations
   fetchBatches: (params?: BatchQueryParams) => Promise<void>
@@ -26,13 +75,38 @@ interface BatchState {
   updateBatch: (id: string, data: Partial<BatchFormData>) => Promise<boolean>
   deleteBatch: (id: string) => Promise<boolean>
   
+  // Stock Movements
+  outboundBatch: (id: string, data: OutboundFormData) => Promise<boolean>
+  outboundMaterial: (
+    materialId: string,
+    allocations: OutboundAllocation[],
+    data: Omit<OutboundFormData, 'quantity'>
+  ) => Promise<boolean>
+  transferBatch: (id: string, data: BatchTransferFormData) => Promise<MaterialBatch | null>
+
+  // Quality Control
+  inspectBatch: (id: string, data: BatchInspectionFormData) => Promise<boolean>
+  getBatchInspections: (batchId: string) => Promise<BatchInspection[]>
+  getBatchMovements: (batchId: string) => Promise<StockMovement[]>
+  // 调拨拆分血缘：来源批次 + 由该批次拆出的子批次
+  getBatchLineage: (batch: MaterialBatch) => Promise<{ parent: MaterialBatch | null; children: MaterialBatch[] }>
+  
   // Batch Generation
-  generateBatchNumber: (materialId: string) => Promise<string>
+  // preview=true 时只预览下一个批次号，不占用流水号
+  generateBatchNumber: (materialId: string, options?: { supplierId?: string | null; preview?: boolean }) => Promise<string>
   
   // Batch Tracking
   getBatchById: (id: string) => MaterialBatch | null
   getBatchesByMaterial: (materialId: string) => Promise<MaterialBatch[]>
+  // 按 id 列表取批次（跨物料，含物料与供应商联表），结果按传入顺序排列；标签打印队列使用
+  getBatchesByIds: (ids: string[]) => Promise<MaterialBatch[]>
+  getAllBatches: () => Promise<MaterialBatch[]>
   getExpiredBatches: () => Promise<MaterialBatch[]>
+  getNearExpiryDays: () => Promise<number>
+  getNearExpiryBatches: (days: number) => Promise<MaterialBatch[]>
+  
+  // Expiry
+  sweepExpiredBatches: () => Promise<MaterialBatch[]>
   
   // Statistics
   getBatchStatistics: () => Promise<{
@@ -52,17 +126,23 @@ export const useBatchStore = create<BatchState>((set, get) => ({
   pageSize: 10,
   searchQuery: '',
   selectedMaterialId: null,
+  filters: {},
   
   setLoading: (loading) => set({ loading }),
   setError: (error) => set({ error }),
   setSearchQuery: (searchQuery) => set({ searchQuery, currentPage: 1 }),
   setSelectedMaterialId: (selectedMaterialId) => set({ selectedMaterialId }),
   setPagination: (currentPage, pageSize) => set({ currentPage, pageSize }),
+  setFilters: (filters) => set({ filters, currentPage: 1 }),
   
   fetchBatches: async (params) => {
-    const { currentPage, pageSize, searchQuery: storedSearch, selectedMaterialId } = get()
+    const { currentPage, pageSize, searchQuery: storedSearch, selectedMaterialId, filters: storedFilters } = get()
     const { page = currentPage, limit = pageSize, materialId = selectedMaterialId, search } = params || {}
     const effectiveSearch = search ?? storedSearch
+    const status = params?.status ?? storedFilters.status
+    const location = params?.location ?? storedFilters.location
+    const expiryStart = params?.expiry_start ?? storedFilters.expiry_start
+    const expiryEnd = params?.expiry_end ?? storedFilters.expiry_end
     
     set({ loading: true, error: null })
     
@@ -94,6 +174,22 @@ export const useBatchStore = create<BatchState>((set, get) => ({
       if (materialId) {
         query = query.eq('material_id', materialId)
       }
+
+      if (status) {
+        query = query.eq('status', status)
+      }
+
+      if (location) {
+        query = query.eq('location', location)
+      }
+
+      if (expiryStart) {
+        query = query.gte('expiry_date', expiryStart)
+      }
+
+      if (expiryEnd) {
+        query = query.lte('expiry_date', expiryEnd)
+      }
       
       // Apply pagination
       const from = (page - 1) * limit
@@ -132,7 +228,7 @@ export const useBatchStore = create<BatchState>((set, get) => ({
       // Generate batch number if not provided
       let batchNumber = data.batch_number
       if (!batchNumber) {
-        batchNumber = await get().generateBatchNumber(data.material_id)
+        batchNumber = await get().generateBatchNumber(data.material_id, { supplierId: data.supplier_id })
       }
       
       const batchData = {
@@ -146,11 +242,25 @@ export const useBatchStore = create<BatchState>((set, get) => ({
         updated_by: userId,
       }
       
-      const { error } = await supabase
+      const { data: created, error } = await supabase
         .from('material_batches')
         .insert([batchData])
+        .select()
+        .single()
       
       if (error) throw error
+
+      const createdBatch = created as MaterialBatch | null
+      if (createdBatch) {
+        await recordMovement({
+          batch_id: createdBatch.id,
+          material_id: createdBatch.material_id,
+          movement_type: 'inbound',
+          quantity: createdBatch.remaining_quantity,
+          balance_after: createdBatch.remaining_quantity,
+          reason_code: 'purchase',
+        })
+      }
       
       notify.success('批次创建成功')
       await get().fetchBatches()
@@ -161,7 +271,7 @@ export const useBatchStore = create<BatchState>((set, get) => ({
         error: '创建批次失败',
         loading: false 
       })
-      notify.error('创建批次失败')
+      notify.error('创建批次失败', (error as { message?: string })?.message)
       return false
     }
   },
@@ -170,7 +280,15 @@ export const useBatchStore = create<BatchState>((set, get) => ({
     set({ loading: true, error: null })
     
     try {
-      const current = get().batches.find((b) => b.id === id)
+      let current = get().batches.find((b) => b.id === id)
+      if (!current) {
+        const { data: row } = await supabase
+          .from('material_batches')
+          .select('*')
+          .eq('id', id)
+          .single()
+        current = (row as MaterialBatch | null) ?? undefined
+      }
 
       // 说明：如果是从“编辑入库单”更新了入库数量(quantity)，但没有显式传 remaining_quantity，
       // 则按“已出库数量不变”的原则重算 remaining_quantity，避免库存/统计错乱。
@@ -202,6 +320,21 @@ export const useBatchStore = create<BatchState>((set, get) => ({
         .eq('id', id)
       
       if (error) throw error
+
+      // 编辑导致的库存变化记为“调整”流水（出库请走 outboundBatch，以便记录原因与单据）
+      const prevRemaining = current ? (current.remaining_quantity ?? current.quantity) : null
+      const nextRemaining = updatePayload.remaining_quantity as number | undefined
+      if (current && prevRemaining !== null && typeof nextRemaining === 'number' && nextRemaining !== prevRemaining) {
+        await recordMovement({
+          batch_id: id,
+          material_id: current.material_id,
+          movement_type: 'adjust',
+          quantity: nextRemaining - prevRemaining,
+          balance_after: nextRemaining,
+          reason_code: 'correction',
+          reason: '编辑批次',
+        })
+      }
       
       notify.success('批次更新成功')
       await get().fetchBatches()
@@ -242,40 +375,187 @@ export const useBatchStore = create<BatchState>((set, get) => ({
     }
   },
   
-  generateBatchNumber: async (materialId) => {
-    try {
-      // Get material info
-      const { data: material } = await supabase
-        .from('materials')
-        .select('code')
-        .eq('id', materialId)
+  outboundBatch: async (id, data) => {
+    let batch = get().batches.find((b) => b.id === id)
+    if (!batch) {
+      const { data: row } = await supabase
+        .from('material_batches')
+        .select('*')
+        .eq('id', id)
         .single()
-      
-      const materialRow = material as { code?: string } | null
-      if (!materialRow?.code) {
-        throw new Error('物料不存在')
-      }
-      
-      // Generate batch number: MATERIAL_CODE + YYYYMMDD + 3-digit sequence
-      const today = new Date()
-      const dateStr = today.getFullYear().toString() + 
-                     (today.getMonth() + 1).toString().padStart(2, '0') + 
-                     today.getDate().toString().padStart(2, '0')
-      
-      // Get today's batch count for this material
-      const { count } = await supabase
+      batch = (row as MaterialBatch | null) ?? undefined
+    }
+    if (!batch) {
+      notify.error('出库失败', '批次不存在')
+      return false
+    }
+
+    // 说明：单批次出库等同于只有一行分配明细的按物料出库，统一走同一个数据库函数
+    const { quantity, ...rest } = data
+    return get().outboundMaterial(batch.material_id, [{ batch_id: id, quantity }], rest)
+  },
+
+  outboundMaterial: async (materialId, allocations, data) => {
+    set({ loading: true, error: null })
+
+    try {
+      // 扣减批次库存 + 写库存流水在数据库函数内一次提交（离线由 localRpc 模拟），任一批次校验失败则整体回滚
+      const { error } = await supabase.rpc('post_material_outbound', {
+        p_material_id: materialId,
+        p_allocations: allocations.filter((a) => a.quantity > 0),
+        p_movement_type: data.movement_type,
+        p_reason_code: data.reason_code,
+        p_reason: data.reason || null,
+        p_reference_no: data.reference_no || null,
+        p_override: !!data.override,
+      })
+
+      if (error) throw error
+
+      notify.success(data.movement_type === 'scrap' ? '报废成功' : '出库成功')
+      await get().fetchBatches()
+      return true
+    } catch (error) {
+      console.error('Error posting outbound:', error)
+      set({
+        error: '出库失败',
+        loading: false
+      })
+      notify.error('出库失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  transferBatch: async (id, data) => {
+    set({ loading: true, error: null })
+
+    try {
+      // 整批改挂库位或拆分子批次 + 双侧调拨流水在数据库函数内一次提交（离线由 localRpc 模拟）
+      const { data: moved, error } = await supabase.rpc('transfer_batch', {
+        p_batch_id: id,
+        p_location_id: data.location_id,
+        p_quantity: data.quantity,
+        p_reason: data.reason || null,
+        p_reference_no: data.reference_no || null,
+      })
+
+      if (error) throw error
+
+      const target = moved as MaterialBatch
+      notify.success(target.id === id ? '调拨成功' : `调拨成功，已拆分为批次 ${target.batch_number}`)
+      await get().fetchBatches()
+      return target
+    } catch (error) {
+      console.error('Error transferring batch:', error)
+      set({
+        error: '调拨失败',
+        loading: false
+      })
+      notify.error('调拨失败', (error as { message?: string })?.message)
+      return null
+    }
+  },
+
+  inspectBatch: async (id, data) => {
+    set({ loading: true, error: null })
+
+    try {
+      // 状态流转 + 质检记录在数据库函数内一次提交；放行/锁定的角色校验也在函数内
+      const { error } = await supabase.rpc('inspect_batch', {
+        p_batch_id: id,
+        p_result: data.result,
+        p_reason_code: data.reason_code,
+        p_notes: data.notes || null,
+      })
+
+      if (error) throw error
+
+      notify.success(data.result === 'pass' ? '批次已放行' : '批次已锁定')
+      await get().fetchBatches()
+      return true
+    } catch (error) {
+      console.error('Error inspecting batch:', error)
+      set({
+        error: '质检提交失败',
+        loading: false
+      })
+      notify.error('质检提交失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  getBatchInspections: async (batchId) => {
+    try {
+      const { data, error } = await supabase
+        .from('batch_inspections')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data as BatchInspection[] | null) || []
+    } catch (error) {
+      console.error('Error fetching batch inspections:', error)
+      return []
+    }
+  },
+
+  getBatchMovements: async (batchId) => {
+    try {
+      const { data, error } = await supabase
+        .from('stock_movements')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data as StockMovement[] | null) || []
+    } catch (error) {
+      console.error('Error fetching stock movements:', error)
+      return []
+    }
+  },
+
+  getBatchLineage: async (batch) => {
+    try {
+      const { data: children, error } = await supabase
         .from('material_batches')
-        .select('*', { count: 'exact', head: true })
-        .eq('material_id', materialId)
-        .gte('created_at', today.toISOString().split('T')[0])
-      
-      const sequence = ((count || 0) + 1).toString().padStart(3, '0')
-      
-      return `${materialRow.code}-${dateStr}-${sequence}`
+        .select('*')
+        .eq('parent_batch_id', batch.id)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+
+      let parent: MaterialBatch | null = null
+      if (batch.parent_batch_id) {
+        const { data: row } = await supabase
+          .from('material_batches')
+          .select('*')
+          .eq('id', batch.parent_batch_id)
+          .single()
+        parent = (row as MaterialBatch | null) ?? null
+      }
+
+      return { parent, children: (children as MaterialBatch[] | null) || [] }
     } catch (error) {
+      console.error('Error fetching batch lineage:', error)
+      return { parent: null, children: [] }
+    }
+  },
+  
+  generateBatchNumber: async (materialId, options = {}) => {
+    // 说明：批次号由数据库函数按系统设置的模板 + 流水号生成（流水号在服务端原子递增，并发入库不会重复）
+    const { data, error } = await supabase.rpc('next_batch_number', {
+      p_material_id: materialId,
+      p_supplier_id: options.supplierId || null,
+      p_preview: !!options.preview,
+    })
+
+    if (error) {
       console.error('Error generating batch number:', error)
       throw error
     }
+    return data as string
   },
   
   getBatchById: (id) => {
@@ -310,6 +590,61 @@ export const useBatchStore = create<BatchState>((set, get) => ({
       return []
     }
   },
+
+  getBatchesByIds: async (ids) => {
+    if (ids.length === 0) return []
+    try {
+      const { data, error } = await supabase
+        .from('material_batches')
+        .select(`
+          *,
+          material:materials!material_id(
+            id,
+            code,
+            name,
+            specification
+          ),
+          supplier:suppliers!supplier_id(
+            id,
+            name,
+            code
+          )
+        `)
+        .or(`id.in.(${ids.join(',')})`)
+
+      if (error) throw error
+      const rows = (data as MaterialBatch[] | null) || []
+      return ids.map((id) => rows.find((b) => b.id === id)).filter((b): b is MaterialBatch => !!b)
+    } catch (error) {
+      console.error('Error fetching batches by ids:', error)
+      return []
+    }
+  },
+  
+  getAllBatches: async () => {
+    try {
+      // 全量导出/统计用，按页拉取避免被 max-rows 截断；id 作为第二排序键保证分页稳定
+      return await fetchAllRows<MaterialBatch>(() => supabase
+        .from('material_batches')
+        .select(`
+          *,
+          material:materials!material_id(
+            id,
+            code,
+            name,
+            specification,
+            min_stock,
+            max_stock,
+            unit_obj:units(id, code, name, symbol)
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .order('id'))
+    } catch (error) {
+      console.error('Error fetching all batches:', error)
+      return []
+    }
+  },
   
   getExpiredBatches: async () => {
     try {
@@ -326,17 +661,75 @@ export const useBatchStore = create<BatchState>((set, get) => ({
           )
         `)
         .lt('expiry_date', today)
-        .eq('status', 'expired')
         .order('expiry_date', { ascending: true })
       
       if (error) throw error
-      return (data as MaterialBatch[] | null) || []
+      // 说明：按有效期判断，不依赖 status（过期扫描之前仍为 available 的批次也要算进来）；已处置的批次不再关注
+      return ((data as MaterialBatch[] | null) || []).filter((b) => b.status !== 'disposed')
     } catch (error) {
       console.error('Error fetching expired batches:', error)
       return []
     }
   },
   
+  getNearExpiryDays: async () => {
+    const { data, error } = await supabase.rpc('get_near_expiry_days')
+    if (error) {
+      console.error('Error fetching near expiry days:', error)
+      return DEFAULT_NEAR_EXPIRY_DAYS
+    }
+    return Number(data) || DEFAULT_NEAR_EXPIRY_DAYS
+  },
+  
+  getNearExpiryBatches: async (days) => {
+    try {
+      const today = new Date().toISOString().split('T')[0]
+      const { data, error } = await supabase
+        .from('material_batches')
+        .select(`
+          *,
+          material:materials!material_id(
+            id,
+            code,
+            name,
+            specification
+          )
+        `)
+        .eq('status', 'available')
+        .gte('expiry_date', today)
+        .lte('expiry_date', format(addDays(new Date(), days), 'yyyy-MM-dd'))
+        .order('expiry_date', { ascending: true })
+      
+      if (error) throw error
+      return ((data as MaterialBatch[] | null) || []).filter((b) => (b.remaining_quantity ?? b.quantity) > 0)
+    } catch (error) {
+      console.error('Error fetching near expiry batches:', error)
+      return []
+    }
+  },
+  
+  sweepExpiredBatches: async () => {
+    try {
+      // 状态流转与审计日志在数据库函数内一次完成（离线由 localRpc 模拟）
+      const { data, error } = await supabase.rpc('sweep_batch_expiry')
+      if (error) throw error
+  
+      const swept = (data as MaterialBatch[] | null) || []
+      if (swept.length > 0) {
+        const expiredIds = new Set(swept.map((b) => b.id))
+        set((state) => ({
+          batches: state.batches.map((b) => (expiredIds.has(b.id) ? { ...b, status: 'expired' } : b))
+        }))
+        notify.warning('批次已过期', `${swept.length} 个批次已超过有效期，已自动标记为过期`)
+      }
+      return swept
+    } catch (error) {
+      // 说明：后台扫描失败不打断用户操作，下次扫描会重试
+      console.error('Error sweeping expired batches:', error)
+      return []
+    }
+  },
+  
   getBatchStatistics: async () => {
     try {
       // Total batches
@@ -0,0 +1,134 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { LabelConfigProfile, LabelConfigProfileFormData } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface LabelConfigState {
+  profiles: LabelConfigProfile[]
+  loading: boolean
+  error: string | null
+
+  // 方案数量不多，一次性拉取；config 的版本升级与校验由 utils/labelConfig 负责
+  fetchProfiles: () => Promise<void>
+  createProfile: (data: LabelConfigProfileFormData) => Promise<LabelConfigProfile | null>
+  updateProfile: (id: string, data: Partial<LabelConfigProfileFormData>) => Promise<boolean>
+  deleteProfile: (id: string) => Promise<boolean>
+  // 设为默认方案（id 为 null 时取消默认）
+  setDefaultProfile: (id: string | null) => Promise<boolean>
+}
+
+// 说明：离线模式没有唯一约束，名称重复在前端拦截
+const isNameTaken = (profiles: LabelConfigProfile[], name: string, exceptId?: string) =>
+  profiles.some((p) => p.name === name && p.id !== exceptId)
+
+// 说明：数据库只允许一个默认方案；取消旧默认与写入在同一个数据库函数中完成，失败时整体回滚
+const saveProfile = async (id: string | null, data: Partial<LabelConfigProfileFormData>) => {
+  const { data: saved, error } = await supabase.rpc('save_label_config_profile', { p_id: id, p_data: data })
+  if (error) throw error
+  return saved as LabelConfigProfile
+}
+
+export const useLabelConfigStore = create<LabelConfigState>((set, get) => ({
+  profiles: [],
+  loading: false,
+  error: null,
+
+  fetchProfiles: async () => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('label_config_profiles')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      const rows = ((data as LabelConfigProfile[] | null) || []).map((p) => ({
+        ...p,
+        config_version: Number(p.config_version) || 1,
+        is_default: !!p.is_default
+      }))
+      set({ profiles: rows, loading: false })
+    } catch (error) {
+      console.error('Error fetching label config profiles:', error)
+      set({ error: '获取标签配置方案失败', loading: false })
+      notify.error('获取标签配置方案失败')
+    }
+  },
+
+  createProfile: async (data) => {
+    if (isNameTaken(get().profiles, data.name)) {
+      notify.error('保存配置方案失败', `方案名称“${data.name}”已存在`)
+      return null
+    }
+
+    set({ loading: true, error: null })
+    try {
+      const created = await saveProfile(null, { ...data, is_default: !!data.is_default })
+
+      notify.success('配置方案已保存')
+      await get().fetchProfiles()
+      return get().profiles.find((p) => p.id === created.id) ?? created
+    } catch (error) {
+      console.error('Error creating label config profile:', error)
+      set({ error: '保存配置方案失败', loading: false })
+      notify.error('保存配置方案失败', (error as { message?: string })?.message)
+      return null
+    }
+  },
+
+  updateProfile: async (id, data) => {
+    if (data.name && isNameTaken(get().profiles, data.name, id)) {
+      notify.error('保存配置方案失败', `方案名称“${data.name}”已存在`)
+      return false
+    }
+
+    set({ loading: true, error: null })
+    try {
+      await saveProfile(id, data)
+
+      notify.success('配置方案已保存')
+      await get().fetchProfiles()
+      return true
+    } catch (error) {
+      console.error('Error updating label config profile:', error)
+      set({ error: '保存配置方案失败', loading: false })
+      notify.error('保存配置方案失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  deleteProfile: async (id) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase.from('label_config_profiles').delete().eq('id', id)
+      if (error) throw error
+
+      notify.success('配置方案已删除')
+      await get().fetchProfiles()
+      return true
+    } catch (error) {
+      console.error('Error deleting label config profile:', error)
+      set({ error: '删除配置方案失败', loading: false })
+      notify.error('删除配置方案失败')
+      return false
+    }
+  },
+
+  setDefaultProfile: async (id) => {
+    set({ loading: true, error: null })
+    try {
+      // 取消默认只需改当前默认方案这一行
+      const current = id ?? get().profiles.find((p) => p.is_default)?.id
+      if (current) await saveProfile(current, { is_default: !!id })
+
+      notify.success(id ? '已设为默认方案' : '已取消默认方案')
+      await get().fetchProfiles()
+      return true
+    } catch (error) {
+      console.error('Error setting default label config profile:', error)
+      set({ error: '设置默认方案失败', loading: false })
+      notify.error('设置默认方案失败', (error as { message?: string })?.message)
+      return false
+    }
+  }
+}))
@@ -0,0 +1,85 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { LabelSerial } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface LabelSerialState {
+  // 为一次打印签发 count 个连续序号（按序号排序）；未放行批次需 override（仅 admin/manager）；失败时返回 null
+  issueSerials: (batchId: string, count: number, pattern: string, override?: boolean) => Promise<LabelSerial[] | null>
+  // 批次的签发记录，新签发的在前
+  getBatchSerials: (batchId: string) => Promise<LabelSerial[]>
+  // 批次下一个流水号（仅用于预览，实际序号以签发结果为准）
+  getNextSerialSeq: (batchId: string) => Promise<number>
+  voidSerials: (ids: string[], reason: string) => Promise<boolean>
+}
+
+export const useLabelSerialStore = create<LabelSerialState>(() => ({
+  issueSerials: async (batchId, count, pattern, override = false) => {
+    try {
+      // 说明：流水号在数据库函数内按批次原子递增，多台电脑同时打印同一批次不会签发重复序号
+      const { data, error } = await supabase.rpc('issue_label_serials', {
+        p_batch_id: batchId,
+        p_count: count,
+        p_pattern: pattern,
+        p_override: override
+      })
+
+      if (error) throw error
+      return ((data as LabelSerial[] | null) || []).slice().sort((a, b) => a.seq - b.seq)
+    } catch (error) {
+      console.error('Error issuing label serials:', error)
+      notify.error('签发标签序号失败', (error as { message?: string })?.message)
+      return null
+    }
+  },
+
+  getBatchSerials: async (batchId) => {
+    try {
+      const { data, error } = await supabase
+        .from('label_serials')
+        .select('*')
+        .eq('batch_id', batchId)
+        .order('seq', { ascending: false })
+
+      if (error) throw error
+      return (data as LabelSerial[] | null) || []
+    } catch (error) {
+      console.error('Error fetching label serials:', error)
+      return []
+    }
+  },
+
+  getNextSerialSeq: async (batchId) => {
+    try {
+      const { data, error } = await supabase
+        .from('label_serials')
+        .select('seq')
+        .eq('batch_id', batchId)
+        .order('seq', { ascending: false })
+        .range(0, 0)
+
+      if (error) throw error
+      return (((data as { seq: number }[] | null) || [])[0]?.seq ?? 0) + 1
+    } catch (error) {
+      console.error('Error fetching next label serial:', error)
+      return 1
+    }
+  },
+
+  voidSerials: async (ids, reason) => {
+    try {
+      const { data, error } = await supabase.rpc('void_label_serials', {
+        p_serial_ids: ids,
+        p_reason: reason
+      })
+
+      if (error) throw error
+      notify.success('标签序号已作废', `共作废 ${Number(data) || 0} 个`)
+      return true
+    } catch (error) {
+      console.error('Error voiding label serials:', error)
+      notify.error('作废标签序号失败', (error as { message?: string })?.message)
+      return false
+    }
+  }
+}))
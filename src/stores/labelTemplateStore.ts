@@ -0,0 +1,142 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { LabelTemplate, LabelTemplateDefaults, LabelTemplateFormData } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface LabelTemplateState {
+  templates: LabelTemplate[]
+  // 全局默认（系统设置），物料/供应商未设置默认模板与张数时使用
+  globalDefaults: LabelTemplateDefaults
+  loading: boolean
+  error: string | null
+
+  // 模板数量不多，一次性拉取（含元素），设计器与标签打印共用
+  fetchTemplates: () => Promise<void>
+  createTemplate: (data: LabelTemplateFormData) => Promise<LabelTemplate | null>
+  updateTemplate: (id: string, data: Partial<LabelTemplateFormData>) => Promise<boolean>
+  deleteTemplate: (id: string) => Promise<boolean>
+  fetchGlobalDefaults: () => Promise<void>
+}
+
+// 说明：离线模式没有唯一约束，名称重复在前端拦截
+const isNameTaken = (templates: LabelTemplate[], name: string, exceptId?: string) =>
+  templates.some((t) => t.name === name && t.id !== exceptId)
+
+export const useLabelTemplateStore = create<LabelTemplateState>((set, get) => ({
+  templates: [],
+  globalDefaults: { template_id: null, print_count: 1 },
+  loading: false,
+  error: null,
+
+  fetchTemplates: async () => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('label_templates')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      const rows = ((data as LabelTemplate[] | null) || []).map((t) => ({
+        ...t,
+        width_mm: Number(t.width_mm),
+        height_mm: Number(t.height_mm),
+        elements: Array.isArray(t.elements) ? t.elements : []
+      }))
+      set({ templates: rows, loading: false })
+    } catch (error) {
+      console.error('Error fetching label templates:', error)
+      set({ error: '获取标签模板失败', loading: false })
+      notify.error('获取标签模板失败')
+    }
+  },
+
+  createTemplate: async (data) => {
+    if (isNameTaken(get().templates, data.name)) {
+      notify.error('创建标签模板失败', `模板名称“${data.name}”已存在`)
+      return null
+    }
+
+    set({ loading: true, error: null })
+    try {
+      const { data: created, error } = await supabase
+        .from('label_templates')
+        .insert([{
+          ...data,
+          created_by: (await supabase.auth.getUser()).data.user?.id
+        }])
+        .select()
+        .single()
+
+      if (error) throw error
+
+      notify.success('标签模板已创建')
+      await get().fetchTemplates()
+      return get().templates.find((t) => t.id === (created as LabelTemplate).id) ?? (created as LabelTemplate)
+    } catch (error) {
+      console.error('Error creating label template:', error)
+      set({ error: '创建标签模板失败', loading: false })
+      notify.error('创建标签模板失败', (error as { message?: string })?.message)
+      return null
+    }
+  },
+
+  updateTemplate: async (id, data) => {
+    if (data.name && isNameTaken(get().templates, data.name, id)) {
+      notify.error('保存标签模板失败', `模板名称“${data.name}”已存在`)
+      return false
+    }
+
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('label_templates')
+        .update({ ...data, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+
+      notify.success('标签模板已保存')
+      await get().fetchTemplates()
+      return true
+    } catch (error) {
+      console.error('Error updating label template:', error)
+      set({ error: '保存标签模板失败', loading: false })
+      notify.error('保存标签模板失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  deleteTemplate: async (id) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase.from('label_templates').delete().eq('id', id)
+      if (error) throw error
+
+      notify.success('标签模板已删除')
+      await get().fetchTemplates()
+      return true
+    } catch (error) {
+      console.error('Error deleting label template:', error)
+      set({ error: '删除标签模板失败', loading: false })
+      notify.error('删除标签模板失败')
+      return false
+    }
+  },
+
+  fetchGlobalDefaults: async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_label_defaults')
+      if (error) throw error
+      const defaults = data as Partial<LabelTemplateDefaults> | null
+      set({
+        globalDefaults: {
+          template_id: defaults?.template_id ?? null,
+          print_count: Number(defaults?.print_count) || 1
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching label defaults:', error)
+    }
+  }
+}))
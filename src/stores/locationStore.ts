@@ -0,0 +1,177 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { StorageLocation, StorageLocationFormData } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface LocationState {
+  locations: StorageLocation[]
+  loading: boolean
+  error: string | null
+
+  // 库位数据量不大，一次性拉取全部层级，树形结构由组件组装
+  fetchLocations: () => Promise<void>
+  createLocation: (data: StorageLocationFormData) => Promise<boolean>
+  updateLocation: (id: string, data: Partial<StorageLocationFormData>) => Promise<boolean>
+  deleteLocation: (id: string) => Promise<boolean>
+
+  // 各库位已占用数量（未处置批次的剩余数量之和），location_id -> quantity
+  getBinUsage: () => Promise<Record<string, number>>
+  getLocationPath: (id: string) => string
+}
+
+export const useLocationStore = create<LocationState>((set, get) => ({
+  locations: [],
+  loading: false,
+  error: null,
+
+  fetchLocations: async () => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('storage_locations')
+        .select('*')
+        .order('code', { ascending: true })
+
+      if (error) throw error
+      set({ locations: (data as StorageLocation[] | null) || [], loading: false })
+    } catch (error) {
+      console.error('Error fetching locations:', error)
+      set({ error: '获取库位失败', loading: false })
+      notify.error('获取库位失败')
+    }
+  },
+
+  createLocation: async (data) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('storage_locations')
+        .insert([{
+          ...data,
+          parent_id: data.type === 'warehouse' ? null : data.parent_id,
+          capacity: data.type === 'bin' ? data.capacity ?? null : null,
+          is_blocked: data.is_blocked ?? false,
+          created_by: (await supabase.auth.getUser()).data.user?.id
+        }])
+
+      if (error) throw error
+
+      notify.success('库位创建成功')
+      await get().fetchLocations()
+      return true
+    } catch (error) {
+      console.error('Error creating location:', error)
+      set({ error: '创建库位失败', loading: false })
+      notify.error('创建库位失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  updateLocation: async (id, data) => {
+    set({ loading: true, error: null })
+    try {
+      const previous = get().locations.find((l) => l.id === id)
+      const { error } = await supabase
+        .from('storage_locations')
+        .update({
+          ...data,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', id)
+
+      if (error) throw error
+
+      // 库位编码变更时同步批次上的冗余 location 文本，避免按库位筛选/盘点时对不上
+      if (previous?.type === 'bin' && data.code && data.code !== previous.code) {
+        const { error: syncError } = await supabase
+          .from('material_batches')
+          .update({ location: data.code })
+          .eq('location_id', id)
+        if (syncError) {
+          console.error('Error syncing batch location:', syncError)
+          notify.error('批次库位同步失败', '请在批次列表中检查该库位下的批次')
+        }
+      }
+
+      notify.success('库位更新成功')
+      await get().fetchLocations()
+      return true
+    } catch (error) {
+      console.error('Error updating location:', error)
+      set({ error: '更新库位失败', loading: false })
+      notify.error('更新库位失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  deleteLocation: async (id) => {
+    // 说明：有下级或仍被批次引用时不允许删除（离线模式没有外键约束，这里统一在前端拦截）
+    if (get().locations.some((l) => l.parent_id === id)) {
+      notify.error('删除库位失败', '请先删除下级库区/库位')
+      return false
+    }
+
+    set({ loading: true, error: null })
+    try {
+      const { count, error: countError } = await supabase
+        .from('material_batches')
+        .select('*', { count: 'exact', head: true })
+        .eq('location_id', id)
+
+      if (countError) throw countError
+      if (count) {
+        set({ loading: false })
+        notify.error('删除库位失败', `仍有 ${count} 个批次存放在该库位，可改为冻结`)
+        return false
+      }
+
+      const { error } = await supabase
+        .from('storage_locations')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+
+      notify.success('库位删除成功')
+      await get().fetchLocations()
+      return true
+    } catch (error) {
+      console.error('Error deleting location:', error)
+      set({ error: '删除库位失败', loading: false })
+      notify.error('删除库位失败')
+      return false
+    }
+  },
+
+  getBinUsage: async () => {
+    try {
+      const { data, error } = await supabase
+        .from('material_batches')
+        .select('location_id, remaining_quantity, status')
+
+      if (error) throw error
+      const usage: Record<string, number> = {}
+      ;((data as { location_id?: string | null; remaining_quantity: number; status: string }[] | null) || [])
+        .filter((b) => b.location_id && b.status !== 'disposed')
+        .forEach((b) => {
+          usage[b.location_id!] = (usage[b.location_id!] || 0) + (Number(b.remaining_quantity) || 0)
+        })
+      return usage
+    } catch (error) {
+      console.error('Error fetching bin usage:', error)
+      return {}
+    }
+  },
+
+  getLocationPath: (id) => {
+    const { locations } = get()
+    const names: string[] = []
+    let node = locations.find((l) => l.id === id)
+    while (node) {
+      names.unshift(node.name)
+      const parentId = node.parent_id
+      node = parentId ? locations.find((l) => l.id === parentId) : undefined
+    }
+    return names.join(' / ')
+  }
+}))
@@ -0,0 +1,154 @@
+﻿import { create } from 'zustand'
+import { escapeLikePattern, supabase } from '@/lib/supabase'
+import { MaterialCode, MaterialCodeFormData } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface MaterialCodeState {
+  // 当前物料详情页的编码
+  codes: MaterialCode[]
+  // 全部物料的编码（物料下拉按多编码搜索用），material_id -> 编码
+  codesByMaterial: Record<string, MaterialCode[]>
+  loading: boolean
+  error: string | null
+
+  fetchCodes: (materialId: string) => Promise<void>
+  fetchAllCodes: () => Promise<void>
+  createCode: (data: MaterialCodeFormData) => Promise<boolean>
+  updateCode: (id: string, data: Partial<MaterialCodeFormData>) => Promise<boolean>
+  deleteCode: (id: string) => Promise<boolean>
+
+  // 编码已被其他物料使用（主编码或多编码）时返回占用方的描述，用于表单校验
+  findConflict: (code: string, materialId: string) => Promise<string | null>
+}
+
+// 主编码排最前，其余按类型、编码排序
+const sortCodes = (codes: MaterialCode[]) =>
+  [...codes].sort((a, b) =>
+    a.is_primary !== b.is_primary
+      ? (a.is_primary ? -1 : 1)
+      : a.code_type.localeCompare(b.code_type) || a.code.localeCompare(b.code)
+  )
+
+export const useMaterialCodeStore = create<MaterialCodeState>((set, get) => {
+  // 说明：每个物料只能有一个主编码（数据库有部分唯一索引）；切换主编码与写入在同一个数据库函数中完成，失败时整体回滚
+  const saveCode = async (id: string | null, data: Partial<MaterialCodeFormData>) => {
+    const { error } = await supabase.rpc('save_material_code', {
+      p_id: id,
+      p_data: data.code !== undefined ? { ...data, code: data.code.trim() } : data
+    })
+    if (error) throw error
+  }
+
+  return {
+    codes: [],
+    codesByMaterial: {},
+    loading: false,
+    error: null,
+
+    fetchCodes: async (materialId) => {
+      set({ loading: true, error: null })
+      try {
+        const { data, error } = await supabase
+          .from('material_codes')
+          .select('*')
+          .eq('material_id', materialId)
+
+        if (error) throw error
+        set({ codes: sortCodes((data as MaterialCode[] | null) || []), loading: false })
+      } catch (error) {
+        console.error('Error fetching material codes:', error)
+        set({ error: '获取物料编码失败', loading: false })
+        notify.error('获取物料编码失败')
+      }
+    },
+
+    fetchAllCodes: async () => {
+      try {
+        const { data, error } = await supabase.from('material_codes').select('*')
+        if (error) throw error
+        const codesByMaterial: Record<string, MaterialCode[]> = {}
+        ;((data as MaterialCode[] | null) || []).forEach((c) => {
+          codesByMaterial[c.material_id] = [...(codesByMaterial[c.material_id] || []), c]
+        })
+        Object.keys(codesByMaterial).forEach((id) => {
+          codesByMaterial[id] = sortCodes(codesByMaterial[id])
+        })
+        set({ codesByMaterial })
+      } catch (error) {
+        console.error('Error fetching all material codes:', error)
+      }
+    },
+
+    createCode: async (data) => {
+      set({ loading: true, error: null })
+      try {
+        await saveCode(null, data)
+
+        notify.success('物料编码已添加')
+        await get().fetchCodes(data.material_id)
+        return true
+      } catch (error) {
+        console.error('Error creating material code:', error)
+        set({ error: '添加物料编码失败', loading: false })
+        notify.error('添加物料编码失败', (error as { message?: string })?.message)
+        return false
+      }
+    },
+
+    updateCode: async (id, data) => {
+      set({ loading: true, error: null })
+      try {
+        const previous = get().codes.find((c) => c.id === id)
+        const materialId = data.material_id ?? previous?.material_id
+        await saveCode(id, data)
+
+        notify.success('物料编码已更新')
+        if (materialId) await get().fetchCodes(materialId)
+        return true
+      } catch (error) {
+        console.error('Error updating material code:', error)
+        set({ error: '更新物料编码失败', loading: false })
+        notify.error('更新物料编码失败', (error as { message?: string })?.message)
+        return false
+      }
+    },
+
+    deleteCode: async (id) => {
+      set({ loading: true, error: null })
+      try {
+        const previous = get().codes.find((c) => c.id === id)
+        const { error } = await supabase.from('material_codes').delete().eq('id', id)
+        if (error) throw error
+
+        notify.success('物料编码已删除')
+        if (previous) await get().fetchCodes(previous.material_id)
+        else set({ loading: false })
+        return true
+      } catch (error) {
+        console.error('Error deleting material code:', error)
+        set({ error: '删除物料编码失败', loading: false })
+        notify.error('删除物料编码失败')
+        return false
+      }
+    },
+
+    findConflict: async (code, materialId) => {
+      const value = code.trim()
+      const { data: materials, error } = await supabase
+        .from('materials')
+        .select('id, code, name')
+        .eq('code', value)
+      if (error) throw error
+      const owner = ((materials as { id: string; code: string; name: string }[] | null) || []).find((m) => m.id !== materialId)
+      if (owner) return `物料 ${owner.code}（${owner.name}）的编码`
+
+      const { data: codes, error: codeError } = await supabase
+        .from('material_codes')
+        .select('*, material:materials!material_id(id, code, name)')
+        .ilike('code', escapeLikePattern(value))
+      if (codeError) throw codeError
+      const other = ((codes as MaterialCode[] | null) || []).find((c) => c.material_id !== materialId)
+      return other ? `物料 ${other.material?.code ?? ''}（${other.material?.name ?? '-'}）的多编码` : null
+    }
+  }
+})
@@ -1,15 +1,23 @@
 ﻿import { create } from 'zustand';
-import { supabase } from '../lib/supabase';
+import { escapeLikePattern, fetchAllRows, supabase } from '../lib/supabase';
 import type {
   Material,
   MaterialFormData,
   MaterialQueryParams,
   MaterialCategory,
+  MaterialCategoryFormData,
   Unit,
+  UnitFormData,
   Supplier,
   MaterialStats,
+  StockDiscrepancy,
 } from '../types/database';
 import { errorHandler, reportError } from '../lib/errorHandler';
+import { notify } from '../lib/notify';
+import { getCategoryDescendantIds, wouldCreateCycle } from '../utils/categoryTree';
+
+// 搜索时按多编码命中的物料最多并入的条数（id 列表拼在 URL 中，UUID 约 37 字符/个）
+const MAX_CODE_MATCH_MATERIALS = 100;
 
 interface MaterialState {
   materials: Material[];
@@ -30,6 +38,19 @@ interface MaterialState {
   fetchSuppliers: () => Promise<void>;
   fetchStats: () => Promise<void>;
 
+  // 库存对账：比较 current_stock 与可用批次剩余数量之和；apply=true 时同时修正差异
+  reconcileStock: (apply?: boolean) => Promise<StockDiscrepancy[] | null>;
+
+  // 分类维护（层级由 parent_id 表示；不允许形成环，有下级或被物料引用时不允许删除）
+  createCategory: (data: MaterialCategoryFormData) => Promise<boolean>;
+  updateCategory: (id: string, data: Partial<MaterialCategoryFormData>) => Promise<boolean>;
+  deleteCategory: (id: string) => Promise<boolean>;
+
+  // 计量单位维护（被物料/包装单位引用或作为其他单位的基准时不允许删除）
+  createUnit: (data: UnitFormData) => Promise<boolean>;
+  updateUnit: (id: string, data: Partial<UnitFormData>) => Promise<boolean>;
+  deleteUnit: (id: string) => Promise<boolean>;
+
   // CRUD
   createMaterial: (data: MaterialFormData) => Promise<Material | null>;
   updateMaterial: (id: string, data: Partial<MaterialFormData>) => Promise<Material | null>;
@@ -43,6 +64,8 @@ interface MaterialState {
   // 辅助
   getMaterialById: (id: string) => Material | undefined;
   getMaterialByCode: (code: string) => Material | undefined;
+  // 不分页拉取全部物料（仅返回数据，不修改列表状态；用于统计/概览）
+  getAllMaterials: () => Promise<Material[]>;
   clearError: () => void;
 }
 
@@ -76,14 +99,36 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
 
       // 搜索条件
       if (params.search) {
-        query = query.or(
-          `name.ilike.%${params.search}%,code.ilike.%${params.search}%,specification.ilike.%${params.search}%`,
+        const conditions = [
+          `name.ilike.%${params.search}%`,
+          `code.ilike.%${params.search}%`,
+          `specification.ilike.%${params.search}%`,
+        ];
+        // 说明：同时匹配物料的多编码（供应商/客户/条码等），命中的物料按 id 并入搜索条件；
+        // id 列表拼在请求 URL 中，只取前 MAX_CODE_MATCH_MATERIALS 条命中，避免搜索词过短时 URL 超长
+        const { data: codeRows, error: codeError } = await supabase
+          .from('material_codes')
+          .select('material_id')
+          .ilike('code', `%${escapeLikePattern(params.search)}%`)
+          .order('material_id')
+          .range(0, MAX_CODE_MATCH_MATERIALS - 1);
+        if (codeError) throw codeError;
+        const codeMaterialIds = Array.from(
+          new Set(((codeRows as { material_id: string }[] | null) || []).map((r) => r.material_id)),
         );
+        if (codeMaterialIds.length > 0) {
+          conditions.push(`id.in.(${codeMaterialIds.join(',')})`);
+        }
+        query = query.or(conditions.join(','));
       }
 
-      // 分类筛选
+      // 分类筛选：包含全部下级分类
       if (params.category_id) {
-        query = query.eq('category_id', params.category_id);
+        const categoryIds = getCategoryDescendantIds(get().categories, params.category_id);
+        query =
+          categoryIds.length > 1
+            ? query.or(`category_id.in.(${categoryIds.join(',')})`)
+            : query.eq('category_id', params.category_id);
       }
 
       // 状态筛选
@@ -141,6 +186,93 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
     }
   },
 
+  createCategory: async (data: MaterialCategoryFormData) => {
+    try {
+      const { data: authData } = await supabase.auth.getUser();
+      const userId = authData?.user?.id;
+
+      const { error } = await supabase.from('material_categories').insert([
+        {
+          ...data,
+          parent_id: data.parent_id || null,
+          created_by: userId,
+          updated_by: userId,
+        },
+      ]);
+      if (error) throw error;
+
+      notify.success('分类已创建');
+      await get().fetchCategories();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.createCategory', { data });
+      notify.error('创建分类失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
+  updateCategory: async (id: string, data: Partial<MaterialCategoryFormData>) => {
+    // 说明：离线模式没有数据库触发器兜底，这里先按已加载的分类树拦截
+    if (data.parent_id !== undefined && wouldCreateCycle(get().categories, id, data.parent_id)) {
+      notify.error('调整分类失败', '不能把分类移动到它自己或它的下级分类下');
+      return false;
+    }
+
+    try {
+      const { data: authData } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('material_categories')
+        .update({
+          ...data,
+          ...(data.parent_id !== undefined ? { parent_id: data.parent_id || null } : {}),
+          updated_by: authData?.user?.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+      if (error) throw error;
+
+      notify.success('分类已更新');
+      await get().fetchCategories();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.updateCategory', { id, data });
+      notify.error('更新分类失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
+  deleteCategory: async (id: string) => {
+    const childCount = get().categories.filter((c) => c.parent_id === id).length;
+    if (childCount > 0) {
+      notify.error('删除分类失败', `还有 ${childCount} 个下级分类，请先移走或删除`);
+      return false;
+    }
+
+    try {
+      const { count, error: countError } = await supabase
+        .from('materials')
+        .select('*', { count: 'exact', head: true })
+        .eq('category_id', id);
+      if (countError) throw countError;
+      if (count) {
+        notify.error('删除分类失败', `仍有 ${count} 个物料使用该分类，请先调整这些物料的分类`);
+        return false;
+      }
+
+      const { error } = await supabase.from('material_categories').delete().eq('id', id);
+      if (error) throw error;
+
+      notify.success('分类已删除');
+      await get().fetchCategories();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.deleteCategory', { id });
+      notify.error('删除分类失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
   fetchUnits: async () => {
     set({ loading: true, error: null });
 
@@ -156,6 +288,102 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
     }
   },
 
+  createUnit: async (data: UnitFormData) => {
+    try {
+      const { data: authData } = await supabase.auth.getUser();
+      const userId = authData?.user?.id;
+
+      const { error } = await supabase.from('units').insert([
+        {
+          ...data,
+          base_unit: data.base_unit || null,
+          created_by: userId,
+          updated_by: userId,
+        },
+      ]);
+      if (error) throw error;
+
+      notify.success('单位已创建');
+      await get().fetchUnits();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.createUnit', { data });
+      notify.error('创建单位失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
+  updateUnit: async (id: string, data: Partial<UnitFormData>) => {
+    try {
+      const previous = get().units.find((u) => u.id === id);
+      const { data: authData } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('units')
+        .update({
+          ...data,
+          ...(data.base_unit !== undefined ? { base_unit: data.base_unit || null } : {}),
+          updated_by: authData?.user?.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id);
+      if (error) throw error;
+
+      // 说明：base_unit 按编码引用，基准单位改编码时同步其下的换算单位
+      if (previous && data.code && data.code !== previous.code) {
+        for (const unit of get().units.filter((u) => u.base_unit === previous.code)) {
+          const { error: syncError } = await supabase.from('units').update({ base_unit: data.code }).eq('id', unit.id);
+          if (syncError) throw syncError;
+        }
+      }
+
+      notify.success('单位已更新');
+      await get().fetchUnits();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.updateUnit', { id, data });
+      notify.error('更新单位失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
+  deleteUnit: async (id: string) => {
+    const unit = get().units.find((u) => u.id === id);
+    const dependents = unit ? get().units.filter((u) => u.base_unit === unit.code).length : 0;
+    if (dependents > 0) {
+      notify.error('删除单位失败', `还有 ${dependents} 个单位以它为基准单位`);
+      return false;
+    }
+
+    try {
+      for (const [table, label] of [
+        ['materials', '物料'],
+        ['material_units', '物料包装单位'],
+      ] as const) {
+        const { count, error: countError } = await supabase
+          .from(table)
+          .select('*', { count: 'exact', head: true })
+          .eq('unit_id', id);
+        if (countError) throw countError;
+        if (count) {
+          notify.error('删除单位失败', `仍有 ${count} 个${label}使用该单位`);
+          return false;
+        }
+      }
+
+      const { error } = await supabase.from('units').delete().eq('id', id);
+      if (error) throw error;
+
+      notify.success('单位已删除');
+      await get().fetchUnits();
+      return true;
+    } catch (err) {
+      reportError(err, 'material.deleteUnit', { id });
+      notify.error('删除单位失败', errorHandler.getUserMessage(errorHandler.handle(err)));
+      return false;
+    }
+  },
+
   fetchSuppliers: async () => {
     // 备注：目前物料表单未使用 supplier，但保留该能力便于后续扩展
     set({ loading: true, error: null });
@@ -210,6 +438,61 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
     }
   },
 
+  reconcileStock: async (apply = false) => {
+    try {
+      const { data: materials, error: materialsError } = await supabase
+        .from('materials')
+        .select('id, code, name, current_stock');
+      if (materialsError) throw materialsError;
+
+      const { data: batches, error: batchesError } = await supabase
+        .from('material_batches')
+        .select('material_id, remaining_quantity, status')
+        .eq('status', 'available');
+      if (batchesError) throw batchesError;
+
+      const actualByMaterial = new Map<string, number>();
+      ((batches || []) as Array<{ material_id: string; remaining_quantity?: number }>).forEach((b) => {
+        actualByMaterial.set(b.material_id, (actualByMaterial.get(b.material_id) ?? 0) + (Number(b.remaining_quantity) || 0));
+      });
+
+      const discrepancies: StockDiscrepancy[] = [];
+      ((materials || []) as Array<Pick<Material, 'id' | 'code' | 'name' | 'current_stock'>>).forEach((m) => {
+        const recorded = Number(m.current_stock) || 0;
+        const actual = actualByMaterial.get(m.id) ?? 0;
+        // 说明：DECIMAL(10,2) 精度下比较，避免浮点误差误报
+        if (Math.abs(recorded - actual) < 0.005) return;
+        discrepancies.push({
+          material_id: m.id,
+          code: m.code,
+          name: m.name,
+          recorded_stock: recorded,
+          actual_stock: actual,
+          difference: actual - recorded,
+        });
+      });
+
+      if (apply && discrepancies.length > 0) {
+        for (const d of discrepancies) {
+          const { error } = await supabase
+            .from('materials')
+            .update({ current_stock: d.actual_stock })
+            .eq('id', d.material_id);
+          if (error) throw error;
+        }
+        await get().fetchMaterials({ page: get().currentPage });
+        await get().fetchStats();
+      }
+
+      return discrepancies;
+    } catch (err) {
+      const appError = errorHandler.handle(err, apply ? '库存校准失败' : '库存对账失败');
+      reportError(err, 'material.reconcileStock', { apply });
+      set({ error: errorHandler.getUserMessage(appError) });
+      return null;
+    }
+  },
+
   createMaterial: async (data: MaterialFormData) => {
     set({ loading: true, error: null });
 
@@ -293,6 +576,17 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
+      // 说明：仍作为 BOM 组件使用时不允许删除（数据库外键为 RESTRICT，离线模式在这里拦截）
+      const { count: bomCount, error: bomError } = await supabase
+        .from('bom_items')
+        .select('*', { count: 'exact', head: true })
+        .eq('component_material_id', id);
+      if (bomError) throw bomError;
+      if (bomCount) {
+        set({ error: `该物料仍是 ${bomCount} 个成品的 BOM 组件，请先从物料清单中移除`, loading: false });
+        return false;
+      }
+
       const { error } = await supabase.from('materials').delete().eq('id', id);
       if (error) throw error;
 
@@ -325,6 +619,19 @@ export const useMaterialStore = create<MaterialState>((set, get) => ({
   getMaterialById: (id: string) => get().materials.find((m) => m.id === id),
   getMaterialByCode: (code: string) => get().materials.find((m) => m.code === code),
 
+  getAllMaterials: async () => {
+    try {
+      // 物料编码唯一，按编码排序即可稳定分页
+      return await fetchAllRows<Material>(() => supabase
+        .from('materials')
+        .select('*, unit_obj:units(id, code, name, symbol), category:material_categories(id, code, name)')
+        .order('code'));
+    } catch (err) {
+      reportError(err, 'material.getAllMaterials');
+      return [];
+    }
+  },
+
   clearError: () => {
     set({ error: null });
   },
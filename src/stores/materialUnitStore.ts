@@ -0,0 +1,103 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import { MaterialUnit, MaterialUnitFormData } from '@/types/database'
+import { notify } from '@/lib/notify'
+
+interface MaterialUnitState {
+  // material_id -> 包装单位；出入库录入时按物料懒加载
+  unitsByMaterial: Record<string, MaterialUnit[]>
+  loading: boolean
+  error: string | null
+
+  fetchMaterialUnits: (materialId: string) => Promise<MaterialUnit[]>
+  createMaterialUnit: (data: MaterialUnitFormData) => Promise<boolean>
+  updateMaterialUnit: (id: string, data: MaterialUnitFormData) => Promise<boolean>
+  deleteMaterialUnit: (unit: MaterialUnit) => Promise<boolean>
+}
+
+export const useMaterialUnitStore = create<MaterialUnitState>((set, get) => ({
+  unitsByMaterial: {},
+  loading: false,
+  error: null,
+
+  fetchMaterialUnits: async (materialId) => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('material_units')
+        .select('*, unit:units!unit_id(*)')
+        .eq('material_id', materialId)
+        .order('conversion_factor', { ascending: true })
+
+      if (error) throw error
+      const rows = (data as MaterialUnit[] | null) || []
+      set((state) => ({ unitsByMaterial: { ...state.unitsByMaterial, [materialId]: rows }, loading: false }))
+      return rows
+    } catch (error) {
+      console.error('Error fetching material units:', error)
+      set({ error: '获取包装单位失败', loading: false })
+      return []
+    }
+  },
+
+  createMaterialUnit: async (data) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('material_units')
+        .insert([{
+          ...data,
+          created_by: (await supabase.auth.getUser()).data.user?.id
+        }])
+
+      if (error) throw error
+
+      notify.success('包装单位已添加')
+      await get().fetchMaterialUnits(data.material_id)
+      return true
+    } catch (error) {
+      console.error('Error creating material unit:', error)
+      set({ error: '添加包装单位失败', loading: false })
+      notify.error('添加包装单位失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  updateMaterialUnit: async (id, data) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('material_units')
+        .update({ ...data, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+
+      notify.success('包装单位已更新')
+      await get().fetchMaterialUnits(data.material_id)
+      return true
+    } catch (error) {
+      console.error('Error updating material unit:', error)
+      set({ error: '更新包装单位失败', loading: false })
+      notify.error('更新包装单位失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  deleteMaterialUnit: async (unit) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase.from('material_units').delete().eq('id', unit.id)
+      if (error) throw error
+
+      notify.success('包装单位已删除')
+      await get().fetchMaterialUnits(unit.material_id)
+      return true
+    } catch (error) {
+      console.error('Error deleting material unit:', error)
+      set({ error: '删除包装单位失败', loading: false })
+      notify.error('删除包装单位失败')
+      return false
+    }
+  }
+}))
@@ -0,0 +1,179 @@
+﻿import { create } from 'zustand'
+import { supabase } from '@/lib/supabase'
+import {
+  BomItem,
+  BomItemFormData,
+  ProductionOrder,
+  ProductionOrderFormData,
+  ProductionOrderInput
+} from '@/types/database'
+import { notify } from '@/lib/notify'
+import { roundQuantity } from '@/utils/unitConversion'
+
+interface ProductionState {
+  // parent_material_id -> BOM 行；按成品懒加载
+  bomByMaterial: Record<string, BomItem[]>
+  orders: ProductionOrder[]
+  loading: boolean
+  error: string | null
+
+  fetchBom: (materialId: string) => Promise<BomItem[]>
+  createBomItem: (data: BomItemFormData) => Promise<boolean>
+  updateBomItem: (id: string, data: BomItemFormData) => Promise<boolean>
+  deleteBomItem: (item: BomItem) => Promise<boolean>
+
+  fetchOrders: () => Promise<void>
+  getOrderInputs: (orderId: string) => Promise<ProductionOrderInput[]>
+  // 投料出库 + 成品入库在数据库函数内一次提交（离线由 localRpc 模拟）；成功返回生产单
+  postProductionOrder: (data: ProductionOrderFormData) => Promise<ProductionOrder | null>
+}
+
+// 生产 quantity 个成品时该组件的需求量（含损耗）
+export const getBomRequirement = (item: Pick<BomItem, 'quantity' | 'scrap_rate'>, quantity: number) =>
+  roundQuantity((quantity || 0) * Number(item.quantity) * (1 + (Number(item.scrap_rate) || 0) / 100))
+
+export const useProductionStore = create<ProductionState>((set, get) => ({
+  bomByMaterial: {},
+  orders: [],
+  loading: false,
+  error: null,
+
+  fetchBom: async (materialId) => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('bom_items')
+        .select('*, component:materials!component_material_id(*, unit_obj:units(id, code, name, symbol))')
+        .eq('parent_material_id', materialId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      const rows = (data as BomItem[] | null) || []
+      set((state) => ({ bomByMaterial: { ...state.bomByMaterial, [materialId]: rows }, loading: false }))
+      return rows
+    } catch (error) {
+      console.error('Error fetching BOM:', error)
+      set({ error: '获取物料清单失败', loading: false })
+      return []
+    }
+  },
+
+  createBomItem: async (data) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('bom_items')
+        .insert([{
+          ...data,
+          created_by: (await supabase.auth.getUser()).data.user?.id
+        }])
+
+      if (error) throw error
+
+      notify.success('组件已添加')
+      await get().fetchBom(data.parent_material_id)
+      return true
+    } catch (error) {
+      console.error('Error creating BOM item:', error)
+      set({ error: '添加组件失败', loading: false })
+      notify.error('添加组件失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  updateBomItem: async (id, data) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase
+        .from('bom_items')
+        .update({ ...data, updated_at: new Date().toISOString() })
+        .eq('id', id)
+
+      if (error) throw error
+
+      notify.success('组件已更新')
+      await get().fetchBom(data.parent_material_id)
+      return true
+    } catch (error) {
+      console.error('Error updating BOM item:', error)
+      set({ error: '更新组件失败', loading: false })
+      notify.error('更新组件失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  deleteBomItem: async (item) => {
+    set({ loading: true, error: null })
+    try {
+      const { error } = await supabase.from('bom_items').delete().eq('id', item.id)
+      if (error) throw error
+
+      notify.success('组件已移除')
+      await get().fetchBom(item.parent_material_id)
+      return true
+    } catch (error) {
+      console.error('Error deleting BOM item:', error)
+      set({ error: '移除组件失败', loading: false })
+      notify.error('移除组件失败')
+      return false
+    }
+  },
+
+  fetchOrders: async () => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('production_orders')
+        .select('*, material:materials!material_id(id, code, name, unit_obj:units(id, code, name, symbol))')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      set({ orders: (data as ProductionOrder[] | null) || [], loading: false })
+    } catch (error) {
+      console.error('Error fetching production orders:', error)
+      set({ error: '获取生产单失败', loading: false })
+    }
+  },
+
+  getOrderInputs: async (orderId) => {
+    try {
+      const { data, error } = await supabase
+        .from('production_order_inputs')
+        .select('*, material:materials!material_id(id, code, name, unit_obj:units(id, code, name, symbol))')
+        .eq('order_id', orderId)
+
+      if (error) throw error
+      return (data as ProductionOrderInput[] | null) || []
+    } catch (error) {
+      console.error('Error fetching production order inputs:', error)
+      return []
+    }
+  },
+
+  postProductionOrder: async (data) => {
+    set({ loading: true, error: null })
+    try {
+      const { data: order, error } = await supabase.rpc('post_production_order', {
+        p_material_id: data.material_id,
+        p_quantity: data.quantity,
+        p_inputs: data.inputs.filter((i) => i.quantity > 0),
+        p_production_date: data.production_date || null,
+        p_expiry_date: data.expiry_date || null,
+        p_location_id: data.location_id || null,
+        p_remarks: data.remarks || null,
+      })
+
+      if (error) throw error
+
+      const created = order as ProductionOrder
+      notify.success('生产入库成功', `成品批次 ${created.batch_number}`)
+      await get().fetchOrders()
+      return created
+    } catch (error) {
+      console.error('Error posting production order:', error)
+      set({ error: '生产入库失败', loading: false })
+      notify.error('生产入库失败', (error as { message?: string })?.message)
+      return null
+    }
+  }
+}))
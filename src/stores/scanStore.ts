@@ -0,0 +1,168 @@
+﻿import { create } from 'zustand'
+import { escapeLikePattern, supabase } from '@/lib/supabase'
+import { Barcode, Gs1Element, Material, MaterialBatch, MaterialCode } from '@/types/database'
+import { notify } from '@/lib/notify'
+import { useBarcodeStore } from '@/stores/barcodeStore'
+import { useMaterialStore } from '@/stores/materialStore'
+import { LabelPayload } from '@/utils/labelPayload'
+import { normalizeGtin, parseGs1ElementString, parseGs1HumanReadable } from '@/utils/gs1'
+
+const SCANNER_MODE_KEY = 'scannerMode'
+
+// 扫码解析结果：同一个码可能同时命中物料、批次和台账条码，全部列出由操作员选择
+export interface ScanResolution {
+  code: string
+  label?: LabelPayload | null
+  materials: Material[]
+  // 命中的物料多编码（用于提示扫到的是哪个替代编码）
+  materialCodes?: MaterialCode[]
+  batches: MaterialBatch[]
+  barcodes: Barcode[]
+}
+
+// 页面级扫码处理：返回 true 表示已处理（如盘点表定位到行），不再弹出全局扫码结果
+export type ScanHandler = (code: string) => boolean
+
+// 说明：后注册的处理器优先（打开的弹窗/子页面覆盖外层页面）
+const handlers: ScanHandler[] = []
+
+const uniqueById = <T extends { id: string }>(rows: T[]) =>
+  rows.filter((row, index) => rows.findIndex((r) => r.id === row.id) === index)
+
+// GS1 中的 GTIN 固定 14 位，物料上可能存的是 8/12/13 位，逐个长度尝试
+const gtinCandidates = (gtin14: string) =>
+  [14, 13, 12, 8].map((n) => gtin14.slice(14 - n)).filter((c) => c.padStart(14, '0') === gtin14)
+
+const findMaterials = async (field: 'code' | 'gtin', values: string[]) => {
+  const found: Material[] = []
+  for (const value of values) {
+    const { data, error } = await supabase.from('materials').select('*').eq(field, value)
+    if (error) throw error
+    found.push(...((data as Material[] | null) || []))
+  }
+  return found
+}
+
+const findBatches = async (batchNumber: string, materialIds?: string[]) => {
+  const { data, error } = await supabase
+    .from('material_batches')
+    .select('*, material:materials!material_id(id, code, name)')
+    .eq('batch_number', batchNumber)
+  if (error) throw error
+  const rows = (data as MaterialBatch[] | null) || []
+  return materialIds ? rows.filter((b) => materialIds.includes(b.material_id)) : rows
+}
+
+interface ScanState {
+  // 扫码枪模式：开启后全局监听扫码枪输入（按键间隔区分扫码与手工输入）
+  enabled: boolean
+  resolving: boolean
+  result: ScanResolution | null
+
+  setEnabled: (enabled: boolean) => void
+  handleScan: (code: string) => Promise<void>
+  resolveCode: (code: string) => Promise<ScanResolution>
+  clearResult: () => void
+  // 注册页面级处理器，返回注销函数
+  pushHandler: (handler: ScanHandler) => () => void
+}
+
+export const useScanStore = create<ScanState>((set, get) => ({
+  enabled: localStorage.getItem(SCANNER_MODE_KEY) === 'on',
+  resolving: false,
+  result: null,
+
+  setEnabled: (enabled) => {
+    localStorage.setItem(SCANNER_MODE_KEY, enabled ? 'on' : 'off')
+    set({ enabled })
+  },
+
+  handleScan: async (code) => {
+    for (let i = handlers.length - 1; i >= 0; i--) {
+      if (handlers[i](code)) return
+    }
+
+    set({ resolving: true })
+    try {
+      const result = await get().resolveCode(code)
+      const matched = result.materials.length + result.batches.length + result.barcodes.length
+      if (!matched && !result.label) {
+        notify.error('未识别的条码', `“${code}”不是系统中的物料、批次或已登记条码`)
+        set({ resolving: false })
+        return
+      }
+      set({ result, resolving: false })
+    } catch (error) {
+      console.error('Error resolving scanned code:', error)
+      set({ resolving: false })
+      notify.error('扫码解析失败', (error as { message?: string })?.message)
+    }
+  },
+
+  resolveCode: async (code) => {
+    const result: ScanResolution = { code, materials: [], batches: [], barcodes: [] }
+
+    // 1) 结构化标签码：精确到批次与这张标签
+    const label = await useBarcodeStore.getState().resolveLabelScan(code)
+    if (label) {
+      result.label = label.payload
+      if (label.batch) result.batches.push(label.batch)
+      if (label.barcode) result.barcodes.push(label.barcode)
+      return result
+    }
+
+    // 2) GS1 元素串（人工识读格式或扫码枪原始输出）：GTIN 找物料，(10) 批号找批次
+    const gs1: Gs1Element[] = code.startsWith('(') ? parseGs1HumanReadable(code) : parseGs1ElementString(code)
+    const gtin = gs1.find((e) => e.ai === '01' || e.ai === '02')?.value
+    if (gtin) {
+      const materials = await findMaterials('gtin', gtinCandidates(gtin))
+      const lot = gs1.find((e) => e.ai === '10')?.value
+      result.materials.push(...materials)
+      if (lot && materials.length) result.batches.push(...(await findBatches(lot, materials.map((m) => m.id))))
+    }
+
+    // 3) 物料编码 / 物料多编码（忽略大小写） / 物料 GTIN
+    const loaded = useMaterialStore.getState().getMaterialByCode(code)
+    result.materials.push(...(loaded ? [loaded] : await findMaterials('code', [code])))
+    const { data: altCodes, error: altError } = await supabase
+      .from('material_codes')
+      .select('*, material:materials!material_id(*)')
+      .ilike('code', escapeLikePattern(code))
+    if (altError) throw altError
+    result.materialCodes = (altCodes as MaterialCode[] | null) || []
+    result.materialCodes.forEach((c) => {
+      if (c.material) result.materials.push(c.material)
+    })
+    const gtinCheck = normalizeGtin(code)
+    if (gtinCheck.valid) result.materials.push(...(await findMaterials('gtin', gtinCandidates(gtinCheck.value))))
+
+    // 4) 批次号
+    result.batches.push(...(await findBatches(code)))
+
+    // 5) 台账中登记的条码（自定义内容的码也能找回所属物料/批次）
+    const { data: codes, error: codeError } = await supabase
+      .from('barcodes')
+      .select(`
+        *,
+        material:materials!material_id(id, code, name),
+        batch:material_batches!batch_id(id, batch_number, status)
+      `)
+      .eq('barcode', code)
+    if (codeError) throw codeError
+    result.barcodes.push(...((codes as Barcode[] | null) || []))
+
+    result.materials = uniqueById(result.materials)
+    result.batches = uniqueById(result.batches)
+    return result
+  },
+
+  clearResult: () => set({ result: null }),
+
+  pushHandler: (handler) => {
+    handlers.push(handler)
+    return () => {
+      const index = handlers.lastIndexOf(handler)
+      if (index >= 0) handlers.splice(index, 1)
+    }
+  }
+}))
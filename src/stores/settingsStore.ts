@@ -2,6 +2,7 @@
 import { supabase } from '../lib/supabase';
 import type { SystemSettings, SystemSettingsFormData } from '../types/database';
 import { errorHandler, reportError } from '../lib/errorHandler';
+import { DEFAULT_BATCH_NUMBER_PATTERN, DEFAULT_BATCH_NUMBER_RESET } from '../utils/batchNumberPattern';
 
 interface SettingsState {
   settings: SystemSettings | null;
@@ -43,6 +44,7 @@ const flattenFormData = (formData: SystemSettingsFormData): Partial<SystemSettin
     if (formData.notifications.low_stock_alerts !== undefined) result.low_stock_alerts = formData.notifications.low_stock_alerts;
     if (formData.notifications.system_maintenance !== undefined) result.system_maintenance = formData.notifications.system_maintenance;
     if (formData.notifications.user_activities !== undefined) result.user_activities = formData.notifications.user_activities;
+    if (formData.notifications.near_expiry_days !== undefined) result.near_expiry_days = formData.notifications.near_expiry_days;
   }
 
   if (formData.system) {
@@ -50,6 +52,10 @@ const flattenFormData = (formData: SystemSettingsFormData): Partial<SystemSettin
     if (formData.system.backup_frequency !== undefined) result.backup_frequency = formData.system.backup_frequency;
     if (formData.system.data_retention_days !== undefined) result.data_retention_days = formData.system.data_retention_days;
     if (formData.system.maintenance_mode !== undefined) result.maintenance_mode = formData.system.maintenance_mode;
+    if (formData.system.batch_number_pattern !== undefined) result.batch_number_pattern = formData.system.batch_number_pattern;
+    if (formData.system.batch_number_reset !== undefined) result.batch_number_reset = formData.system.batch_number_reset;
+    if (formData.system.default_label_template_id !== undefined) result.default_label_template_id = formData.system.default_label_template_id;
+    if (formData.system.default_label_print_count !== undefined) result.default_label_print_count = formData.system.default_label_print_count;
   }
 
   return result;
@@ -76,12 +82,17 @@ const unflattenSettings = (settings: SystemSettings): SystemSettingsFormData =>
       low_stock_alerts: settings.low_stock_alerts,
       system_maintenance: settings.system_maintenance,
       user_activities: settings.user_activities,
+      near_expiry_days: settings.near_expiry_days,
     },
     system: {
       auto_backup: settings.auto_backup,
       backup_frequency: settings.backup_frequency,
       data_retention_days: settings.data_retention_days,
       maintenance_mode: settings.maintenance_mode,
+      batch_number_pattern: settings.batch_number_pattern,
+      batch_number_reset: settings.batch_number_reset,
+      default_label_template_id: settings.default_label_template_id ?? null,
+      default_label_print_count: settings.default_label_print_count,
     },
   };
 };
@@ -131,10 +142,15 @@ export const useSettingsStore = create<SettingsState>((set, get) => ({
         low_stock_alerts: true,
         system_maintenance: false,
         user_activities: true,
+        near_expiry_days: 30,
         auto_backup: true,
         backup_frequency: 'daily',
         data_retention_days: 365,
         maintenance_mode: false,
+        batch_number_pattern: DEFAULT_BATCH_NUMBER_PATTERN,
+        batch_number_reset: DEFAULT_BATCH_NUMBER_RESET,
+        default_label_template_id: null,
+        default_label_print_count: 1,
       };
 
       const { data: authData } = await supabase.auth.getUser();
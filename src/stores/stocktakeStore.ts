@@ -0,0 +1,130 @@
+﻿import { create } from 'zustand'
+import { fetchAllRows, supabase } from '@/lib/supabase'
+import { Stocktake, StocktakeItem, StocktakeScope } from '@/types/database'
+import { notify } from '@/lib/notify'
+import { useAuthStore } from '@/stores/authStore'
+
+interface StocktakeState {
+  stocktakes: Stocktake[]
+  loading: boolean
+  error: string | null
+
+  fetchStocktakes: () => Promise<void>
+  getStocktakeItems: (stocktakeId: string) => Promise<StocktakeItem[]>
+
+  // 状态流转统一走数据库函数（离线由 localRpc 模拟），保证冻结/过账的原子性
+  createStocktake: (scope: StocktakeScope, remarks?: string) => Promise<Stocktake | null>
+  updateItemCount: (itemId: string, countedQuantity: number | null, remarks?: string) => Promise<boolean>
+  submitStocktake: (stocktakeId: string) => Promise<boolean>
+  cancelStocktake: (stocktakeId: string) => Promise<boolean>
+  reviewStocktake: (stocktakeId: string, approve: boolean, comment?: string) => Promise<boolean>
+}
+
+// 调用盘点相关数据库函数，成功后刷新列表；失败统一提示
+const callStocktakeRpc = async (
+  fn: string,
+  args: Record<string, unknown>,
+  failTitle: string
+): Promise<Stocktake | null> => {
+  const { data, error } = await supabase.rpc(fn, args)
+  if (error) {
+    console.error(`Error calling ${fn}:`, error)
+    notify.error(failTitle, error.message)
+    return null
+  }
+  await useStocktakeStore.getState().fetchStocktakes()
+  return data as Stocktake
+}
+
+export const useStocktakeStore = create<StocktakeState>((set) => ({
+  stocktakes: [],
+  loading: false,
+  error: null,
+
+  fetchStocktakes: async () => {
+    set({ loading: true, error: null })
+    try {
+      const { data, error } = await supabase
+        .from('stocktakes')
+        .select('*')
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      set({ stocktakes: (data as Stocktake[] | null) || [], loading: false })
+    } catch (error) {
+      console.error('Error fetching stocktakes:', error)
+      set({ error: '获取盘点单失败', loading: false })
+    }
+  },
+
+  getStocktakeItems: async (stocktakeId) => {
+    try {
+      // 按库位 -> 物料编码 -> 批次号排列，与现场走查顺序一致；大盘点单按页拉取避免被 max-rows 截断
+      return await fetchAllRows<StocktakeItem>(() => supabase
+        .from('stocktake_items')
+        .select('*')
+        .eq('stocktake_id', stocktakeId)
+        .order('location')
+        .order('material_code')
+        .order('batch_number')
+        .order('id'))
+    } catch (error) {
+      console.error('Error fetching stocktake items:', error)
+      return []
+    }
+  },
+
+  createStocktake: async (scope, remarks) => {
+    const created = await callStocktakeRpc(
+      'create_stocktake',
+      { p_scope: scope, p_remarks: remarks || null },
+      '创建盘点单失败'
+    )
+    if (created) notify.success('盘点单已创建', `${created.stocktake_no} 已冻结账面数量，可开始录入`)
+    return created
+  },
+
+  updateItemCount: async (itemId, countedQuantity, remarks) => {
+    try {
+      const user = useAuthStore.getState().user
+      const { error } = await supabase
+        .from('stocktake_items')
+        .update({
+          counted_quantity: countedQuantity,
+          counted_by: countedQuantity === null ? null : user?.id,
+          counted_at: countedQuantity === null ? null : new Date().toISOString(),
+          ...(remarks !== undefined ? { remarks: remarks || null } : {})
+        })
+        .eq('id', itemId)
+
+      if (error) throw error
+      return true
+    } catch (error) {
+      console.error('Error updating stocktake count:', error)
+      notify.error('保存实盘数量失败', (error as { message?: string })?.message)
+      return false
+    }
+  },
+
+  submitStocktake: async (stocktakeId) => {
+    const result = await callStocktakeRpc('submit_stocktake', { p_stocktake_id: stocktakeId }, '提交盘点失败')
+    if (result) notify.success('已提交审批')
+    return !!result
+  },
+
+  cancelStocktake: async (stocktakeId) => {
+    const result = await callStocktakeRpc('cancel_stocktake', { p_stocktake_id: stocktakeId }, '取消盘点失败')
+    if (result) notify.success('盘点单已取消')
+    return !!result
+  },
+
+  reviewStocktake: async (stocktakeId, approve, comment) => {
+    const result = await callStocktakeRpc(
+      'review_stocktake',
+      { p_stocktake_id: stocktakeId, p_approve: approve, p_comment: comment || null },
+      approve ? '盘点过账失败' : '驳回盘点失败'
+    )
+    if (result) notify.success(approve ? '盘点差异已过账' : '盘点单已驳回，退回录入')
+    return !!result
+  }
+}))
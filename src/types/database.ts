@@ -18,6 +18,10 @@ export interface Material {
   storage_conditions?: string;  // 储存条件
   main_ingredients?: string;    // 主要成份
   shelf_life?: string;          // 保质期（如 "12个月"）
+  gtin?: string | null;         // GS1 商品条码（GTIN-8/12/13/14），用于 GS1 标签
+  // 默认标签模板与打印张数（优先于供应商与全局默认）
+  label_template_id?: string | null;
+  label_print_count?: number | null;
   created_at: string;
   updated_at: string;
   created_by: string;
@@ -37,15 +41,35 @@ export interface MaterialCategory {
   updated_at: string;
 }
 
+export interface MaterialCategoryFormData {
+  code: string;
+  name: string;
+  parent_id?: string | null;
+  description?: string;
+}
+
+export type MaterialCodeType = 'internal' | 'supplier' | 'customer' | 'barcode';
+
 export interface MaterialCode {
   id: string;
   material_id: string;
   code: string;
-  code_type: 'internal' | 'supplier' | 'customer' | 'barcode';
+  code_type: MaterialCodeType;
+  // 每个物料最多一个主编码
   is_primary: boolean;
   description?: string;
   created_at: string;
   created_by: string;
+  // Joined fields
+  material?: Material;
+}
+
+export interface MaterialCodeFormData {
+  material_id: string;
+  code: string;
+  code_type: MaterialCodeType;
+  is_primary: boolean;
+  description?: string;
 }
 
 export interface MaterialBatch {
@@ -58,7 +82,11 @@ export interface MaterialBatch {
   quantity: number;
   remaining_quantity: number;
   status: 'pending' | 'available' | 'locked' | 'expired' | 'disposed';
+  // 关联库位；location 为库位编码的冗余副本（历史数据可能只有 location 文本）
+  location_id?: string | null;
   location?: string;
+  // 部分调拨拆出的子批次指向原批次
+  parent_batch_id?: string | null;
   remarks?: string;
   created_at: string;
   updated_at: string;
@@ -68,12 +96,200 @@ export interface MaterialBatch {
   supplier?: Supplier;
 }
 
-export interface Barcode {
+// 库存流水：批次数量的每一次变动都记录一条（quantity 为带符号的变动量，入库为正、出库为负）
+export type StockMovementType = 'inbound' | 'outbound' | 'adjust' | 'transfer' | 'scrap';
+
+export type StockMovementReason =
+  | 'purchase'     // 采购入库
+  | 'production'   // 生产入库
+  | 'return'       // 退货/退料
+  | 'requisition'  // 领料出库
+  | 'sales'        // 销售出库
+  | 'damage'       // 损坏报废
+  | 'expired'      // 过期报废
+  | 'stocktake'    // 盘点调整
+  | 'correction'   // 数据更正
+  | 'other';
+
+export interface StockMovement {
+  id: string;
+  batch_id: string;
+  material_id: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  balance_after: number;
+  reason_code: StockMovementReason;
+  reason?: string;
+  reference_no?: string;
+  // 调拨拆分时另一侧的批次（原批次 <-> 子批次）
+  related_batch_id?: string | null;
+  operator_id?: string;
+  operator_name?: string;
+  created_at: string;
+}
+
+// 出库/报废表单数据
+export interface OutboundFormData {
+  quantity: number;
+  movement_type: Extract<StockMovementType, 'outbound' | 'scrap'>;
+  reason_code: StockMovementReason;
+  reason?: string;
+  reference_no?: string;
+  // admin/manager 对待检/锁定批次越权出库
+  override?: boolean;
+}
+
+// 批次调拨表单数据：quantity 等于剩余数量时整批移库，否则拆分出子批次
+export interface BatchTransferFormData {
+  location_id: string;
+  quantity: number;
+  reason?: string;
+  reference_no?: string;
+}
+
+// 质检：pass=合格放行（-> available），fail=不合格/隔离（-> locked）
+export type BatchInspectionResult = 'pass' | 'fail';
+
+export type BatchInspectionReason =
+  | 'incoming'       // 来料检验
+  | 'retest'         // 复检
+  | 'complaint'      // 质量投诉
+  | 'damage'         // 破损
+  | 'documentation'  // 资料不全
+  | 'other';
+
+export interface BatchInspection {
+  id: string;
+  batch_id: string;
+  result: BatchInspectionResult;
+  reason_code: BatchInspectionReason;
+  notes?: string;
+  from_status: MaterialBatch['status'];
+  to_status: MaterialBatch['status'];
+  inspector_id?: string;
+  inspector_name?: string;
+  created_at: string;
+}
+
+export interface BatchInspectionFormData {
+  result: BatchInspectionResult;
+  reason_code: BatchInspectionReason;
+  notes?: string;
+}
+
+// 按物料出库时的批次分配策略：fefo=先到期先出（expiry_date），fifo=先进先出（production_date/created_at）
+export type OutboundStrategy = 'fefo' | 'fifo';
+
+export interface OutboundAllocation {
+  batch_id: string;
+  quantity: number;
+}
+
+// 生产单：一次性扣减组件批次并产出一个成品批次（单号 MO-YYYYMMDD-NNN）
+export interface ProductionOrder {
+  id: string;
+  order_no: string;
+  material_id: string;
+  quantity: number;
+  batch_id?: string | null;
+  batch_number: string;
+  remarks?: string;
+  created_by?: string;
+  created_by_name?: string;
+  created_at: string;
+  material?: Material;
+}
+
+// 生产投料明细：实际使用的组件批次（batch_number 为快照）
+export interface ProductionOrderInput {
   id: string;
+  order_id: string;
+  batch_id?: string | null;
   material_id: string;
+  batch_number: string;
+  quantity: number;
+  movement_id?: string | null;
+  created_at: string;
+  material?: Material;
+}
+
+export interface ProductionOrderFormData {
+  material_id: string;
+  quantity: number;
+  inputs: OutboundAllocation[];
+  production_date?: string;
+  expiry_date?: string;
+  location_id?: string | null;
+  remarks?: string;
+}
+
+// 库存盘点：counting(录入中) -> submitted(待审批) -> posted(已过账)；审批驳回退回 counting，未过账前可取消
+export type StocktakeStatus = 'counting' | 'submitted' | 'posted' | 'cancelled';
+
+// 盘点范围（冻结时确定）：按库位、物料分类或指定物料列表
+export interface StocktakeScope {
+  type: 'location' | 'category' | 'materials';
+  // 仓库/库区/库位编码；仓库或库区包含其下所有库位
+  location?: string;
+  category_id?: string;
+  material_ids?: string[];
+}
+
+export interface Stocktake {
+  id: string;
+  stocktake_no: string;
+  scope: StocktakeScope;
+  status: StocktakeStatus;
+  remarks?: string;
+  created_by?: string;
+  created_by_name?: string;
+  submitted_at?: string;
+  reviewed_by?: string;
+  reviewed_by_name?: string;
+  reviewed_at?: string;
+  review_comment?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 盘点明细：冻结时快照批次信息与账面数量（system_quantity），counted_quantity 为实盘数量
+export interface StocktakeItem {
+  id: string;
+  stocktake_id: string;
   batch_id?: string;
+  material_id: string;
+  material_code: string;
+  material_name: string;
+  batch_number: string;
+  location?: string;
+  unit?: string;
+  system_quantity: number;
+  counted_quantity?: number | null;
+  counted_by?: string;
+  counted_at?: string;
+  remarks?: string;
+  created_at: string;
+}
+
+// 一维码码制见 src/utils/barcodeSymbology.ts；GS1 码见 src/utils/gs1.ts
+export type BarcodeType =
+  | 'code128'
+  | 'code39'
+  | 'ean13'
+  | 'ean8'
+  | 'upc'
+  | 'itf14'
+  | 'qr_code'
+  | 'gs1_128'
+  | 'gs1_datamatrix';
+
+export interface Barcode {
+  id: string;
+  // 自定义内容的条码不属于任何物料
+  material_id?: string | null;
+  batch_id?: string | null;
   barcode: string;
-  barcode_type: 'code128' | 'qr_code' | 'ean13' | 'upc';
+  barcode_type: BarcodeType;
   format: string;
   width: number;
   height: number;
@@ -83,6 +299,62 @@ export interface Barcode {
   last_printed_at?: string;
   created_at: string;
   created_by: string;
+  material?: Material;
+  batch?: MaterialBatch;
+}
+
+// 条码打印来源：条码生成页 / 标签打印页 / 条码台账补打
+export type BarcodePrintSource = 'generator' | 'label' | 'reprint';
+
+export interface BarcodePrintLog {
+  id: string;
+  barcode_id: string;
+  copies: number;
+  source: BarcodePrintSource;
+  printed_by?: string;
+  printed_by_name?: string;
+  printed_at: string;
+}
+
+// 登记条码（p_copies > 0 时同时记一次打印）
+export interface BarcodeRegisterInput {
+  barcode: string;
+  barcode_type: BarcodeType;
+  material_id?: string | null;
+  batch_id?: string | null;
+  data?: string;
+  copies?: number;
+  source?: BarcodePrintSource;
+  // 越权登记未放行批次的码（仅 admin/manager）
+  override?: boolean;
+}
+
+// 库位主数据：仓库(warehouse) -> 库区(zone) -> 库位(bin)，批次只能放入库位
+export type StorageLocationType = 'warehouse' | 'zone' | 'bin';
+
+export interface StorageLocation {
+  id: string;
+  code: string;
+  name: string;
+  type: StorageLocationType;
+  parent_id?: string | null;
+  // 库位容量（按批次剩余数量累计），为空表示不限
+  capacity?: number | null;
+  is_blocked: boolean;
+  remarks?: string;
+  created_at: string;
+  updated_at: string;
+  created_by?: string;
+}
+
+export interface StorageLocationFormData {
+  code: string;
+  name: string;
+  type: StorageLocationType;
+  parent_id?: string | null;
+  capacity?: number | null;
+  is_blocked?: boolean;
+  remarks?: string;
 }
 
 export interface Supplier {
@@ -95,6 +367,9 @@ export interface Supplier {
   address?: string;
   status: 'active' | 'inactive';
   remarks?: string;
+  // 默认标签模板与打印张数（物料未设置时使用）
+  label_template_id?: string | null;
+  label_print_count?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -108,13 +383,71 @@ export interface SupplierFormData {
   address?: string;
   status?: 'active' | 'inactive';
   remarks?: string;
+  label_template_id?: string | null;
+  label_print_count?: number | null;
 }
 
+export type UnitCategory = 'weight' | 'volume' | 'length' | 'area' | 'piece' | 'other';
+
 export interface Unit {
   id: string;
   code: string;
   name: string;
   symbol?: string;
+  category?: UnitCategory;
+  // 1 个该单位 = 多少个基准单位（base_unit）；基准单位自身为 1
+  conversion_factor?: number;
+  // 同类基准单位的编码，为空表示自身就是基准单位
+  base_unit?: string | null;
+}
+
+export interface UnitFormData {
+  code: string;
+  name: string;
+  symbol: string;
+  category: UnitCategory;
+  conversion_factor: number;
+  base_unit?: string | null;
+}
+
+// 物料包装单位：1 个 unit = conversion_factor 个物料库存单位（如 1 箱 = 24 件）
+export interface MaterialUnit {
+  id: string;
+  material_id: string;
+  unit_id: string;
+  conversion_factor: number;
+  remarks?: string;
+  created_at: string;
+  updated_at: string;
+  unit?: Unit;
+}
+
+export interface MaterialUnitFormData {
+  material_id: string;
+  unit_id: string;
+  conversion_factor: number;
+  remarks?: string;
+}
+
+// 物料清单（BOM）：1 个成品库存单位消耗 quantity 个组件库存单位，另加 scrap_rate（%）损耗
+export interface BomItem {
+  id: string;
+  parent_material_id: string;
+  component_material_id: string;
+  quantity: number;
+  scrap_rate: number;
+  remarks?: string;
+  created_at: string;
+  updated_at: string;
+  component?: Material;
+}
+
+export interface BomItemFormData {
+  parent_material_id: string;
+  component_material_id: string;
+  quantity: number;
+  scrap_rate: number;
+  remarks?: string;
 }
 
 // 物料表单数据类型
@@ -133,6 +466,9 @@ export interface MaterialFormData {
   storage_conditions?: string;
   main_ingredients?: string;
   shelf_life?: string;
+  gtin?: string | null;
+  label_template_id?: string | null;
+  label_print_count?: number | null;
 }
 
 // 查询参数类型
@@ -155,6 +491,7 @@ export interface BatchFormData {
   production_date?: string;
   expiry_date?: string;
   supplier_id?: string | null;
+  location_id?: string | null;
   location?: string;
   remarks?: string;
   status?: 'pending' | 'available' | 'locked' | 'expired' | 'disposed';
@@ -167,10 +504,14 @@ export interface BatchQueryParams {
   search?: string;
   status?: string;
   supplier_id?: string;
+  location?: string;
   expiry_start?: string;
   expiry_end?: string;
 }
 
+// 批次列表的附加筛选条件（库存概览下钻时使用）
+export type BatchFilters = Pick<BatchQueryParams, 'status' | 'location' | 'expiry_start' | 'expiry_end'>;
+
 // 通用查询参数
 export interface QueryParams {
   page?: number;
@@ -219,6 +560,16 @@ export interface MaterialStats {
   total_categories: number;
 }
 
+// 库存对账差异：recorded_stock 为 materials.current_stock，actual_stock 为可用批次剩余数量之和
+export interface StockDiscrepancy {
+  material_id: string;
+  code: string;
+  name: string;
+  recorded_stock: number;
+  actual_stock: number;
+  difference: number;
+}
+
 // 供应商统计类型
 export interface SupplierStats {
   total_suppliers: number;
@@ -300,6 +651,14 @@ export interface SystemSettings {
   low_stock_alerts: boolean;
   system_maintenance: boolean;
   user_activities: boolean;
+  // 临期预警天数：有效期在 [今天, 今天 + N 天] 内的可用批次视为临期
+  near_expiry_days: number;
+  // 批次号模板（见 utils/batchNumberPattern）与流水号重置周期
+  batch_number_pattern: string;
+  batch_number_reset: 'daily' | 'monthly' | 'yearly' | 'never';
+  // 全局默认标签模板（空为内置表格模板）与打印张数，物料/供应商未设置时使用
+  default_label_template_id?: string | null;
+  default_label_print_count: number;
   // 系统设置
   auto_backup: boolean;
   backup_frequency: string;
@@ -331,12 +690,17 @@ export interface SystemSettingsFormData {
     low_stock_alerts?: boolean;
     system_maintenance?: boolean;
     user_activities?: boolean;
+    near_expiry_days?: number;
   };
   system?: {
     auto_backup?: boolean;
     backup_frequency?: string;
     data_retention_days?: number;
     maintenance_mode?: boolean;
+    batch_number_pattern?: string;
+    batch_number_reset?: SystemSettings['batch_number_reset'];
+    default_label_template_id?: string | null;
+    default_label_print_count?: number;
   };
 }
 
@@ -380,8 +744,180 @@ export interface LabelPrintData {
   // 批次信息
   production_date?: string;
   batch_number: string;
+  expiry_date?: string;
   open_date?: string;  // 开封日期（通常为空，手填）
   // 条码
   material_barcode: string;  // 材料条形码（基于物料编码）
   batch_barcode: string;     // 材料批次码（基于批次号）
+  // GS1 元素（标签条码来源选 GS1 时使用）；无法生成时给出原因
+  gs1_elements?: Gs1Element[];
+  gs1_error?: string;
+  // 结构化标签码（标签条码来源选结构化时使用）及其中携带的标签序号
+  label_payload?: string;
+  label_serial?: string;
+  // 序号标签本次打印中的张次，如 “1/24”
+  label_sequence?: string;
+}
+
+// GS1 应用标识符 + 数据，如 { ai: '10', value: 'B001' }
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+// 可视化标签模板：元素坐标、尺寸均以 mm 为单位，相对标签左上角
+export type LabelElementType = 'text' | 'field' | 'barcode' | 'qrcode' | 'line' | 'box' | 'image';
+
+// 可绑定到标签元素的 LabelPrintData 字段（条码/GS1 等内部字段除外）
+export type LabelFieldKey =
+  | 'company_name'
+  | 'supplier_code'
+  | 'supplier_name'
+  | 'product_name'
+  | 'product_code'
+  | 'weight'
+  | 'storage_conditions'
+  | 'main_ingredients'
+  | 'shelf_life'
+  | 'production_date'
+  | 'expiry_date'
+  | 'batch_number'
+  | 'open_date'
+  | 'label_serial'
+  | 'label_sequence';
+
+// 条码/二维码内容来源：gs1 在条码元素上为 GS1-128，在二维码元素上为 GS1 Data Matrix
+export type LabelCodeSource = 'material_barcode' | 'batch_barcode' | 'gs1' | 'label_payload';
+
+interface LabelElementBase {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface LabelTextStyle {
+  fontSize: number;  // pt
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+}
+
+// 固定文本，可用 {字段} 引用 LabelPrintData 字段，如“批号：{batch_number}”
+export interface LabelTextElement extends LabelElementBase, LabelTextStyle {
+  type: 'text';
+  content: string;
+}
+
+export interface LabelFieldElement extends LabelElementBase, LabelTextStyle {
+  type: 'field';
+  field: LabelFieldKey;
+  prefix?: string;
+}
+
+export interface LabelBarcodeElement extends LabelElementBase {
+  type: 'barcode';
+  source: LabelCodeSource;
+  // 一维码码制；来源为 gs1 时固定为 GS1-128
+  symbology: Exclude<BarcodeType, 'qr_code' | 'gs1_128' | 'gs1_datamatrix'>;
+  showText: boolean;
+}
+
+export interface LabelQrcodeElement extends LabelElementBase {
+  type: 'qrcode';
+  source: LabelCodeSource;
+}
+
+export interface LabelLineElement extends LabelElementBase {
+  type: 'line';
+  orientation: 'horizontal' | 'vertical';
+  thickness: number;  // mm
+}
+
+export interface LabelBoxElement extends LabelElementBase {
+  type: 'box';
+  thickness: number;  // mm
+}
+
+// 图片以 data URL 内嵌在模板中，离线与打印时无需再下载
+export interface LabelImageElement extends LabelElementBase {
+  type: 'image';
+  src: string;
+}
+
+export type LabelElement =
+  | LabelTextElement
+  | LabelFieldElement
+  | LabelBarcodeElement
+  | LabelQrcodeElement
+  | LabelLineElement
+  | LabelBoxElement
+  | LabelImageElement;
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  width_mm: number;
+  height_mm: number;
+  elements: LabelElement[];
+  created_at: string;
+  updated_at: string;
+  created_by?: string | null;
+}
+
+export interface LabelTemplateFormData {
+  name: string;
+  description?: string;
+  width_mm: number;
+  height_mm: number;
+  elements: LabelElement[];
+}
+
+// 全局默认标签模板与打印张数（get_label_defaults，所有登录用户可读）
+export interface LabelTemplateDefaults {
+  template_id: string | null;
+  print_count: number;
+}
+
+// 内置表格标签的共享版式方案；config 结构见 src/utils/labelConfig.ts 的 LabelLayoutConfig，
+// 读取时按 config_version 升级并逐字段校验
+export interface LabelConfigProfile {
+  id: string;
+  name: string;
+  config: Record<string, unknown>;
+  config_version: number;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+  created_by?: string;
+}
+
+export interface LabelConfigProfileFormData {
+  name: string;
+  config: Record<string, unknown>;
+  config_version: number;
+  is_default?: boolean;
+}
+
+// 标签序号签发记录：每张序号标签一行；作废后保留记录
+export type LabelSerialStatus = 'issued' | 'void';
+
+export interface LabelSerial {
+  id: string;
+  batch_id: string;
+  // 批次内流水号，补打时接着往后排
+  seq: number;
+  serial: string;
+  // 本次打印中的第几张 / 共几张
+  job_index: number;
+  job_total: number;
+  status: LabelSerialStatus;
+  issued_by?: string;
+  issued_by_name?: string;
+  issued_at: string;
+  void_reason?: string | null;
+  voided_by?: string | null;
+  voided_by_name?: string | null;
+  voided_at?: string | null;
 }
@@ -0,0 +1,93 @@
+﻿// 一维码码制：校验位计算与内容校验（条码生成、条码预览、台账补打共用）
+// 说明：JsBarcode 遇到非法内容只会抛错/留白，这里先校验并给出可读的错误提示
+
+export type BarcodeSymbology = 'code128' | 'code39' | 'ean13' | 'ean8' | 'upc' | 'itf14'
+
+export const DEFAULT_BARCODE_SYMBOLOGY: BarcodeSymbology = 'code128'
+
+export const BARCODE_SYMBOLOGIES: {
+  value: BarcodeSymbology
+  label: string
+  // JsBarcode 的 format 参数
+  format: string
+  hint: string
+}[] = [
+  { value: 'code128', label: 'Code 128', format: 'CODE128', hint: '任意 ASCII 字符（不支持中文）' },
+  { value: 'code39', label: 'Code 39', format: 'CODE39', hint: '大写字母、数字及 - . 空格 $ / + %' },
+  { value: 'ean13', label: 'EAN-13', format: 'EAN13', hint: '12 位数字，自动补校验位；或 13 位含校验位' },
+  { value: 'ean8', label: 'EAN-8', format: 'EAN8', hint: '7 位数字，自动补校验位；或 8 位含校验位' },
+  { value: 'upc', label: 'UPC-A', format: 'UPC', hint: '11 位数字，自动补校验位；或 12 位含校验位' },
+  { value: 'itf14', label: 'ITF-14', format: 'ITF14', hint: '13 位数字，自动补校验位；或 14 位含校验位' }
+]
+
+// GTIN 系列（EAN/UPC/ITF-14）的数据位长度，不含校验位
+const GTIN_LENGTH: Partial<Record<BarcodeSymbology, number>> = {
+  ean13: 12,
+  ean8: 7,
+  upc: 11,
+  itf14: 13
+}
+
+export const getBarcodeFormat = (symbology: BarcodeSymbology): string =>
+  BARCODE_SYMBOLOGIES.find((s) => s.value === symbology)?.format ?? 'CODE128'
+
+export const isBarcodeSymbology = (value: string): value is BarcodeSymbology =>
+  BARCODE_SYMBOLOGIES.some((s) => s.value === value)
+
+// GS1 模 10 校验位：从右往左（不含校验位）奇数位 ×3、偶数位 ×1
+export const computeGtinCheckDigit = (digits: string): number => {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[digits.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return (10 - (sum % 10)) % 10
+}
+
+export interface BarcodeValidation {
+  valid: boolean
+  // 规范化后的内容（GTIN 类已补齐校验位）
+  value: string
+  error?: string
+  // 校验位是自动补上的
+  checkDigitAdded?: boolean
+}
+
+export const validateBarcodeValue = (symbology: BarcodeSymbology, raw: string): BarcodeValidation => {
+  const value = raw.trim()
+  if (!value) return { valid: false, value, error: '内容不能为空' }
+
+  const dataLength = GTIN_LENGTH[symbology]
+  if (dataLength) {
+    const label = BARCODE_SYMBOLOGIES.find((s) => s.value === symbology)?.label
+    if (!/^\d+$/.test(value)) {
+      return { valid: false, value, error: `${label} 只能包含数字` }
+    }
+    if (value.length === dataLength) {
+      return { valid: true, value: `${value}${computeGtinCheckDigit(value)}`, checkDigitAdded: true }
+    }
+    if (value.length !== dataLength + 1) {
+      return { valid: false, value, error: `${label} 需要 ${dataLength} 位数字（或含校验位 ${dataLength + 1} 位），当前 ${value.length} 位` }
+    }
+    const expected = computeGtinCheckDigit(value.slice(0, -1))
+    if (Number(value[value.length - 1]) !== expected) {
+      return { valid: false, value, error: `${label} 校验位错误：应为 ${expected}，实际为 ${value[value.length - 1]}` }
+    }
+    return { valid: true, value }
+  }
+
+  if (symbology === 'code39') {
+    const invalid = value.match(/[^0-9A-Z\-. $/+%]/)
+    if (invalid) {
+      return { valid: false, value, error: `Code 39 不支持字符“${invalid[0]}”，仅支持大写字母、数字及 - . 空格 $ / + %` }
+    }
+    return { valid: true, value }
+  }
+
+  // eslint-disable-next-line no-control-regex
+  const invalid = value.match(/[^\x00-\x7f]/)
+  if (invalid) {
+    return { valid: false, value, error: `Code 128 不支持字符“${invalid[0]}”，中文等内容请改用二维码` }
+  }
+  return { valid: true, value }
+}
@@ -0,0 +1,68 @@
+﻿import { format } from 'date-fns'
+
+// 说明：与 supabase/migrations/013_batch_number_sequences.sql 中 next_batch_number() 的格式化规则保持一致
+
+export type BatchNumberReset = 'daily' | 'monthly' | 'yearly' | 'never'
+
+export const DEFAULT_BATCH_NUMBER_PATTERN = '{MATERIAL}-{YYYYMMDD}-{SEQ:3}'
+export const DEFAULT_BATCH_NUMBER_RESET: BatchNumberReset = 'daily'
+
+// 供应商为空时 {SUPPLIER} 的占位
+const NO_SUPPLIER = 'NA'
+const DEFAULT_SEQ_WIDTH = 3
+const SEQ_TOKEN = /\{SEQ(?::(\d))?\}/g
+
+export const BATCH_NUMBER_TOKENS: Array<{ token: string; label: string }> = [
+  { token: '{MATERIAL}', label: '物料编码' },
+  { token: '{SUPPLIER}', label: '供应商编码' },
+  { token: '{YYYYMMDD}', label: '年月日' },
+  { token: '{YYMMDD}', label: '短年月日' },
+  { token: '{YYYY}', label: '年' },
+  { token: '{YY}', label: '短年' },
+  { token: '{MM}', label: '月' },
+  { token: '{DD}', label: '日' },
+  { token: '{SEQ:3}', label: '流水号（数字为位数）' }
+]
+
+export const BATCH_NUMBER_RESET_TEXT: Record<BatchNumberReset, string> = {
+  daily: '每日',
+  monthly: '每月',
+  yearly: '每年',
+  never: '不重置'
+}
+
+// 流水号按“物料 + 周期”累加，周期键随重置方式变化
+export const getBatchNumberPeriod = (reset: BatchNumberReset, date: Date = new Date()): string => {
+  switch (reset) {
+    case 'daily': return format(date, 'yyyyMMdd')
+    case 'monthly': return format(date, 'yyyyMM')
+    case 'yearly': return format(date, 'yyyy')
+    default: return 'ALL'
+  }
+}
+
+// 模板必须包含流水号，否则同一周期内必然重复
+export const validateBatchNumberPattern = (pattern: string): string | null => {
+  if (!pattern.trim()) return '请输入批次号模板'
+  if (!new RegExp(SEQ_TOKEN.source).test(pattern)) return '模板必须包含 {SEQ} 或 {SEQ:n}'
+  if (pattern.length > 40) return '模板过长'
+  return null
+}
+
+export const formatBatchNumber = (
+  pattern: string,
+  values: { materialCode: string; supplierCode?: string | null; date?: Date; seq: number }
+): string => {
+  const date = values.date ?? new Date()
+  return pattern
+    .split('{MATERIAL}').join(values.materialCode)
+    .split('{SUPPLIER}').join(values.supplierCode || NO_SUPPLIER)
+    .split('{YYYYMMDD}').join(format(date, 'yyyyMMdd'))
+    .split('{YYMMDD}').join(format(date, 'yyMMdd'))
+    .split('{YYYY}').join(format(date, 'yyyy'))
+    .split('{YY}').join(format(date, 'yy'))
+    .split('{MM}').join(format(date, 'MM'))
+    .split('{DD}').join(format(date, 'dd'))
+    .replace(SEQ_TOKEN, (_, width?: string) =>
+      String(values.seq).padStart(width ? Number(width) : DEFAULT_SEQ_WIDTH, '0'))
+}
@@ -0,0 +1,70 @@
+﻿import { MaterialCategory } from '@/types/database'
+
+export interface CategoryTreeRow {
+  category: MaterialCategory
+  depth: number
+  hasChildren: boolean
+}
+
+const childrenMap = (categories: MaterialCategory[]) => {
+  const children = new Map<string | null, MaterialCategory[]>()
+  categories.forEach((c) => {
+    // 父级不存在（已删除/脏数据）时按顶级处理，避免整棵子树丢失
+    const key = c.parent_id && categories.some((p) => p.id === c.parent_id) ? c.parent_id : null
+    children.set(key, [...(children.get(key) || []), c])
+  })
+  return children
+}
+
+export const getChildCategories = (categories: MaterialCategory[], parentId: string | null): MaterialCategory[] =>
+  childrenMap(categories).get(parentId) || []
+
+// 分类自身 + 全部下级分类的 id（用于按分类筛选物料时包含子分类）
+export const getCategoryDescendantIds = (categories: MaterialCategory[], id: string): string[] => {
+  const children = childrenMap(categories)
+  const ids: string[] = []
+  const walk = (current: string) => {
+    if (ids.includes(current)) return
+    ids.push(current)
+    ;(children.get(current) || []).forEach((c) => walk(c.id))
+  }
+  walk(id)
+  return ids
+}
+
+// 把 id 挂到 parentId 下是否会形成环（挂到自己或自己的下级）
+export const wouldCreateCycle = (categories: MaterialCategory[], id: string, parentId: string | null): boolean =>
+  !!parentId && getCategoryDescendantIds(categories, id).includes(parentId)
+
+export const getCategoryPath = (categories: MaterialCategory[], id: string): string => {
+  const names: string[] = []
+  const visited = new Set<string>()
+  let node = categories.find((c) => c.id === id)
+  while (node && !visited.has(node.id)) {
+    visited.add(node.id)
+    names.unshift(node.name)
+    const parentId = node.parent_id
+    node = parentId ? categories.find((c) => c.id === parentId) : undefined
+  }
+  return names.join(' / ')
+}
+
+// 按层级展开为扁平行（同级按编码排序），collapsed 中的节点不展开下级
+export const flattenCategoryTree = (
+  categories: MaterialCategory[],
+  collapsed: Set<string> = new Set()
+): CategoryTreeRow[] => {
+  const children = childrenMap(categories)
+  const rows: CategoryTreeRow[] = []
+  const walk = (parentId: string | null, depth: number) => {
+    ;[...(children.get(parentId) || [])]
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .forEach((c) => {
+        const hasChildren = (children.get(c.id) || []).length > 0
+        rows.push({ category: c, depth, hasChildren })
+        if (!collapsed.has(c.id)) walk(c.id, depth + 1)
+      })
+  }
+  walk(null, 0)
+  return rows
+}
@@ -0,0 +1,243 @@
+﻿// Data Matrix（ECC200）编码：ASCII 编码方式 + Reed-Solomon 纠错 + 标准模块排布（ISO/IEC 16022）
+// 说明：qrcode/jsbarcode 都不支持 Data Matrix；这里只实现 GS1 标签用得到的部分（方形、单纠错块，最大 48x48）
+
+// 特殊码字
+export const DM_FNC1 = 232
+const DM_PAD = 129
+
+interface SymbolSize {
+  size: number
+  // 每个数据区的边长（不含寻像/时钟边）
+  regionSize: number
+  // 每边的数据区个数
+  regions: number
+  dataCodewords: number
+  eccCodewords: number
+}
+
+const SYMBOL_SIZES: SymbolSize[] = [
+  { size: 10, regionSize: 8, regions: 1, dataCodewords: 3, eccCodewords: 5 },
+  { size: 12, regionSize: 10, regions: 1, dataCodewords: 5, eccCodewords: 7 },
+  { size: 14, regionSize: 12, regions: 1, dataCodewords: 8, eccCodewords: 10 },
+  { size: 16, regionSize: 14, regions: 1, dataCodewords: 12, eccCodewords: 12 },
+  { size: 18, regionSize: 16, regions: 1, dataCodewords: 18, eccCodewords: 14 },
+  { size: 20, regionSize: 18, regions: 1, dataCodewords: 22, eccCodewords: 18 },
+  { size: 22, regionSize: 20, regions: 1, dataCodewords: 30, eccCodewords: 20 },
+  { size: 24, regionSize: 22, regions: 1, dataCodewords: 36, eccCodewords: 24 },
+  { size: 26, regionSize: 24, regions: 1, dataCodewords: 44, eccCodewords: 28 },
+  { size: 32, regionSize: 14, regions: 2, dataCodewords: 62, eccCodewords: 36 },
+  { size: 36, regionSize: 16, regions: 2, dataCodewords: 86, eccCodewords: 42 },
+  { size: 40, regionSize: 18, regions: 2, dataCodewords: 114, eccCodewords: 48 },
+  { size: 44, regionSize: 20, regions: 2, dataCodewords: 144, eccCodewords: 56 },
+  { size: 48, regionSize: 22, regions: 2, dataCodewords: 174, eccCodewords: 68 }
+]
+
+// ---- GF(256)，本原多项式 x^8 + x^5 + x^3 + x^2 + 1（301）
+const GF_EXP: number[] = []
+const GF_LOG: number[] = []
+;(() => {
+  let x = 1
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x
+    GF_LOG[x] = i
+    x <<= 1
+    if (x & 0x100) x ^= 301
+  }
+})()
+
+const gfMul = (a: number, b: number) => (a && b ? GF_EXP[(GF_LOG[a] + GF_LOG[b]) % 255] : 0)
+
+// 生成多项式 (x + 2^1)(x + 2^2)...(x + 2^n) 的系数（去掉首项 1，高次在前）
+const generatorPoly = (n: number): number[] => {
+  let poly = [1]
+  for (let i = 1; i <= n; i++) {
+    const next = new Array(poly.length + 1).fill(0)
+    poly.forEach((c, j) => {
+      next[j] ^= c
+      next[j + 1] ^= gfMul(c, GF_EXP[i])
+    })
+    poly = next
+  }
+  return poly.slice(1)
+}
+
+export const computeDataMatrixEcc = (data: number[], eccCount: number): number[] => {
+  const gen = generatorPoly(eccCount)
+  const ecc = new Array(eccCount).fill(0)
+  data.forEach((d) => {
+    const feedback = d ^ ecc[0]
+    ecc.shift()
+    ecc.push(0)
+    for (let j = 0; j < eccCount; j++) ecc[j] ^= gfMul(feedback, gen[j])
+  })
+  return ecc
+}
+
+// ---- ASCII 编码：连续两位数字压成一个码字；items 中的数字为特殊码字（如 FNC1）
+export const encodeDataMatrixAscii = (items: (string | number)[]): number[] => {
+  const codewords: number[] = []
+  items.forEach((item) => {
+    if (typeof item === 'number') {
+      codewords.push(item)
+      return
+    }
+    for (let i = 0; i < item.length; i++) {
+      const c = item.charCodeAt(i)
+      const next = item.charCodeAt(i + 1)
+      if (c >= 48 && c <= 57 && next >= 48 && next <= 57) {
+        codewords.push(130 + (c - 48) * 10 + (next - 48))
+        i++
+      } else if (c <= 127) {
+        codewords.push(c + 1)
+      } else {
+        throw new Error(`Data Matrix 不支持字符“${item[i]}”`)
+      }
+    }
+  })
+  return codewords
+}
+
+const padCodewords = (codewords: number[], capacity: number): number[] => {
+  const result = [...codewords]
+  if (result.length < capacity) result.push(DM_PAD)
+  while (result.length < capacity) {
+    const r = ((149 * (result.length + 1)) % 253) + 1
+    const pad = DM_PAD + r
+    result.push(pad > 254 ? pad - 254 : pad)
+  }
+  return result
+}
+
+// ---- 模块排布（ISO/IEC 16022 附录 F）
+const placeModules = (codewords: number[], nrow: number, ncol: number): boolean[][] => {
+  // -1 表示尚未放置
+  const grid: number[][] = Array.from({ length: nrow }, () => new Array(ncol).fill(-1))
+
+  const module = (row: number, col: number, chr: number, bit: number) => {
+    if (row < 0) {
+      row += nrow
+      col += 4 - ((nrow + 4) % 8)
+    }
+    if (col < 0) {
+      col += ncol
+      row += 4 - ((ncol + 4) % 8)
+    }
+    grid[row][col] = (codewords[chr] >> (8 - bit)) & 1
+  }
+
+  const utah = (row: number, col: number, chr: number) => {
+    module(row - 2, col - 2, chr, 1)
+    module(row - 2, col - 1, chr, 2)
+    module(row - 1, col - 2, chr, 3)
+    module(row - 1, col - 1, chr, 4)
+    module(row - 1, col, chr, 5)
+    module(row, col - 2, chr, 6)
+    module(row, col - 1, chr, 7)
+    module(row, col, chr, 8)
+  }
+
+  const corner = (positions: [number, number][], chr: number) => {
+    positions.forEach(([row, col], i) => module(row, col, chr, i + 1))
+  }
+
+  let chr = 0
+  let row = 4
+  let col = 0
+  do {
+    if (row === nrow && col === 0) {
+      corner([[nrow - 1, 0], [nrow - 1, 1], [nrow - 1, 2], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]], chr++)
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 4) {
+      corner([[nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 4], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1]], chr++)
+    }
+    if (row === nrow - 2 && col === 0 && ncol % 8 === 4) {
+      corner([[nrow - 3, 0], [nrow - 2, 0], [nrow - 1, 0], [0, ncol - 2], [0, ncol - 1], [1, ncol - 1], [2, ncol - 1], [3, ncol - 1]], chr++)
+    }
+    if (row === nrow + 4 && col === 2 && !(ncol % 8)) {
+      corner([[nrow - 1, 0], [nrow - 1, ncol - 1], [0, ncol - 3], [0, ncol - 2], [0, ncol - 1], [1, ncol - 3], [1, ncol - 2], [1, ncol - 1]], chr++)
+    }
+    // 斜向上扫描
+    do {
+      if (row < nrow && col >= 0 && grid[row][col] === -1) utah(row, col, chr++)
+      row -= 2
+      col += 2
+    } while (row >= 0 && col < ncol)
+    row += 1
+    col += 3
+    // 斜向下扫描
+    do {
+      if (row >= 0 && col < ncol && grid[row][col] === -1) utah(row, col, chr++)
+      row += 2
+      col -= 2
+    } while (row < nrow && col >= 0)
+    row += 3
+    col += 1
+  } while (row < nrow || col < ncol)
+
+  // 右下角未用到的 2x2 固定图案
+  if (grid[nrow - 1][ncol - 1] === -1) {
+    grid[nrow - 1][ncol - 1] = 1
+    grid[nrow - 2][ncol - 2] = 1
+    grid[nrow - 1][ncol - 2] = 0
+    grid[nrow - 2][ncol - 1] = 0
+  }
+
+  return grid.map((r) => r.map((v) => v === 1))
+}
+
+/**
+ * 编码为 Data Matrix 模块矩阵（true 为深色），不含静区。
+ * items：字符串按 ASCII 编码；数字为特殊码字（GS1 需以 DM_FNC1 开头并用作分隔符）
+ */
+export const encodeDataMatrix = (items: (string | number)[]): boolean[][] => {
+  const data = encodeDataMatrixAscii(items)
+  const symbol = SYMBOL_SIZES.find((s) => s.dataCodewords >= data.length)
+  if (!symbol) {
+    throw new Error(`内容过长（${data.length} 个码字），超出 Data Matrix 48x48 容量`)
+  }
+
+  const padded = padCodewords(data, symbol.dataCodewords)
+  const codewords = [...padded, ...computeDataMatrixEcc(padded, symbol.eccCodewords)]
+  const mappingSize = symbol.regionSize * symbol.regions
+  const mapping = placeModules(codewords, mappingSize, mappingSize)
+
+  // 把映射矩阵拆入各数据区，并加上寻像边（左、下实线）与时钟边（上、右虚线）
+  const block = symbol.regionSize + 2
+  const matrix: boolean[][] = Array.from({ length: symbol.size }, () => new Array(symbol.size).fill(false))
+  for (let r = 0; r < symbol.size; r++) {
+    for (let c = 0; c < symbol.size; c++) {
+      const i = r % block
+      const j = c % block
+      if (j === 0 || i === block - 1) matrix[r][c] = true
+      else if (i === 0) matrix[r][c] = j % 2 === 0
+      else if (j === block - 1) matrix[r][c] = i % 2 === 1
+      else {
+        const mr = Math.floor(r / block) * symbol.regionSize + i - 1
+        const mc = Math.floor(c / block) * symbol.regionSize + j - 1
+        matrix[r][c] = mapping[mr][mc]
+      }
+    }
+  }
+  return matrix
+}
+
+// 绘制到 canvas；margin 为静区宽度（模块数，标准要求至少 1）
+export const renderDataMatrix = (
+  canvas: HTMLCanvasElement,
+  matrix: boolean[][],
+  { moduleSize = 4, margin = 1 }: { moduleSize?: number; margin?: number } = {}
+) => {
+  const size = (matrix.length + margin * 2) * moduleSize
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, size, size)
+  ctx.fillStyle = '#000000'
+  matrix.forEach((row, r) => {
+    row.forEach((dark, c) => {
+      if (dark) ctx.fillRect((c + margin) * moduleSize, (r + margin) * moduleSize, moduleSize, moduleSize)
+    })
+  })
+}
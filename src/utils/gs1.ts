@@ -0,0 +1,161 @@
+﻿import JsBarcode from 'jsbarcode'
+import { Gs1Element, Material, MaterialBatch } from '@/types/database'
+import { computeGtinCheckDigit } from './barcodeSymbology'
+import { DM_FNC1, encodeDataMatrix, renderDataMatrix } from './dataMatrix'
+
+// GS1 应用标识符（AI）：由物料 GTIN + 批次信息拼出 GS1 元素串，用于 GS1-128 与 GS1 Data Matrix
+
+interface Gs1AiSpec {
+  label: string
+  // 定长 AI 的数据长度；变长 AI 为最大长度
+  length: number
+  fixed: boolean
+}
+
+export const GS1_AI: Record<string, Gs1AiSpec> = {
+  '01': { label: '商品 GTIN', length: 14, fixed: true },
+  '02': { label: '所含商品 GTIN', length: 14, fixed: true },
+  '10': { label: '批号', length: 20, fixed: false },
+  '11': { label: '生产日期', length: 6, fixed: true },
+  '17': { label: '有效期至', length: 6, fixed: true },
+  '37': { label: '所含商品数量', length: 8, fixed: false }
+}
+
+// GS1-128 中的 FNC1（JsBarcode 的 CODE128 以字符 207 表示）
+const CODE128_FNC1 = String.fromCharCode(207)
+
+// GS1 可编码字符集 82（AI 10 等字母数字型 AI 允许的字符）
+const GS1_CSET82 = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/
+
+// GTIN-8/12/13/14 统一补零为 14 位，并校验校验位
+export const normalizeGtin = (raw: string): { valid: boolean; value: string; error?: string } => {
+  const value = raw.trim()
+  if (!/^\d+$/.test(value) || ![8, 12, 13, 14].includes(value.length)) {
+    return { valid: false, value, error: 'GTIN 应为 8、12、13 或 14 位数字' }
+  }
+  const expected = computeGtinCheckDigit(value.slice(0, -1))
+  if (Number(value[value.length - 1]) !== expected) {
+    return { valid: false, value, error: `GTIN 校验位错误：应为 ${expected}` }
+  }
+  return { valid: true, value: value.padStart(14, '0') }
+}
+
+// YYYY-MM-DD -> YYMMDD
+const toGs1Date = (date: string) => date.slice(2, 4) + date.slice(5, 7) + date.slice(8, 10)
+
+// YYMMDD -> YYYY-MM-DD；日为 00 表示当月最后一天（GS1 通用规范 7.12）
+export const fromGs1Date = (value: string): string | null => {
+  if (!/^\d{6}$/.test(value)) return null
+  const year = 2000 + Number(value.slice(0, 2))
+  const month = Number(value.slice(2, 4))
+  if (month < 1 || month > 12) return null
+  const day = Number(value.slice(4, 6)) || new Date(year, month, 0).getDate()
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export interface Gs1Source {
+  material: Pick<Material, 'gtin'>
+  batch?: Pick<MaterialBatch, 'batch_number' | 'production_date' | 'expiry_date'> | null
+  // 托盘/箱等物流单元的内含数量：按 GS1 规则此时 GTIN 用 (02) 而非 (01)
+  count?: number | null
+}
+
+/**
+ * 由物料/批次组装 GS1 元素：(01|02) GTIN、(11) 生产日期、(17) 有效期、(10) 批号、(37) 数量。
+ * 定长 AI 排在前面，变长 AI 放在最后，尽量少用 FNC1 分隔符。
+ */
+export const buildGs1Elements = ({ material, batch, count }: Gs1Source): { elements: Gs1Element[]; error?: string } => {
+  if (!material.gtin) return { elements: [], error: '物料未设置 GTIN' }
+  const gtin = normalizeGtin(material.gtin)
+  if (!gtin.valid) return { elements: [], error: gtin.error }
+
+  const hasCount = count != null && count > 0
+  if (hasCount && (!Number.isInteger(count) || String(count).length > GS1_AI['37'].length)) {
+    return { elements: [], error: '数量 (37) 须为不超过 8 位的正整数' }
+  }
+
+  const elements: Gs1Element[] = [{ ai: hasCount ? '02' : '01', value: gtin.value }]
+  if (batch?.production_date) elements.push({ ai: '11', value: toGs1Date(batch.production_date) })
+  if (batch?.expiry_date) elements.push({ ai: '17', value: toGs1Date(batch.expiry_date) })
+  if (batch?.batch_number) {
+    if (batch.batch_number.length > GS1_AI['10'].length || !GS1_CSET82.test(batch.batch_number)) {
+      return { elements: [], error: `批号“${batch.batch_number}”不符合 GS1 (10) 要求：最多 20 位，不能含中文或空格` }
+    }
+    elements.push({ ai: '10', value: batch.batch_number })
+  }
+  if (hasCount) elements.push({ ai: '37', value: String(count) })
+
+  return { elements }
+}
+
+// 人工识读文本：(01)06901234567892(17)261231(10)B001
+export const toGs1HumanReadable = (elements: Gs1Element[]) => elements.map((e) => `(${e.ai})${e.value}`).join('')
+
+// 人工识读文本 -> 元素（条码台账补打时按登记的文本重建）
+export const parseGs1HumanReadable = (text: string): Gs1Element[] =>
+  Array.from(text.matchAll(/\((\d{2,4})\)([^()]*)/g), (m) => ({ ai: m[1], value: m[2] }))
+
+/**
+ * 解析扫码枪输出的原始 GS1 元素串（无括号，如 0106901234567892 17261231 10B001）：
+ * 可带 ]C1 / ]d2 / ]Q3 符号标识前缀，变长 AI 以 GS（0x1D）结束。只识别 GS1_AI 中的 AI，遇到未知 AI 返回空数组。
+ */
+export const parseGs1ElementString = (text: string): Gs1Element[] => {
+  let rest = text.replace(/^\](C1|d2|Q3)/, '')
+  const elements: Gs1Element[] = []
+  while (rest) {
+    const ai = rest.slice(0, 2)
+    const spec = GS1_AI[ai]
+    if (!spec) return []
+    rest = rest.slice(2)
+    if (spec.fixed) {
+      if (rest.length < spec.length) return []
+      elements.push({ ai, value: rest.slice(0, spec.length) })
+      rest = rest.slice(spec.length)
+    } else {
+      const end = rest.indexOf('\x1d')
+      const value = end < 0 ? rest : rest.slice(0, end)
+      if (!value || value.length > spec.length) return []
+      elements.push({ ai, value })
+      rest = end < 0 ? '' : rest.slice(end + 1)
+    }
+  }
+  return elements
+}
+
+// 拼接元素串：变长 AI 之后（且不是最后一个元素）插入分隔符
+const joinElements = <T>(elements: Gs1Element[], separator: T): (string | T)[] =>
+  elements.flatMap((e, i) =>
+    !GS1_AI[e.ai]?.fixed && i < elements.length - 1 ? [e.ai + e.value, separator] : [e.ai + e.value]
+  )
+
+// GS1-128 数据：配合 JsBarcode 的 ean128 选项（自动加起始 FNC1）使用
+export const toGs1128Data = (elements: Gs1Element[]) => joinElements(elements, CODE128_FNC1).join('')
+
+// GS1 Data Matrix 码字序列：以 FNC1 开头，分隔符同样用 FNC1
+export const toGs1DataMatrixItems = (elements: Gs1Element[]): (string | number)[] => [
+  DM_FNC1,
+  ...joinElements(elements, DM_FNC1)
+]
+
+export const renderGs1128 = (
+  canvas: HTMLCanvasElement,
+  elements: Gs1Element[],
+  options: { width?: number; height?: number; fontSize?: number; margin?: number; displayValue?: boolean } = {}
+) => {
+  JsBarcode(canvas, toGs1128Data(elements), {
+    format: 'CODE128',
+    ean128: true,
+    text: toGs1HumanReadable(elements),
+    background: '#ffffff',
+    lineColor: '#000000',
+    ...options
+  })
+}
+
+export const renderGs1DataMatrix = (
+  canvas: HTMLCanvasElement,
+  elements: Gs1Element[],
+  options: { moduleSize?: number; margin?: number } = {}
+) => {
+  renderDataMatrix(canvas, encodeDataMatrix(toGs1DataMatrixItems(elements)), options)
+}
@@ -0,0 +1,112 @@
+﻿// 图片文件条码识别（离线）：浏览器支持 BarcodeDetector 时优先使用，否则走内置的二维码/一维码识别
+// 说明：照片先按长边缩放后二值化；一维码除横向外再试一次旋转 90°（竖着拍的标签）
+
+import { BARCODE_SYMBOLOGIES } from '@/utils/barcodeSymbology'
+import { binarize, rotate90, toLuminance } from '@/utils/imageBinarizer'
+import { decodeLinearCode, LinearFormat } from '@/utils/linearDecoder'
+import { decodeQrCode } from '@/utils/qrDecoder'
+
+export type ImageBarcodeFormat = LinearFormat | 'qr_code'
+
+export interface ImageBarcodeResult {
+  text: string
+  format: ImageBarcodeFormat
+}
+
+// 依次尝试的长边尺寸：大图保留细条，小图减少噪点干扰
+const DECODE_SIZES = [1600, 800]
+
+// 浏览器原生识别接口（Chrome/Edge/Android 等），TS 标准库尚未收录
+interface DetectedBarcode {
+  rawValue: string
+  format: string
+}
+
+interface BarcodeDetectorLike {
+  detect: (image: ImageBitmap) => Promise<DetectedBarcode[]>
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorLike
+  getSupportedFormats?: () => Promise<string[]>
+}
+
+const DETECTOR_FORMATS: Record<string, ImageBarcodeFormat> = {
+  qr_code: 'qr_code',
+  code_128: 'code128',
+  code_39: 'code39',
+  ean_13: 'ean13',
+  ean_8: 'ean8',
+  upc_a: 'upc',
+  itf: 'itf14'
+}
+
+export const getImageBarcodeFormatLabel = (format: ImageBarcodeFormat) => {
+  if (format === 'qr_code') return 'QR Code'
+  if (format === 'gs1-128') return 'GS1-128'
+  return BARCODE_SYMBOLOGIES.find((s) => s.value === format)?.label ?? format
+}
+
+const detectNative = async (bitmap: ImageBitmap): Promise<ImageBarcodeResult[] | null> => {
+  const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+  if (!Detector) return null
+  try {
+    const supported = (await Detector.getSupportedFormats?.()) ?? Object.keys(DETECTOR_FORMATS)
+    const formats = Object.keys(DETECTOR_FORMATS).filter((f) => supported.includes(f))
+    if (!formats.length) return null
+    const detected = await new Detector({ formats }).detect(bitmap)
+    return detected.map((d) => ({ text: d.rawValue, format: DETECTOR_FORMATS[d.format] ?? 'code128' }))
+  } catch (error) {
+    // 部分平台声明了接口但没有可用的识别服务，回退到内置识别
+    console.warn('BarcodeDetector unavailable:', error)
+    return null
+  }
+}
+
+const decodeBuiltIn = (bitmap: ImageBitmap): ImageBarcodeResult[] => {
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) return []
+
+  for (const maxSide of DECODE_SIZES) {
+    const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height))
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+    const image = binarize(toLuminance(data, width, height), width, height)
+
+    const results: ImageBarcodeResult[] = []
+    const qr = decodeQrCode(image)
+    if (qr !== null) results.push({ text: qr, format: 'qr_code' })
+    const linear = decodeLinearCode(image) ?? decodeLinearCode(rotate90(image))
+    if (linear) results.push(linear)
+    if (results.length) return results
+    // 原图已经比当前尺寸小，再缩放没有意义
+    if (scale === 1) break
+  }
+  return []
+}
+
+export const decodeImageFile = async (file: File): Promise<ImageBarcodeResult[]> => {
+  if (!file.type.startsWith('image/')) throw new Error('请选择图片文件')
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    throw new Error('图片无法读取，请确认文件未损坏（支持 JPG/PNG/WebP 等浏览器可显示的格式）')
+  }
+
+  try {
+    const native = await detectNative(bitmap)
+    if (native?.length) return native
+    // 让出主线程一帧，先把“识别中”状态画出来
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    return decodeBuiltIn(bitmap)
+  } finally {
+    bitmap.close()
+  }
+}
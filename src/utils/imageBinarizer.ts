@@ -0,0 +1,126 @@
+﻿// 图片二值化：把 RGBA 像素转成明/暗位图，供二维码与一维码识别使用
+// 说明：采用分块局部阈值（思路同 ZXing HybridBinarizer），手机拍摄的光照不均也能保留条码细节
+
+export interface BinaryImage {
+  width: number
+  height: number
+  // 1 = 暗（条/模块），0 = 亮
+  data: Uint8Array
+}
+
+const BLOCK_SIZE = 8
+// 块内明暗差小于该值视为纯色块，阈值参考相邻块
+const MIN_DYNAMIC_RANGE = 24
+
+export const toLuminance = (rgba: Uint8ClampedArray, width: number, height: number): Uint8Array => {
+  const lum = new Uint8Array(width * height)
+  for (let i = 0, p = 0; i < lum.length; i++, p += 4) {
+    // 透明像素按白色处理（PNG 截图常见）
+    const alpha = rgba[p + 3] / 255
+    const gray = (rgba[p] * 306 + rgba[p + 1] * 601 + rgba[p + 2] * 117) >> 10
+    lum[i] = Math.round(gray * alpha + 255 * (1 - alpha))
+  }
+  return lum
+}
+
+// 图片太小不足以分块时用全局阈值（直方图谷底）
+const globalThreshold = (lum: Uint8Array): number => {
+  const histogram = new Array(32).fill(0)
+  lum.forEach((v) => histogram[v >> 3]++)
+  let firstPeak = 0
+  histogram.forEach((count, i) => {
+    if (count > histogram[firstPeak]) firstPeak = i
+  })
+  let secondPeak = 0
+  let secondScore = 0
+  histogram.forEach((count, i) => {
+    const score = count * (i - firstPeak) * (i - firstPeak)
+    if (score > secondScore) {
+      secondPeak = i
+      secondScore = score
+    }
+  })
+  const [low, high] = firstPeak < secondPeak ? [firstPeak, secondPeak] : [secondPeak, firstPeak]
+  let valley = low
+  let valleyScore = -1
+  for (let i = low + 1; i < high; i++) {
+    const score = (i - low) * (high - i) * (histogram[firstPeak] - histogram[i])
+    if (score > valleyScore) {
+      valley = i
+      valleyScore = score
+    }
+  }
+  return (valley << 3) + 4
+}
+
+export const binarize = (lum: Uint8Array, width: number, height: number): BinaryImage => {
+  const data = new Uint8Array(width * height)
+  if (width < BLOCK_SIZE * 5 || height < BLOCK_SIZE * 5) {
+    const threshold = globalThreshold(lum)
+    lum.forEach((v, i) => {
+      data[i] = v < threshold ? 1 : 0
+    })
+    return { width, height, data }
+  }
+
+  const subW = Math.ceil(width / BLOCK_SIZE)
+  const subH = Math.ceil(height / BLOCK_SIZE)
+  const blackPoints = new Float64Array(subW * subH)
+
+  for (let by = 0; by < subH; by++) {
+    const y0 = Math.min(by * BLOCK_SIZE, height - BLOCK_SIZE)
+    for (let bx = 0; bx < subW; bx++) {
+      const x0 = Math.min(bx * BLOCK_SIZE, width - BLOCK_SIZE)
+      let sum = 0
+      let min = 255
+      let max = 0
+      for (let y = y0; y < y0 + BLOCK_SIZE; y++) {
+        for (let x = x0; x < x0 + BLOCK_SIZE; x++) {
+          const v = lum[y * width + x]
+          sum += v
+          if (v < min) min = v
+          if (v > max) max = v
+        }
+      }
+      let average = sum / (BLOCK_SIZE * BLOCK_SIZE)
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        average = min / 2
+        if (bx > 0 && by > 0) {
+          const neighbor = (blackPoints[(by - 1) * subW + bx] + 2 * blackPoints[by * subW + bx - 1] + blackPoints[(by - 1) * subW + bx - 1]) / 4
+          if (min < neighbor) average = neighbor
+        }
+      }
+      blackPoints[by * subW + bx] = average
+    }
+  }
+
+  for (let by = 0; by < subH; by++) {
+    const y0 = Math.min(by * BLOCK_SIZE, height - BLOCK_SIZE)
+    const cy = Math.min(Math.max(by, 2), subH - 3)
+    for (let bx = 0; bx < subW; bx++) {
+      const x0 = Math.min(bx * BLOCK_SIZE, width - BLOCK_SIZE)
+      const cx = Math.min(Math.max(bx, 2), subW - 3)
+      let sum = 0
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) sum += blackPoints[(cy + dy) * subW + cx + dx]
+      }
+      const threshold = sum / 25
+      for (let y = y0; y < y0 + BLOCK_SIZE; y++) {
+        for (let x = x0; x < x0 + BLOCK_SIZE; x++) {
+          data[y * width + x] = lum[y * width + x] <= threshold ? 1 : 0
+        }
+      }
+    }
+  }
+  return { width, height, data }
+}
+
+// 旋转 90°（顺时针），用于识别竖放的一维码
+export const rotate90 = (image: BinaryImage): BinaryImage => {
+  const { width, height, data } = image
+  const rotated = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) rotated[x * height + (height - 1 - y)] = data[y * width + x]
+  }
+  return { width: height, height: width, data: rotated }
+}
@@ -0,0 +1,259 @@
+﻿// 内置表格标签的打印配置：版式（尺寸、边距、表格、字号、条码来源）保存为服务端配置方案，
+// 打印位置校准与预览缩放属于本机设置，只保存在本机
+
+import { LABEL_PAYLOAD_FORMATS, LabelPayloadFormat } from './labelPayload'
+import { DEFAULT_LABEL_SERIAL_PATTERN } from './labelSerial'
+
+// 标签配置类型
+export interface LabelConfig {
+  // 标签尺寸
+  labelWidth: number         // 标签宽度 mm
+  labelHeight: number        // 标签高度 mm
+  // 打印边距
+  marginTop: number          // 上边距 mm
+  marginBottom: number       // 下边距 mm
+  marginLeft: number         // 左边距 mm
+  marginRight: number        // 右边距 mm
+  // 打印偏移（用于校准打印位置，支持负值）
+  offsetX: number            // 水平偏移 mm（正值向右，负值向左）
+  offsetY: number            // 垂直偏移 mm（正值向下，负值向上）
+  // 表格设置
+  tableWidth: number         // 表格宽度 (百分比 1-100)
+  labelColumnWidth: number   // 标签列宽度 (百分比 1-50)
+  // 字体设置
+  titleFontSize: number      // 标题字号
+  labelFontSize: number      // 标签字号
+  valueFontSize: number      // 值字号
+  // 固定内容
+  companyName: string        // 公司名称
+  // 显示选项
+  showBarcode: boolean       // 显示材料条形码
+  showQrcode: boolean        // 显示批次二维码
+  // 条码数据来源：plain=物料编码/批次号；gs1=GS1 应用标识符（GS1-128 + GS1 Data Matrix，需物料设置 GTIN）；
+  // structured=单个结构化标签二维码（物料编码、批次号、有效期、数量、标签序号）
+  codeSource: 'plain' | 'gs1' | 'structured'
+  gs1IncludeCount: boolean   // GS1 标签附带 (37) 数量（托盘等物流单元）
+  payloadFormat: LabelPayloadFormat   // 结构化标签码格式
+  // 序号标签：每张标签签发唯一序号（按批次累加，补打接着往后排），写入结构化标签码并显示张次
+  serialEnabled: boolean
+  serialPattern: string      // 序号模板，占位符见 src/utils/labelSerial.ts
+  // 预览缩放
+  previewScale: number
+}
+
+export type LabelWorkstationKey = 'offsetX' | 'offsetY' | 'previewScale'
+
+// 共享版式：保存在配置方案中，各工作站一致
+export type LabelLayoutConfig = Omit<LabelConfig, LabelWorkstationKey>
+
+// 本机设置：所选配置方案 + 打印位置校准（各打印机进纸偏差不同）+ 预览缩放
+export interface LabelWorkstationSettings extends Pick<LabelConfig, LabelWorkstationKey> {
+  // null 表示跟随默认方案；'' 表示内置默认版式
+  profileId: string | null
+}
+
+// 配置版本号：字段含义变化或删减时递增，并在 LAYOUT_MIGRATIONS 中补充升级步骤
+// 4：所有字段保存在本机 labelPrintConfig；5：版式拆分为配置方案，偏移与预览缩放改为本机设置
+export const LABEL_CONFIG_VERSION = 5
+
+// 默认配置
+export const DEFAULT_LABEL_CONFIG: LabelConfig = {
+  labelWidth: 100,
+  labelHeight: 100,
+  marginTop: 2,
+  marginBottom: 2,
+  marginLeft: 2,
+  marginRight: 2,
+  offsetX: 0,
+  offsetY: 0,
+  tableWidth: 80,  // 降低表格宽度，让内容不超出
+  labelColumnWidth: 25,
+  titleFontSize: 12,
+  labelFontSize: 10,
+  valueFontSize: 12,
+  companyName: '深圳市颖灿生物科技有限公司',
+  showBarcode: false,  // 默认关闭一维条形码，使用双二维码布局
+  showQrcode: true,
+  codeSource: 'plain',
+  gs1IncludeCount: false,
+  payloadFormat: 'json',
+  serialEnabled: false,
+  serialPattern: DEFAULT_LABEL_SERIAL_PATTERN,
+  previewScale: 1.2
+}
+
+const WORKSTATION_KEYS: LabelWorkstationKey[] = ['offsetX', 'offsetY', 'previewScale']
+
+export const DEFAULT_LABEL_LAYOUT: LabelLayoutConfig = (() => {
+  const layout: Partial<LabelConfig> = { ...DEFAULT_LABEL_CONFIG }
+  WORKSTATION_KEYS.forEach((k) => delete layout[k])
+  return layout as LabelLayoutConfig
+})()
+
+export const DEFAULT_LABEL_WORKSTATION: LabelWorkstationSettings = {
+  profileId: null,
+  offsetX: DEFAULT_LABEL_CONFIG.offsetX,
+  offsetY: DEFAULT_LABEL_CONFIG.offsetY,
+  previewScale: DEFAULT_LABEL_CONFIG.previewScale
+}
+
+type FieldRule =
+  | { type: 'number'; min: number; max: number }
+  | { type: 'string' }
+  | { type: 'boolean' }
+  | { type: 'enum'; values: readonly string[] }
+
+// 逐字段校验规则：范围取得比设置面板宽，尽量保留手工调好的值，只拦截明显损坏的数据
+const FIELD_RULES: Record<keyof LabelConfig, FieldRule> = {
+  labelWidth: { type: 'number', min: 10, max: 300 },
+  labelHeight: { type: 'number', min: 10, max: 300 },
+  marginTop: { type: 'number', min: 0, max: 50 },
+  marginBottom: { type: 'number', min: 0, max: 50 },
+  marginLeft: { type: 'number', min: 0, max: 50 },
+  marginRight: { type: 'number', min: 0, max: 50 },
+  offsetX: { type: 'number', min: -50, max: 50 },
+  offsetY: { type: 'number', min: -50, max: 50 },
+  tableWidth: { type: 'number', min: 1, max: 100 },
+  labelColumnWidth: { type: 'number', min: 1, max: 50 },
+  titleFontSize: { type: 'number', min: 4, max: 48 },
+  labelFontSize: { type: 'number', min: 4, max: 48 },
+  valueFontSize: { type: 'number', min: 4, max: 48 },
+  companyName: { type: 'string' },
+  showBarcode: { type: 'boolean' },
+  showQrcode: { type: 'boolean' },
+  codeSource: { type: 'enum', values: ['plain', 'gs1', 'structured'] },
+  gs1IncludeCount: { type: 'boolean' },
+  payloadFormat: { type: 'enum', values: LABEL_PAYLOAD_FORMATS.map((f) => f.value) },
+  serialEnabled: { type: 'boolean' },
+  serialPattern: { type: 'string' },
+  previewScale: { type: 'number', min: 0.5, max: 2 }
+}
+
+// 单个字段：类型正确且在范围内则保留（数字字符串也接受），否则回退为默认值
+const migrateField = <K extends keyof LabelConfig>(key: K, value: unknown): LabelConfig[K] => {
+  const rule = FIELD_RULES[key]
+  const fallback = DEFAULT_LABEL_CONFIG[key]
+  if (value === undefined || value === null) return fallback
+  switch (rule.type) {
+    case 'number': {
+      const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN
+      return (Number.isFinite(n) && n >= rule.min && n <= rule.max ? n : fallback) as LabelConfig[K]
+    }
+    case 'string':
+      return (typeof value === 'string' ? value : fallback) as LabelConfig[K]
+    case 'boolean':
+      return (typeof value === 'boolean' ? value : fallback) as LabelConfig[K]
+    case 'enum':
+      return (typeof value === 'string' && rule.values.includes(value) ? value : fallback) as LabelConfig[K]
+  }
+}
+
+type RawConfig = Record<string, unknown>
+
+// 版本升级步骤：key 为旧版本号，把该版本的数据升级到下一版本；没有步骤的版本原样进入逐字段校验
+const LAYOUT_MIGRATIONS: Record<number, (raw: RawConfig) => RawConfig> = {
+  // 偏移与预览缩放移出共享版式（由 extractLegacyWorkstation 迁移到本机设置）
+  4: (raw) => {
+    const next = { ...raw }
+    WORKSTATION_KEYS.forEach((k) => delete next[k])
+    return next
+  }
+}
+
+const asRawConfig = (raw: unknown): RawConfig =>
+  raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as RawConfig) : {}
+
+// 旧版本配置逐步升级后逐字段校验：缺失或损坏的字段取默认值，其余字段保留，不再整体丢弃
+export const migrateLabelLayout = (raw: unknown, version: number): LabelLayoutConfig => {
+  let data = asRawConfig(raw)
+  for (let v = Math.max(1, Math.floor(version) || 1); v < LABEL_CONFIG_VERSION; v++) {
+    const step = LAYOUT_MIGRATIONS[v]
+    if (step) data = step(data)
+  }
+  const layout: Partial<LabelLayoutConfig> = {}
+  ;(Object.keys(DEFAULT_LABEL_LAYOUT) as (keyof LabelLayoutConfig)[]).forEach((key) => {
+    ;(layout as Record<string, unknown>)[key] = migrateField(key, data[key])
+  })
+  return layout as LabelLayoutConfig
+}
+
+export const migrateLabelWorkstation = (raw: unknown): LabelWorkstationSettings => {
+  const data = asRawConfig(raw)
+  return {
+    profileId: typeof data.profileId === 'string' ? data.profileId : null,
+    offsetX: migrateField('offsetX', data.offsetX),
+    offsetY: migrateField('offsetY', data.offsetY),
+    previewScale: migrateField('previewScale', data.previewScale)
+  }
+}
+
+// 比较两份版式是否一致（用于判断是否有未保存的修改）
+export const isSameLabelLayout = (a: LabelLayoutConfig, b: LabelLayoutConfig) =>
+  (Object.keys(DEFAULT_LABEL_LAYOUT) as (keyof LabelLayoutConfig)[]).every((k) => a[k] === b[k])
+
+// =============================================================================
+// 本机存储
+// =============================================================================
+
+const WORKSTATION_STORAGE_KEY = 'labelPrintWorkstation'
+const LEGACY_LAYOUT_STORAGE_KEY = 'labelPrintLegacyLayout'
+// 旧版（<= 4）整份配置存在本机
+const LEGACY_CONFIG_KEY = 'labelPrintConfig'
+const LEGACY_VERSION_KEY = 'labelPrintConfigVersion'
+
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key)
+  return saved ? JSON.parse(saved) : null
+}
+
+// 说明：旧版本机配置只迁移一次——偏移/缩放转为本机设置，版式另存为“本机旧配置”供选用或另存为方案，然后删除旧键
+const migrateLegacyConfig = () => {
+  const legacy = readJson(LEGACY_CONFIG_KEY)
+  if (!legacy) return
+  const version = Number(localStorage.getItem(LEGACY_VERSION_KEY)) || 1
+  if (!localStorage.getItem(WORKSTATION_STORAGE_KEY)) {
+    const workstation = migrateLabelWorkstation(legacy)
+    localStorage.setItem(WORKSTATION_STORAGE_KEY, JSON.stringify(workstation))
+  }
+  const layout = migrateLabelLayout(legacy, version)
+  if (!isSameLabelLayout(layout, DEFAULT_LABEL_LAYOUT)) {
+    localStorage.setItem(LEGACY_LAYOUT_STORAGE_KEY, JSON.stringify({ version: LABEL_CONFIG_VERSION, config: layout }))
+  }
+  localStorage.removeItem(LEGACY_CONFIG_KEY)
+  localStorage.removeItem(LEGACY_VERSION_KEY)
+}
+
+export const loadLabelWorkstation = (): LabelWorkstationSettings => {
+  try {
+    migrateLegacyConfig()
+    return migrateLabelWorkstation(readJson(WORKSTATION_STORAGE_KEY))
+  } catch (e) {
+    console.error('Failed to load label workstation settings:', e)
+  }
+  return DEFAULT_LABEL_WORKSTATION
+}
+
+export const saveLabelWorkstation = (settings: LabelWorkstationSettings) => {
+  try {
+    localStorage.setItem(WORKSTATION_STORAGE_KEY, JSON.stringify(settings))
+  } catch (e) {
+    console.error('Failed to save label workstation settings:', e)
+  }
+}
+
+// 本机旧配置中迁移出的版式；没有或与内置默认一致时为 null
+export const loadLegacyLabelLayout = (): LabelLayoutConfig | null => {
+  try {
+    migrateLegacyConfig()
+    const saved = asRawConfig(readJson(LEGACY_LAYOUT_STORAGE_KEY))
+    if (!saved.config) return null
+    return migrateLabelLayout(saved.config, Number(saved.version) || LABEL_CONFIG_VERSION)
+  } catch (e) {
+    console.error('Failed to load legacy label config:', e)
+  }
+  return null
+}
+
+export const clearLegacyLabelLayout = () => {
+  localStorage.removeItem(LEGACY_LAYOUT_STORAGE_KEY)
+}
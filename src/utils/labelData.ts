@@ -0,0 +1,163 @@
+﻿// 标签打印数据：由物料/批次组装 LabelPrintData，并列出标签上实际渲染、需要登记到条码台账的码
+// 单张打印与打印队列共用
+
+import { BarcodeRegisterInput, LabelPrintData, LabelTemplate, Material } from '@/types/database'
+import { buildGs1Elements, toGs1HumanReadable } from '@/utils/gs1'
+import { LabelConfig } from '@/utils/labelConfig'
+import { encodeLabelPayload } from '@/utils/labelPayload'
+import { getLabelTemplateCodes, templateUsesCodeSource } from '@/utils/labelTemplate'
+
+export interface LabelBatchInfo {
+  // 新建批次模式下批次尚未入库，id 为空
+  id?: string | null
+  batch_number: string
+  production_date?: string
+  expiry_date?: string
+  quantity?: number
+}
+
+export interface LabelCodeNeeds {
+  gs1: boolean
+  payload: boolean
+}
+
+// 使用模板时按模板上的条码/二维码元素决定需要生成的码，否则按标签设置的条码数据来源
+export const getLabelCodeNeeds = (template: LabelTemplate | null, config: LabelConfig): LabelCodeNeeds => ({
+  gs1: template ? templateUsesCodeSource(template, 'gs1') : config.codeSource === 'gs1',
+  payload: template ? templateUsesCodeSource(template, 'label_payload') : config.codeSource === 'structured'
+})
+
+export interface BuildLabelDataInput {
+  material: Material
+  batch: LabelBatchInfo
+  supplier: { code: string; name: string }
+  companyName: string
+  config: LabelConfig
+  needs: LabelCodeNeeds
+  // 打印前的临时修改
+  editData?: Partial<LabelPrintData>
+}
+
+export const buildLabelPrintData = ({
+  material,
+  batch,
+  supplier,
+  companyName,
+  config,
+  needs,
+  editData = {}
+}: BuildLabelDataInput): LabelPrintData => {
+  // 确保 barcode 数据是字符串类型
+  const materialCode = String(material.code || '')
+  const batchNumber = String(batch.batch_number || '')
+
+  const merged: LabelPrintData = {
+    company_name: companyName,
+    supplier_code: supplier.code,
+    supplier_name: supplier.name,
+    product_name: material.name,
+    product_code: material.code,
+    weight: material.weight,
+    storage_conditions: material.storage_conditions,
+    main_ingredients: material.main_ingredients,
+    shelf_life: material.shelf_life,
+    production_date: batch.production_date,
+    expiry_date: batch.expiry_date,
+    batch_number: batchNumber,
+    material_barcode: materialCode,
+    batch_barcode: batchNumber,
+    ...editData
+  }
+  // 临时修改把公司名称清空时仍使用默认名称
+  merged.company_name = editData.company_name || companyName
+
+  // GS1 元素按合并后的批号/生产日期生成，临时编辑同样生效
+  if (needs.gs1) {
+    const { elements, error } = buildGs1Elements({
+      material,
+      batch: {
+        batch_number: merged.batch_number,
+        production_date: merged.production_date,
+        expiry_date: batch.expiry_date
+      },
+      count: config.gs1IncludeCount ? batch.quantity : null
+    })
+    merged.gs1_elements = elements
+    merged.gs1_error = error
+  }
+  if (needs.payload) {
+    merged.label_payload = encodeLabelPayload({
+      material_code: merged.product_code,
+      batch_number: merged.batch_number,
+      expiry_date: batch.expiry_date,
+      quantity: batch.quantity,
+      serial: merged.label_serial
+    }, config.payloadFormat)
+  }
+  return merged
+}
+
+export interface LabelBarcodeCollection {
+  codes: BarcodeRegisterInput[]
+  error?: { title: string; message?: string }
+}
+
+// 标签上实际渲染的码：物料码（条形码/二维码）+ 批次二维码，或 GS1-128 / GS1 Data Matrix，或模板中的码元素
+// （新建批次模式下批次尚未入库，批次码不关联批次）
+export const collectLabelBarcodes = (
+  data: LabelPrintData,
+  { template, config, materialId, batchId }: {
+    template: LabelTemplate | null
+    config: LabelConfig
+    materialId: string
+    batchId?: string | null
+  }
+): LabelBarcodeCollection => {
+  const codes: BarcodeRegisterInput[] = []
+  const needs = getLabelCodeNeeds(template, config)
+  const linkedBatchId = batchId ?? null
+
+  if (needs.gs1 && data.gs1_error) {
+    return { codes, error: { title: 'GS1 条码无法生成', message: data.gs1_error } }
+  }
+
+  if (template) {
+    for (const code of getLabelTemplateCodes(template, data)) {
+      if (code.error) return { codes, error: { title: '条码无法生成', message: code.error } }
+      if (code.source === 'material_barcode') {
+        codes.push({ barcode: code.barcode, barcode_type: code.barcode_type, material_id: materialId })
+      } else if (code.source === 'batch_barcode') {
+        if (linkedBatchId) codes.push({ barcode: code.barcode, barcode_type: code.barcode_type, batch_id: linkedBatchId })
+      } else {
+        codes.push({ barcode: code.barcode, barcode_type: code.barcode_type, material_id: materialId, batch_id: linkedBatchId })
+      }
+    }
+  } else if (config.codeSource === 'gs1') {
+    const text = toGs1HumanReadable(data.gs1_elements || [])
+    if (config.showBarcode) {
+      codes.push({ barcode: text, barcode_type: 'gs1_128', material_id: materialId, batch_id: linkedBatchId })
+    }
+    if (config.showQrcode) {
+      codes.push({ barcode: text, barcode_type: 'gs1_datamatrix', material_id: materialId, batch_id: linkedBatchId })
+    }
+  } else if (config.codeSource === 'structured') {
+    // 说明：结构化标签码整串登记，扫码解析时据此找到这张标签的打印记录
+    if (config.showBarcode && data.material_barcode) {
+      codes.push({ barcode: data.material_barcode, barcode_type: 'code128', material_id: materialId })
+    }
+    if (config.showQrcode && data.label_payload) {
+      codes.push({ barcode: data.label_payload, barcode_type: 'qr_code', material_id: materialId, batch_id: linkedBatchId })
+    }
+  } else {
+    if (config.showBarcode && data.material_barcode) {
+      codes.push({ barcode: data.material_barcode, barcode_type: 'code128', material_id: materialId })
+    }
+    if (config.showQrcode && data.material_barcode) {
+      codes.push({ barcode: data.material_barcode, barcode_type: 'qr_code', material_id: materialId })
+    }
+    if (config.showQrcode && data.batch_barcode && linkedBatchId) {
+      codes.push({ barcode: data.batch_barcode, barcode_type: 'qr_code', batch_id: linkedBatchId })
+    }
+  }
+  return { codes }
+}
@@ -0,0 +1,114 @@
+﻿// 标签结构化二维码内容：带版本号，携带物料编码、批次号、有效期、数量与标签序号，扫码即可定位到具体批次/标签
+
+export type LabelPayloadFormat = 'json' | 'url'
+
+// 说明：字段含义变化或删减时递增；新增可选字段不需要改版本号
+export const LABEL_PAYLOAD_VERSION = 1
+
+// URL 形式的前缀；用自定义协议避免被手机扫码直接跳转到外部网页
+export const LABEL_PAYLOAD_URL_PREFIX = 'tiaoma://label'
+
+export const LABEL_PAYLOAD_FORMATS: { value: LabelPayloadFormat; label: string; example: string }[] = [
+  { value: 'json', label: 'JSON 紧凑格式', example: '{"v":1,"m":"M001","b":"B001"}' },
+  { value: 'url', label: 'URL 格式', example: `${LABEL_PAYLOAD_URL_PREFIX}?v=1&m=M001&b=B001` }
+]
+
+export interface LabelPayload {
+  version: number
+  material_code: string
+  batch_number: string
+  expiry_date?: string | null  // YYYY-MM-DD
+  quantity?: number | null
+  serial?: string | null
+}
+
+// 解析成功时有 payload/format，失败时只有 error
+export interface LabelPayloadDecodeResult {
+  payload?: LabelPayload
+  format?: LabelPayloadFormat
+  error?: string
+}
+
+// 载荷字段 <-> 短键名（二维码容量有限，键名尽量短）
+type CompactPayload = { v: number; m: string; b: string; e?: string; q?: number; s?: string }
+
+const toCompact = (payload: Omit<LabelPayload, 'version'>): CompactPayload => {
+  const compact: CompactPayload = { v: LABEL_PAYLOAD_VERSION, m: payload.material_code, b: payload.batch_number }
+  if (payload.expiry_date) compact.e = payload.expiry_date.slice(0, 10)
+  if (payload.quantity !== null && payload.quantity !== undefined) compact.q = Number(payload.quantity)
+  if (payload.serial) compact.s = payload.serial
+  return compact
+}
+
+export const encodeLabelPayload = (payload: Omit<LabelPayload, 'version'>, format: LabelPayloadFormat): string => {
+  const compact = toCompact(payload)
+  if (format === 'json') return JSON.stringify(compact)
+  const params = Object.entries(compact)
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&')
+  return `${LABEL_PAYLOAD_URL_PREFIX}?${params}`
+}
+
+const fromCompact = (raw: Record<string, unknown>, format: LabelPayloadFormat): LabelPayloadDecodeResult => {
+  const version = Number(raw.v)
+  if (!Number.isInteger(version) || version < 1) return { error: '标签码缺少版本号' }
+  if (version > LABEL_PAYLOAD_VERSION) {
+    return { error: `标签码版本 v${version} 高于当前支持的 v${LABEL_PAYLOAD_VERSION}，请升级系统` }
+  }
+
+  const materialCode = typeof raw.m === 'string' ? raw.m.trim() : ''
+  const batchNumber = typeof raw.b === 'string' ? raw.b.trim() : ''
+  if (!materialCode || !batchNumber) return { error: '标签码缺少物料编码或批次号' }
+
+  const payload: LabelPayload = { version, material_code: materialCode, batch_number: batchNumber }
+  if (raw.e !== undefined && raw.e !== '') {
+    if (typeof raw.e !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.e)) return { error: '标签码有效期格式错误' }
+    payload.expiry_date = raw.e
+  }
+  if (raw.q !== undefined && raw.q !== '') {
+    const quantity = Number(raw.q)
+    if (!Number.isFinite(quantity)) return { error: '标签码数量格式错误' }
+    payload.quantity = quantity
+  }
+  if (raw.s !== undefined && raw.s !== '') payload.serial = String(raw.s)
+  return { payload, format }
+}
+
+/**
+ * 解析扫码内容。返回 null 表示不是结构化标签码（普通物料编码/批次号等），调用方按原有方式处理；
+ * 是结构化标签码但内容不合法时返回 error。
+ */
+export const decodeLabelPayload = (raw: string): LabelPayloadDecodeResult | null => {
+  const text = raw.trim()
+
+  if (text.startsWith('{')) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      return null
+    }
+    if (!parsed || typeof parsed !== 'object' || !('v' in parsed)) return null
+    return fromCompact(parsed as Record<string, unknown>, 'json')
+  }
+
+  // 说明：URL 的协议/主机名不区分大小写
+  if (text.toLowerCase().startsWith(`${LABEL_PAYLOAD_URL_PREFIX}?`)) {
+    const fields: Record<string, string> = {}
+    text
+      .slice(LABEL_PAYLOAD_URL_PREFIX.length + 1)
+      .split('&')
+      .forEach((pair) => {
+        const index = pair.indexOf('=')
+        if (index <= 0) return
+        try {
+          fields[pair.slice(0, index)] = decodeURIComponent(pair.slice(index + 1).replace(/\+/g, ' '))
+        } catch {
+          // 说明：单个字段转义错误时忽略该字段，缺少必填字段会在下面报错
+        }
+      })
+    return fromCompact(fields, 'url')
+  }
+
+  return null
+}
@@ -0,0 +1,277 @@
+﻿import { LabelTemplate } from '@/types/database'
+import { LabelConfig } from '@/utils/labelConfig'
+
+// 标签打印文档：把页面上渲染好的标签取出为 HTML，拼成打印页（隐藏 iframe 打印）或可下载的 HTML 文件
+
+interface LabelPage {
+  width: number
+  height: number
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+// 克隆标签容器并把条码画布替换为图片，得到可脱离当前页面使用的标签 HTML
+export const convertCanvasToImages = (container: HTMLElement): string => {
+  // 克隆容器以避免修改原始内容
+  const clone = container.cloneNode(true) as HTMLElement
+  const originalCanvases = container.querySelectorAll('canvas')
+  const clonedCanvases = clone.querySelectorAll('canvas')
+
+  originalCanvases.forEach((canvas, index) => {
+    try {
+      const img = document.createElement('img')
+      img.src = canvas.toDataURL('image/png')
+      img.style.cssText = canvas.getAttribute('style') || ''
+      // 说明：模板元素的码已按 mm 设定宽高，保持原样式
+      if (!canvas.dataset.labelElement) {
+        img.style.maxWidth = '100%'
+        img.style.height = 'auto'
+      }
+
+      const clonedCanvas = clonedCanvases[index]
+      if (clonedCanvas && clonedCanvas.parentNode) {
+        clonedCanvas.parentNode.replaceChild(img, clonedCanvas)
+      }
+    } catch (error) {
+      console.error('Canvas to image conversion error:', error)
+    }
+  })
+
+  return clone.innerHTML
+}
+
+// 纸张尺寸与边距：模板自带完整版式，页面即模板尺寸、不留边距
+const getLabelPage = (template: LabelTemplate | null, config: LabelConfig): LabelPage =>
+  template
+    ? { width: template.width_mm, height: template.height_mm, top: 0, right: 0, bottom: 0, left: 0 }
+    : {
+      width: config.labelWidth,
+      height: config.labelHeight,
+      top: config.marginTop,
+      right: config.marginRight,
+      bottom: config.marginBottom,
+      left: config.marginLeft
+    }
+
+// 打印文档：每个元素为一张标签的 HTML，每张一页，应用本机打印偏移
+export const buildLabelPrintDocument = (
+  labelHtmls: string[],
+  template: LabelTemplate | null,
+  config: LabelConfig
+): string => {
+  const page = getLabelPage(template, config)
+  // 计算实际打印区域尺寸
+  const contentWidth = page.width - page.left - page.right
+  const contentHeight = page.height - page.top - page.bottom
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>打印标签</title>
+      <style>
+        @page {
+          size: ${page.width}mm ${page.height}mm;
+          margin: 0;
+        }
+        * {
+          box-sizing: border-box;
+          margin: 0;
+          padding: 0;
+        }
+        body {
+          font-family: SimHei, "Microsoft YaHei", sans-serif;
+          -webkit-print-color-adjust: exact;
+          print-color-adjust: exact;
+          /* 应用打印偏移 */
+          padding-top: ${page.top + config.offsetY}mm;
+          padding-left: ${page.left + config.offsetX}mm;
+          padding-right: ${page.right}mm;
+          padding-bottom: ${page.bottom}mm;
+        }
+        .label-container {
+          width: ${contentWidth}mm;
+          height: ${contentHeight}mm;
+          overflow: hidden;
+          page-break-after: always;
+        }
+        .label-container:last-child {
+          page-break-after: auto;
+        }
+        /* 模板按 1em = 1mm 排版，打印时恢复实际尺寸 */
+        .label-template-canvas {
+          font-size: 1mm !important;
+        }
+        .label-template {
+          width: 100%;
+          border: 1px solid #000;
+          background: #fff;
+          font-size: ${config.labelFontSize}px;
+        }
+        table {
+          width: ${config.tableWidth}%;
+          border-collapse: collapse;
+        }
+        td {
+          border: 1px solid #000;
+          padding: 1mm 2mm;
+          font-size: ${config.labelFontSize}px;
+          line-height: 1.2;
+        }
+        td:first-child {
+          width: ${config.labelColumnWidth}%;
+        }
+        .text-red-600 {
+          color: #000;
+        }
+        .font-bold {
+          font-weight: bold;
+        }
+        .text-center {
+          text-align: center;
+        }
+        img {
+          max-width: 100%;
+          height: auto;
+          display: block;
+          margin: 0 auto;
+        }
+        .flex {
+          display: flex;
+        }
+        .justify-center {
+          justify-content: center;
+        }
+        .align-top {
+          vertical-align: top;
+        }
+        .border-b {
+          border-bottom: 1px solid #000;
+        }
+        .border-r {
+          border-right: 1px solid #000;
+        }
+        .px-2 {
+          padding-left: 2mm;
+          padding-right: 2mm;
+        }
+        .py-1 {
+          padding-top: 1mm;
+          padding-bottom: 1mm;
+        }
+        .py-2 {
+          padding-top: 2mm;
+          padding-bottom: 2mm;
+        }
+        @media print {
+          body {
+            margin: 0;
+            padding: 0;
+          }
+          .label-container {
+            margin: 0;
+            padding: 0;
+          }
+        }
+      </style>
+    </head>
+    <body>
+      ${labelHtmls.map(html => `<div class="label-container">${html}</div>`).join('')}
+    </body>
+    </html>
+  `
+}
+
+// 用隐藏的 iframe 打印整份文档（兼容 Electron），整组标签作为一个打印任务；失败时抛出可展示的错误
+export const printLabelDocument = (html: string): Promise<void> => {
+  const printFrame = document.createElement('iframe')
+  printFrame.style.position = 'absolute'
+  printFrame.style.top = '-10000px'
+  printFrame.style.left = '-10000px'
+  printFrame.style.width = '0'
+  printFrame.style.height = '0'
+  document.body.appendChild(printFrame)
+
+  const printDocument = printFrame.contentDocument || printFrame.contentWindow?.document
+  if (!printDocument) {
+    document.body.removeChild(printFrame)
+    return Promise.reject(new Error('无法创建打印文档'))
+  }
+  printDocument.write(html)
+  printDocument.close()
+
+  // 等待内容加载完成后打印
+  return new Promise((resolve, reject) => {
+    setTimeout(() => {
+      try {
+        printFrame.contentWindow?.focus()
+        printFrame.contentWindow?.print()
+        resolve()
+      } catch (err) {
+        console.error('Print error:', err)
+        reject(new Error('打印失败，请重试'))
+      } finally {
+        // 延迟移除 iframe，确保打印对话框已关闭
+        setTimeout(() => {
+          document.body.removeChild(printFrame)
+        }, 1000)
+      }
+    }, 500)
+  })
+}
+
+// 单张标签的独立 HTML 文件（条码已转为图片），用浏览器打开后可直接打印
+export const buildLabelDownloadDocument = (labelHtml: string, title: string): string => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: SimHei, "Microsoft YaHei", sans-serif;
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      min-height: 100vh;
+      background: #f0f0f0;
+      padding: 20px;
+    }
+    .label-template {
+      background: #fff;
+      border: 2px solid #000;
+    }
+    .label-template-canvas { font-size: 1mm !important; }
+    table { width: 100%; border-collapse: collapse; }
+    td { border: 1px solid #000; padding: 4px 8px; }
+    .text-red-600 { color: #dc2626; }
+    .font-bold { font-weight: bold; }
+    .text-center { text-align: center; }
+    img { max-width: 100%; height: auto; display: block; margin: 0 auto; }
+    .flex { display: flex; }
+    .justify-center { justify-content: center; }
+    @media print {
+      body { background: #fff; padding: 0; }
+    }
+  </style>
+</head>
+<body>
+  ${labelHtml}
+</body>
+</html>`
+
+export const downloadHtmlFile = (html: string, filename: string) => {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
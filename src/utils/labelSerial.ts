@@ -0,0 +1,44 @@
+﻿import { format } from 'date-fns'
+
+// 说明：与 supabase/migrations/024_label_serials.sql 中 format_label_serial() 的格式化规则保持一致
+
+export const DEFAULT_LABEL_SERIAL_PATTERN = '{BATCH}-{SEQ:4}'
+
+const DEFAULT_SEQ_WIDTH = 4
+const SEQ_TOKEN = /\{SEQ(?::(\d))?\}/g
+
+// 单次打印最多签发的序号数（与数据库函数一致）
+export const MAX_LABEL_SERIALS_PER_JOB = 1000
+
+export const LABEL_SERIAL_TOKENS: Array<{ token: string; label: string }> = [
+  { token: '{BATCH}', label: '批次号' },
+  { token: '{MATERIAL}', label: '物料编码' },
+  { token: '{YYYYMMDD}', label: '签发日期' },
+  { token: '{YYMMDD}', label: '短签发日期' },
+  { token: '{SEQ:4}', label: '批次内流水号（数字为位数）' }
+]
+
+// 模板必须包含流水号，否则同一批次的标签序号必然重复
+export const validateLabelSerialPattern = (pattern: string): string | null => {
+  if (!pattern.trim()) return '请输入序号模板'
+  if (!new RegExp(SEQ_TOKEN.source).test(pattern)) return '序号模板必须包含 {SEQ} 或 {SEQ:n}'
+  if (pattern.length > 40) return '序号模板过长'
+  return null
+}
+
+export const formatLabelSerial = (
+  pattern: string,
+  values: { materialCode: string; batchNumber: string; date?: Date; seq: number }
+): string => {
+  const date = values.date ?? new Date()
+  return pattern
+    .split('{MATERIAL}').join(values.materialCode)
+    .split('{BATCH}').join(values.batchNumber)
+    .split('{YYYYMMDD}').join(format(date, 'yyyyMMdd'))
+    .split('{YYMMDD}').join(format(date, 'yyMMdd'))
+    .replace(SEQ_TOKEN, (_, width?: string) =>
+      String(values.seq).padStart(width ? Number(width) : DEFAULT_SEQ_WIDTH, '0'))
+}
+
+// 标签上显示的张次，如 “1/24”
+export const formatLabelSequence = (index: number, total: number) => `${index}/${total}`
@@ -0,0 +1,260 @@
+﻿// 可视化标签模板：字段绑定、元素默认值、吸附对齐与条码内容解析（设计器、模板渲染、标签打印共用）
+import {
+  BarcodeType,
+  LabelCodeSource,
+  LabelElement,
+  LabelElementType,
+  LabelFieldKey,
+  LabelPrintData,
+  LabelTemplate
+} from '@/types/database'
+import { validateBarcodeValue } from '@/utils/barcodeSymbology'
+import { toGs1HumanReadable } from '@/utils/gs1'
+
+// 屏幕上 1mm 对应的像素（96dpi），与内置表格模板的换算一致
+export const MM_TO_PX = 3.78
+// 1pt = 0.3528mm
+export const PT_TO_MM = 0.3528
+
+export const LABEL_FIELDS: { key: LabelFieldKey; label: string; sample: string }[] = [
+  { key: 'company_name', label: '公司名称', sample: '示例生物科技有限公司' },
+  { key: 'supplier_code', label: '供应商编码', sample: 'SUP001' },
+  { key: 'supplier_name', label: '供应商名称', sample: '示例供应商' },
+  { key: 'product_name', label: '品名', sample: '示例原料' },
+  { key: 'product_code', label: '物料编码', sample: 'MAT001' },
+  { key: 'weight', label: '重量', sample: '0.18KG' },
+  { key: 'storage_conditions', label: '储存条件', sample: '阴凉干燥处保存' },
+  { key: 'main_ingredients', label: '主要成份', sample: '示例成份' },
+  { key: 'shelf_life', label: '保质期', sample: '12个月' },
+  { key: 'production_date', label: '生产日期', sample: '2026-01-01' },
+  { key: 'expiry_date', label: '有效期至', sample: '2027-01-01' },
+  { key: 'batch_number', label: '批次号', sample: 'B20260101-001' },
+  { key: 'open_date', label: '开封日期', sample: '' },
+  { key: 'label_serial', label: '标签序号', sample: '0001' },
+  { key: 'label_sequence', label: '张次', sample: '1/24' }
+]
+
+export const LABEL_CODE_SOURCES: { value: LabelCodeSource; label: string }[] = [
+  { value: 'material_barcode', label: '物料编码' },
+  { value: 'batch_barcode', label: '批次号' },
+  { value: 'gs1', label: 'GS1（GS1-128 / GS1 Data Matrix）' },
+  { value: 'label_payload', label: '结构化标签码' }
+]
+
+export const LABEL_ELEMENT_TYPE_TEXT: Record<LabelElementType, string> = {
+  text: '文本',
+  field: '字段',
+  barcode: '条形码',
+  qrcode: '二维码',
+  line: '线条',
+  box: '矩形框',
+  image: '图片'
+}
+
+export const GRID_SIZES = [0, 0.5, 1, 2, 5]
+
+// 与其他元素/标签边缘的对齐吸附距离（mm）
+export const SNAP_THRESHOLD_MM = 1
+
+export const roundMm = (value: number) => Math.round(value * 10) / 10
+
+const newElementId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// 新元素默认放在 (x, y)，尺寸按类型给出常用值
+export const createLabelElement = (type: LabelElementType, x = 2, y = 2): LabelElement => {
+  const base = { id: newElementId(), x, y }
+  switch (type) {
+    case 'text':
+      return { ...base, type, width: 40, height: 6, content: '文本', fontSize: 10 }
+    case 'field':
+      return { ...base, type, width: 50, height: 6, field: 'product_name', prefix: '品名：', fontSize: 10 }
+    case 'barcode':
+      return { ...base, type, width: 50, height: 15, source: 'material_barcode', symbology: 'code128', showText: true }
+    case 'qrcode':
+      return { ...base, type, width: 20, height: 20, source: 'batch_barcode' }
+    case 'line':
+      return { ...base, type, width: 50, height: 1, orientation: 'horizontal', thickness: 0.3 }
+    case 'box':
+      return { ...base, type, width: 40, height: 20, thickness: 0.3 }
+    case 'image':
+      return { ...base, type, width: 20, height: 20, src: '' }
+  }
+}
+
+export const duplicateLabelElement = (element: LabelElement): LabelElement => ({
+  ...element,
+  id: newElementId(),
+  x: roundMm(element.x + 2),
+  y: roundMm(element.y + 2)
+})
+
+// 示例数据：设计器预览用，条码类内容给出可渲染的值
+export const buildSampleLabelData = (): LabelPrintData => {
+  const data = Object.fromEntries(LABEL_FIELDS.map((f) => [f.key, f.sample])) as unknown as LabelPrintData
+  return {
+    ...data,
+    material_barcode: data.product_code,
+    batch_barcode: data.batch_number,
+    gs1_elements: [
+      { ai: '01', value: '06901234567892' },
+      { ai: '17', value: '270101' },
+      { ai: '10', value: data.batch_number }
+    ],
+    label_payload: JSON.stringify({ v: 1, m: data.product_code, b: data.batch_number })
+  }
+}
+
+export const resolveLabelField = (data: LabelPrintData, key: LabelFieldKey): string => {
+  const value = data[key]
+  return value === undefined || value === null ? '' : String(value)
+}
+
+// 文本中的 {字段} 替换为字段值；未知字段原样保留，便于发现拼写错误
+export const resolveLabelText = (content: string, data: LabelPrintData): string =>
+  content.replace(/\{(\w+)\}/g, (match, key: string) =>
+    LABEL_FIELDS.some((f) => f.key === key) ? resolveLabelField(data, key as LabelFieldKey) : match
+  )
+
+// 条码/二维码元素的内容；GS1 返回人读格式（渲染时直接使用 gs1_elements）
+export const resolveLabelCode = (source: LabelCodeSource, data: LabelPrintData): string => {
+  switch (source) {
+    case 'material_barcode':
+      return data.material_barcode || ''
+    case 'batch_barcode':
+      return data.batch_barcode || ''
+    case 'gs1':
+      return toGs1HumanReadable(data.gs1_elements || [])
+    case 'label_payload':
+      return data.label_payload || ''
+  }
+}
+
+export const templateUsesCodeSource = (template: LabelTemplate, source: LabelCodeSource) =>
+  template.elements.some((e) => (e.type === 'barcode' || e.type === 'qrcode') && e.source === source)
+
+export interface LabelTemplateCode {
+  source: LabelCodeSource
+  barcode: string
+  barcode_type: BarcodeType
+  // 一维码内容不符合码制时的原因（此时标签上该条码无法渲染）
+  error?: string
+}
+
+// 模板上实际渲染的码（同内容同码制只算一次），用于登记到条码台账；一维码按码制校验并补齐校验位
+export const getLabelTemplateCodes = (template: LabelTemplate, data: LabelPrintData): LabelTemplateCode[] => {
+  const codes: LabelTemplateCode[] = []
+  template.elements.forEach((e) => {
+    if (e.type !== 'barcode' && e.type !== 'qrcode') return
+    let barcode = resolveLabelCode(e.source, data)
+    if (!barcode) return
+    let error: string | undefined
+    let barcode_type: BarcodeType
+    if (e.source === 'gs1') {
+      barcode_type = e.type === 'barcode' ? 'gs1_128' : 'gs1_datamatrix'
+    } else if (e.type === 'barcode') {
+      const validation = validateBarcodeValue(e.symbology, barcode)
+      barcode = validation.value
+      error = validation.error
+      barcode_type = e.symbology
+    } else {
+      barcode_type = 'qr_code'
+    }
+    if (!codes.some((c) => c.barcode === barcode && c.barcode_type === barcode_type)) {
+      codes.push({ source: e.source, barcode, barcode_type, error })
+    }
+  })
+  return codes
+}
+
+export type LabelDefaultSource = 'material' | 'supplier' | 'global'
+
+export const LABEL_DEFAULT_SOURCE_TEXT: Record<LabelDefaultSource, string> = {
+  material: '物料',
+  supplier: '供应商',
+  global: '全局'
+}
+
+export interface LabelDefaultLevel {
+  source: LabelDefaultSource
+  template_id?: string | null
+  print_count?: number | null
+}
+
+export interface ResolvedLabelDefaults {
+  // 为空表示内置表格模板
+  templateId: string | null
+  templateSource: LabelDefaultSource
+  printCount: number
+  printCountSource: LabelDefaultSource
+}
+
+// 按传入顺序（物料 > 供应商 > 全局）逐级取第一个设置了的值，模板与张数分别解析；
+// 已删除的模板视为未设置；全局一级总是生效（模板为空即内置表格模板）
+export const resolveLabelDefaults = (
+  levels: LabelDefaultLevel[],
+  templateExists: (id: string) => boolean
+): ResolvedLabelDefaults => {
+  const templateLevel = levels.find((l) => l.source === 'global' || (!!l.template_id && templateExists(l.template_id)))
+  const countLevel = levels.find((l) => l.source === 'global' || (!!l.print_count && l.print_count > 0))
+  const templateId = templateLevel?.template_id && templateExists(templateLevel.template_id) ? templateLevel.template_id : null
+  return {
+    templateId,
+    templateSource: templateLevel?.source ?? 'global',
+    printCount: countLevel?.print_count && countLevel.print_count > 0 ? countLevel.print_count : 1,
+    printCountSource: countLevel?.source ?? 'global'
+  }
+}
+
+// 对齐参考线：标签与其他元素的起边、中线、止边
+export const collectSnapTargets = (
+  template: Pick<LabelTemplate, 'width_mm' | 'height_mm' | 'elements'>,
+  excludeId: string,
+  axis: 'x' | 'y'
+): number[] => {
+  const size = axis === 'x' ? template.width_mm : template.height_mm
+  const targets = [0, size / 2, size]
+  template.elements.forEach((e) => {
+    if (e.id === excludeId) return
+    const start = axis === 'x' ? e.x : e.y
+    const length = axis === 'x' ? e.width : e.height
+    targets.push(start, start + length / 2, start + length)
+  })
+  return targets
+}
+
+const snapToGrid = (value: number, grid: number) => (grid > 0 ? Math.round(value / grid) * grid : value)
+
+const nearestTarget = (value: number, targets: number[]): number | null => {
+  let best: number | null = null
+  for (const t of targets) {
+    if (Math.abs(t - value) <= SNAP_THRESHOLD_MM && (best === null || Math.abs(t - value) < Math.abs(best - value))) {
+      best = t
+    }
+  }
+  return best
+}
+
+// 移动：元素的起边/中线/止边任一靠近参考线时对齐，否则吸附网格；guide 为命中的参考线
+export const snapMove = (
+  start: number,
+  length: number,
+  targets: number[],
+  grid: number
+): { value: number; guide: number | null } => {
+  let best: { value: number; guide: number } | null = null
+  for (const offset of [0, length / 2, length]) {
+    const target = nearestTarget(start + offset, targets)
+    if (target !== null && (!best || Math.abs(target - offset - start) < Math.abs(best.value - start))) {
+      best = { value: target - offset, guide: target }
+    }
+  }
+  if (best) return { value: roundMm(best.value), guide: best.guide }
+  return { value: roundMm(snapToGrid(start, grid)), guide: null }
+}
+
+// 缩放：只吸附被拖动的那条边
+export const snapEdge = (edge: number, targets: number[], grid: number): { value: number; guide: number | null } => {
+  const target = nearestTarget(edge, targets)
+  if (target !== null) return { value: roundMm(target), guide: target }
+  return { value: roundMm(snapToGrid(edge, grid)), guide: null }
+}
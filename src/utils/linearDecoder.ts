@@ -0,0 +1,334 @@
+﻿// 一维码识别：按扫描线取明暗游程（条/空宽度），逐一尝试 Code 128、EAN-13/UPC-A、EAN-8、Code 39、ITF
+// 说明：宽度按比例匹配（思路同 ZXing 的 pattern variance），正反两个方向都会尝试；
+// 没有校验位的码制（Code 39、非 14 位 ITF）需两条扫描线结果一致才采用
+
+import { BinaryImage } from '@/utils/imageBinarizer'
+import { BarcodeSymbology, computeGtinCheckDigit } from '@/utils/barcodeSymbology'
+import { parseGs1ElementString, toGs1HumanReadable } from '@/utils/gs1'
+
+export type LinearFormat = BarcodeSymbology | 'gs1-128'
+
+export interface LinearDecodeResult {
+  // GS1-128 返回人工识读格式 (01)...(10)...
+  text: string
+  format: LinearFormat
+}
+
+// 扫描线条数（均匀分布在图片高度上）
+const SCAN_LINES = 40
+
+// 各码字的条空宽度（模块数），下标即码值；106 为终止符（末尾多一根 2 模块的条）
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+].map((p) => Array.from(p, Number))
+
+const CODE128_MAX_VARIANCE = 0.25
+const EAN_MAX_VARIANCE = 0.48
+
+// EAN/UPC 左侧奇校验（L）编码；偶校验（G）为其倒序，右侧（R）与 L 宽度相同
+const EAN_L_PATTERNS = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2]
+]
+const EAN_G_PATTERNS = EAN_L_PATTERNS.map((p) => [...p].reverse())
+// EAN-13 首位数字由左侧 6 位的奇偶组合决定（位为 1 表示该位用 G 编码）
+const EAN_FIRST_DIGIT_PARITY = [0x00, 0x0b, 0x0d, 0x0e, 0x13, 0x19, 0x1c, 0x15, 0x16, 0x1a]
+
+// Code 39：9 个条空中 3 宽 6 窄，按从左到右的宽窄位编码
+const CODE39_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%*'
+const CODE39_PATTERNS = [
+  0x034, 0x121, 0x061, 0x160, 0x031, 0x130, 0x070, 0x025, 0x124, 0x064, 0x109,
+  0x049, 0x148, 0x019, 0x118, 0x058, 0x00d, 0x10c, 0x04c, 0x01c, 0x103, 0x043,
+  0x142, 0x013, 0x112, 0x052, 0x007, 0x106, 0x046, 0x016, 0x181, 0x0c1, 0x1c0,
+  0x091, 0x190, 0x0d0, 0x085, 0x184, 0x0c4, 0x0a8, 0x0a2, 0x08a, 0x02a, 0x094
+]
+
+// ITF：5 个条（或空）中 2 宽 3 窄
+const ITF_PATTERNS = ['NNWWN', 'WNNNW', 'NWNNW', 'WWNNN', 'NNWNW', 'WNWNN', 'NWWNN', 'NNNWW', 'WNNWN', 'NWNWN']
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+// 实测宽度与标准图案的平均偏差（相对总宽），单个元素偏差过大直接判为不匹配
+const patternVariance = (counts: number[], pattern: number[], maxIndividual = 0.7) => {
+  const total = sum(counts)
+  const patternLength = sum(pattern)
+  if (total < patternLength) return Infinity
+  const unit = total / patternLength
+  let variance = 0
+  for (let i = 0; i < counts.length; i++) {
+    const diff = Math.abs(counts[i] - pattern[i] * unit)
+    if (diff > maxIndividual * unit) return Infinity
+    variance += diff
+  }
+  return variance / total
+}
+
+const bestMatch = (counts: number[], patterns: number[][], maxVariance: number) => {
+  let best = -1
+  let bestVariance = maxVariance
+  patterns.forEach((pattern, index) => {
+    const variance = patternVariance(counts, pattern)
+    if (variance < bestVariance) {
+      best = index
+      bestVariance = variance
+    }
+  })
+  return best
+}
+
+// 条码前 minWidth 宽的空白区里暗像素不超过两成（照片上的噪点会把空白区切碎；扫描线起点之外视为空白）
+const hasQuietZone = (runs: number[], start: number, minWidth: number) => {
+  let total = 0
+  let dark = 0
+  for (let k = start - 1; k >= 0 && total < minWidth; k--) {
+    const width = Math.min(runs[k], minWidth - total)
+    total += width
+    if (k % 2 === 1) dark += width
+  }
+  return dark <= minWidth * 0.2
+}
+
+// ---- Code 128
+const decodeCode128 = (runs: number[], start: number): LinearDecodeResult | null => {
+  const first = runs.slice(start, start + 6)
+  if (first.length < 6) return null
+  const startCode = bestMatch(first, CODE128_PATTERNS.slice(103, 106), CODE128_MAX_VARIANCE)
+  if (startCode < 0 || !hasQuietZone(runs, start, sum(first) / 2)) return null
+
+  const codes = [startCode + 103]
+  let pos = start + 6
+  for (;;) {
+    const counts = runs.slice(pos, pos + 6)
+    if (counts.length < 6) return null
+    const code = bestMatch(counts, CODE128_PATTERNS.map((p) => p.slice(0, 6)), CODE128_MAX_VARIANCE)
+    if (code < 0 || (code >= 103 && code <= 105)) return null
+    pos += 6
+    if (code === 106) {
+      // 终止符最后一根条约 2 个模块宽
+      const unit = sum(counts) / 11
+      if (runs[pos] === undefined || Math.abs(runs[pos] - 2 * unit) > 1.5 * unit) return null
+      break
+    }
+    codes.push(code)
+  }
+  if (codes.length < 3) return null
+
+  const check = codes.pop()!
+  const checksum = codes.reduce((acc, code, i) => acc + code * Math.max(i, 1), 0) % 103
+  if (checksum !== check) return null
+
+  let set = codes[0] - 103
+  let shifted = false
+  let gs1 = false
+  let text = ''
+  codes.slice(1).forEach((code) => {
+    const current = shifted ? (set === 0 ? 1 : 0) : set
+    shifted = false
+    if (code === 102) {
+      // FNC1：出现在任何数据之前表示 GS1-128，其余位置是 AI 之间的分隔符
+      if (!text) gs1 = true
+      else text += '\x1d'
+    } else if (current === 2) {
+      if (code < 100) text += String(code).padStart(2, '0')
+      else if (code === 100) set = 1
+      else if (code === 101) set = 0
+    } else if (code < 96) {
+      text += String.fromCharCode(current === 0 && code >= 64 ? code - 64 : code + 32)
+    } else if (code === 98) {
+      shifted = true
+    } else if (code === 99) {
+      set = 2
+    } else if (code === 100 && current === 0) {
+      set = 1
+    } else if (code === 101 && current === 1) {
+      set = 0
+    }
+  })
+
+  if (gs1) {
+    const elements = parseGs1ElementString(text)
+    if (elements.length) return { text: toGs1HumanReadable(elements), format: 'gs1-128' }
+  }
+  return { text, format: 'code128' }
+}
+
+// ---- EAN-13 / UPC-A / EAN-8
+const GUARD = [1, 1, 1]
+const MIDDLE_GUARD = [1, 1, 1, 1, 1]
+
+const decodeEan = (runs: number[], start: number, digitsPerSide: 6 | 4): LinearDecodeResult | null => {
+  const total = 3 + digitsPerSide * 8 + 5 + 3
+  if (start + total > runs.length) return null
+  const guard = runs.slice(start, start + 3)
+  if (patternVariance(guard, GUARD) > EAN_MAX_VARIANCE) return null
+  // 整个符号固定 95（EAN-8 为 67）个模块：起始符与每个数字的宽度都要和平均模块宽度吻合，避免误读
+  const unit = sum(runs.slice(start, start + total)) / (digitsPerSide * 14 + 11)
+  const fitsModules = (counts: number[], modules: number) => Math.abs(sum(counts) - modules * unit) <= unit * 1.5
+  if (!fitsModules(guard, 3) || !hasQuietZone(runs, start, unit * 3)) return null
+
+  let pos = start + 3
+  let digits = ''
+  let parity = 0
+  for (let i = 0; i < digitsPerSide; i++) {
+    const counts = runs.slice(pos, pos + 4)
+    if (!fitsModules(counts, 7)) return null
+    const l = bestMatch(counts, EAN_L_PATTERNS, EAN_MAX_VARIANCE)
+    const g = digitsPerSide === 6 ? bestMatch(counts, EAN_G_PATTERNS, EAN_MAX_VARIANCE) : -1
+    if (l < 0 && g < 0) return null
+    const useG = g >= 0 && (l < 0 || patternVariance(counts, EAN_G_PATTERNS[g]) < patternVariance(counts, EAN_L_PATTERNS[l]))
+    digits += useG ? g : l
+    if (useG) parity |= 1 << (digitsPerSide - 1 - i)
+    pos += 4
+  }
+  if (patternVariance(runs.slice(pos, pos + 5), MIDDLE_GUARD) > EAN_MAX_VARIANCE) return null
+  pos += 5
+  for (let i = 0; i < digitsPerSide; i++) {
+    const counts = runs.slice(pos, pos + 4)
+    const digit = fitsModules(counts, 7) ? bestMatch(counts, EAN_L_PATTERNS, EAN_MAX_VARIANCE) : -1
+    if (digit < 0) return null
+    digits += digit
+    pos += 4
+  }
+  const endGuard = runs.slice(pos, pos + 3)
+  if (patternVariance(endGuard, GUARD) > EAN_MAX_VARIANCE) return null
+  const trailing = runs[pos + 3]
+  if (trailing !== undefined && trailing < sum(endGuard)) return null
+
+  if (digitsPerSide === 6) {
+    const firstDigit = EAN_FIRST_DIGIT_PARITY.indexOf(parity)
+    if (firstDigit < 0) return null
+    digits = firstDigit + digits
+  } else if (parity !== 0) {
+    return null
+  }
+  if (computeGtinCheckDigit(digits.slice(0, -1)) !== Number(digits.slice(-1))) return null
+
+  if (digitsPerSide === 4) return { text: digits, format: 'ean8' }
+  // 首位为 0 的 EAN-13 即 UPC-A
+  return digits.startsWith('0') ? { text: digits.slice(1), format: 'upc' } : { text: digits, format: 'ean13' }
+}
+
+// ---- Code 39
+const toWidePattern = (counts: number[], wideCount: number): number => {
+  const sorted = [...counts].sort((a, b) => b - a)
+  const narrowMax = sorted[wideCount]
+  if (sorted[wideCount - 1] < narrowMax * 1.5) return -1
+  return counts.reduce((bits, c) => (bits << 1) | (c > narrowMax ? 1 : 0), 0)
+}
+
+const decodeCode39 = (runs: number[], start: number): LinearDecodeResult | null => {
+  const readChar = (pos: number) => {
+    const counts = runs.slice(pos, pos + 9)
+    if (counts.length < 9) return ''
+    const index = CODE39_PATTERNS.indexOf(toWidePattern(counts, 3))
+    return index < 0 ? '' : CODE39_CHARS[index]
+  }
+  if (readChar(start) !== '*' || !hasQuietZone(runs, start, sum(runs.slice(start, start + 9)) / 2)) return null
+
+  let text = ''
+  // 每个字符 9 个条空 + 1 个字符间隔
+  for (let pos = start + 10; pos < runs.length; pos += 10) {
+    const char = readChar(pos)
+    if (!char) return null
+    if (char === '*') return text ? { text, format: 'code39' } : null
+    text += char
+  }
+  return null
+}
+
+// ---- ITF（交叉 25 码）
+const decodeItf = (runs: number[], start: number): LinearDecodeResult | null => {
+  const startPattern = runs.slice(start, start + 4)
+  if (startPattern.length < 4 || patternVariance(startPattern, [1, 1, 1, 1]) > EAN_MAX_VARIANCE) return null
+  const narrow = sum(startPattern) / 4
+  if (!hasQuietZone(runs, start, narrow * 5)) return null
+
+  let digits = ''
+  let pos = start + 4
+  while (pos + 3 <= runs.length) {
+    // 终止符：宽条 + 窄空 + 窄条
+    const [bar, space, last] = runs.slice(pos, pos + 3)
+    if (bar >= narrow * 1.6 && space < narrow * 1.6 && last < narrow * 1.6 && (runs[pos + 3] === undefined || runs[pos + 3] >= narrow * 5)) {
+      break
+    }
+    const group = runs.slice(pos, pos + 10)
+    if (group.length < 10) return null
+    const bars = group.filter((_, i) => i % 2 === 0)
+    const spaces = group.filter((_, i) => i % 2 === 1)
+    for (const widths of [bars, spaces]) {
+      const bits = toWidePattern(widths, 2)
+      const digit = ITF_PATTERNS.findIndex((p) => Array.from(p).every((c, i) => (c === 'W') === (((bits >> (4 - i)) & 1) === 1)))
+      if (bits < 0 || digit < 0) return null
+      digits += digit
+    }
+    pos += 10
+  }
+  if (digits.length < 6) return null
+  if (digits.length === 14 && computeGtinCheckDigit(digits.slice(0, -1)) !== Number(digits.slice(-1))) return null
+  return { text: digits, format: 'itf14' }
+}
+
+// 一条扫描线上的游程：下标为偶数的是空（第 0 个可能为 0 宽），奇数的是条
+const rowRuns = (image: BinaryImage, y: number): number[] => {
+  const runs = [0]
+  let dark = false
+  for (let x = 0; x < image.width; x++) {
+    const isDark = image.data[y * image.width + x] === 1
+    if (isDark !== dark) {
+      runs.push(0)
+      dark = isDark
+    }
+    runs[runs.length - 1]++
+  }
+  return runs
+}
+
+const decodeRuns = (runs: number[]): LinearDecodeResult | null => {
+  for (let start = 1; start < runs.length; start += 2) {
+    const result =
+      decodeCode128(runs, start) ||
+      decodeEan(runs, start, 6) ||
+      decodeEan(runs, start, 4) ||
+      decodeCode39(runs, start) ||
+      decodeItf(runs, start)
+    if (result) return result
+  }
+  return null
+}
+
+// 所有扫描线的结果按出现次数投票：局部污损偶尔能凑出校验正确的错码，多数线读出的才可信；
+// 没有校验位（或校验很弱）的码制至少要两条线一致
+export const decodeLinearCode = (image: BinaryImage): LinearDecodeResult | null => {
+  const votes = new Map<string, { result: LinearDecodeResult; hits: number }>()
+  for (let i = 0; i < SCAN_LINES; i++) {
+    const y = Math.floor(((i + 0.5) * image.height) / SCAN_LINES)
+    const runs = rowRuns(image, y)
+    // 反向后若以条开头，前面补一个 0 宽的空，保证下标奇偶性（偶数为空）不变
+    const reversed = [...runs].reverse()
+    if (runs.length % 2 === 0) reversed.unshift(0)
+
+    for (const line of [runs, reversed]) {
+      const result = decodeRuns(line)
+      if (!result) continue
+      const key = `${result.format}:${result.text}`
+      const vote = votes.get(key) || { result, hits: 0 }
+      vote.hits++
+      votes.set(key, vote)
+    }
+  }
+
+  const best = [...votes.values()].sort((a, b) => b.hits - a.hits)[0]
+  if (!best) return null
+  const weak = best.result.format === 'code39' || (best.result.format === 'itf14' && best.result.text.length !== 14)
+  return weak && best.hits < 2 ? null : best.result
+}
@@ -0,0 +1,61 @@
+﻿import { MaterialBatch, OutboundAllocation, OutboundStrategy } from '@/types/database'
+
+const today = () => new Date().toISOString().split('T')[0]
+
+// 批次是否可参与出库分配：仅“可用”且未过期、仍有库存的批次（锁定/过期批次一律跳过）
+export const isBatchPickable = (batch: MaterialBatch): boolean => {
+  const remaining = batch.remaining_quantity ?? batch.quantity
+  if (batch.status !== 'available' || remaining <= 0) return false
+  return !batch.expiry_date || batch.expiry_date >= today()
+}
+
+// 报废可处理的批次：与 post_material_outbound 一致，过期（按状态或按有效期）的批次也允许报废
+export const isBatchScrappable = (batch: MaterialBatch): boolean => {
+  const remaining = batch.remaining_quantity ?? batch.quantity
+  return (batch.status === 'available' || batch.status === 'expired') && remaining > 0
+}
+
+// 空日期排在最后，避免“没填有效期”的批次被优先出库
+const compareDate = (a?: string, b?: string): number => {
+  if (a === b) return 0
+  if (!a) return 1
+  if (!b) return -1
+  return a < b ? -1 : 1
+}
+
+export const sortBatchesForOutbound = (batches: MaterialBatch[], strategy: OutboundStrategy): MaterialBatch[] => {
+  const fifo = (a: MaterialBatch, b: MaterialBatch) =>
+    compareDate(a.production_date, b.production_date) || compareDate(a.created_at, b.created_at)
+
+  return [...batches].sort((a, b) =>
+    strategy === 'fefo'
+      ? compareDate(a.expiry_date, b.expiry_date) || fifo(a, b)
+      : fifo(a, b)
+  )
+}
+
+/**
+ * 按策略把出库数量分配到可用批次上。
+ * shortfall > 0 表示可用库存不足，分配结果只覆盖了部分数量。
+ * canPick 决定哪些批次参与分配，报废时传 isBatchScrappable。
+ */
+export const allocateOutbound = (
+  batches: MaterialBatch[],
+  quantity: number,
+  strategy: OutboundStrategy,
+  canPick: (batch: MaterialBatch) => boolean = isBatchPickable
+): { allocations: OutboundAllocation[]; shortfall: number } => {
+  const allocations: OutboundAllocation[] = []
+  let rest = quantity
+
+  for (const batch of sortBatchesForOutbound(batches.filter(canPick), strategy)) {
+    if (rest <= 0) break
+    const remaining = batch.remaining_quantity ?? batch.quantity
+    const take = Math.min(remaining, rest)
+    allocations.push({ batch_id: batch.id, quantity: take })
+    // 说明：DECIMAL(10,2)，这里按两位小数收敛，避免浮点误差残留
+    rest = Math.round((rest - take) * 100) / 100
+  }
+
+  return { allocations, shortfall: Math.max(0, rest) }
+}
@@ -0,0 +1,67 @@
+﻿// 单个条码/二维码打印：条码生成页与条码台账补打共用
+
+export interface PrintBarcodeOptions {
+  value: string
+  codeType: 'barcode' | 'qrcode'
+  // 二维码图片本身不含文字，需要时在下方补一行码值
+  showValue?: boolean
+}
+
+export const printBarcodeCanvas = (canvas: HTMLCanvasElement, { value, codeType, showValue = true }: PrintBarcodeOptions): boolean => {
+  // 说明：使用 noopener/noreferrer，避免打印窗口意外获取 opener 引用导致的安全风险。
+  const printWindow = window.open('', '_blank', 'noopener,noreferrer')
+  if (!printWindow) return false
+
+  const dataUrl = canvas.toDataURL('image/png', 1.0)
+  // 说明：标签尺寸做近似（业务可根据实际打印机/标签纸再微调）。
+  const printWidth = codeType === 'barcode' ? 300 : 200
+
+  const doc = printWindow.document
+  // 说明：写入固定骨架，再通过 title/textContent 等设置动态内容，避免 XSS 注入。
+  doc.open()
+  doc.write('<!doctype html><html><head><meta charset="utf-8"></head><body></body></html>')
+  doc.close()
+
+  doc.title = `打印条码 - ${value}`
+
+  const style = doc.createElement('style')
+  style.textContent = `
+    @page { size: auto; margin: 0; }
+    body {
+      display: flex;
+      flex-direction: column;
+      justify-content: center;
+      align-items: center;
+      height: 100vh;
+      margin: 0;
+    }
+    img { width: ${printWidth}px; max-width: 100%; }
+    .label { margin-top: 10px; font-family: sans-serif; font-size: 14px; }
+  `
+  doc.head.appendChild(style)
+
+  const img = doc.createElement('img')
+  img.src = dataUrl
+  img.alt = value
+  doc.body.appendChild(img)
+
+  if (showValue && codeType === 'qrcode') {
+    const label = doc.createElement('div')
+    label.className = 'label'
+    label.textContent = value
+    doc.body.appendChild(label)
+  }
+
+  // 说明：等待图片加载完成再触发打印，避免出现空白页。
+  img.onload = () => {
+    setTimeout(() => {
+      try {
+        printWindow.focus()
+        printWindow.print()
+      } finally {
+        printWindow.close()
+      }
+    }, 200)
+  }
+  return true
+}
@@ -0,0 +1,781 @@
+﻿// 二维码（QR Code）识别：从二值化图片中定位三个寻像图形，透视校正后采样模块，
+// 读取格式/版本信息、去掩模、Reed-Solomon 纠错并解析数据段（ISO/IEC 18004）
+// 说明：只处理图片中的一个码（取最可信的寻像图形组合），不支持镜像码与 Micro QR
+
+import { BinaryImage } from '@/utils/imageBinarizer'
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface FinderCandidate extends Point {
+  // 估算的模块边长（像素）
+  size: number
+  // 被多少条扫描线命中，用于过滤偶然出现的 1:1:3:1:1 纹理
+  count: number
+}
+
+// ---- 版本参数（列顺序 L M Q H，摘自标准表 9）
+const EC_BLOCKS_TABLE = [
+  1, 1, 1, 1,
+  1, 1, 1, 1,
+  1, 1, 2, 2,
+  1, 2, 2, 4,
+  1, 2, 4, 4,
+  2, 4, 4, 4,
+  2, 4, 6, 5,
+  2, 4, 6, 6,
+  2, 5, 8, 8,
+  4, 5, 8, 8,
+  4, 5, 8, 11,
+  4, 8, 10, 11,
+  4, 9, 12, 16,
+  4, 9, 16, 16,
+  6, 10, 12, 18,
+  6, 10, 17, 16,
+  6, 11, 16, 19,
+  6, 13, 18, 21,
+  7, 14, 21, 25,
+  8, 16, 20, 25,
+  8, 17, 23, 25,
+  9, 17, 23, 34,
+  9, 18, 25, 30,
+  10, 20, 27, 32,
+  12, 21, 29, 35,
+  12, 23, 34, 37,
+  12, 25, 34, 40,
+  13, 26, 35, 42,
+  14, 28, 38, 45,
+  15, 29, 40, 48,
+  16, 31, 43, 51,
+  17, 33, 45, 54,
+  18, 35, 48, 57,
+  19, 37, 51, 60,
+  19, 38, 53, 63,
+  20, 40, 56, 66,
+  21, 43, 59, 70,
+  22, 45, 62, 74,
+  24, 47, 65, 77,
+  25, 49, 68, 81
+]
+
+const EC_CODEWORDS_TABLE = [
+  7, 10, 13, 17,
+  10, 16, 22, 28,
+  15, 26, 36, 44,
+  20, 36, 52, 64,
+  26, 48, 72, 88,
+  36, 64, 96, 112,
+  40, 72, 108, 130,
+  48, 88, 132, 156,
+  60, 110, 160, 192,
+  72, 130, 192, 224,
+  80, 150, 224, 264,
+  96, 176, 260, 308,
+  104, 198, 288, 352,
+  120, 216, 320, 384,
+  132, 240, 360, 432,
+  144, 280, 408, 480,
+  168, 308, 448, 532,
+  180, 338, 504, 588,
+  196, 364, 546, 650,
+  224, 416, 600, 700,
+  224, 442, 644, 750,
+  252, 476, 690, 816,
+  270, 504, 750, 900,
+  300, 560, 810, 960,
+  312, 588, 870, 1050,
+  336, 644, 952, 1110,
+  360, 700, 1020, 1200,
+  390, 728, 1050, 1260,
+  420, 784, 1140, 1350,
+  450, 812, 1200, 1440,
+  480, 868, 1290, 1530,
+  510, 924, 1350, 1620,
+  540, 980, 1440, 1710,
+  570, 1036, 1530, 1800,
+  570, 1064, 1590, 1890,
+  600, 1120, 1680, 1980,
+  630, 1204, 1770, 2100,
+  660, 1260, 1860, 2220,
+  720, 1316, 1950, 2310,
+  750, 1372, 2040, 2430
+]
+
+const CODEWORDS_COUNT = [
+  0,
+  26, 44, 70, 100, 134, 172, 196, 242, 292, 346,
+  404, 466, 532, 581, 655, 733, 815, 901, 991, 1085,
+  1156, 1258, 1364, 1474, 1588, 1706, 1828, 1921, 2051, 2185,
+  2323, 2465, 2611, 2761, 2876, 3034, 3196, 3362, 3532, 3706
+]
+
+// 格式信息中的纠错等级位 -> 上表列号（00=M 01=L 10=H 11=Q）
+const EC_COLUMN_BY_BITS = [1, 0, 3, 2]
+
+const bitLength = (n: number) => (n === 0 ? 0 : 32 - Math.clz32(n))
+
+const bchCode = (data: number, poly: number) => {
+  const degree = bitLength(poly) - 1
+  let d = data << degree
+  while (bitLength(d) - bitLength(poly) >= 0) d ^= poly << (bitLength(d) - bitLength(poly))
+  return (data << degree) | d
+}
+
+const FORMAT_CODES = Array.from({ length: 32 }, (_, data) => bchCode(data, 0x537) ^ 0x5412)
+const VERSION_CODES = Array.from({ length: 41 }, (_, version) => (version >= 7 ? bchCode(version, 0x1f25) : -1))
+
+const hamming = (a: number, b: number) => {
+  let x = a ^ b
+  let count = 0
+  while (x) {
+    x &= x - 1
+    count++
+  }
+  return count
+}
+
+// 汉明距离最近的合法码字（超过 3 位差异视为不可读）
+const closestCode = (codes: number[], values: number[]): number => {
+  let best = -1
+  let bestDistance = 4
+  codes.forEach((code, index) => {
+    if (code < 0) return
+    values.forEach((value) => {
+      const distance = hamming(code, value)
+      if (distance < bestDistance) {
+        best = index
+        bestDistance = distance
+      }
+    })
+  })
+  return best
+}
+
+// ---- GF(256)，本原多项式 x^8 + x^4 + x^3 + x^2 + 1（285）
+const GF_EXP = new Uint8Array(512)
+const GF_LOG = new Uint8Array(256)
+;(() => {
+  let x = 1
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x
+    GF_LOG[x] = i
+    x <<= 1
+    if (x & 0x100) x ^= 0x11d
+  }
+  for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255]
+})()
+
+const gfMul = (a: number, b: number) => (a && b ? GF_EXP[GF_LOG[a] + GF_LOG[b]] : 0)
+const gfDiv = (a: number, b: number) => (a ? GF_EXP[(GF_LOG[a] + 255 - GF_LOG[b]) % 255] : 0)
+
+const evalPoly = (coefficients: number[], x: number) => {
+  // 低次在前
+  let result = 0
+  for (let i = coefficients.length - 1; i >= 0; i--) result = gfMul(result, x) ^ coefficients[i]
+  return result
+}
+
+const syndromes = (codewords: number[], eccCount: number) =>
+  Array.from({ length: eccCount }, (_, j) => {
+    let s = 0
+    codewords.forEach((c) => {
+      s = gfMul(s, GF_EXP[j]) ^ c
+    })
+    return s
+  })
+
+// Berlekamp-Massey 求错误位置多项式 + Forney 求错误值；纠错失败返回 null
+const correctBlock = (codewords: number[], eccCount: number): number[] | null => {
+  const n = codewords.length
+  const s = syndromes(codewords, eccCount)
+  if (s.every((v) => v === 0)) return codewords
+
+  let locator = [1]
+  let previous = [1]
+  let errors = 0
+  let shift = 1
+  let lastDiscrepancy = 1
+  for (let r = 0; r < eccCount; r++) {
+    let d = s[r]
+    for (let i = 1; i <= errors; i++) d ^= gfMul(locator[i] || 0, s[r - i])
+    if (d === 0) {
+      shift++
+      continue
+    }
+    const coef = gfDiv(d, lastDiscrepancy)
+    const snapshot = locator.slice()
+    while (locator.length < previous.length + shift) locator.push(0)
+    previous.forEach((p, i) => {
+      locator[i + shift] ^= gfMul(coef, p)
+    })
+    if (2 * errors <= r) {
+      errors = r + 1 - errors
+      previous = snapshot
+      lastDiscrepancy = d
+      shift = 1
+    } else {
+      shift++
+    }
+  }
+  if (errors * 2 > eccCount) return null
+  locator = locator.slice(0, errors + 1)
+
+  const positions: number[] = []
+  for (let k = 0; k < n; k++) {
+    const xInv = GF_EXP[(255 - ((n - 1 - k) % 255)) % 255]
+    if (evalPoly(locator, xInv) === 0) positions.push(k)
+  }
+  if (positions.length !== errors) return null
+
+  const omega = Array.from({ length: eccCount }, (_, i) => {
+    let v = 0
+    for (let j = 0; j <= i; j++) v ^= gfMul(s[j], locator[i - j] || 0)
+    return v
+  })
+  const derivative = locator.map((c, i) => (i % 2 === 1 ? c : 0)).slice(1)
+
+  const corrected = codewords.slice()
+  for (const k of positions) {
+    const x = GF_EXP[(n - 1 - k) % 255]
+    const xInv = gfDiv(1, x)
+    const denominator = evalPoly(derivative, xInv)
+    if (denominator === 0) return null
+    corrected[k] ^= gfMul(x, gfDiv(evalPoly(omega, xInv), denominator))
+  }
+  return syndromes(corrected, eccCount).every((v) => v === 0) ? corrected : null
+}
+
+// ---- 寻像图形定位
+const patternMatches = (counts: number[]) => {
+  const total = counts.reduce((a, b) => a + b, 0)
+  if (total < 7 || counts.some((c) => c === 0)) return false
+  const module = total / 7
+  const variance = module / 2
+  return (
+    Math.abs(module - counts[0]) < variance &&
+    Math.abs(module - counts[1]) < variance &&
+    Math.abs(3 * module - counts[2]) < 3 * variance &&
+    Math.abs(module - counts[3]) < variance &&
+    Math.abs(module - counts[4]) < variance
+  )
+}
+
+const centerFromEnd = (counts: number[], end: number) => end - counts[4] - counts[3] - counts[2] / 2
+
+// 沿一条线（竖直或水平）以 center 为中心重新数 1:1:3:1:1，返回修正后的中心坐标
+const crossCheck = (
+  isDark: (i: number) => boolean,
+  length: number,
+  center: number,
+  maxCount: number,
+  originalTotal: number
+): number => {
+  const counts = [0, 0, 0, 0, 0]
+  let i = center
+  while (i >= 0 && isDark(i)) {
+    counts[2]++
+    i--
+  }
+  if (i < 0) return NaN
+  while (i >= 0 && !isDark(i) && counts[1] <= maxCount) {
+    counts[1]++
+    i--
+  }
+  if (i < 0 || counts[1] > maxCount) return NaN
+  while (i >= 0 && isDark(i) && counts[0] <= maxCount) {
+    counts[0]++
+    i--
+  }
+  if (counts[0] > maxCount) return NaN
+
+  i = center + 1
+  while (i < length && isDark(i)) {
+    counts[2]++
+    i++
+  }
+  if (i === length) return NaN
+  while (i < length && !isDark(i) && counts[3] < maxCount) {
+    counts[3]++
+    i++
+  }
+  if (i === length || counts[3] >= maxCount) return NaN
+  while (i < length && isDark(i) && counts[4] < maxCount) {
+    counts[4]++
+    i++
+  }
+  if (counts[4] >= maxCount) return NaN
+
+  const total = counts.reduce((a, b) => a + b, 0)
+  if (5 * Math.abs(total - originalTotal) >= 2 * originalTotal) return NaN
+  return patternMatches(counts) ? centerFromEnd(counts, i) : NaN
+}
+
+const findFinderCandidates = (image: BinaryImage): FinderCandidate[] => {
+  const { width, height, data } = image
+  const candidates: FinderCandidate[] = []
+
+  const handleCandidate = (counts: number[], y: number, endX: number) => {
+    const total = counts.reduce((a, b) => a + b, 0)
+    let cx = centerFromEnd(counts, endX)
+    const cy = crossCheck((i) => data[i * width + Math.floor(cx)] === 1, height, y, counts[2], total)
+    if (Number.isNaN(cy)) return
+    cx = crossCheck((i) => data[Math.floor(cy) * width + i] === 1, width, Math.floor(cx), counts[2], total)
+    if (Number.isNaN(cx)) return
+
+    const size = total / 7
+    const existing = candidates.find(
+      (c) => Math.abs(cy - c.y) <= size && Math.abs(cx - c.x) <= size && Math.abs(size - c.size) <= Math.max(1, c.size)
+    )
+    if (existing) {
+      existing.x = (existing.x * existing.count + cx) / (existing.count + 1)
+      existing.y = (existing.y * existing.count + cy) / (existing.count + 1)
+      existing.size = (existing.size * existing.count + size) / (existing.count + 1)
+      existing.count++
+    } else {
+      candidates.push({ x: cx, y: cy, size, count: 1 })
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    let counts = [0, 0, 0, 0, 0]
+    let state = 0
+    const row = y * width
+    for (let x = 0; x < width; x++) {
+      if (data[row + x] === 1) {
+        if (state & 1) state++
+        counts[state]++
+      } else if (state & 1) {
+        counts[state]++
+      } else if (state === 4) {
+        if (patternMatches(counts)) {
+          handleCandidate(counts, y, x)
+          counts = [0, 0, 0, 0, 0]
+          state = 0
+        } else {
+          counts = [counts[2], counts[3], counts[4], 1, 0]
+          state = 3
+        }
+      } else {
+        state++
+        counts[state]++
+      }
+    }
+    if (state === 4 && patternMatches(counts)) handleCandidate(counts, y, width)
+  }
+  return candidates
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// 挑选最像“直角等腰三角形”的三个寻像图形，并按 左上/右上/左下 排好
+const selectFinderTriples = (candidates: FinderCandidate[]): FinderCandidate[][] => {
+  const confirmed = candidates.filter((c) => c.count >= 2)
+  const pool = (confirmed.length >= 3 ? confirmed : candidates).sort((a, b) => b.count - a.count).slice(0, 12)
+
+  const triples: { score: number; points: FinderCandidate[] }[] = []
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const points = [pool[i], pool[j], pool[k]]
+        const sizes = points.map((p) => p.size)
+        if (Math.max(...sizes) / Math.min(...sizes) > 1.6) continue
+
+        // 斜边所对的顶点是左上角
+        const sides = [distance(points[1], points[2]), distance(points[0], points[2]), distance(points[0], points[1])]
+        const corner = sides.indexOf(Math.max(...sides))
+        const topLeft = points[corner]
+        let [a, b] = points.filter((_, idx) => idx !== corner)
+        const legA = distance(topLeft, a)
+        const legB = distance(topLeft, b)
+        const hypotenuse = sides[corner]
+        const moduleSize = (sizes[0] + sizes[1] + sizes[2]) / 3
+        if (Math.min(legA, legB) / moduleSize < 10) continue
+
+        const legError = Math.abs(legA - legB) / Math.max(legA, legB)
+        const angleError = Math.abs(hypotenuse * hypotenuse - legA * legA - legB * legB) / (hypotenuse * hypotenuse)
+        if (legError > 0.3 || angleError > 0.3) continue
+
+        // 图像坐标 y 轴向下：左上->右上 与 左上->左下 的叉积为正
+        if ((a.x - topLeft.x) * (b.y - topLeft.y) - (a.y - topLeft.y) * (b.x - topLeft.x) < 0) [a, b] = [b, a]
+        const sizeError = (Math.max(...sizes) - Math.min(...sizes)) / moduleSize
+        triples.push({ score: legError + angleError + sizeError, points: [topLeft, a, b] })
+      }
+    }
+  }
+  return triples.sort((x, y) => x.score - y.score).slice(0, 3).map((t) => t.points)
+}
+
+// ---- 透视变换：模块坐标 (u, v) -> 图片坐标
+type Homography = number[]
+
+const solveHomography = (from: Point[], to: Point[]): Homography | null => {
+  const m: number[][] = []
+  from.forEach(({ x: u, y: v }, i) => {
+    const { x, y } = to[i]
+    m.push([u, v, 1, 0, 0, 0, -u * x, -v * x, x])
+    m.push([0, 0, 0, u, v, 1, -u * y, -v * y, y])
+  })
+  for (let col = 0; col < 8; col++) {
+    let pivot = col
+    for (let r = col + 1; r < 8; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+    if (Math.abs(m[pivot][col]) < 1e-9) return null
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue
+      const factor = m[r][col] / m[col][col]
+      for (let c = col; c < 9; c++) m[r][c] -= factor * m[col][c]
+    }
+  }
+  return m.map((row, i) => row[8] / row[i])
+}
+
+const project = (h: Homography, u: number, v: number): Point => {
+  const w = h[6] * u + h[7] * v + 1
+  return { x: (h[0] * u + h[1] * v + h[2]) / w, y: (h[3] * u + h[4] * v + h[5]) / w }
+}
+
+// 在估计位置附近找右下角校正图形（暗-亮-暗 5x5 方环），找不到返回 null
+const findAlignment = (image: BinaryImage, estimate: Point, ex: Point, ey: Point, moduleSize: number): Point | null => {
+  const { width, height, data } = image
+  const step = Math.max(1, Math.floor(moduleSize / 4))
+  for (const radius of [4, 8, 16]) {
+    const reach = radius * moduleSize
+    let best = 0
+    let hits: Point[] = []
+    for (let cy = Math.max(0, estimate.y - reach); cy <= Math.min(height - 1, estimate.y + reach); cy += step) {
+      for (let cx = Math.max(0, estimate.x - reach); cx <= Math.min(width - 1, estimate.x + reach); cx += step) {
+        let score = 0
+        for (let b = -2; b <= 2; b++) {
+          for (let a = -2; a <= 2; a++) {
+            const x = Math.floor(cx + a * ex.x + b * ey.x)
+            const y = Math.floor(cy + a * ex.y + b * ey.y)
+            if (x < 0 || y < 0 || x >= width || y >= height) continue
+            const expectDark = Math.max(Math.abs(a), Math.abs(b)) !== 1
+            if ((data[y * width + x] === 1) === expectDark) score++
+          }
+        }
+        if (score > best) {
+          best = score
+          hits = [{ x: cx, y: cy }]
+        } else if (score === best) {
+          hits.push({ x: cx, y: cy })
+        }
+      }
+    }
+    if (best >= 23) {
+      const near = hits.filter((p) => distance(p, hits[0]) <= moduleSize)
+      return {
+        x: near.reduce((sum, p) => sum + p.x, 0) / near.length,
+        y: near.reduce((sum, p) => sum + p.y, 0) / near.length
+      }
+    }
+  }
+  return null
+}
+
+const sampleGrid = (image: BinaryImage, h: Homography, dimension: number): Uint8Array | null => {
+  const { width, height, data } = image
+  const grid = new Uint8Array(dimension * dimension)
+  for (let row = 0; row < dimension; row++) {
+    for (let col = 0; col < dimension; col++) {
+      const p = project(h, col + 0.5, row + 0.5)
+      const x = Math.floor(p.x)
+      const y = Math.floor(p.y)
+      if (x < 0 || y < 0 || x >= width || y >= height) return null
+      grid[row * dimension + col] = data[y * width + x]
+    }
+  }
+  return grid
+}
+
+// ---- 模块矩阵 -> 码字
+const alignmentCoords = (version: number): number[] => {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const size = version * 4 + 17
+  const interval = size === 145 ? 26 : Math.ceil((size - 13) / (2 * count - 2)) * 2
+  const coords = [size - 7]
+  for (let i = 1; i < count - 1; i++) coords.push(coords[i - 1] - interval)
+  coords.push(6)
+  return coords.reverse()
+}
+
+const buildFunctionMask = (version: number): Uint8Array => {
+  const size = version * 4 + 17
+  const mask = new Uint8Array(size * size)
+  const fill = (row: number, col: number, rows: number, cols: number) => {
+    for (let r = row; r < row + rows; r++) for (let c = col; c < col + cols; c++) mask[r * size + c] = 1
+  }
+  // 寻像图形 + 分隔符 + 格式信息
+  fill(0, 0, 9, 9)
+  fill(0, size - 8, 9, 8)
+  fill(size - 8, 0, 8, 9)
+  // 时序图形
+  fill(6, 0, 1, size)
+  fill(0, 6, size, 1)
+  const coords = alignmentCoords(version)
+  coords.forEach((r, i) => {
+    coords.forEach((c, j) => {
+      const last = coords.length - 1
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      fill(r - 2, c - 2, 5, 5)
+    })
+  })
+  if (version >= 7) {
+    fill(0, size - 11, 6, 3)
+    fill(size - 11, 0, 3, 6)
+  }
+  return mask
+}
+
+const MASKS: ((i: number, j: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  (i) => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i * j) % 3) + ((i + j) % 2)) % 2 === 0
+]
+
+const readFormat = (grid: Uint8Array, size: number) => {
+  const at = (row: number, col: number) => grid[row * size + col]
+  let first = 0
+  let second = 0
+  for (let i = 0; i < 15; i++) {
+    const a = i < 6 ? at(i, 8) : i < 8 ? at(i + 1, 8) : i === 8 ? at(8, 7) : at(8, 14 - i)
+    const b = i < 8 ? at(8, size - 1 - i) : at(size - 15 + i, 8)
+    first |= a << i
+    second |= b << i
+  }
+  const data = closestCode(FORMAT_CODES, [first, second])
+  return data < 0 ? null : { ecColumn: EC_COLUMN_BY_BITS[data >> 3], mask: data & 7 }
+}
+
+const readVersion = (grid: Uint8Array, size: number) => {
+  let first = 0
+  let second = 0
+  for (let i = 0; i < 18; i++) {
+    const row = Math.floor(i / 3)
+    const col = (i % 3) + size - 11
+    first |= grid[row * size + col] << i
+    second |= grid[col * size + row] << i
+  }
+  const version = closestCode(VERSION_CODES, [first, second])
+  return version < 0 ? null : version
+}
+
+const readCodewords = (grid: Uint8Array, version: number, mask: number): number[] => {
+  const size = version * 4 + 17
+  const reserved = buildFunctionMask(version)
+  const maskAt = MASKS[mask]
+  const codewords: number[] = []
+  let current = 0
+  let bits = 0
+  let row = size - 1
+  let direction = -1
+  for (let col = size - 1; col > 0; col -= 2) {
+    if (col === 6) col--
+    for (;;) {
+      for (let c = 0; c < 2; c++) {
+        const x = col - c
+        if (reserved[row * size + x]) continue
+        const bit = grid[row * size + x] ^ (maskAt(row, x) ? 1 : 0)
+        current = (current << 1) | bit
+        if (++bits === 8) {
+          codewords.push(current)
+          current = 0
+          bits = 0
+        }
+      }
+      row += direction
+      if (row < 0 || row >= size) {
+        row -= direction
+        direction = -direction
+        break
+      }
+    }
+  }
+  return codewords.slice(0, CODEWORDS_COUNT[version])
+}
+
+// 去交织 + 逐块纠错，返回数据码字
+const correctCodewords = (codewords: number[], version: number, ecColumn: number): number[] | null => {
+  const total = CODEWORDS_COUNT[version]
+  const blocks = EC_BLOCKS_TABLE[(version - 1) * 4 + ecColumn]
+  const eccTotal = EC_CODEWORDS_TABLE[(version - 1) * 4 + ecColumn]
+  const dataTotal = total - eccTotal
+  const group2 = total % blocks
+  const group1 = blocks - group2
+  const dataPerBlock = Math.floor(dataTotal / blocks)
+  const eccPerBlock = Math.floor(total / blocks) - dataPerBlock
+
+  const dataSizes = Array.from({ length: blocks }, (_, i) => (i < group1 ? dataPerBlock : dataPerBlock + 1))
+  const data: number[][] = dataSizes.map(() => [])
+  const ecc: number[][] = dataSizes.map(() => [])
+  let index = 0
+  for (let i = 0; i < dataPerBlock + 1; i++) {
+    dataSizes.forEach((len, b) => {
+      if (i < len) data[b].push(codewords[index++])
+    })
+  }
+  for (let i = 0; i < eccPerBlock; i++) {
+    for (let b = 0; b < blocks; b++) ecc[b].push(codewords[index++])
+  }
+
+  const result: number[] = []
+  for (let b = 0; b < blocks; b++) {
+    const corrected = correctBlock([...data[b], ...ecc[b]], eccPerBlock)
+    if (!corrected) return null
+    result.push(...corrected.slice(0, dataSizes[b]))
+  }
+  return result
+}
+
+// ---- 数据段解析
+const ALPHANUMERIC = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:'
+
+const decodeBytes = (bytes: number[]): string => {
+  const buffer = new Uint8Array(bytes)
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('iso-8859-1').decode(buffer)
+  }
+}
+
+const parseSegments = (bytes: number[], version: number): string => {
+  let offset = 0
+  const read = (count: number) => {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      const byte = bytes[offset >> 3] ?? 0
+      value = (value << 1) | ((byte >> (7 - (offset & 7))) & 1)
+      offset++
+    }
+    return value
+  }
+  const remaining = () => bytes.length * 8 - offset
+  const countBits = (bits: [number, number, number]) => (version < 10 ? bits[0] : version < 27 ? bits[1] : bits[2])
+
+  let text = ''
+  let gs1 = false
+  while (remaining() >= 4) {
+    const mode = read(4)
+    if (mode === 0) break
+    if (mode === 1) {
+      let count = read(countBits([10, 12, 14]))
+      while (count >= 3) {
+        text += String(read(10)).padStart(3, '0')
+        count -= 3
+      }
+      if (count === 2) text += String(read(7)).padStart(2, '0')
+      else if (count === 1) text += String(read(4))
+    } else if (mode === 2) {
+      let count = read(countBits([9, 11, 13]))
+      let chunk = ''
+      while (count >= 2) {
+        const v = read(11)
+        chunk += ALPHANUMERIC[Math.floor(v / 45)] + ALPHANUMERIC[v % 45]
+        count -= 2
+      }
+      if (count === 1) chunk += ALPHANUMERIC[read(6)]
+      // GS1 模式下 % 表示分隔符 GS，%% 表示 % 本身
+      text += gs1 ? chunk.replace(/%%|%/g, (m) => (m === '%%' ? '%' : '\x1d')) : chunk
+    } else if (mode === 4) {
+      const count = read(countBits([8, 16, 16]))
+      const chunk: number[] = []
+      for (let i = 0; i < count; i++) chunk.push(read(8))
+      text += decodeBytes(chunk)
+    } else if (mode === 8) {
+      const count = read(countBits([8, 10, 12]))
+      const chunk: number[] = []
+      for (let i = 0; i < count; i++) {
+        const v = read(13)
+        let code = (Math.floor(v / 0xc0) << 8) | v % 0xc0
+        code += code < 0x1f00 ? 0x8140 : 0xc140
+        chunk.push(code >> 8, code & 0xff)
+      }
+      text += new TextDecoder('shift_jis').decode(new Uint8Array(chunk))
+    } else if (mode === 7) {
+      // ECI：只跳过指派号，字节段仍按 UTF-8 优先解码
+      const first = read(8)
+      if ((first & 0x80) === 0x80) read((first & 0x40) === 0 ? 8 : 16)
+    } else if (mode === 3) {
+      read(16)
+    } else if (mode === 5) {
+      gs1 = true
+    } else if (mode === 9) {
+      read(8)
+    } else {
+      throw new Error(`未知的数据模式 ${mode}`)
+    }
+  }
+  return text
+}
+
+const decodeGrid = (grid: Uint8Array, dimension: number): string | null => {
+  const format = readFormat(grid, dimension)
+  if (!format) return null
+  let version = (dimension - 17) / 4
+  if (version >= 7) {
+    const read = readVersion(grid, dimension)
+    if (read === null || read !== version) return null
+    version = read
+  }
+  const codewords = readCodewords(grid, version, format.mask)
+  const data = correctCodewords(codewords, version, format.ecColumn)
+  return data ? parseSegments(data, version) : null
+}
+
+const candidateDimensions = (topLeft: Point, topRight: Point, bottomLeft: Point, moduleSize: number): number[] => {
+  const across = Math.round(distance(topLeft, topRight) / moduleSize)
+  const down = Math.round(distance(topLeft, bottomLeft) / moduleSize)
+  let dimension = Math.floor((across + down) / 2) + 7
+  const remainder = dimension % 4
+  if (remainder === 0) dimension++
+  else if (remainder === 2) dimension--
+  else if (remainder === 3) dimension -= 2
+  return [dimension, dimension + 4, dimension - 4].filter((d) => d >= 21 && d <= 177)
+}
+
+export const decodeQrCode = (image: BinaryImage): string | null => {
+  const triples = selectFinderTriples(findFinderCandidates(image))
+  for (const [topLeft, topRight, bottomLeft] of triples) {
+    const moduleSize = (topLeft.size + topRight.size + bottomLeft.size) / 3
+    for (const dimension of candidateDimensions(topLeft, topRight, bottomLeft, moduleSize)) {
+      const far = dimension - 3.5
+      const corners = [{ x: 3.5, y: 3.5 }, { x: far, y: 3.5 }, { x: 3.5, y: far }]
+      const bottomRight = { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y }
+      const affine = solveHomography([...corners, { x: far, y: far }], [topLeft, topRight, bottomLeft, bottomRight])
+      if (!affine) continue
+
+      const attempts: Homography[] = []
+      if (dimension > 21) {
+        const span = dimension - 7
+        const ex = { x: (topRight.x - topLeft.x) / span, y: (topRight.y - topLeft.y) / span }
+        const ey = { x: (bottomLeft.x - topLeft.x) / span, y: (bottomLeft.y - topLeft.y) / span }
+        const alignment = findAlignment(image, project(affine, dimension - 6.5, dimension - 6.5), ex, ey, moduleSize)
+        const near = dimension - 6.5
+        const h = alignment && solveHomography([...corners, { x: near, y: near }], [topLeft, topRight, bottomLeft, alignment])
+        if (h) attempts.push(h)
+      }
+      attempts.push(affine)
+
+      for (const h of attempts) {
+        const grid = sampleGrid(image, h, dimension)
+        if (!grid) continue
+        try {
+          const text = decodeGrid(grid, dimension)
+          if (text !== null) return text
+        } catch {
+          // 数据段损坏：换下一种采样方式
+        }
+      }
+    }
+  }
+  return null
+}
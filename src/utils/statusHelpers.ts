@@ -12,6 +12,12 @@
     expired: 'bg-red-100 text-red-800',
     disposed: 'bg-gray-100 text-gray-800',
     
+    // Stocktake statuses
+    counting: 'bg-blue-100 text-blue-800',
+    submitted: 'bg-yellow-100 text-yellow-800',
+    posted: 'bg-green-100 text-green-800',
+    cancelled: 'bg-gray-100 text-gray-800',
+    
     // General statuses
     enabled: 'bg-green-100 text-green-800',
     disabled: 'bg-gray-100 text-gray-800',
@@ -42,6 +48,12 @@ export const getStatusText = (status: string): string => {
     expired: '过期',
     disposed: '已处置',
     
+    // Stocktake statuses
+    counting: '盘点中',
+    submitted: '待审批',
+    posted: '已过账',
+    cancelled: '已取消',
+    
     // General statuses
     enabled: '启用',
     disabled: '禁用',
@@ -79,3 +91,120 @@ export const getPriorityText = (priority: string): string => {
   
   return textMap[priority] || priority
 }
+
+// 库存流水类型
+export const MOVEMENT_TYPE_TEXT: Record<string, string> = {
+  inbound: '入库',
+  outbound: '出库',
+  adjust: '调整',
+  transfer: '调拨',
+  scrap: '报废'
+}
+
+export const getMovementTypeText = (type: string): string => {
+  return MOVEMENT_TYPE_TEXT[type] || type
+}
+
+export const getMovementTypeBadgeColor = (type: string): string => {
+  const colorMap: Record<string, string> = {
+    inbound: 'bg-green-100 text-green-800',
+    outbound: 'bg-blue-100 text-blue-800',
+    adjust: 'bg-yellow-100 text-yellow-800',
+    transfer: 'bg-purple-100 text-purple-800',
+    scrap: 'bg-red-100 text-red-800'
+  }
+
+  return colorMap[type] || 'bg-gray-100 text-gray-800'
+}
+
+// 库存流水原因
+export const MOVEMENT_REASON_TEXT: Record<string, string> = {
+  purchase: '采购入库',
+  production: '生产入库',
+  return: '退货/退料',
+  requisition: '领料',
+  sales: '销售',
+  damage: '损坏',
+  expired: '过期',
+  stocktake: '盘点',
+  correction: '数据更正',
+  other: '其他'
+}
+
+export const getMovementReasonText = (reason: string): string => {
+  return MOVEMENT_REASON_TEXT[reason] || reason
+}
+
+// 出库/报废可选的原因（第一个为默认值）
+export const OUTBOUND_REASON_CODES: Record<'outbound' | 'scrap', string[]> = {
+  outbound: ['requisition', 'sales', 'return', 'other'],
+  scrap: ['damage', 'expired', 'other']
+}
+
+// 临期预警天数的默认值（系统设置 near_expiry_days 未配置时使用）
+export const DEFAULT_NEAR_EXPIRY_DAYS = 30
+
+// 距有效期剩余天数（按自然日计算，已过期为负数）
+export const getDaysUntilExpiry = (expiryDate: string): number => {
+  const today = new Date(new Date().toISOString().split('T')[0])
+  return Math.round((new Date(expiryDate).getTime() - today.getTime()) / 86400000)
+}
+
+// 质检结论 / 原因
+export const INSPECTION_RESULT_TEXT: Record<string, string> = {
+  pass: '合格放行',
+  fail: '不合格锁定'
+}
+
+export const INSPECTION_REASON_TEXT: Record<string, string> = {
+  incoming: '来料检验',
+  retest: '复检',
+  complaint: '质量投诉',
+  damage: '破损',
+  documentation: '资料不全',
+  other: '其他'
+}
+
+// 条码码制 / 打印来源
+export const BARCODE_TYPE_TEXT: Record<string, string> = {
+  code128: 'Code 128',
+  code39: 'Code 39',
+  ean13: 'EAN-13',
+  ean8: 'EAN-8',
+  upc: 'UPC-A',
+  itf14: 'ITF-14',
+  qr_code: '二维码',
+  gs1_128: 'GS1-128',
+  gs1_datamatrix: 'GS1 Data Matrix'
+}
+
+export const BARCODE_PRINT_SOURCE_TEXT: Record<string, string> = {
+  generator: '条码生成',
+  label: '标签打印',
+  reprint: '台账补打'
+}
+
+// 物料多编码类型
+export const MATERIAL_CODE_TYPE_TEXT: Record<'internal' | 'supplier' | 'customer' | 'barcode', string> = {
+  internal: '内部编码',
+  supplier: '供应商编码',
+  customer: '客户编码',
+  barcode: '条码'
+}
+
+// 计量单位类别
+export const UNIT_CATEGORY_TEXT: Record<'weight' | 'volume' | 'length' | 'area' | 'piece' | 'other', string> = {
+  weight: '重量',
+  volume: '体积',
+  length: '长度',
+  area: '面积',
+  piece: '计件',
+  other: '其他'
+}
+
+// 库位层级类型
+export const LOCATION_TYPE_TEXT: Record<'warehouse' | 'zone' | 'bin', string> = {
+  warehouse: '仓库',
+  zone: '库区',
+  bin: '库位'
+}
@@ -0,0 +1,68 @@
+﻿import { Material, MaterialUnit, Unit } from '@/types/database'
+
+// 录入数量时可选的单位；factor 为“1 个该单位 = 多少个物料库存单位”
+export interface UnitOption {
+  key: string
+  unit_id: string
+  name: string
+  factor: number
+}
+
+export const BASE_UNIT_KEY = 'base'
+
+// 库存数量与数据库一致保留两位小数
+export const roundQuantity = (n: number) => Math.round(n * 100) / 100
+
+const baseCodeOf = (unit: Unit) => unit.base_unit || unit.code
+
+// 同类且基准相同的两个标准单位之间的换算系数（1 from = ? to），不可换算时返回 null
+export const getStandardFactor = (from: Unit, to: Unit): number | null => {
+  if (from.id === to.id) return 1
+  if (!from.category || from.category !== to.category || baseCodeOf(from) !== baseCodeOf(to)) return null
+  return (Number(from.conversion_factor) || 1) / (Number(to.conversion_factor) || 1)
+}
+
+// 物料可用的录入单位：库存单位本身 > 物料包装单位 > 可换算的标准单位（如库存为 kg 时可按 g 录入）
+export const getUnitOptions = (
+  material: Material | undefined,
+  units: Unit[],
+  materialUnits: MaterialUnit[] = []
+): UnitOption[] => {
+  if (!material) return []
+  // 批次联表里的物料只带 unit_obj，没有 unit_id
+  const stockUnitId = material.unit_id || material.unit_obj?.id || ''
+  const stockUnit = units.find((u) => u.id === stockUnitId)
+  const options: UnitOption[] = [{
+    key: BASE_UNIT_KEY,
+    unit_id: stockUnitId,
+    name: stockUnit?.name || material.unit_obj?.name || material.unit || '',
+    factor: 1
+  }]
+
+  materialUnits
+    .filter((mu) => mu.material_id === material.id && mu.unit_id !== stockUnitId)
+    .forEach((mu) => {
+      const unit = mu.unit || units.find((u) => u.id === mu.unit_id)
+      options.push({ key: `mu:${mu.id}`, unit_id: mu.unit_id, name: unit?.name || '', factor: Number(mu.conversion_factor) })
+    })
+
+  if (stockUnit) {
+    units.forEach((u) => {
+      if (options.some((o) => o.unit_id === u.id)) return
+      const factor = getStandardFactor(u, stockUnit)
+      if (factor !== null) options.push({ key: `std:${u.id}`, unit_id: u.id, name: u.name, factor })
+    })
+  }
+
+  return options
+}
+
+export const toStockQuantity = (quantity: number, option?: UnitOption) =>
+  roundQuantity((quantity || 0) * (option?.factor ?? 1))
+
+export const fromStockQuantity = (quantity: number, option?: UnitOption) =>
+  Math.round(((quantity || 0) / (option?.factor ?? 1)) * 10000) / 10000
+
+// 例如“3 箱（= 72 件）”，用于出入库备注留痕
+export const describeUnitEntry = (quantity: number, option: UnitOption, stockUnitName: string) =>
+  `${quantity} ${option.name}（= ${toStockQuantity(quantity, option)} ${stockUnitName}）`
@@ -0,0 +1,64 @@
+-- 库存流水（stock_movements）
+-- 目的：
+-- 1) 批次数量的每一次变动（入库/出库/调整/调拨/报废）都留下结构化记录：谁、何时、为什么、关联单据
+-- 2) 取代以往把出库信息追加到 material_batches.remarks 的做法
+-- 3) 流水只追加不修改：普通用户不允许 UPDATE/DELETE（批次删除时随之级联删除）
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS stock_movements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES material_batches(id) ON DELETE CASCADE,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    movement_type VARCHAR(20) NOT NULL
+      CHECK (movement_type IN ('inbound', 'outbound', 'adjust', 'transfer', 'scrap')),
+    -- 带符号的变动量：入库为正，出库/报废为负
+    quantity DECIMAL(10,2) NOT NULL,
+    -- 变动后的批次剩余数量（便于直接展示历史余额）
+    balance_after DECIMAL(10,2) NOT NULL,
+    reason_code VARCHAR(20) NOT NULL DEFAULT 'other'
+      CHECK (reason_code IN (
+        'purchase', 'production', 'return', 'requisition', 'sales',
+        'damage', 'expired', 'stocktake', 'correction', 'other'
+      )),
+    reason TEXT,
+    reference_no VARCHAR(100),
+    operator_id UUID REFERENCES auth.users(id),
+    operator_name VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_batch ON stock_movements(batch_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_material ON stock_movements(material_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_type ON stock_movements(movement_type);
+
+-- =============================================================================
+-- 2) 历史数据回填：为已有批次补一条入库流水，已出库部分补一条出库流水
+-- =============================================================================
+INSERT INTO stock_movements (batch_id, material_id, movement_type, quantity, balance_after, reason_code, reason, operator_id, created_at)
+SELECT b.id, b.material_id, 'inbound', b.quantity, b.quantity, 'purchase', '历史数据回填', b.created_by, b.created_at
+FROM material_batches b
+WHERE NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.batch_id = b.id);
+
+INSERT INTO stock_movements (batch_id, material_id, movement_type, quantity, balance_after, reason_code, reason, operator_id, created_at)
+SELECT b.id, b.material_id, 'outbound', b.remaining_quantity - b.quantity, b.remaining_quantity, 'other', '历史数据回填（原出库记录见批次备注）', b.updated_by, b.updated_at
+FROM material_batches b
+WHERE b.remaining_quantity < b.quantity
+  AND NOT EXISTS (
+    SELECT 1 FROM stock_movements m WHERE m.batch_id = b.id AND m.movement_type = 'outbound'
+  );
+
+-- =============================================================================
+-- 3) RLS：所有登录用户可读；admin/manager/operator 可写入；不开放修改/删除
+-- =============================================================================
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stock_movements_select_authenticated" ON stock_movements
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "stock_movements_insert" ON stock_movements
+  FOR INSERT
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator'));
+
+REVOKE ALL ON stock_movements FROM anon, authenticated;
+GRANT SELECT, INSERT ON stock_movements TO authenticated;
@@ -0,0 +1,56 @@
+-- 物料当前库存（materials.current_stock）改为由批次派生
+-- 目的：
+-- 1) 001 中的 update_material_stock 采用增量加减，且不区分批次状态，长期运行后容易与批次实际库存漂移
+-- 2) 统一口径：current_stock = 该物料所有“可用(available)”批次的 remaining_quantity 之和
+-- 3) 提供对账函数，便于一次性发现并修正历史偏差
+
+-- =============================================================================
+-- 1) 按物料重算库存
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.recalc_material_stock(p_material_id UUID)
+RETURNS VOID AS $$
+  UPDATE materials
+  SET current_stock = COALESCE((
+    SELECT SUM(remaining_quantity)
+    FROM material_batches
+    WHERE material_id = p_material_id
+      AND status = 'available'
+  ), 0)
+  WHERE id = p_material_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 2) 替换 001 的增量触发器：批次任意变动后按物料重算
+-- =============================================================================
+CREATE OR REPLACE FUNCTION update_material_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        PERFORM public.recalc_material_stock(OLD.material_id);
+    END IF;
+    -- 批次改挂到其他物料时，新旧物料都需要重算
+    IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.material_id IS DISTINCT FROM OLD.material_id) THEN
+        PERFORM public.recalc_material_stock(NEW.material_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_material_stock_trigger ON material_batches;
+CREATE TRIGGER update_material_stock_trigger
+    AFTER INSERT OR UPDATE OF material_id, remaining_quantity, status OR DELETE ON material_batches
+    FOR EACH ROW EXECUTE FUNCTION update_material_stock();
+
+-- =============================================================================
+-- 3) 一次性校准存量数据
+-- =============================================================================
+UPDATE materials m
+SET current_stock = COALESCE((
+  SELECT SUM(b.remaining_quantity)
+  FROM material_batches b
+  WHERE b.material_id = m.id
+    AND b.status = 'available'
+), 0);
+
+REVOKE ALL ON FUNCTION public.recalc_material_stock(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.recalc_material_stock(UUID) TO authenticated;
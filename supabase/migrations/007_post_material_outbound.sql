@@ -0,0 +1,97 @@
+-- 按物料出库（多批次原子提交）
+-- 目的：
+-- 1) 一次出库可能从同一物料的多个批次扣减（FEFO/FIFO 分配或人工调整），必须全部成功或全部失败
+-- 2) 在一个函数（事务）内完成：锁定批次 -> 校验状态/有效期/库存 -> 扣减 remaining_quantity -> 写库存流水
+-- 3) SECURITY INVOKER：仍受 material_batches / stock_movements 的 RLS 约束
+
+-- =============================================================================
+-- post_material_outbound
+-- p_allocations 形如：[{"batch_id": "...", "quantity": 10}, ...]
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.post_material_outbound(
+  p_material_id UUID,
+  p_allocations JSONB,
+  p_movement_type TEXT DEFAULT 'outbound',
+  p_reason_code TEXT DEFAULT 'requisition',
+  p_reason TEXT DEFAULT NULL,
+  p_reference_no TEXT DEFAULT NULL
+)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+  v_line JSONB;
+  v_qty NUMERIC;
+  v_batch material_batches%ROWTYPE;
+  v_remaining NUMERIC;
+  v_operator_name TEXT;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有出库权限' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_movement_type NOT IN ('outbound', 'scrap') THEN
+    RAISE EXCEPTION '不支持的出库类型：%', p_movement_type;
+  END IF;
+
+  IF p_allocations IS NULL OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION '出库明细不能为空';
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator_name
+  FROM public.users WHERE id = auth.uid();
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    v_qty := (v_line->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION '出库数量必须大于0';
+    END IF;
+
+    -- 行锁：防止并发出库导致超扣
+    SELECT * INTO v_batch
+    FROM material_batches
+    WHERE id = (v_line->>'batch_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '批次不存在';
+    END IF;
+    IF v_batch.material_id <> p_material_id THEN
+      RAISE EXCEPTION '批次 % 不属于该物料', v_batch.batch_number;
+    END IF;
+    -- 报废允许处理已过期批次；锁定批次任何情况下都不可出库
+    IF NOT (v_batch.status = 'available' OR (p_movement_type = 'scrap' AND v_batch.status = 'expired')) THEN
+      RAISE EXCEPTION '批次 % 当前状态不可出库', v_batch.batch_number;
+    END IF;
+    IF p_movement_type = 'outbound' AND v_batch.expiry_date < CURRENT_DATE THEN
+      RAISE EXCEPTION '批次 % 已过期', v_batch.batch_number;
+    END IF;
+    IF v_qty > v_batch.remaining_quantity THEN
+      RAISE EXCEPTION '批次 % 库存不足（剩余 %）', v_batch.batch_number, v_batch.remaining_quantity;
+    END IF;
+
+    v_remaining := v_batch.remaining_quantity - v_qty;
+
+    UPDATE material_batches
+    SET remaining_quantity = v_remaining,
+        status = CASE WHEN v_remaining = 0 THEN 'disposed' ELSE status END,
+        updated_at = NOW(),
+        updated_by = auth.uid()
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movements (
+      batch_id, material_id, movement_type, quantity, balance_after,
+      reason_code, reason, reference_no, operator_id, operator_name
+    ) VALUES (
+      v_batch.id, v_batch.material_id, p_movement_type, -v_qty, v_remaining,
+      p_reason_code, p_reason, p_reference_no, auth.uid(), v_operator_name
+    )
+    RETURNING * INTO v_movement;
+
+    RETURN NEXT v_movement;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.post_material_outbound(UUID, JSONB, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_material_outbound(UUID, JSONB, TEXT, TEXT, TEXT, TEXT) TO authenticated;
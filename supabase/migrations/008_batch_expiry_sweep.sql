@@ -0,0 +1,85 @@
+-- 批次过期自动流转 + 临期阈值
+-- 目的：
+-- 1) 002 的 check_batch_expiry() 从未被调用，过期批次一直停留在 available，既会被出库分配选中也不会出现在过期列表
+-- 2) 提供 sweep_batch_expiry()：把已过有效期的可用批次置为 expired，并为每个批次写一条应用层审计日志
+--    前端在登录后/定时调用；也可用 pg_cron 每日调用 check_batch_expiry()
+-- 3) system_settings 新增 near_expiry_days（临期预警天数），供仪表盘标记临期批次
+
+-- =============================================================================
+-- 1) 临期阈值配置
+-- =============================================================================
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS near_expiry_days INTEGER NOT NULL DEFAULT 30
+  CHECK (near_expiry_days BETWEEN 1 AND 365);
+
+-- 说明：system_settings 仅 admin/manager 可读（见 004），这里单独暴露临期阈值给所有登录用户
+CREATE OR REPLACE FUNCTION public.get_near_expiry_days()
+RETURNS INTEGER AS $$
+  SELECT COALESCE((
+    SELECT near_expiry_days
+    FROM system_settings
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), 30);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 2) 过期扫描：available -> expired，逐条写审计日志
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.sweep_batch_expiry()
+RETURNS SETOF material_batches AS $$
+DECLARE
+  v_user_name TEXT;
+  v_batch material_batches%ROWTYPE;
+BEGIN
+  -- pg_cron 等后台调用时 auth.uid() 为空，按“系统”记录
+  IF auth.uid() IS NOT NULL AND NOT public.is_active_user() THEN
+    RAISE EXCEPTION '没有权限' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT username INTO v_user_name
+  FROM public.users WHERE id = auth.uid();
+
+  FOR v_batch IN
+    UPDATE material_batches
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE status = 'available'
+      AND expiry_date < CURRENT_DATE
+    RETURNING *
+  LOOP
+    INSERT INTO audit_logs (user_id, user_name, action, module, target_id, target_name, details)
+    VALUES (
+      auth.uid(),
+      COALESCE(v_user_name, 'system'),
+      'update',
+      'batch',
+      v_batch.id::TEXT,
+      v_batch.batch_number,
+      jsonb_build_object(
+        'source', 'expiry_sweep',
+        'from', 'available',
+        'to', 'expired',
+        'expiry_date', v_batch.expiry_date
+      )
+    );
+
+    RETURN NEXT v_batch;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 兼容 002 的旧函数名（返回 VOID，便于 pg_cron 直接调用）：
+--   SELECT cron.schedule('batch-expiry-sweep', '5 0 * * *', 'SELECT public.check_batch_expiry()');
+CREATE OR REPLACE FUNCTION public.check_batch_expiry()
+RETURNS VOID AS $$
+BEGIN
+  PERFORM public.sweep_batch_expiry();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_near_expiry_days() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.sweep_batch_expiry() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.check_batch_expiry() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_near_expiry_days() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sweep_batch_expiry() TO authenticated;
@@ -0,0 +1,283 @@
+-- 库存盘点（stocktakes / stocktake_items）
+-- 目的：
+-- 1) 按范围（库位 / 物料分类 / 指定物料）冻结一次盘点：快照范围内批次的账面数量（system_quantity）
+-- 2) 操作员逐批次录入（或扫码定位后录入）实盘数量，差异 = 实盘 - 账面
+-- 3) 提交后需 admin/manager 审批；审批通过时在一个事务内把差异过账到批次，并写 adjust/stocktake 库存流水
+-- 4) 状态流转全部通过函数完成，表本身只开放读取与“录入实盘数量”的列级更新
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS stocktakes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stocktake_no VARCHAR(50) UNIQUE NOT NULL,
+    -- 形如 {"type": "location", "location": "A-01"} / {"type": "category", "category_id": "..."} / {"type": "materials", "material_ids": [...]}
+    scope JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'counting'
+      CHECK (status IN ('counting', 'submitted', 'posted', 'cancelled')),
+    remarks TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_by_name VARCHAR(100),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES auth.users(id),
+    reviewed_by_name VARCHAR(100),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS stocktake_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    stocktake_id UUID NOT NULL REFERENCES stocktakes(id) ON DELETE CASCADE,
+    -- 批次被删除后保留盘点记录（快照字段仍可追溯）
+    batch_id UUID REFERENCES material_batches(id) ON DELETE SET NULL,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    material_code VARCHAR(50) NOT NULL,
+    material_name VARCHAR(200) NOT NULL,
+    batch_number VARCHAR(50) NOT NULL,
+    location VARCHAR(100),
+    unit VARCHAR(100),
+    system_quantity DECIMAL(10,2) NOT NULL,
+    counted_quantity DECIMAL(10,2) CHECK (counted_quantity IS NULL OR counted_quantity >= 0),
+    counted_by UUID REFERENCES auth.users(id),
+    counted_at TIMESTAMP WITH TIME ZONE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(stocktake_id, batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON stocktakes(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stocktake_items_stocktake ON stocktake_items(stocktake_id);
+
+DROP TRIGGER IF EXISTS update_stocktakes_updated_at ON stocktakes;
+CREATE TRIGGER update_stocktakes_updated_at BEFORE UPDATE ON stocktakes
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 2) RLS：所有登录用户可读；admin/manager/operator 仅可在“录入中”的盘点里填写实盘数量
+-- =============================================================================
+ALTER TABLE stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stocktake_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stocktakes_select_authenticated" ON stocktakes
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "stocktake_items_select_authenticated" ON stocktake_items
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "stocktake_items_update_counting" ON stocktake_items
+  FOR UPDATE
+  USING (
+    public.is_active_user()
+    AND public.current_user_role() IN ('admin', 'manager', 'operator')
+    AND EXISTS (SELECT 1 FROM stocktakes s WHERE s.id = stocktake_id AND s.status = 'counting')
+  );
+
+REVOKE ALL ON stocktakes FROM anon, authenticated;
+REVOKE ALL ON stocktake_items FROM anon, authenticated;
+GRANT SELECT ON stocktakes TO authenticated;
+GRANT SELECT ON stocktake_items TO authenticated;
+GRANT UPDATE (counted_quantity, counted_by, counted_at, remarks) ON stocktake_items TO authenticated;
+
+-- =============================================================================
+-- 3) 创建盘点：生成单号并冻结范围内批次的账面数量
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.create_stocktake(
+  p_scope JSONB,
+  p_remarks TEXT DEFAULT NULL
+)
+RETURNS stocktakes AS $$
+DECLARE
+  v_type TEXT := p_scope->>'type';
+  v_prefix TEXT := 'ST-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_user_name TEXT;
+  v_stocktake stocktakes%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有盘点权限' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_type NOT IN ('location', 'category', 'materials') THEN
+    RAISE EXCEPTION '不支持的盘点范围：%', v_type;
+  END IF;
+
+  -- 同一天的单号按序递增；事务级咨询锁避免并发创建拿到相同序号
+  PERFORM pg_advisory_xact_lock(hashtext('stocktake_no'));
+  SELECT COUNT(*) + 1 INTO v_seq FROM stocktakes WHERE stocktake_no LIKE v_prefix || '%';
+
+  SELECT COALESCE(full_name, username) INTO v_user_name
+  FROM public.users WHERE id = auth.uid();
+
+  INSERT INTO stocktakes (stocktake_no, scope, remarks, created_by, created_by_name)
+  VALUES (v_prefix || LPAD(v_seq::TEXT, 3, '0'), p_scope, p_remarks, auth.uid(), v_user_name)
+  RETURNING * INTO v_stocktake;
+
+  -- 冻结：仅包含仍有库存、且未处置/未待入库的批次
+  INSERT INTO stocktake_items (
+    stocktake_id, batch_id, material_id, material_code, material_name,
+    batch_number, location, unit, system_quantity
+  )
+  SELECT v_stocktake.id, b.id, m.id, m.code, m.name, b.batch_number, b.location, u.name, b.remaining_quantity
+  FROM material_batches b
+  JOIN materials m ON m.id = b.material_id
+  LEFT JOIN units u ON u.id = m.unit_id
+  WHERE b.status IN ('available', 'locked', 'expired')
+    AND b.remaining_quantity > 0
+    AND CASE v_type
+      WHEN 'location' THEN b.location = p_scope->>'location'
+      WHEN 'category' THEN m.category_id = (p_scope->>'category_id')::UUID
+      ELSE b.material_id IN (SELECT jsonb_array_elements_text(p_scope->'material_ids')::UUID)
+    END
+  ORDER BY b.location NULLS LAST, m.code, b.batch_number;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION '盘点范围内没有可盘点的批次';
+  END IF;
+
+  RETURN v_stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 4) 提交 / 取消
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.submit_stocktake(p_stocktake_id UUID)
+RETURNS stocktakes AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有盘点权限' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '盘点单不存在';
+  END IF;
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION '盘点单 % 当前状态不可提交', v_stocktake.stocktake_no;
+  END IF;
+  IF EXISTS (SELECT 1 FROM stocktake_items WHERE stocktake_id = p_stocktake_id AND counted_quantity IS NULL) THEN
+    RAISE EXCEPTION '仍有批次未录入实盘数量';
+  END IF;
+
+  UPDATE stocktakes
+  SET status = 'submitted', submitted_at = NOW()
+  WHERE id = p_stocktake_id
+  RETURNING * INTO v_stocktake;
+
+  RETURN v_stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.cancel_stocktake(p_stocktake_id UUID)
+RETURNS stocktakes AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有盘点权限' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE stocktakes
+  SET status = 'cancelled'
+  WHERE id = p_stocktake_id AND status IN ('counting', 'submitted')
+  RETURNING * INTO v_stocktake;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '盘点单不存在或已结束';
+  END IF;
+
+  RETURN v_stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 5) 审批：驳回退回录入；通过则过账差异
+--    过账前校验批次自冻结以来未发生变动（remaining_quantity 仍等于 system_quantity），否则要求重新盘点
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.review_stocktake(
+  p_stocktake_id UUID,
+  p_approve BOOLEAN,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS stocktakes AS $$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_item stocktake_items%ROWTYPE;
+  v_batch material_batches%ROWTYPE;
+  v_user_name TEXT;
+  v_variance NUMERIC;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager')) THEN
+    RAISE EXCEPTION '没有盘点审批权限' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '盘点单不存在';
+  END IF;
+  IF v_stocktake.status <> 'submitted' THEN
+    RAISE EXCEPTION '盘点单 % 不是待审批状态', v_stocktake.stocktake_no;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_user_name
+  FROM public.users WHERE id = auth.uid();
+
+  IF p_approve THEN
+    FOR v_item IN
+      SELECT * FROM stocktake_items
+      WHERE stocktake_id = p_stocktake_id
+        AND counted_quantity IS DISTINCT FROM system_quantity
+    LOOP
+      SELECT * INTO v_batch FROM material_batches WHERE id = v_item.batch_id FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '批次 % 已被删除，无法过账', v_item.batch_number;
+      END IF;
+      IF v_batch.remaining_quantity <> v_item.system_quantity THEN
+        RAISE EXCEPTION '批次 % 在盘点期间发生库存变动（账面 % -> %），请重新盘点',
+          v_item.batch_number, v_item.system_quantity, v_batch.remaining_quantity;
+      END IF;
+
+      v_variance := v_item.counted_quantity - v_item.system_quantity;
+
+      UPDATE material_batches
+      SET remaining_quantity = v_item.counted_quantity,
+          status = CASE WHEN v_item.counted_quantity = 0 THEN 'disposed' ELSE status END,
+          updated_at = NOW(),
+          updated_by = auth.uid()
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (
+        batch_id, material_id, movement_type, quantity, balance_after,
+        reason_code, reason, reference_no, operator_id, operator_name
+      ) VALUES (
+        v_batch.id, v_batch.material_id, 'adjust', v_variance, v_item.counted_quantity,
+        'stocktake', v_item.remarks, v_stocktake.stocktake_no, auth.uid(), v_user_name
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE stocktakes
+  SET status = CASE WHEN p_approve THEN 'posted' ELSE 'counting' END,
+      reviewed_by = auth.uid(),
+      reviewed_by_name = v_user_name,
+      reviewed_at = NOW(),
+      review_comment = p_comment
+  WHERE id = p_stocktake_id
+  RETURNING * INTO v_stocktake;
+
+  RETURN v_stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_stocktake(JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.submit_stocktake(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.cancel_stocktake(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.review_stocktake(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_stocktake(JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_stocktake(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stocktake(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_stocktake(UUID, BOOLEAN, TEXT) TO authenticated;
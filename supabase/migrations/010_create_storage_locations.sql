@@ -0,0 +1,109 @@
+-- 库位主数据（仓库 -> 库区 -> 库位）
+-- 目的：
+-- 1) material_batches.location 是手工输入的自由文本，拼写不一致导致无法按库位统计/盘点
+-- 2) 新增 storage_locations 层级表，批次通过 location_id 关联库位；location 文本列保留为库位编码的冗余副本（兼容既有报表/筛选）
+-- 3) 库位支持容量（按批次剩余数量累计）与冻结标记：冻结库位不允许新放入批次
+-- 4) 把历史批次中已有的 location 文本（忽略大小写/首尾空格）映射为“默认仓库/未分区”下的库位
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS storage_locations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(100) UNIQUE NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('warehouse', 'zone', 'bin')),
+    parent_id UUID REFERENCES storage_locations(id),
+    -- 仅库位使用：可容纳的最大数量（NULL 表示不限）
+    capacity DECIMAL(10,2) CHECK (capacity IS NULL OR capacity > 0),
+    is_blocked BOOLEAN NOT NULL DEFAULT FALSE,
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id),
+    -- 层级约束：仓库为顶层；库区挂在仓库下；库位挂在库区下（由前端保证父级类型，这里只约束是否有父级）
+    CHECK ((type = 'warehouse') = (parent_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_storage_locations_parent ON storage_locations(parent_id);
+
+DROP TRIGGER IF EXISTS update_storage_locations_updated_at ON storage_locations;
+CREATE TRIGGER update_storage_locations_updated_at BEFORE UPDATE ON storage_locations
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE material_batches
+  ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES storage_locations(id);
+
+CREATE INDEX IF NOT EXISTS idx_material_batches_location_id ON material_batches(location_id);
+
+-- =============================================================================
+-- 2) 批次关联库位时：只能放入库位（bin）、冻结库位不可放入，并同步冗余的 location 文本
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.sync_batch_location()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_location storage_locations%ROWTYPE;
+BEGIN
+  IF NEW.location_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_location FROM storage_locations WHERE id = NEW.location_id;
+  IF v_location.type <> 'bin' THEN
+    RAISE EXCEPTION '批次只能放入库位（%不是库位）', v_location.code;
+  END IF;
+  IF v_location.is_blocked AND (TG_OP = 'INSERT' OR NEW.location_id IS DISTINCT FROM OLD.location_id) THEN
+    RAISE EXCEPTION '库位 % 已冻结，不能放入批次', v_location.code;
+  END IF;
+
+  NEW.location := v_location.code;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_batch_location_trigger ON material_batches;
+CREATE TRIGGER sync_batch_location_trigger
+  BEFORE INSERT OR UPDATE OF location_id ON material_batches
+  FOR EACH ROW EXECUTE FUNCTION public.sync_batch_location();
+
+-- =============================================================================
+-- 3) 历史数据映射：默认仓库 / 未分区 / 每个不同的 location 文本一个库位
+-- =============================================================================
+INSERT INTO storage_locations (code, name, type)
+VALUES ('WH01', '默认仓库', 'warehouse')
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO storage_locations (code, name, type, parent_id)
+SELECT 'WH01-UNZONED', '未分区', 'zone', id FROM storage_locations WHERE code = 'WH01'
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO storage_locations (code, name, type, parent_id)
+SELECT UPPER(TRIM(b.location)), MIN(TRIM(b.location)), 'bin', z.id
+FROM material_batches b
+CROSS JOIN (SELECT id FROM storage_locations WHERE code = 'WH01-UNZONED') z
+WHERE NULLIF(TRIM(b.location), '') IS NOT NULL
+GROUP BY UPPER(TRIM(b.location)), z.id
+ON CONFLICT (code) DO NOTHING;
+
+-- 触发器会把 location 文本统一改写为库位编码
+UPDATE material_batches b
+SET location_id = l.id
+FROM storage_locations l
+WHERE b.location_id IS NULL
+  AND l.type = 'bin'
+  AND l.code = UPPER(TRIM(b.location));
+
+-- =============================================================================
+-- 4) RLS：所有登录用户可读；admin/manager 可维护
+-- =============================================================================
+ALTER TABLE storage_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "storage_locations_select_authenticated" ON storage_locations
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "storage_locations_write_admin_manager" ON storage_locations
+  FOR ALL
+  USING (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'))
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'));
+
+REVOKE ALL ON storage_locations FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON storage_locations TO authenticated;
@@ -0,0 +1,147 @@
+-- 批次库位调拨（整批移库 / 部分拆分）
+-- 目的：
+-- 1) 以往只能通过编辑批次整体改写 location，无法把批次的一部分移到其他库位，也不留流水
+-- 2) 整批调拨：直接改挂库位，写一条数量为 0 的调拨流水记录来源/目标库位
+-- 3) 部分调拨：从原批次拆出子批次（批次号 = 原批次号-序号，继承有效期/生产日期/供应商/状态），
+--    原批次写 -数量、子批次写 +数量 两条调拨流水，并通过 related_batch_id 互相关联，
+--    扫描任一批次标签都能追溯到另一侧
+
+-- =============================================================================
+-- 1) 表结构：批次血缘 + 流水关联批次
+-- =============================================================================
+ALTER TABLE material_batches
+  ADD COLUMN IF NOT EXISTS parent_batch_id UUID REFERENCES material_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_material_batches_parent ON material_batches(parent_batch_id);
+
+ALTER TABLE stock_movements
+  ADD COLUMN IF NOT EXISTS related_batch_id UUID REFERENCES material_batches(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- 2) transfer_batch
+-- p_quantity 为空或等于剩余数量时整批调拨；否则拆出子批次。返回调拨后位于目标库位的批次
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.transfer_batch(
+  p_batch_id UUID,
+  p_location_id UUID,
+  p_quantity NUMERIC DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_reference_no TEXT DEFAULT NULL
+)
+RETURNS material_batches AS $$
+DECLARE
+  v_batch material_batches%ROWTYPE;
+  v_child material_batches%ROWTYPE;
+  v_target storage_locations%ROWTYPE;
+  v_qty NUMERIC;
+  v_seq INTEGER;
+  v_child_number TEXT;
+  v_operator_name TEXT;
+  v_reason TEXT;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有调拨权限' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_batch FROM material_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '批次不存在';
+  END IF;
+  IF v_batch.status = 'disposed' OR v_batch.remaining_quantity <= 0 THEN
+    RAISE EXCEPTION '批次 % 已无库存，不能调拨', v_batch.batch_number;
+  END IF;
+
+  SELECT * INTO v_target FROM storage_locations WHERE id = p_location_id;
+  IF NOT FOUND OR v_target.type <> 'bin' THEN
+    RAISE EXCEPTION '请选择目标库位';
+  END IF;
+  IF v_target.is_blocked THEN
+    RAISE EXCEPTION '库位 % 已冻结，不能放入批次', v_target.code;
+  END IF;
+  IF v_batch.location_id = p_location_id THEN
+    RAISE EXCEPTION '目标库位与当前库位相同';
+  END IF;
+
+  v_qty := COALESCE(p_quantity, v_batch.remaining_quantity);
+  IF v_qty <= 0 THEN
+    RAISE EXCEPTION '调拨数量必须大于0';
+  END IF;
+  IF v_qty > v_batch.remaining_quantity THEN
+    RAISE EXCEPTION '批次 % 库存不足（剩余 %）', v_batch.batch_number, v_batch.remaining_quantity;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator_name
+  FROM public.users WHERE id = auth.uid();
+
+  v_reason := COALESCE(NULLIF(TRIM(p_reason), ''), '库位调拨')
+    || '：' || COALESCE(v_batch.location, '未指定') || ' → ' || v_target.code;
+
+  -- 整批调拨：只改库位（触发器同步 location 文本），数量不变
+  IF v_qty = v_batch.remaining_quantity THEN
+    UPDATE material_batches
+    SET location_id = p_location_id,
+        updated_at = NOW(),
+        updated_by = auth.uid()
+    WHERE id = v_batch.id
+    RETURNING * INTO v_batch;
+
+    INSERT INTO stock_movements (
+      batch_id, material_id, movement_type, quantity, balance_after,
+      reason_code, reason, reference_no, operator_id, operator_name
+    ) VALUES (
+      v_batch.id, v_batch.material_id, 'transfer', 0, v_batch.remaining_quantity,
+      'other', v_reason, p_reference_no, auth.uid(), v_operator_name
+    );
+
+    RETURN v_batch;
+  END IF;
+
+  -- 部分调拨：子批次号在原批次号后追加两位序号，跳过已占用的编号
+  SELECT COUNT(*) + 1 INTO v_seq FROM material_batches WHERE parent_batch_id = v_batch.id;
+  LOOP
+    v_child_number := v_batch.batch_number || '-' || LPAD(v_seq::TEXT, 2, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM material_batches
+      WHERE material_id = v_batch.material_id AND batch_number = v_child_number
+    );
+    v_seq := v_seq + 1;
+  END LOOP;
+  -- batch_number 为 VARCHAR(50)：原批次号较长或已多次拆分时，追加序号后可能超长
+  IF LENGTH(v_child_number) > 50 THEN
+    RAISE EXCEPTION '批次 % 的批次号过长，拆分后的子批次号 % 超过 50 个字符，请整批调拨', v_batch.batch_number, v_child_number;
+  END IF;
+
+  UPDATE material_batches
+  SET remaining_quantity = remaining_quantity - v_qty,
+      updated_at = NOW(),
+      updated_by = auth.uid()
+  WHERE id = v_batch.id
+  RETURNING * INTO v_batch;
+
+  -- 子批次沿用原批次状态：标记来源，放行守卫（012_batch_quality_control.sql）据此不拦截
+  PERFORM set_config('app.batch_status_source', 'transfer_batch', true);
+  INSERT INTO material_batches (
+    material_id, batch_number, parent_batch_id, production_date, expiry_date, supplier_id,
+    quantity, remaining_quantity, status, location_id, remarks, created_by, updated_by
+  ) VALUES (
+    v_batch.material_id, v_child_number, v_batch.id, v_batch.production_date, v_batch.expiry_date, v_batch.supplier_id,
+    v_qty, v_qty, v_batch.status, p_location_id, '由批次 ' || v_batch.batch_number || ' 拆分调拨', auth.uid(), auth.uid()
+  )
+  RETURNING * INTO v_child;
+  PERFORM set_config('app.batch_status_source', '', true);
+
+  INSERT INTO stock_movements (
+    batch_id, material_id, movement_type, quantity, balance_after, related_batch_id,
+    reason_code, reason, reference_no, operator_id, operator_name
+  ) VALUES
+    (v_batch.id, v_batch.material_id, 'transfer', -v_qty, v_batch.remaining_quantity, v_child.id,
+     'other', v_reason, p_reference_no, auth.uid(), v_operator_name),
+    (v_child.id, v_child.material_id, 'transfer', v_qty, v_qty, v_batch.id,
+     'other', v_reason, p_reference_no, auth.uid(), v_operator_name);
+
+  RETURN v_child;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.transfer_batch(UUID, UUID, NUMERIC, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.transfer_batch(UUID, UUID, NUMERIC, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,249 @@
+-- 批次质检放行 / 锁定
+-- 目的：
+-- 1) 新批次默认 pending（待检），此前没有放行/隔离的流程，只能在编辑批次时手工改状态
+-- 2) 新增质检记录 batch_inspections：检验人、结论、原因代码、备注，以及状态流转（from -> to）
+-- 3) 放行（pending/locked -> available）仅 admin/manager；锁定（-> locked）admin/manager/operator 均可
+-- 4) 触发器兜底：非 admin/manager 不能绕过质检直接把批次改为 available（无论原状态；新建批次同样拦截），
+--    只有 inspect_batch（放行）与 transfer_batch（拆分子批次沿用原批次状态）通过事务内标记豁免
+-- 5) 出库默认只允许 available 批次；admin/manager 可对待检/锁定批次越权出库，越权信息写入流水备注
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS batch_inspections (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES material_batches(id) ON DELETE CASCADE,
+    -- pass=合格放行（-> available）；fail=不合格/隔离（-> locked）
+    result VARCHAR(10) NOT NULL CHECK (result IN ('pass', 'fail')),
+    reason_code VARCHAR(20) NOT NULL DEFAULT 'incoming'
+      CHECK (reason_code IN ('incoming', 'retest', 'complaint', 'damage', 'documentation', 'other')),
+    notes TEXT,
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    inspector_id UUID REFERENCES auth.users(id),
+    inspector_name VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_inspections_batch ON batch_inspections(batch_id, created_at DESC);
+
+-- =============================================================================
+-- 2) 放行守卫：批次变为 available 必须由 admin/manager 操作
+-- 说明：pending -> disposed/expired -> available 等迂回路径同样拦截；
+--       inspect_batch / transfer_batch 在写批次前设置事务内标记 app.batch_status_source，写完即清除，
+--       该标记只能由数据库函数设置（PostgREST 不暴露 set_config）
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.guard_batch_release()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'available' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  -- 状态未变化（如出库只改剩余数量）不受限制
+  IF TG_OP = 'UPDATE' AND OLD.status = 'available' THEN
+    RETURN NEW;
+  END IF;
+  IF COALESCE(current_setting('app.batch_status_source', true), '') IN ('inspect_batch', 'transfer_batch') THEN
+    RETURN NEW;
+  END IF;
+  IF COALESCE(public.current_user_role(), '') NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION '批次 % 需经质检放行后才能设为可用', NEW.batch_number USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_batch_release_trigger ON material_batches;
+CREATE TRIGGER guard_batch_release_trigger
+  BEFORE INSERT OR UPDATE OF status ON material_batches
+  FOR EACH ROW EXECUTE FUNCTION public.guard_batch_release();
+
+-- =============================================================================
+-- 3) inspect_batch：写质检记录并流转批次状态
+-- 说明：质检记录只能经此函数写入（表上不授予 INSERT），因此以 SECURITY DEFINER 执行，权限在函数内校验
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.inspect_batch(
+  p_batch_id UUID,
+  p_result TEXT,
+  p_reason_code TEXT DEFAULT 'incoming',
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS batch_inspections AS $$
+DECLARE
+  v_batch material_batches%ROWTYPE;
+  v_to_status TEXT;
+  v_inspector_name TEXT;
+  v_inspection batch_inspections%ROWTYPE;
+BEGIN
+  IF p_result = 'pass' THEN
+    IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager')) THEN
+      RAISE EXCEPTION '没有放行权限' USING ERRCODE = '42501';
+    END IF;
+    v_to_status := 'available';
+  ELSIF p_result = 'fail' THEN
+    IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+      RAISE EXCEPTION '没有锁定权限' USING ERRCODE = '42501';
+    END IF;
+    v_to_status := 'locked';
+  ELSE
+    RAISE EXCEPTION '不支持的质检结论：%', p_result;
+  END IF;
+
+  SELECT * INTO v_batch FROM material_batches WHERE id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '批次不存在';
+  END IF;
+  IF v_batch.status NOT IN ('pending', 'available', 'locked') THEN
+    RAISE EXCEPTION '批次 % 当前状态不可质检', v_batch.batch_number;
+  END IF;
+  IF p_result = 'pass' AND v_batch.status = 'available' THEN
+    RAISE EXCEPTION '批次 % 已放行', v_batch.batch_number;
+  END IF;
+  IF p_result = 'pass' AND v_batch.expiry_date < CURRENT_DATE THEN
+    RAISE EXCEPTION '批次 % 已过期，不能放行', v_batch.batch_number;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_inspector_name
+  FROM public.users WHERE id = auth.uid();
+
+  PERFORM set_config('app.batch_status_source', 'inspect_batch', true);
+  UPDATE material_batches
+  SET status = v_to_status,
+      updated_at = NOW(),
+      updated_by = auth.uid()
+  WHERE id = v_batch.id;
+  PERFORM set_config('app.batch_status_source', '', true);
+
+  INSERT INTO batch_inspections (
+    batch_id, result, reason_code, notes, from_status, to_status, inspector_id, inspector_name
+  ) VALUES (
+    v_batch.id, p_result, COALESCE(p_reason_code, 'other'), p_notes, v_batch.status, v_to_status,
+    auth.uid(), v_inspector_name
+  )
+  RETURNING * INTO v_inspection;
+
+  RETURN v_inspection;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.inspect_batch(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.inspect_batch(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- =============================================================================
+-- 4) 出库：增加 p_override，admin/manager 可对待检/锁定批次越权出库
+-- =============================================================================
+DROP FUNCTION IF EXISTS public.post_material_outbound(UUID, JSONB, TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.post_material_outbound(
+  p_material_id UUID,
+  p_allocations JSONB,
+  p_movement_type TEXT DEFAULT 'outbound',
+  p_reason_code TEXT DEFAULT 'requisition',
+  p_reason TEXT DEFAULT NULL,
+  p_reference_no TEXT DEFAULT NULL,
+  p_override BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF stock_movements AS $$
+DECLARE
+  v_line JSONB;
+  v_qty NUMERIC;
+  v_batch material_batches%ROWTYPE;
+  v_remaining NUMERIC;
+  v_operator_name TEXT;
+  v_reason TEXT;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有出库权限' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_override AND public.current_user_role() NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION '只有管理员或经理可以越权出库' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_movement_type NOT IN ('outbound', 'scrap') THEN
+    RAISE EXCEPTION '不支持的出库类型：%', p_movement_type;
+  END IF;
+
+  IF p_allocations IS NULL OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION '出库明细不能为空';
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator_name
+  FROM public.users WHERE id = auth.uid();
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    v_qty := (v_line->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION '出库数量必须大于0';
+    END IF;
+
+    -- 行锁：防止并发出库导致超扣
+    SELECT * INTO v_batch
+    FROM material_batches
+    WHERE id = (v_line->>'batch_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '批次不存在';
+    END IF;
+    IF v_batch.material_id <> p_material_id THEN
+      RAISE EXCEPTION '批次 % 不属于该物料', v_batch.batch_number;
+    END IF;
+    -- 报废允许处理已过期批次；待检/锁定批次仅在越权时可出库
+    IF NOT (
+      v_batch.status = 'available'
+      OR (p_movement_type = 'scrap' AND v_batch.status = 'expired')
+      OR (p_override AND v_batch.status IN ('pending', 'locked'))
+    ) THEN
+      RAISE EXCEPTION '批次 % 当前状态不可出库', v_batch.batch_number;
+    END IF;
+    IF p_movement_type = 'outbound' AND v_batch.expiry_date < CURRENT_DATE THEN
+      RAISE EXCEPTION '批次 % 已过期', v_batch.batch_number;
+    END IF;
+    IF v_qty > v_batch.remaining_quantity THEN
+      RAISE EXCEPTION '批次 % 库存不足（剩余 %）', v_batch.batch_number, v_batch.remaining_quantity;
+    END IF;
+
+    v_remaining := v_batch.remaining_quantity - v_qty;
+    v_reason := p_reason;
+    IF v_batch.status IN ('pending', 'locked') THEN
+      v_reason := CONCAT_WS(' ', p_reason, '[越权出库：批次状态 ' || v_batch.status || ']');
+    END IF;
+
+    UPDATE material_batches
+    SET remaining_quantity = v_remaining,
+        status = CASE WHEN v_remaining = 0 THEN 'disposed' ELSE status END,
+        updated_at = NOW(),
+        updated_by = auth.uid()
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movements (
+      batch_id, material_id, movement_type, quantity, balance_after,
+      reason_code, reason, reference_no, operator_id, operator_name
+    ) VALUES (
+      v_batch.id, v_batch.material_id, p_movement_type, -v_qty, v_remaining,
+      p_reason_code, v_reason, p_reference_no, auth.uid(), v_operator_name
+    )
+    RETURNING * INTO v_movement;
+
+    RETURN NEXT v_movement;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.post_material_outbound(UUID, JSONB, TEXT, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_material_outbound(UUID, JSONB, TEXT, TEXT, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+-- =============================================================================
+-- 5) RLS：所有登录用户可读；只通过 inspect_batch 写入
+-- =============================================================================
+ALTER TABLE batch_inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "batch_inspections_select_authenticated" ON batch_inspections
+  FOR SELECT USING (public.is_active_user());
+
+-- 不授予 INSERT/UPDATE/DELETE：否则可直接写入伪造的“合格”记录
+REVOKE ALL ON batch_inspections FROM anon, authenticated;
+GRANT SELECT ON batch_inspections TO authenticated;
@@ -0,0 +1,158 @@
+-- 批次号生成（服务端流水号）
+-- 目的：
+-- 1) 前端 generateBatchNumber 按“今天已有批次数 + 1”拼接 CODE-YYYYMMDD-NNN，002 的 generate_batch_number 又是另一种格式，
+--    两者都不是并发安全的：两人同时入库会得到相同批次号并触发 UNIQUE(material_id, batch_number)
+-- 2) 新增 batch_number_sequences 计数表，按“物料 + 周期”原子递增（INSERT ... ON CONFLICT DO UPDATE 持有行锁）
+-- 3) system_settings 新增批次号模板与流水号重置周期；模板支持 {MATERIAL} {SUPPLIER} {YYYYMMDD} {YYMMDD}
+--    {YYYY} {YY} {MM} {DD} {SEQ:n}（n 为位数，默认 3），前端格式化规则见 src/utils/batchNumberPattern.ts
+-- 4) 取代 002 的 generate_batch_number
+
+-- =============================================================================
+-- 1) 配置
+-- =============================================================================
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS batch_number_pattern VARCHAR(40) NOT NULL DEFAULT '{MATERIAL}-{YYYYMMDD}-{SEQ:3}'
+  CHECK (batch_number_pattern ~ '\{SEQ(:\d)?\}');
+
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS batch_number_reset VARCHAR(10) NOT NULL DEFAULT 'daily'
+  CHECK (batch_number_reset IN ('daily', 'monthly', 'yearly', 'never'));
+
+-- =============================================================================
+-- 2) 计数表：period 为 YYYYMMDD / YYYYMM / YYYY / ALL（随重置周期变化）
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS batch_number_sequences (
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    period VARCHAR(8) NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (material_id, period)
+);
+
+-- 仅通过 next_batch_number()（SECURITY DEFINER）读写
+ALTER TABLE batch_number_sequences ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON batch_number_sequences FROM anon, authenticated;
+
+-- =============================================================================
+-- 3) 模板格式化
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.format_batch_number(
+  p_pattern TEXT,
+  p_material_code TEXT,
+  p_supplier_code TEXT,
+  p_date DATE,
+  p_seq INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_result TEXT := p_pattern;
+  v_width INTEGER;
+BEGIN
+  v_result := REPLACE(v_result, '{MATERIAL}', p_material_code);
+  v_result := REPLACE(v_result, '{SUPPLIER}', COALESCE(NULLIF(p_supplier_code, ''), 'NA'));
+  v_result := REPLACE(v_result, '{YYYYMMDD}', TO_CHAR(p_date, 'YYYYMMDD'));
+  v_result := REPLACE(v_result, '{YYMMDD}', TO_CHAR(p_date, 'YYMMDD'));
+  v_result := REPLACE(v_result, '{YYYY}', TO_CHAR(p_date, 'YYYY'));
+  v_result := REPLACE(v_result, '{YY}', TO_CHAR(p_date, 'YY'));
+  v_result := REPLACE(v_result, '{MM}', TO_CHAR(p_date, 'MM'));
+  v_result := REPLACE(v_result, '{DD}', TO_CHAR(p_date, 'DD'));
+
+  -- 逐个替换流水号占位（允许出现多次且位数不同）；超出位数时不截断
+  WHILE v_result ~ '\{SEQ(:\d)?\}' LOOP
+    v_width := COALESCE((regexp_match(v_result, '\{SEQ(?::(\d))?\}'))[1]::INTEGER, 3);
+    v_result := regexp_replace(
+      v_result,
+      '\{SEQ(:\d)?\}',
+      CASE WHEN LENGTH(p_seq::TEXT) >= v_width THEN p_seq::TEXT ELSE LPAD(p_seq::TEXT, v_width, '0') END
+    );
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- =============================================================================
+-- 4) next_batch_number：p_preview = TRUE 时只预览下一个号，不占用流水号
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.next_batch_number(
+  p_material_id UUID,
+  p_supplier_id UUID DEFAULT NULL,
+  p_preview BOOLEAN DEFAULT FALSE
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_pattern TEXT;
+  v_reset TEXT;
+  v_material_code TEXT;
+  v_supplier_code TEXT;
+  v_period TEXT;
+  v_seq INTEGER;
+  v_number TEXT;
+BEGIN
+  IF NOT public.is_active_user() THEN
+    RAISE EXCEPTION '没有权限' USING ERRCODE = '42501';
+  END IF;
+  IF NOT p_preview AND public.current_user_role() NOT IN ('admin', 'manager', 'operator') THEN
+    RAISE EXCEPTION '没有入库权限' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT code INTO v_material_code FROM materials WHERE id = p_material_id;
+  IF v_material_code IS NULL THEN
+    RAISE EXCEPTION '物料不存在';
+  END IF;
+  IF p_supplier_id IS NOT NULL THEN
+    SELECT code INTO v_supplier_code FROM suppliers WHERE id = p_supplier_id;
+  END IF;
+
+  SELECT batch_number_pattern, batch_number_reset INTO v_pattern, v_reset
+  FROM system_settings
+  ORDER BY created_at DESC
+  LIMIT 1;
+  v_pattern := COALESCE(v_pattern, '{MATERIAL}-{YYYYMMDD}-{SEQ:3}');
+  v_reset := COALESCE(v_reset, 'daily');
+
+  v_period := CASE v_reset
+    WHEN 'daily' THEN TO_CHAR(CURRENT_DATE, 'YYYYMMDD')
+    WHEN 'monthly' THEN TO_CHAR(CURRENT_DATE, 'YYYYMM')
+    WHEN 'yearly' THEN TO_CHAR(CURRENT_DATE, 'YYYY')
+    ELSE 'ALL'
+  END;
+
+  IF p_preview THEN
+    SELECT last_value INTO v_seq
+    FROM batch_number_sequences
+    WHERE material_id = p_material_id AND period = v_period;
+    v_seq := COALESCE(v_seq, 0);
+  END IF;
+
+  -- 跳过历史数据/手工录入已占用的批次号
+  LOOP
+    IF p_preview THEN
+      v_seq := v_seq + 1;
+    ELSE
+      INSERT INTO batch_number_sequences (material_id, period, last_value)
+      VALUES (p_material_id, v_period, 1)
+      ON CONFLICT (material_id, period)
+      DO UPDATE SET last_value = batch_number_sequences.last_value + 1, updated_at = NOW()
+      RETURNING last_value INTO v_seq;
+    END IF;
+
+    v_number := public.format_batch_number(v_pattern, v_material_code, v_supplier_code, CURRENT_DATE, v_seq);
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM material_batches WHERE material_id = p_material_id AND batch_number = v_number
+    );
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.format_batch_number(TEXT, TEXT, TEXT, DATE, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.format_batch_number(TEXT, TEXT, TEXT, DATE, INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.next_batch_number(UUID, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.next_batch_number(UUID, UUID, BOOLEAN) TO authenticated;
+
+-- =============================================================================
+-- 5) 移除旧的批次号函数
+-- =============================================================================
+DROP FUNCTION IF EXISTS generate_batch_number(UUID);
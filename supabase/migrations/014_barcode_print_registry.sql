@@ -0,0 +1,153 @@
+-- 条码登记与打印计数
+-- 目的：
+-- 1) barcodes 表自建库起从未写入：条码生成页、标签打印页生成/打印的条码都不落库，无法追溯某个码打印过几次、何时打印
+-- 2) 同一个码（物料 + 批次 + 码值 + 码制）只登记一行：首次生成/打印时插入，重复打印累加 print_count
+-- 3) 新增 barcode_print_logs 打印记录（每次打印/补打一行：份数、来源、操作人），用于条码台账查看补打历史
+-- 4) 自定义内容的条码不属于任何物料，material_id 放开为可空
+-- 5) 停用的条码不允许再生成/打印（is_active 由 admin/manager/operator 在条码台账维护）
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+ALTER TABLE barcodes ALTER COLUMN material_id DROP NOT NULL;
+
+-- 历史上若有重复登记，保留最早的一行并合并打印次数，再建唯一索引
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER w AS keep_id,
+    SUM(COALESCE(print_count, 0)) OVER (PARTITION BY barcode, barcode_type, material_id, batch_id) AS total_prints,
+    MAX(last_printed_at) OVER (PARTITION BY barcode, barcode_type, material_id, batch_id) AS last_printed
+  FROM barcodes
+  WINDOW w AS (PARTITION BY barcode, barcode_type, material_id, batch_id ORDER BY created_at, id)
+)
+UPDATE barcodes b
+SET print_count = r.total_prints, last_printed_at = r.last_printed
+FROM ranked r
+WHERE b.id = r.id AND r.id = r.keep_id;
+
+DELETE FROM barcodes b
+USING barcodes k
+WHERE b.barcode = k.barcode
+  AND b.barcode_type = k.barcode_type
+  AND b.material_id IS NOT DISTINCT FROM k.material_id
+  AND b.batch_id IS NOT DISTINCT FROM k.batch_id
+  AND (k.created_at, k.id) < (b.created_at, b.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_barcodes_identity ON barcodes (
+  barcode,
+  barcode_type,
+  (COALESCE(material_id, '00000000-0000-0000-0000-000000000000'::uuid)),
+  (COALESCE(batch_id, '00000000-0000-0000-0000-000000000000'::uuid))
+);
+
+CREATE TABLE IF NOT EXISTS barcode_print_logs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    barcode_id UUID NOT NULL REFERENCES barcodes(id) ON DELETE CASCADE,
+    copies INTEGER NOT NULL CHECK (copies > 0),
+    -- generator=条码生成页；label=标签打印页；reprint=条码台账补打
+    source VARCHAR(20) NOT NULL CHECK (source IN ('generator', 'label', 'reprint')),
+    printed_by UUID REFERENCES auth.users(id),
+    printed_by_name VARCHAR(100),
+    printed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_barcode_print_logs_barcode ON barcode_print_logs(barcode_id, printed_at DESC);
+
+-- =============================================================================
+-- 2) register_barcode：登记条码；p_copies > 0 时同时记一次打印
+-- 说明：viewer 也能打印标签，因此以 SECURITY DEFINER 写入，只校验登录状态；
+--       停用/启用仍走 barcodes 表的 RLS（admin/manager/operator）；
+--       批次码的批次未放行（非 available）时只有 admin/manager 以 p_override 越权才能登记
+-- =============================================================================
+DROP FUNCTION IF EXISTS public.register_barcode(TEXT, TEXT, TEXT, TEXT, UUID, UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.register_barcode(
+  p_barcode TEXT,
+  p_barcode_type TEXT,
+  p_format TEXT,
+  p_data TEXT DEFAULT NULL,
+  p_material_id UUID DEFAULT NULL,
+  p_batch_id UUID DEFAULT NULL,
+  p_copies INTEGER DEFAULT 0,
+  p_source TEXT DEFAULT 'generator',
+  p_override BOOLEAN DEFAULT FALSE
+)
+RETURNS barcodes AS $$
+DECLARE
+  v_barcode barcodes%ROWTYPE;
+  v_material_id UUID := p_material_id;
+  v_batch material_batches%ROWTYPE;
+  v_operator TEXT;
+BEGIN
+  IF NOT public.is_active_user() THEN
+    RAISE EXCEPTION '没有权限' USING ERRCODE = '42501';
+  END IF;
+  IF p_override AND public.current_user_role() NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION '只有管理员或经理可以越权打印' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(TRIM(p_barcode), '') IS NULL THEN
+    RAISE EXCEPTION '条码内容不能为空';
+  END IF;
+  IF COALESCE(p_copies, 0) < 0 THEN
+    RAISE EXCEPTION '打印份数不能为负数';
+  END IF;
+
+  -- 批次码归属批次所属物料
+  IF p_batch_id IS NOT NULL THEN
+    SELECT * INTO v_batch FROM material_batches WHERE id = p_batch_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '批次不存在';
+    END IF;
+    IF v_batch.status <> 'available' AND NOT COALESCE(p_override, FALSE) THEN
+      RAISE EXCEPTION '批次 % 未放行，不能打印标签', v_batch.batch_number;
+    END IF;
+    v_material_id := v_batch.material_id;
+  END IF;
+
+  INSERT INTO barcodes (material_id, batch_id, barcode, barcode_type, format, data, created_by)
+  VALUES (v_material_id, p_batch_id, p_barcode, p_barcode_type, p_format, COALESCE(p_data, p_barcode), auth.uid())
+  ON CONFLICT (
+    barcode,
+    barcode_type,
+    (COALESCE(material_id, '00000000-0000-0000-0000-000000000000'::uuid)),
+    (COALESCE(batch_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  )
+  DO UPDATE SET data = EXCLUDED.data
+  RETURNING * INTO v_barcode;
+
+  IF NOT v_barcode.is_active THEN
+    RAISE EXCEPTION '条码 % 已停用，不能再生成或打印', v_barcode.barcode;
+  END IF;
+  IF COALESCE(p_copies, 0) = 0 THEN
+    RETURN v_barcode;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator FROM users WHERE id = auth.uid();
+
+  UPDATE barcodes
+  SET print_count = COALESCE(print_count, 0) + p_copies,
+      last_printed_at = NOW()
+  WHERE id = v_barcode.id
+  RETURNING * INTO v_barcode;
+
+  INSERT INTO barcode_print_logs (barcode_id, copies, source, printed_by, printed_by_name)
+  VALUES (v_barcode.id, p_copies, p_source, auth.uid(), v_operator);
+
+  RETURN v_barcode;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.register_barcode(TEXT, TEXT, TEXT, TEXT, UUID, UUID, INTEGER, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_barcode(TEXT, TEXT, TEXT, TEXT, UUID, UUID, INTEGER, TEXT, BOOLEAN) TO authenticated;
+
+-- =============================================================================
+-- 3) RLS：打印记录所有登录用户可读，只通过 register_barcode 写入
+-- =============================================================================
+ALTER TABLE barcode_print_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "barcode_print_logs_select_authenticated" ON barcode_print_logs
+  FOR SELECT USING (public.is_active_user());
+
+REVOKE ALL ON barcode_print_logs FROM anon, authenticated;
+GRANT SELECT ON barcode_print_logs TO authenticated;
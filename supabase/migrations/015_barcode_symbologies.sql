@@ -0,0 +1,27 @@
+-- 条码码制扩充
+-- 目的：
+-- 1) 条码生成支持 EAN-13 / EAN-8 / UPC-A / ITF-14 / Code 39 / Code 128，登记到 barcodes 时 barcode_type 需要对应放开
+-- 2) GTIN 类码制（EAN/UPC/ITF-14）的校验位由前端计算并校验（src/utils/barcodeSymbology.ts），这里兜底校验位数与纯数字
+--    （历史数据不回溯校验，约束以 NOT VALID 添加）
+
+-- =============================================================================
+-- 1) barcode_type 取值
+-- =============================================================================
+ALTER TABLE barcodes DROP CONSTRAINT IF EXISTS barcodes_barcode_type_check;
+ALTER TABLE barcodes ADD CONSTRAINT barcodes_barcode_type_check
+  CHECK (barcode_type IN ('code128', 'code39', 'ean13', 'ean8', 'upc', 'itf14', 'qr_code'));
+
+-- =============================================================================
+-- 2) GTIN 类码值：纯数字且位数固定（含校验位）
+-- =============================================================================
+ALTER TABLE barcodes DROP CONSTRAINT IF EXISTS barcodes_gtin_length_check;
+ALTER TABLE barcodes ADD CONSTRAINT barcodes_gtin_length_check
+  CHECK (
+    CASE barcode_type
+      WHEN 'ean13' THEN barcode ~ '^\d{13}$'
+      WHEN 'ean8' THEN barcode ~ '^\d{8}$'
+      WHEN 'upc' THEN barcode ~ '^\d{12}$'
+      WHEN 'itf14' THEN barcode ~ '^\d{14}$'
+      ELSE TRUE
+    END
+  ) NOT VALID;
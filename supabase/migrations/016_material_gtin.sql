@@ -0,0 +1,17 @@
+-- 物料 GTIN（GS1 标签）
+-- 目的：
+-- 1) 客户要求来货托盘贴 GS1 标签：(01) GTIN、(10) 批号、(11) 生产日期、(17) 有效期、(37) 数量
+-- 2) 物料新增 gtin 列（GTIN-8/12/13/14 原样保存，编码时补零为 14 位），同一 GTIN 只能对应一个物料
+-- 3) 校验位由前端校验（src/utils/gs1.ts），这里兜底纯数字与位数
+-- 4) barcodes.barcode_type 增加 gs1_128 / gs1_datamatrix
+
+ALTER TABLE materials
+  ADD COLUMN IF NOT EXISTS gtin VARCHAR(14)
+  CHECK (gtin IS NULL OR gtin ~ '^(\d{8}|\d{12}|\d{13}|\d{14})$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_materials_gtin ON materials(gtin) WHERE gtin IS NOT NULL;
+
+-- 标签上的 GS1-128 / GS1 Data Matrix 同样登记到条码台账（barcode 存人工识读文本，如 (01)...(10)...）
+ALTER TABLE barcodes DROP CONSTRAINT IF EXISTS barcodes_barcode_type_check;
+ALTER TABLE barcodes ADD CONSTRAINT barcodes_barcode_type_check
+  CHECK (barcode_type IN ('code128', 'code39', 'ean13', 'ean8', 'upc', 'itf14', 'qr_code', 'gs1_128', 'gs1_datamatrix'));
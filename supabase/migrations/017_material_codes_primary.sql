@@ -0,0 +1,78 @@
+-- 物料多编码（内部/供应商/客户/条码）启用
+-- 目的：
+-- 1) material_codes 自 001 起就存在但一直未使用；物料详情页开始维护多编码，物料搜索/标签选物料/扫码都按多编码匹配
+-- 2) 每个物料最多一个主编码（is_primary），用于列表与标签下拉中优先展示
+-- 3) 按编码查找忽略大小写（供应商编码常有大小写混用）：前端统一用 ILIKE（精确查找时转义通配符），
+--    由 pg_trgm 三元组索引支撑，精确查找与物料搜索中的模糊匹配都能走索引
+-- 4) 新增/修改编码统一走 save_material_code：切换主编码（取消原主编码 + 设置新主编码）在同一事务内完成，
+--    任一步失败整体回滚，物料不会因为半途失败而没有主编码
+
+-- 历史数据若有多个主编码，只保留最早创建的一个
+UPDATE material_codes c
+SET is_primary = FALSE
+WHERE is_primary
+  AND EXISTS (
+    SELECT 1 FROM material_codes o
+    WHERE o.material_id = c.material_id
+      AND o.is_primary
+      AND (o.created_at, o.id) < (c.created_at, c.id)
+  );
+
+-- 001 的列可为空（仅 DEFAULT FALSE），显式写入 NULL 的历史行先回填，否则 SET NOT NULL 会失败
+UPDATE material_codes SET is_primary = FALSE WHERE is_primary IS NULL;
+
+ALTER TABLE material_codes ALTER COLUMN is_primary SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_material_codes_primary ON material_codes(material_id) WHERE is_primary;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_material_codes_code_trgm ON material_codes USING gin (code gin_trgm_ops);
+
+-- =============================================================================
+-- 保存物料编码（p_id 为空时新增）；p_data 含 material_id/code/code_type/is_primary/description
+-- 调用者权限执行（SECURITY INVOKER），写入仍受 material_codes 的 RLS 约束（admin/manager 可写）
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.save_material_code(p_id UUID, p_data JSONB)
+RETURNS material_codes AS $$
+DECLARE
+  v_code material_codes%ROWTYPE;
+BEGIN
+  IF p_id IS NULL THEN
+    INSERT INTO material_codes (material_id, code, code_type, is_primary, description, created_by)
+    VALUES (
+      (p_data->>'material_id')::UUID,
+      TRIM(p_data->>'code'),
+      p_data->>'code_type',
+      FALSE,
+      p_data->>'description',
+      auth.uid()
+    )
+    RETURNING * INTO v_code;
+  ELSE
+    UPDATE material_codes
+    SET code = COALESCE(TRIM(p_data->>'code'), code),
+        code_type = COALESCE(p_data->>'code_type', code_type),
+        description = CASE WHEN p_data ? 'description' THEN p_data->>'description' ELSE description END,
+        is_primary = CASE WHEN (p_data->>'is_primary')::BOOLEAN IS FALSE THEN FALSE ELSE is_primary END
+    WHERE id = p_id
+    RETURNING * INTO v_code;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '物料编码不存在';
+    END IF;
+  END IF;
+
+  -- 先取消原主编码再设置新主编码，部分唯一索引 idx_material_codes_primary 不会冲突
+  IF COALESCE((p_data->>'is_primary')::BOOLEAN, FALSE) AND NOT v_code.is_primary THEN
+    UPDATE material_codes SET is_primary = FALSE
+    WHERE material_id = v_code.material_id AND is_primary AND id <> v_code.id;
+
+    UPDATE material_codes SET is_primary = TRUE
+    WHERE id = v_code.id
+    RETURNING * INTO v_code;
+  END IF;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_material_code(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_material_code(UUID, JSONB) TO authenticated;
@@ -0,0 +1,62 @@
+-- 物料分类层级管理
+-- 目的：
+-- 1) material_categories.parent_id 自 001 起存在但从未使用；前端开始支持新建/编辑/拖拽调整上级
+-- 2) 数据库层面禁止形成环（挂到自己或自己的下级），离线模式由前端做同样的校验
+-- 3) 删除分类前给出可读的拦截原因：仍有下级分类或物料引用时不允许删除（外键本身也会拦截，但报错不可读）
+
+CREATE INDEX IF NOT EXISTS idx_material_categories_parent ON material_categories(parent_id);
+
+CREATE OR REPLACE FUNCTION public.prevent_category_cycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.parent_id = NEW.id THEN
+    RAISE EXCEPTION '分类不能以自己为上级';
+  END IF;
+
+  -- 从新上级一路向上查找，若遇到自己说明会形成环
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM material_categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM material_categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION '不能把分类移动到它自己的下级分类下';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_category_cycle_trigger ON material_categories;
+CREATE TRIGGER prevent_category_cycle_trigger
+  BEFORE INSERT OR UPDATE OF parent_id ON material_categories
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_category_cycle();
+
+CREATE OR REPLACE FUNCTION public.guard_category_delete()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count FROM material_categories WHERE parent_id = OLD.id;
+  IF v_count > 0 THEN
+    RAISE EXCEPTION '分类 % 下还有 % 个下级分类，请先移走或删除', OLD.code, v_count;
+  END IF;
+
+  SELECT COUNT(*) INTO v_count FROM materials WHERE category_id = OLD.id;
+  IF v_count > 0 THEN
+    RAISE EXCEPTION '仍有 % 个物料使用分类 %，请先调整这些物料的分类', v_count, OLD.code;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_category_delete_trigger ON material_categories;
+CREATE TRIGGER guard_category_delete_trigger
+  BEFORE DELETE ON material_categories
+  FOR EACH ROW EXECUTE FUNCTION public.guard_category_delete();
@@ -0,0 +1,64 @@
+-- 计量单位维护与换算
+-- 目的：
+-- 1) units 自 001 起带有 category / conversion_factor / base_unit，但种子数据的换算系数全是 1（克 = 千克显然不对）
+--    约定：conversion_factor 为“1 个该单位 = 多少个基准单位”，base_unit 为同类基准单位的编码；基准单位自身 base_unit 为空、系数为 1
+--    同类且基准相同的单位之间可以互相换算（如 g <-> kg）
+-- 2) 新增 material_units：物料级的包装单位（如 1 箱 = 24 件、1 袋 = 25 kg），换算到物料自身的库存单位
+-- 3) 库存（批次数量、流水）始终以物料的库存单位记录；包装单位只在录入时换算
+
+-- =============================================================================
+-- 1) 修正标准单位换算系数，补充常用包装单位
+-- =============================================================================
+UPDATE units SET conversion_factor = 0.001, base_unit = 'KG' WHERE code = 'G';
+UPDATE units SET conversion_factor = 0.001, base_unit = 'L' WHERE code = 'ML';
+UPDATE units SET conversion_factor = 1, base_unit = NULL WHERE code IN ('PCS', 'KG', 'L', 'M', 'M2');
+UPDATE units SET conversion_factor = 1 WHERE conversion_factor IS NULL;
+
+ALTER TABLE units ALTER COLUMN conversion_factor SET NOT NULL;
+ALTER TABLE units DROP CONSTRAINT IF EXISTS units_conversion_factor_positive;
+ALTER TABLE units ADD CONSTRAINT units_conversion_factor_positive CHECK (conversion_factor > 0);
+
+-- 包装单位本身没有通用换算关系（每种物料一箱装多少不同），只能通过 material_units 换算
+INSERT INTO units (code, name, symbol, category) VALUES
+('BOX', '箱', '箱', 'piece'),
+('BAG', '袋', '袋', 'piece'),
+('PACK', '包', '包', 'piece'),
+('PLT', '托盘', '托', 'piece')
+ON CONFLICT (code) DO NOTHING;
+
+-- =============================================================================
+-- 2) 物料包装单位
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS material_units (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    unit_id UUID NOT NULL REFERENCES units(id),
+    -- 1 个该单位 = 多少个物料库存单位
+    conversion_factor DECIMAL(12,4) NOT NULL CHECK (conversion_factor > 0),
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id),
+    UNIQUE (material_id, unit_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_units_material ON material_units(material_id);
+
+DROP TRIGGER IF EXISTS update_material_units_updated_at ON material_units;
+CREATE TRIGGER update_material_units_updated_at BEFORE UPDATE ON material_units
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 3) RLS：所有登录用户可读；admin/manager 可维护（与物料多编码一致）
+-- =============================================================================
+ALTER TABLE material_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "material_units_select_authenticated" ON material_units
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "material_units_write_admin_manager" ON material_units
+  FOR ALL
+  USING (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'))
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'));
+
+REVOKE ALL ON material_units FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON material_units TO authenticated;
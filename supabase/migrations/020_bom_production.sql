@@ -0,0 +1,263 @@
+-- 物料清单（BOM）与生产入库
+-- 目的：
+-- 1) 成品（FG）由原材料（RAW）加工而成：新增 bom_items，记录“1 个成品库存单位消耗多少个组件库存单位”及损耗率（%）
+-- 2) 新增生产单 production_orders / production_order_inputs：一次生产在一个事务内
+--    按投料明细扣减组件批次（outbound/production 流水，reference_no 为生产单号，related_batch_id 指向产出批次），
+--    并生成成品批次（inbound/production 流水），投料明细记录实际使用的组件批次，便于正反向追溯
+-- 3) 成品批次号沿用 next_batch_number；有放行权限（admin/manager）时直接可用，否则待检（与手工入库一致）
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS bom_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    parent_material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    -- 仍在 BOM 中使用的组件不允许直接删除
+    component_material_id UUID NOT NULL REFERENCES materials(id) ON DELETE RESTRICT,
+    -- 每 1 个成品库存单位消耗的组件数量（组件库存单位）
+    quantity DECIMAL(12,4) NOT NULL CHECK (quantity > 0),
+    -- 损耗率（%）：实际需求 = 成品数量 × quantity × (1 + scrap_rate / 100)
+    scrap_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (scrap_rate >= 0 AND scrap_rate < 100),
+    remarks TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id),
+    UNIQUE (parent_material_id, component_material_id),
+    CHECK (parent_material_id <> component_material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bom_items_parent ON bom_items(parent_material_id);
+CREATE INDEX IF NOT EXISTS idx_bom_items_component ON bom_items(component_material_id);
+
+DROP TRIGGER IF EXISTS update_bom_items_updated_at ON bom_items;
+CREATE TRIGGER update_bom_items_updated_at BEFORE UPDATE ON bom_items
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS production_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_no VARCHAR(50) UNIQUE NOT NULL,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    -- 产出的成品批次（批次被删除后保留生产记录）
+    batch_id UUID REFERENCES material_batches(id) ON DELETE SET NULL,
+    batch_number VARCHAR(50) NOT NULL,
+    remarks TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_by_name VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS production_order_inputs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES production_orders(id) ON DELETE CASCADE,
+    batch_id UUID REFERENCES material_batches(id) ON DELETE SET NULL,
+    material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+    -- 快照：组件批次删除后仍可追溯
+    batch_number VARCHAR(50) NOT NULL,
+    quantity DECIMAL(10,2) NOT NULL CHECK (quantity > 0),
+    movement_id UUID REFERENCES stock_movements(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_production_orders_material ON production_orders(material_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_production_order_inputs_order ON production_order_inputs(order_id);
+CREATE INDEX IF NOT EXISTS idx_production_order_inputs_batch ON production_order_inputs(batch_id);
+
+-- =============================================================================
+-- 2) post_production_order：投料出库 + 成品入库
+--    p_inputs 形如 [{"batch_id": "...", "quantity": 10}]；必须覆盖 BOM 中的每个组件，且只能投入 BOM 组件
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.post_production_order(
+  p_material_id UUID,
+  p_quantity NUMERIC,
+  p_inputs JSONB,
+  p_production_date DATE DEFAULT NULL,
+  p_expiry_date DATE DEFAULT NULL,
+  p_location_id UUID DEFAULT NULL,
+  p_remarks TEXT DEFAULT NULL
+)
+RETURNS production_orders AS $$
+DECLARE
+  v_prefix TEXT := 'MO-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_order_no TEXT;
+  v_operator_name TEXT;
+  v_line JSONB;
+  v_qty NUMERIC;
+  v_batch material_batches%ROWTYPE;
+  v_output material_batches%ROWTYPE;
+  v_order production_orders%ROWTYPE;
+  v_movement_id UUID;
+  v_missing TEXT;
+  v_total NUMERIC;
+  v_required NUMERIC;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有生产入库权限' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION '生产数量必须大于0';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM bom_items WHERE parent_material_id = p_material_id) THEN
+    RAISE EXCEPTION '该物料未维护物料清单（BOM）';
+  END IF;
+  IF p_inputs IS NULL OR jsonb_array_length(p_inputs) = 0 THEN
+    RAISE EXCEPTION '投料明细不能为空';
+  END IF;
+
+  SELECT m.code INTO v_missing
+  FROM bom_items bi
+  JOIN materials m ON m.id = bi.component_material_id
+  WHERE bi.parent_material_id = p_material_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(p_inputs) l
+      JOIN material_batches b ON b.id = (l->>'batch_id')::UUID
+      WHERE b.material_id = bi.component_material_id
+    )
+  LIMIT 1;
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION '组件 % 没有投料批次', v_missing;
+  END IF;
+
+  SELECT b.batch_number INTO v_missing
+  FROM jsonb_array_elements(p_inputs) l
+  JOIN material_batches b ON b.id = (l->>'batch_id')::UUID
+  WHERE NOT EXISTS (
+    SELECT 1 FROM bom_items
+    WHERE parent_material_id = p_material_id AND component_material_id = b.material_id
+  )
+  LIMIT 1;
+  IF v_missing IS NOT NULL THEN
+    RAISE EXCEPTION '批次 % 不是该成品的 BOM 组件', v_missing;
+  END IF;
+
+  -- 每个组件的投料合计须等于 BOM 需求（成品数量 × 单耗 × (1 + 损耗率%)）；
+  -- 投料数量只保留两位小数，允许 0.01 的舍入差
+  SELECT m.code, COALESCE(t.total, 0), p_quantity * bi.quantity * (1 + COALESCE(bi.scrap_rate, 0) / 100)
+  INTO v_missing, v_total, v_required
+  FROM bom_items bi
+  JOIN materials m ON m.id = bi.component_material_id
+  LEFT JOIN (
+    SELECT b.material_id, SUM((l->>'quantity')::NUMERIC) AS total
+    FROM jsonb_array_elements(p_inputs) l
+    JOIN material_batches b ON b.id = (l->>'batch_id')::UUID
+    GROUP BY b.material_id
+  ) t ON t.material_id = bi.component_material_id
+  WHERE bi.parent_material_id = p_material_id
+    AND ABS(COALESCE(t.total, 0) - p_quantity * bi.quantity * (1 + COALESCE(bi.scrap_rate, 0) / 100)) > 0.01
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION '组件 % 投料合计 % 与 BOM 需求 % 不一致', v_missing, v_total, ROUND(v_required, 2);
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator_name
+  FROM public.users WHERE id = auth.uid();
+
+  -- 单号按天递增；事务级咨询锁避免并发拿到相同序号
+  PERFORM pg_advisory_xact_lock(hashtext('production_order_no'));
+  SELECT COUNT(*) + 1 INTO v_seq FROM production_orders WHERE order_no LIKE v_prefix || '%';
+  v_order_no := v_prefix || LPAD(v_seq::TEXT, 3, '0');
+
+  -- 1) 成品批次 + 入库流水
+  INSERT INTO material_batches (
+    material_id, batch_number, production_date, expiry_date, quantity, remaining_quantity,
+    status, location_id, remarks, created_by, updated_by
+  ) VALUES (
+    p_material_id, public.next_batch_number(p_material_id, NULL, FALSE),
+    COALESCE(p_production_date, CURRENT_DATE), p_expiry_date, p_quantity, p_quantity,
+    CASE WHEN public.current_user_role() IN ('admin', 'manager') THEN 'available' ELSE 'pending' END,
+    p_location_id, '生产单 ' || v_order_no, auth.uid(), auth.uid()
+  )
+  RETURNING * INTO v_output;
+
+  INSERT INTO stock_movements (
+    batch_id, material_id, movement_type, quantity, balance_after,
+    reason_code, reason, reference_no, operator_id, operator_name
+  ) VALUES (
+    v_output.id, p_material_id, 'inbound', p_quantity, p_quantity,
+    'production', p_remarks, v_order_no, auth.uid(), v_operator_name
+  );
+
+  INSERT INTO production_orders (order_no, material_id, quantity, batch_id, batch_number, remarks, created_by, created_by_name)
+  VALUES (v_order_no, p_material_id, p_quantity, v_output.id, v_output.batch_number, p_remarks, auth.uid(), v_operator_name)
+  RETURNING * INTO v_order;
+
+  -- 2) 逐行扣减组件批次（校验口径与 post_material_outbound 一致，不允许越权投入待检/锁定批次）
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_inputs)
+  LOOP
+    v_qty := (v_line->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION '投料数量必须大于0';
+    END IF;
+
+    SELECT * INTO v_batch
+    FROM material_batches
+    WHERE id = (v_line->>'batch_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '批次不存在';
+    END IF;
+    IF v_batch.status <> 'available' THEN
+      RAISE EXCEPTION '批次 % 当前状态不可投料', v_batch.batch_number;
+    END IF;
+    IF v_batch.expiry_date < CURRENT_DATE THEN
+      RAISE EXCEPTION '批次 % 已过期', v_batch.batch_number;
+    END IF;
+    IF v_qty > v_batch.remaining_quantity THEN
+      RAISE EXCEPTION '批次 % 库存不足（剩余 %）', v_batch.batch_number, v_batch.remaining_quantity;
+    END IF;
+
+    UPDATE material_batches
+    SET remaining_quantity = remaining_quantity - v_qty,
+        status = CASE WHEN remaining_quantity - v_qty = 0 THEN 'disposed' ELSE status END,
+        updated_at = NOW(),
+        updated_by = auth.uid()
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movements (
+      batch_id, material_id, movement_type, quantity, balance_after, related_batch_id,
+      reason_code, reason, reference_no, operator_id, operator_name
+    ) VALUES (
+      v_batch.id, v_batch.material_id, 'outbound', -v_qty, v_batch.remaining_quantity - v_qty, v_output.id,
+      'production', '生产投料：' || v_output.batch_number, v_order_no, auth.uid(), v_operator_name
+    )
+    RETURNING id INTO v_movement_id;
+
+    INSERT INTO production_order_inputs (order_id, batch_id, material_id, batch_number, quantity, movement_id)
+    VALUES (v_order.id, v_batch.id, v_batch.material_id, v_batch.batch_number, v_qty, v_movement_id);
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.post_production_order(UUID, NUMERIC, JSONB, DATE, DATE, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_production_order(UUID, NUMERIC, JSONB, DATE, DATE, UUID, TEXT) TO authenticated;
+
+-- =============================================================================
+-- 3) RLS：所有登录用户可读；BOM 由 admin/manager 维护；生产单只通过 post_production_order 写入
+-- =============================================================================
+ALTER TABLE bom_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE production_order_inputs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "bom_items_select_authenticated" ON bom_items
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "bom_items_write_admin_manager" ON bom_items
+  FOR ALL
+  USING (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'))
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'));
+CREATE POLICY "production_orders_select_authenticated" ON production_orders
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "production_order_inputs_select_authenticated" ON production_order_inputs
+  FOR SELECT USING (public.is_active_user());
+
+REVOKE ALL ON bom_items FROM anon, authenticated;
+REVOKE ALL ON production_orders FROM anon, authenticated;
+REVOKE ALL ON production_order_inputs FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON bom_items TO authenticated;
+GRANT SELECT ON production_orders TO authenticated;
+GRANT SELECT ON production_order_inputs TO authenticated;
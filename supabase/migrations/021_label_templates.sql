@@ -0,0 +1,40 @@
+-- 可视化标签模板
+-- 目的：
+-- 1) 标签打印原先只有一种固定表格版式（LabelPrintTemplate），LabelConfig 只能调尺寸/字号和两个显示开关，无法满足不同客户的标签设计
+-- 2) 新增 label_templates：每个模板有名称、标签尺寸（mm）和元素列表；元素（文本/字段/条码/二维码/线/框/图片）的坐标与尺寸均以 mm 为单位
+-- 3) elements 以 JSONB 整体存储（结构见 src/types/database.ts 的 LabelElement），由设计器整体保存，数据库不拆分元素
+-- 4) 未选择模板时标签打印仍使用内置表格版式
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS label_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) UNIQUE NOT NULL,
+    description TEXT,
+    width_mm DECIMAL(6,1) NOT NULL CHECK (width_mm > 0 AND width_mm <= 300),
+    height_mm DECIMAL(6,1) NOT NULL CHECK (height_mm > 0 AND height_mm <= 300),
+    elements JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(elements) = 'array'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id)
+);
+
+DROP TRIGGER IF EXISTS update_label_templates_updated_at ON label_templates;
+CREATE TRIGGER update_label_templates_updated_at BEFORE UPDATE ON label_templates
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 2) RLS：所有登录用户可读（打印时选择模板）；admin/manager 可维护
+-- =============================================================================
+ALTER TABLE label_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "label_templates_select_authenticated" ON label_templates
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "label_templates_write_admin_manager" ON label_templates
+  FOR ALL
+  USING (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'))
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'));
+
+REVOKE ALL ON label_templates FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON label_templates TO authenticated;
@@ -0,0 +1,42 @@
+-- 物料/供应商默认标签模板与打印张数
+-- 目的：
+-- 1) 有了多个标签模板后，操作员需要记住每个产品用哪个版式、打几张
+-- 2) materials / suppliers 新增 label_template_id、label_print_count；system_settings 新增全局默认
+-- 3) 标签打印按 物料 > 供应商（批次的供应商）> 全局 逐级取值，模板与张数分别解析（见 src/utils/labelTemplate.ts）
+-- 4) 模板删除时引用置空，回落到下一级
+
+-- =============================================================================
+-- 1) 字段
+-- =============================================================================
+ALTER TABLE materials
+  ADD COLUMN IF NOT EXISTS label_template_id UUID REFERENCES label_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS label_print_count INTEGER CHECK (label_print_count IS NULL OR label_print_count BETWEEN 1 AND 100);
+
+ALTER TABLE suppliers
+  ADD COLUMN IF NOT EXISTS label_template_id UUID REFERENCES label_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS label_print_count INTEGER CHECK (label_print_count IS NULL OR label_print_count BETWEEN 1 AND 100);
+
+ALTER TABLE system_settings
+  ADD COLUMN IF NOT EXISTS default_label_template_id UUID REFERENCES label_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS default_label_print_count INTEGER NOT NULL DEFAULT 1
+  CHECK (default_label_print_count BETWEEN 1 AND 100);
+
+-- =============================================================================
+-- 2) 全局默认对所有登录用户可读
+-- =============================================================================
+-- 说明：system_settings 仅 admin/manager 可读（见 004），与 get_near_expiry_days 一样单独暴露
+CREATE OR REPLACE FUNCTION public.get_label_defaults()
+RETURNS JSONB AS $$
+  SELECT COALESCE((
+    SELECT jsonb_build_object(
+      'template_id', default_label_template_id,
+      'print_count', default_label_print_count
+    )
+    FROM system_settings
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), jsonb_build_object('template_id', NULL, 'print_count', 1));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_label_defaults() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_label_defaults() TO authenticated;
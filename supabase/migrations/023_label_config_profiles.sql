@@ -0,0 +1,91 @@
+-- 标签打印配置方案
+-- 目的：
+-- 1) 内置表格标签的 LabelConfig 原先只存在各工作站浏览器的 localStorage，每台电脑都要单独调整；
+--    前端配置版本号变化时整份配置被清空，手工校准的偏移也随之丢失
+-- 2) 新增 label_config_profiles：共享版式（尺寸、边距、表格、字号、公司名称、条码来源等）保存为命名方案，所有工作站共用
+-- 3) 打印位置校准（offsetX/offsetY）与预览缩放和具体打印机/屏幕有关，仍只保存在各工作站本机，不进入方案
+-- 4) config 以 JSONB 整体存储并记录 config_version；前端按版本逐步升级、逐字段校验，旧字段不再整体丢弃
+-- 5) 至多一个默认方案（is_default），工作站未选择方案时使用；新增/修改/设默认统一走 save_label_config_profile，
+--    取消旧默认与设置新默认在同一事务内完成，失败时整体回滚，不会出现没有默认方案的中间状态
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS label_config_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) UNIQUE NOT NULL,
+    config JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(config) = 'object'),
+    config_version INTEGER NOT NULL DEFAULT 5 CHECK (config_version > 0),
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_by UUID REFERENCES auth.users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_config_profiles_single_default
+  ON label_config_profiles (is_default) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_label_config_profiles_updated_at ON label_config_profiles;
+CREATE TRIGGER update_label_config_profiles_updated_at BEFORE UPDATE ON label_config_profiles
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- 2) RLS：所有登录用户可读（打印时选择方案）；admin/manager 可维护
+-- =============================================================================
+ALTER TABLE label_config_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "label_config_profiles_select_authenticated" ON label_config_profiles
+  FOR SELECT USING (public.is_active_user());
+CREATE POLICY "label_config_profiles_write_admin_manager" ON label_config_profiles
+  FOR ALL
+  USING (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'))
+  WITH CHECK (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager'));
+
+REVOKE ALL ON label_config_profiles FROM anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON label_config_profiles TO authenticated;
+
+-- =============================================================================
+-- 3) 保存方案（p_id 为空时新增）；p_data 含 name/config/config_version/is_default，未提供的字段保持不变
+-- 调用者权限执行（SECURITY INVOKER），写入仍受上面的 RLS 约束（admin/manager 可写）
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.save_label_config_profile(p_id UUID, p_data JSONB)
+RETURNS label_config_profiles AS $$
+DECLARE
+  v_profile label_config_profiles%ROWTYPE;
+  v_default BOOLEAN := (p_data->>'is_default')::BOOLEAN;
+BEGIN
+  -- 先取消其他方案的默认标记，部分唯一索引 idx_label_config_profiles_single_default 不会冲突
+  IF v_default THEN
+    UPDATE label_config_profiles SET is_default = FALSE
+    WHERE is_default AND id IS DISTINCT FROM p_id;
+  END IF;
+
+  IF p_id IS NULL THEN
+    INSERT INTO label_config_profiles (name, config, config_version, is_default, created_by)
+    VALUES (
+      p_data->>'name',
+      COALESCE(p_data->'config', '{}'::jsonb),
+      COALESCE((p_data->>'config_version')::INTEGER, 5),
+      COALESCE(v_default, FALSE),
+      auth.uid()
+    )
+    RETURNING * INTO v_profile;
+  ELSE
+    UPDATE label_config_profiles
+    SET name = COALESCE(p_data->>'name', name),
+        config = COALESCE(p_data->'config', config),
+        config_version = COALESCE((p_data->>'config_version')::INTEGER, config_version),
+        is_default = COALESCE(v_default, is_default)
+    WHERE id = p_id
+    RETURNING * INTO v_profile;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '配置方案不存在';
+    END IF;
+  END IF;
+
+  RETURN v_profile;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_label_config_profile(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_label_config_profile(UUID, JSONB) TO authenticated;
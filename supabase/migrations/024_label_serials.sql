@@ -0,0 +1,201 @@
+-- 标签序号（托盘等逐张唯一的标签）
+-- 目的：
+-- 1) 标签打印按张数重复同一份标签，同一批次的多张标签无法区分；托盘标签需要逐张唯一（“1/24”“2/24”…），序号写入结构化标签码
+-- 2) 新增 label_serial_counters 计数表，按批次原子递增（INSERT ... ON CONFLICT DO UPDATE 持有行锁），补打时序号接着往后排
+-- 3) 新增 label_serials 签发记录：每张标签一行，记录序号、本次打印中的张次（job_index/job_total）与签发人；
+--    标签损坏/作废后可作废序号（保留记录，不删除），扫码时可据此识别已作废的标签
+-- 4) 序号模板保存在标签打印配置方案中，支持 {MATERIAL} {BATCH} {YYYYMMDD} {YYMMDD} {SEQ:n}（n 为位数，默认 4），
+--    前端格式化规则见 src/utils/labelSerial.ts
+
+-- =============================================================================
+-- 1) 表结构
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS label_serial_counters (
+    batch_id UUID PRIMARY KEY REFERENCES material_batches(id) ON DELETE CASCADE,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- 仅通过 issue_label_serials()（SECURITY DEFINER）读写
+ALTER TABLE label_serial_counters ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON label_serial_counters FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS label_serials (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_id UUID NOT NULL REFERENCES material_batches(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL CHECK (seq > 0),
+    -- 按模板渲染，含物料编码、批次号等可变长度内容，不限长度，避免长编码导致整次签发失败
+    serial TEXT NOT NULL,
+    -- 本次打印中的第几张 / 共几张（标签上显示为 “1/24”）
+    job_index INTEGER NOT NULL CHECK (job_index > 0),
+    job_total INTEGER NOT NULL CHECK (job_total >= job_index),
+    status VARCHAR(10) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'void')),
+    issued_by UUID REFERENCES auth.users(id),
+    issued_by_name VARCHAR(100),
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    void_reason TEXT,
+    voided_by UUID REFERENCES auth.users(id),
+    voided_by_name VARCHAR(100),
+    voided_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (batch_id, seq),
+    CHECK ((status = 'void') = (voided_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_label_serials_batch_serial ON label_serials(batch_id, serial);
+
+-- =============================================================================
+-- 2) 模板格式化
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.format_label_serial(
+  p_pattern TEXT,
+  p_material_code TEXT,
+  p_batch_number TEXT,
+  p_date DATE,
+  p_seq INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_result TEXT := p_pattern;
+  v_width INTEGER;
+BEGIN
+  v_result := REPLACE(v_result, '{MATERIAL}', p_material_code);
+  v_result := REPLACE(v_result, '{BATCH}', p_batch_number);
+  v_result := REPLACE(v_result, '{YYYYMMDD}', TO_CHAR(p_date, 'YYYYMMDD'));
+  v_result := REPLACE(v_result, '{YYMMDD}', TO_CHAR(p_date, 'YYMMDD'));
+
+  -- 逐个替换流水号占位（允许出现多次且位数不同）；超出位数时不截断
+  WHILE v_result ~ '\{SEQ(:\d)?\}' LOOP
+    v_width := COALESCE((regexp_match(v_result, '\{SEQ(?::(\d))?\}'))[1]::INTEGER, 4);
+    v_result := regexp_replace(
+      v_result,
+      '\{SEQ(:\d)?\}',
+      CASE WHEN LENGTH(p_seq::TEXT) >= v_width THEN p_seq::TEXT ELSE LPAD(p_seq::TEXT, v_width, '0') END
+    );
+  END LOOP;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- =============================================================================
+-- 3) issue_label_serials：为一次打印签发 p_count 个连续序号，返回签发记录（按序号排序）
+-- 说明：viewer 也能打印标签，与 register_barcode 一致只校验登录状态；
+--       未放行（非 available）的批次只有 admin/manager 以 p_override 越权打印时才签发
+-- =============================================================================
+DROP FUNCTION IF EXISTS public.issue_label_serials(UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.issue_label_serials(
+  p_batch_id UUID,
+  p_count INTEGER,
+  p_pattern TEXT,
+  p_override BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF label_serials AS $$
+DECLARE
+  v_material_code TEXT;
+  v_batch_number TEXT;
+  v_status TEXT;
+  v_last INTEGER;
+  v_operator TEXT;
+BEGIN
+  IF NOT public.is_active_user() THEN
+    RAISE EXCEPTION '没有权限' USING ERRCODE = '42501';
+  END IF;
+  IF p_override AND public.current_user_role() NOT IN ('admin', 'manager') THEN
+    RAISE EXCEPTION '只有管理员或经理可以越权打印' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(p_count, 0) < 1 OR p_count > 1000 THEN
+    RAISE EXCEPTION '序号数量必须在 1 到 1000 之间';
+  END IF;
+  IF p_pattern IS NULL OR p_pattern !~ '\{SEQ(:\d)?\}' THEN
+    RAISE EXCEPTION '序号模板必须包含 {SEQ} 或 {SEQ:n}';
+  END IF;
+  IF LENGTH(p_pattern) > 40 THEN
+    RAISE EXCEPTION '序号模板过长';
+  END IF;
+
+  SELECT m.code, b.batch_number, b.status INTO v_material_code, v_batch_number, v_status
+  FROM material_batches b
+  JOIN materials m ON m.id = b.material_id
+  WHERE b.id = p_batch_id;
+  IF v_batch_number IS NULL THEN
+    RAISE EXCEPTION '批次不存在';
+  END IF;
+  IF v_status <> 'available' AND NOT COALESCE(p_override, FALSE) THEN
+    RAISE EXCEPTION '批次 % 未放行，不能打印标签', v_batch_number;
+  END IF;
+
+  INSERT INTO label_serial_counters (batch_id, last_value)
+  VALUES (p_batch_id, p_count)
+  ON CONFLICT (batch_id)
+  DO UPDATE SET last_value = label_serial_counters.last_value + p_count, updated_at = NOW()
+  RETURNING last_value INTO v_last;
+
+  SELECT COALESCE(full_name, username) INTO v_operator FROM users WHERE id = auth.uid();
+
+  RETURN QUERY
+  INSERT INTO label_serials (batch_id, seq, serial, job_index, job_total, issued_by, issued_by_name)
+  SELECT
+    p_batch_id,
+    v_last - p_count + i,
+    public.format_label_serial(p_pattern, v_material_code, v_batch_number, CURRENT_DATE, v_last - p_count + i),
+    i,
+    p_count,
+    auth.uid(),
+    v_operator
+  FROM generate_series(1, p_count) AS i
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- 4) void_label_serials：作废序号（只作废仍为 issued 的记录），返回实际作废条数
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.void_label_serials(
+  p_serial_ids UUID[],
+  p_reason TEXT
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_operator TEXT;
+  v_count INTEGER;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有作废标签序号的权限' USING ERRCODE = '42501';
+  END IF;
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION '请填写作废原因';
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO v_operator FROM users WHERE id = auth.uid();
+
+  UPDATE label_serials
+  SET status = 'void',
+      void_reason = TRIM(p_reason),
+      voided_by = auth.uid(),
+      voided_by_name = v_operator,
+      voided_at = NOW()
+  WHERE id = ANY(p_serial_ids) AND status = 'issued';
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.format_label_serial(TEXT, TEXT, TEXT, DATE, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.format_label_serial(TEXT, TEXT, TEXT, DATE, INTEGER) TO authenticated;
+REVOKE ALL ON FUNCTION public.issue_label_serials(UUID, INTEGER, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_label_serials(UUID, INTEGER, TEXT, BOOLEAN) TO authenticated;
+REVOKE ALL ON FUNCTION public.void_label_serials(UUID[], TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.void_label_serials(UUID[], TEXT) TO authenticated;
+
+-- =============================================================================
+-- 5) RLS：签发记录所有登录用户可读，只通过上述函数写入
+-- =============================================================================
+ALTER TABLE label_serials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "label_serials_select_authenticated" ON label_serials
+  FOR SELECT USING (public.is_active_user());
+
+REVOKE ALL ON label_serials FROM anon, authenticated;
+GRANT SELECT ON label_serials TO authenticated;
@@ -0,0 +1,75 @@
+-- 按库位盘点包含下级库位
+-- 目的：
+-- 1) 009 的 create_stocktake 按 location 文本精确匹配，只能盘点单个库位；010 引入仓库 -> 库区 -> 库位层级后，
+--    选择仓库或库区应盘点其下所有库位中的批次
+-- 2) 盘点范围仍为 {"type": "location", "location": "<库位编码>"}，编码可以是仓库、库区或库位；已有盘点单不受影响
+
+-- =============================================================================
+-- 1) 创建盘点：库位范围按层级展开
+-- =============================================================================
+CREATE OR REPLACE FUNCTION public.create_stocktake(
+  p_scope JSONB,
+  p_remarks TEXT DEFAULT NULL
+)
+RETURNS stocktakes AS $$
+DECLARE
+  v_type TEXT := p_scope->>'type';
+  v_prefix TEXT := 'ST-' || TO_CHAR(CURRENT_DATE, 'YYYYMMDD') || '-';
+  v_seq INTEGER;
+  v_user_name TEXT;
+  v_stocktake stocktakes%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  IF NOT (public.is_active_user() AND public.current_user_role() IN ('admin', 'manager', 'operator')) THEN
+    RAISE EXCEPTION '没有盘点权限' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_type NOT IN ('location', 'category', 'materials') THEN
+    RAISE EXCEPTION '不支持的盘点范围：%', v_type;
+  END IF;
+
+  -- 同一天的单号按序递增；事务级咨询锁避免并发创建拿到相同序号
+  PERFORM pg_advisory_xact_lock(hashtext('stocktake_no'));
+  SELECT COUNT(*) + 1 INTO v_seq FROM stocktakes WHERE stocktake_no LIKE v_prefix || '%';
+
+  SELECT COALESCE(full_name, username) INTO v_user_name
+  FROM public.users WHERE id = auth.uid();
+
+  INSERT INTO stocktakes (stocktake_no, scope, remarks, created_by, created_by_name)
+  VALUES (v_prefix || LPAD(v_seq::TEXT, 3, '0'), p_scope, p_remarks, auth.uid(), v_user_name)
+  RETURNING * INTO v_stocktake;
+
+  -- 冻结：仅包含仍有库存、且未处置/未待入库的批次
+  INSERT INTO stocktake_items (
+    stocktake_id, batch_id, material_id, material_code, material_name,
+    batch_number, location, unit, system_quantity
+  )
+  SELECT v_stocktake.id, b.id, m.id, m.code, m.name, b.batch_number, b.location, u.name, b.remaining_quantity
+  FROM material_batches b
+  JOIN materials m ON m.id = b.material_id
+  LEFT JOIN units u ON u.id = m.unit_id
+  WHERE b.status IN ('available', 'locked', 'expired')
+    AND b.remaining_quantity > 0
+    AND CASE v_type
+      -- 选中仓库/库区时包含其下所有库位；location 文本匹配保留给未关联库位主数据的历史批次
+      WHEN 'location' THEN b.location = p_scope->>'location' OR b.location_id IN (
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM storage_locations WHERE code = p_scope->>'location'
+          UNION ALL
+          SELECT l.id FROM storage_locations l JOIN subtree s ON l.parent_id = s.id
+        )
+        SELECT id FROM subtree
+      )
+      WHEN 'category' THEN m.category_id = (p_scope->>'category_id')::UUID
+      ELSE b.material_id IN (SELECT jsonb_array_elements_text(p_scope->'material_ids')::UUID)
+    END
+  ORDER BY b.location NULLS LAST, m.code, b.batch_number;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION '盘点范围内没有可盘点的批次';
+  END IF;
+
+  RETURN v_stocktake;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;